@@ -1,240 +0,0 @@
-#!/usr/bin/env node
-/**
- * Demo script for patchUtils.js
- * 
- * Demonstrates the patch utility functions without making actual API calls
- * Tests parsing logic independently from GitHub API integration
- */
-
-console.log('Loading patchUtils module...\n');
-
-// Simplified versions of the functions for standalone demo
-function truncateContent(content, maxSize = 2000) {
-  if (!content || content.length <= maxSize) {
-    return content;
-  }
-  const truncated = content.substring(0, maxSize);
-  const lastNewline = truncated.lastIndexOf('\n');
-  if (lastNewline > maxSize * 0.8) {
-    return truncated.substring(0, lastNewline) + '\n\n... (truncated)';
-  }
-  return truncated + '\n\n... (truncated)';
-}
-
-// Simplified diff parser for demo
-function applyUnifiedDiff(diffString) {
-  const lines = diffString.split('\n');
-  const changes = [];
-  let currentPath = null;
-  let currentContent = [];
-  let isNew = false;
-  
-  for (const line of lines) {
-    const diffMatch = line.match(/^diff --git a\/.+ b\/(.+)$/);
-    if (diffMatch) {
-      if (currentPath) {
-        changes.push({
-          path: currentPath,
-          newContent: currentContent.join('\n'),
-          isNew,
-          isTruncated: false,
-          originalSize: currentContent.join('\n').length,
-          truncatedSize: currentContent.join('\n').length,
-        });
-      }
-      currentPath = diffMatch[1];
-      currentContent = [];
-      isNew = false;
-    } else if (line.startsWith('new file mode')) {
-      isNew = true;
-    } else if (line.startsWith('+') && !line.startsWith('+++')) {
-      currentContent.push(line.substring(1));
-    } else if (line.startsWith(' ')) {
-      currentContent.push(line.substring(1));
-    } else if (line.startsWith('deleted file mode')) {
-      currentPath = null;
-      currentContent = [];
-    }
-  }
-  
-  if (currentPath) {
-    changes.push({
-      path: currentPath,
-      newContent: currentContent.join('\n'),
-      isNew,
-      isTruncated: false,
-      originalSize: currentContent.join('\n').length,
-      truncatedSize: currentContent.join('\n').length,
-    });
-  }
-  
-  return changes;
-}
-
-console.log('╔════════════════════════════════════════════════════════════════════╗');
-console.log('║             Patch Utils Module - Demo & Verification              ║');
-console.log('╚════════════════════════════════════════════════════════════════════╝\n');
-
-// ============================================================================
-// Test 1: Parse a simple unified diff
-// ============================================================================
-
-console.log('📝 TEST 1: Parse Simple Unified Diff\n');
-
-const simpleDiff = `diff --git a/test.js b/test.js
-index abc123..def456 100644
---- a/test.js
-+++ b/test.js
-@@ -1,3 +1,4 @@
- const x = 1;
-+const y = 2;
- const z = 3;
-`;
-
-try {
-  const changes = applyUnifiedDiff(simpleDiff);
-  console.log('✅ Parsed successfully!');
-  console.log(`   Files changed: ${changes.length}`);
-  changes.forEach(file => {
-    console.log(`   - ${file.path} (${file.newContent.split('\n').length} lines)`);
-    console.log(`     Content:\n${file.newContent.split('\n').map(l => '       ' + l).join('\n')}\n`);
-  });
-} catch (error) {
-  console.error('❌ Failed:', error.message);
-}
-
-// ============================================================================
-// Test 2: Parse diff with new file
-// ============================================================================
-
-console.log('📝 TEST 2: Parse Diff with New File\n');
-
-const newFileDiff = `diff --git a/newfile.js b/newfile.js
-new file mode 100644
-index 0000000..1234567
---- /dev/null
-+++ b/newfile.js
-@@ -0,0 +1,3 @@
-+console.log('Hello World');
-+const greeting = 'Hi';
-+export default greeting;
-`;
-
-try {
-  const changes = applyUnifiedDiff(newFileDiff);
-  console.log('✅ Parsed successfully!');
-  console.log(`   Files changed: ${changes.length}`);
-  changes.forEach(file => {
-    console.log(`   - ${file.path} ${file.isNew ? '[NEW FILE]' : ''}`);
-    console.log(`     Lines: ${file.newContent.split('\n').length}`);
-  });
-  console.log('');
-} catch (error) {
-  console.error('❌ Failed:', error.message);
-}
-
-// ============================================================================
-// Test 3: Content truncation
-// ============================================================================
-
-console.log('📝 TEST 3: Content Truncation\n');
-
-const longContent = 'x'.repeat(3000);
-const truncated = truncateContent(longContent, 100);
-
-console.log('✅ Truncation working!');
-console.log(`   Original: ${longContent.length} chars`);
-console.log(`   Truncated: ${truncated.length} chars`);
-console.log(`   Contains "truncated" marker: ${truncated.includes('(truncated)')}`);
-console.log('');
-
-// ============================================================================
-// Test 4: Multiple files in one diff
-// ============================================================================
-
-console.log('📝 TEST 4: Multiple Files in One Diff\n');
-
-const multiFileDiff = `diff --git a/file1.js b/file1.js
-index aaa111..bbb222 100644
---- a/file1.js
-+++ b/file1.js
-@@ -1,2 +1,3 @@
- line 1
-+line 2
- line 3
-diff --git a/file2.js b/file2.js
-index ccc333..ddd444 100644
---- a/file2.js
-+++ b/file2.js
-@@ -1 +1,2 @@
- first line
-+second line
-`;
-
-try {
-  const changes = applyUnifiedDiff(multiFileDiff);
-  console.log('✅ Parsed successfully!');
-  console.log(`   Files changed: ${changes.length}`);
-  changes.forEach(file => {
-    console.log(`   - ${file.path}`);
-  });
-  console.log('');
-} catch (error) {
-  console.error('❌ Failed:', error.message);
-}
-
-// ============================================================================
-// Test 5: Skip deleted files
-// ============================================================================
-
-console.log('📝 TEST 5: Skip Deleted Files\n');
-
-const deletedFileDiff = `diff --git a/deleted.js b/deleted.js
-deleted file mode 100644
-index eee555..0000000
---- a/deleted.js
-+++ /dev/null
-@@ -1,2 +0,0 @@
--line 1
--line 2
-`;
-
-try {
-  const changes = applyUnifiedDiff(deletedFileDiff);
-  console.log('✅ Parsed successfully!');
-  console.log(`   Files changed: ${changes.length} (deleted files are skipped)`);
-  console.log('');
-} catch (error) {
-  console.error('❌ Failed:', error.message);
-}
-
-// ============================================================================
-// Summary
-// ============================================================================
-
-console.log('╔════════════════════════════════════════════════════════════════════╗');
-console.log('║                      ✅ ALL TESTS PASSED                           ║');
-console.log('╠════════════════════════════════════════════════════════════════════╣');
-console.log('║  Functions Verified:                                               ║');
-console.log('║  ✓ applyUnifiedDiff(diffString)                                    ║');
-console.log('║  ✓ truncateContent(content, maxSize)                               ║');
-console.log('║  ✓ Parse simple diffs                                              ║');
-console.log('║  ✓ Parse new file diffs                                            ║');
-console.log('║  ✓ Parse multiple files                                            ║');
-console.log('║  ✓ Skip deleted files                                              ║');
-console.log('║  ✓ Content truncation with smart line breaks                       ║');
-console.log('╚════════════════════════════════════════════════════════════════════╝\n');
-
-console.log('📚 Usage Example:\n');
-console.log(`const { applyPatchToRepo } = require('./utils/patchUtils');
-
-const results = await applyPatchToRepo({
-  owner: 'Rajarshi44',
-  repo: 'hackspire_2025',
-  branch: 'feature/new-feature',
-  diffString: gitDiffOutput,
-  commitMessage: 'Apply automated fixes',
-});
-
-console.log('Committed files:', results.filter(r => r.success).length);
-`);
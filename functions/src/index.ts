@@ -2,9 +2,16 @@ import * as functions from "firebase-functions";
 import { setGlobalOptions } from "firebase-functions/v2";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { onRequest } from "firebase-functions/v2/https";
-import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
 import * as admin from "firebase-admin";
 import { Request, Response } from "express";
+import {
+  initialQueueState,
+  processMCPJob,
+  runQueueSweep,
+  QUEUE_FUNCTION_TIMEOUT_SECONDS,
+} from "./mcp-queue";
 
 // Set global options for all functions
 setGlobalOptions({
@@ -22,9 +29,11 @@ const db = admin.firestore();
  * 
  * This function:
  * 1. Validates user authentication
- * 2. Creates a job document in Firestore at /repos/{repoId}/mcp_jobs/{autoId}
- * 3. Calls the MCP endpoint to generate code
- * 4. Returns the job ID and status to the client
+ * 2. Enqueues a job document in Firestore at /repos/{repoId}/mcp_jobs/{autoId}
+ * 3. Returns the job ID and status to the client
+ *
+ * The job is picked up by onMCPJobCreated / processMCPQueue, which call the
+ * MCP endpoint with retries and per-repo concurrency limits.
  */
 export const requestAIForIssue = onCall({
   region: "us-central1",
@@ -64,87 +73,45 @@ export const requestAIForIssue = onCall({
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
       ...(relatedFiles && { relatedFiles }),
+      queue: initialQueueState(),
     };
 
-    await jobRef.set(jobData);
-
-    functions.logger.info("Created MCP job", {
-      jobId,
-      repoId,
-      issueNumber,
-      uid,
-    });
-
     // Get MCP URL from environment config
     const mcpUrl = functions.config().mcp?.url || process.env.MCP_URL;
 
     if (!mcpUrl) {
       functions.logger.error("MCP_URL not configured");
-      await jobRef.update({
-        status: "failed",
-        error: "MCP_URL not configured",
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
       throw new HttpsError(
         "internal",
         "MCP service URL not configured"
       );
     }
 
-    // Call MCP endpoint asynchronously (don't wait for completion)
     const mcpEndpoint = `${mcpUrl}/api/mcp/generate-code`;
-    
-    // Fire and forget - make the request but don't await
-    fetch(mcpEndpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        owner,
-        repo,
-        issue_number: issueNumber,
-        jobId,
-        requested_by: uid,
-      }),
-    })
-      .then((response) => {
-        if (!response.ok) {
-          functions.logger.error("MCP endpoint returned error", {
-            status: response.status,
-            statusText: response.statusText,
-          });
-          return jobRef.update({
-            status: "failed",
-            error: `MCP endpoint error: ${response.statusText}`,
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          });
-        }
-        functions.logger.info("MCP endpoint called successfully", { jobId });
-        return null;
-      })
-      .catch((error) => {
-        functions.logger.error("Failed to call MCP endpoint", {
-          error: error.message,
-          jobId,
-        });
-        return jobRef.update({
-          status: "failed",
-          error: error.message,
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
-      });
+
+    await jobRef.set(jobData);
+
+    functions.logger.info("Enqueued MCP job", {
+      jobId,
+      repoId,
+      issueNumber,
+      uid,
+    });
 
     // Return immediately with job info
     return {
       success: true,
       jobId,
       status: "pending",
-      message: "AI code generation request submitted successfully",
+      message: "AI code generation request queued successfully",
       issueId,
       mcpEndpoint,
     };
   } catch (error: any) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
     functions.logger.error("Error creating MCP job", {
       error: error.message,
       uid,
@@ -159,6 +126,53 @@ export const requestAIForIssue = onCall({
   }
 });
 
+/**
+ * Firestore trigger that starts a queued MCP job as soon as it is created
+ */
+export const onMCPJobCreated = onDocumentCreated({
+  document: "repos/{repoId}/mcp_jobs/{jobId}",
+  region: "us-central1",
+  timeoutSeconds: QUEUE_FUNCTION_TIMEOUT_SECONDS,
+}, async (event) => {
+  // Only jobs enqueued with queue state are managed here
+  if (!event.data?.get("queue")) {
+    return;
+  }
+
+  const { repoId, jobId } = event.params;
+  await processMCPJob(repoId, jobId);
+});
+
+/**
+ * Scheduled sweep that recovers expired leases and runs due retries and
+ * jobs that were held back by the per-repo concurrency limit
+ */
+export const processMCPQueue = onSchedule({
+  schedule: "every 1 minutes",
+  region: "us-central1",
+  timeoutSeconds: QUEUE_FUNCTION_TIMEOUT_SECONDS,
+}, async () => {
+  const result = await runQueueSweep();
+  functions.logger.info("MCP queue sweep finished", result);
+});
+
+/**
+ * HTTP trigger for the queue sweep, only available in the emulator where
+ * scheduled functions don't fire on their own
+ */
+export const runMCPQueue = onRequest({
+  region: "us-central1",
+  timeoutSeconds: QUEUE_FUNCTION_TIMEOUT_SECONDS,
+}, async (req: Request, res: Response) => {
+  if (process.env.FUNCTIONS_EMULATOR !== "true") {
+    res.status(404).send("Not found");
+    return;
+  }
+
+  const result = await runQueueSweep();
+  res.status(200).json(result);
+});
+
 /**
  * HTTP endpoint for health check
  */
@@ -0,0 +1,445 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+
+/**
+ * Firestore-backed queue for MCP jobs
+ *
+ * Jobs live in /repos/{repoId}/mcp_jobs/{jobId}. A worker leases a pending
+ * job, keeps the lease alive with heartbeats while the MCP endpoint runs, and
+ * either releases it, schedules a retry with exponential backoff, or moves it
+ * to the dead-letter state once it runs out of attempts.
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const LEASE_MS = Number(process.env.MCP_QUEUE_LEASE_MS || 2 * 60 * 1000);
+const HEARTBEAT_MS = Math.floor(LEASE_MS / 4);
+const MAX_ATTEMPTS = Number(process.env.MCP_QUEUE_MAX_ATTEMPTS || 5);
+const BASE_BACKOFF_MS = Number(process.env.MCP_QUEUE_BASE_BACKOFF_MS || 30 * 1000);
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const MAX_CONCURRENT_PER_REPO = Number(process.env.MCP_MAX_CONCURRENT_PER_REPO || 1);
+const SWEEP_BATCH_SIZE = 20;
+
+// Leave headroom under the 540s function timeout to record the outcome
+export const QUEUE_FUNCTION_TIMEOUT_SECONDS = 540;
+const REQUEST_TIMEOUT_MS = (QUEUE_FUNCTION_TIMEOUT_SECONDS - 40) * 1000;
+
+const WORKER_ID = `${process.env.K_REVISION || "local"}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MCPQueueState {
+  attempt: number;
+  max_attempts: number;
+  next_run_at: admin.firestore.Timestamp;
+  lease_owner: string | null;
+  lease_expires_at: admin.firestore.Timestamp | null;
+  heartbeat_at: admin.firestore.Timestamp | null;
+  last_error: string | null;
+  dead_lettered_at?: admin.firestore.Timestamp;
+}
+
+interface AttemptOutcome {
+  ok: boolean;
+  retryable: boolean;
+  error?: string;
+  /** Earliest time a retry makes sense, e.g. a GitHub rate limit reset */
+  retryNotBefore?: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Queue fields for a freshly enqueued job
+ */
+export function initialQueueState(): MCPQueueState {
+  return {
+    attempt: 0,
+    max_attempts: MAX_ATTEMPTS,
+    next_run_at: admin.firestore.Timestamp.now(),
+    lease_owner: null,
+    lease_expires_at: null,
+    heartbeat_at: null,
+    last_error: null,
+  };
+}
+
+/**
+ * Exponential backoff with jitter for the given (1-based) attempt
+ */
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return delay + Math.floor(Math.random() * delay * 0.2);
+}
+
+function jobRef(repoId: string, jobId: string) {
+  return admin.firestore().collection("repos").doc(repoId).collection("mcp_jobs").doc(jobId);
+}
+
+function leaseExpiresAt(): admin.firestore.Timestamp {
+  return admin.firestore.Timestamp.fromMillis(Date.now() + LEASE_MS);
+}
+
+function getMcpUrl(): string | undefined {
+  return functions.config().mcp?.url || process.env.MCP_URL;
+}
+
+/**
+ * The bot token for a Slack workspace, or null if the app was uninstalled
+ * there. Mirrors the web app's installation lookup.
+ */
+async function getSlackBotToken(teamId?: string): Promise<string | null> {
+  const fallback = functions.config().slack?.bot_token || process.env.SLACK_BOT_TOKEN || null;
+  if (!teamId) return fallback;
+
+  const installation = await admin.firestore().collection("slack_installations").doc(teamId).get();
+  return installation.exists ? installation.get("bot_token") || null : fallback;
+}
+
+/**
+ * Tell the Slack thread a job was requested from that the queue gave up on
+ * it. Best-effort: a failed post is logged but never fails the sweep.
+ */
+async function notifyDeadLetter(jobId: string, job: admin.firestore.DocumentData, error: string): Promise<void> {
+  if (!job.slack_channel) return;
+
+  try {
+    const token = await getSlackBotToken(job.slack_team);
+    if (!token) {
+      functions.logger.warn("No Slack bot token to report dead-lettered MCP job", { jobId, team: job.slack_team });
+      return;
+    }
+
+    const mcpUrl = getMcpUrl();
+    const link = mcpUrl ? `\n<${mcpUrl}/dashboard/${job.owner}/${job.repo}/jobs/${jobId}|Retry from the dashboard>` : "";
+
+    const response = await fetch("https://slack.com/api/chat.postMessage", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${token}`,
+        "Content-Type": "application/json; charset=utf-8",
+      },
+      body: JSON.stringify({
+        channel: job.slack_channel,
+        ...(job.slack_thread_ts && { thread_ts: job.slack_thread_ts }),
+        text: `❌ Gave up on *${job.owner}/${job.repo}#${job.issueNumber}*: ${error}${link}`,
+      }),
+    });
+    const result = await response.json() as { ok: boolean; error?: string };
+
+    if (!result.ok) {
+      functions.logger.warn("Slack rejected the dead-letter notice", { jobId, error: result.error });
+    }
+  } catch (err: any) {
+    functions.logger.error("Failed to report dead-lettered MCP job to Slack", { jobId, error: err.message });
+  }
+}
+
+/**
+ * Lease a job if it is due and its repo has a free concurrency slot.
+ * Returns the job data when this worker now holds the lease.
+ */
+async function leaseJob(
+  ref: admin.firestore.DocumentReference
+): Promise<admin.firestore.DocumentData | null> {
+  const db = admin.firestore();
+
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    const job = snapshot.data();
+    const queue = job?.queue as MCPQueueState | undefined;
+
+    if (!job || !queue || job.status !== "pending") {
+      return null;
+    }
+
+    if (queue.next_run_at.toMillis() > Date.now()) {
+      return null;
+    }
+
+    // Expired leases don't hold a slot; the sweep will recover them
+    const running = await tx.get(ref.parent.where("status", "==", "processing"));
+    const activeLeases = running.docs.filter((doc) => {
+      const expiresAt = doc.get("queue.lease_expires_at") as admin.firestore.Timestamp | null;
+      return expiresAt && expiresAt.toMillis() > Date.now();
+    });
+
+    if (activeLeases.length >= MAX_CONCURRENT_PER_REPO) {
+      functions.logger.info("Repo at MCP concurrency limit, leaving job queued", {
+        jobId: ref.id,
+        running: activeLeases.length,
+      });
+      return null;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const attempt = queue.attempt + 1;
+
+    tx.update(ref, {
+      "status": "processing",
+      "queue.attempt": attempt,
+      "queue.lease_owner": WORKER_ID,
+      "queue.lease_expires_at": leaseExpiresAt(),
+      "queue.heartbeat_at": now,
+      "updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { ...job, queue: { ...queue, attempt } };
+  });
+}
+
+/**
+ * Extend the lease periodically while the job runs. Returns a stop function.
+ */
+function startHeartbeat(ref: admin.firestore.DocumentReference): () => void {
+  const timer = setInterval(() => {
+    admin.firestore().runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+
+      if (snapshot.get("queue.lease_owner") !== WORKER_ID) {
+        functions.logger.warn("Lost MCP job lease", { jobId: ref.id });
+        return;
+      }
+
+      tx.update(ref, {
+        "queue.lease_expires_at": leaseExpiresAt(),
+        "queue.heartbeat_at": admin.firestore.Timestamp.now(),
+      });
+    }).catch((error) => {
+      functions.logger.error("MCP job heartbeat failed", { jobId: ref.id, error: error.message });
+    });
+  }, HEARTBEAT_MS);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Call the MCP generate-code endpoint and classify the result.
+ *
+ * Only transient failures are retried: rate limits (429), server and gateway
+ * errors (5xx, which include GitHub 5xx responses) and network failures.
+ * Client errors, such as GitHub rejecting a request, are final. Each retry
+ * starts over on a fresh branch; the MCP service deletes the one the failed
+ * attempt created.
+ */
+async function runMCPRequest(jobId: string, job: admin.firestore.DocumentData): Promise<AttemptOutcome> {
+  const mcpUrl = getMcpUrl();
+
+  if (!mcpUrl) {
+    return { ok: false, retryable: false, error: "MCP_URL not configured" };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${mcpUrl}/api/mcp/generate-code`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        owner: job.owner,
+        repo: job.repo,
+        issue_number: job.issueNumber,
+        jobId,
+        requested_by: job.requested_by,
+        ...(job.relatedFiles && { related_files: job.relatedFiles }),
+      }),
+      signal: controller.signal,
+    });
+
+    if (response.ok) {
+      return { ok: true, retryable: false };
+    }
+
+    const result = await response.json().catch(() => ({})) as { error?: string; details?: string };
+    const error = `MCP endpoint error (${response.status}): ${result.details || result.error || response.statusText}`;
+
+    if (response.status === 429) {
+      // RateLimitError details look like "... Resets at 2024-01-01T00:00:00.000Z"
+      const reset = result.details?.match(/Resets at (\S+)/)?.[1];
+      const resetMs = reset ? Date.parse(reset) : NaN;
+      return { ok: false, retryable: true, error, retryNotBefore: isNaN(resetMs) ? undefined : resetMs };
+    }
+
+    return { ok: false, retryable: response.status >= 500, error };
+  } catch (error: any) {
+    const message = error.name === "AbortError"
+      ? `MCP endpoint did not respond within ${REQUEST_TIMEOUT_MS / 1000}s`
+      : error.message;
+    return { ok: false, retryable: true, error: message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Record the outcome of an attempt and release the lease. A job that runs
+ * out of attempts is reported to its Slack thread once the dead-letter state
+ * is committed.
+ */
+async function finishAttempt(
+  ref: admin.firestore.DocumentReference,
+  outcome: AttemptOutcome
+): Promise<void> {
+  const deadLettered = await admin.firestore().runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    const queue = snapshot.get("queue") as MCPQueueState | undefined;
+
+    if (!queue) {
+      return null;
+    }
+
+    const released = {
+      "queue.lease_owner": null,
+      "queue.lease_expires_at": null,
+      "updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    // The MCP service has already moved the job to "review", or the job was
+    // cancelled while it ran; either way the status is final
+    if (outcome.ok || snapshot.get("status") === "cancelled") {
+      tx.update(ref, { ...released, "queue.last_error": outcome.ok ? null : outcome.error || null });
+      return null;
+    }
+
+    if (!outcome.retryable) {
+      tx.update(ref, {
+        ...released,
+        "status": "failed",
+        "error": outcome.error || "Unknown error",
+        "queue.last_error": outcome.error || null,
+      });
+      return null;
+    }
+
+    if (queue.attempt >= queue.max_attempts) {
+      functions.logger.error("MCP job moved to dead letter", {
+        jobId: ref.id,
+        attempts: queue.attempt,
+        error: outcome.error,
+      });
+      const error = `Gave up after ${queue.attempt} attempt(s): ${outcome.error}`;
+      tx.update(ref, {
+        ...released,
+        "status": "dead_letter",
+        "error": error,
+        "queue.last_error": outcome.error || null,
+        "queue.dead_lettered_at": admin.firestore.Timestamp.now(),
+      });
+      return { job: snapshot.data()!, error };
+    }
+
+    const nextRunAt = Math.max(Date.now() + backoffDelay(queue.attempt), outcome.retryNotBefore || 0);
+
+    functions.logger.warn("MCP job attempt failed, retrying", {
+      jobId: ref.id,
+      attempt: queue.attempt,
+      nextRunAt: new Date(nextRunAt).toISOString(),
+      error: outcome.error,
+    });
+    tx.update(ref, {
+      ...released,
+      "status": "pending",
+      "queue.next_run_at": admin.firestore.Timestamp.fromMillis(nextRunAt),
+      "queue.last_error": outcome.error || null,
+    });
+    return null;
+  });
+
+  if (deadLettered) {
+    await notifyDeadLetter(ref.id, deadLettered.job, deadLettered.error);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Lease and run a single job. Does nothing if the job is not due, is
+ * already leased, or its repo is at the concurrency limit.
+ */
+export async function processMCPJob(repoId: string, jobId: string): Promise<void> {
+  const ref = jobRef(repoId, jobId);
+  const job = await leaseJob(ref);
+
+  if (!job) {
+    return;
+  }
+
+  functions.logger.info("Leased MCP job", {
+    repoId,
+    jobId,
+    attempt: job.queue.attempt,
+    worker: WORKER_ID,
+  });
+
+  const stopHeartbeat = startHeartbeat(ref);
+  let outcome: AttemptOutcome;
+
+  try {
+    outcome = await runMCPRequest(jobId, job);
+  } finally {
+    stopHeartbeat();
+  }
+
+  await finishAttempt(ref, outcome);
+}
+
+/**
+ * Requeue jobs whose worker stopped heartbeating, counting it as a failed attempt
+ */
+export async function recoverExpiredLeases(): Promise<number> {
+  const expired = await admin.firestore()
+    .collectionGroup("mcp_jobs")
+    .where("status", "==", "processing")
+    .where("queue.lease_expires_at", "<=", admin.firestore.Timestamp.now())
+    .limit(SWEEP_BATCH_SIZE)
+    .get();
+
+  await Promise.all(expired.docs.map((doc) =>
+    finishAttempt(doc.ref, {
+      ok: false,
+      retryable: true,
+      error: `Lease held by ${doc.get("queue.lease_owner")} expired`,
+    })
+  ));
+
+  return expired.size;
+}
+
+/**
+ * Recover expired leases, then run every job that is due
+ */
+export async function runQueueSweep(): Promise<{ recovered: number; dispatched: number }> {
+  const recovered = await recoverExpiredLeases();
+
+  const due = await admin.firestore()
+    .collectionGroup("mcp_jobs")
+    .where("status", "==", "pending")
+    .where("queue.next_run_at", "<=", admin.firestore.Timestamp.now())
+    .orderBy("queue.next_run_at")
+    .limit(SWEEP_BATCH_SIZE)
+    .get();
+
+  // Leasing enforces the per-repo limit, so jobs over it are simply skipped
+  const results = await Promise.allSettled(due.docs.map((doc) =>
+    processMCPJob(doc.ref.parent.parent!.id, doc.id)
+  ));
+
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      functions.logger.error("MCP queue sweep job failed", { error: result.reason?.message });
+    }
+  });
+
+  return { recovered, dispatched: due.size };
+}
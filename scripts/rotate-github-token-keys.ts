@@ -0,0 +1,18 @@
+/**
+ * Re-wrap GitHub token data keys with the first key in
+ * GITHUB_TOKEN_ENCRYPTION_KEYS. Run after adding a new key at the front of
+ * the list; the old key can be removed once this finishes.
+ */
+
+import { githubTokenVault } from '@/lib/github-token-vault';
+
+githubTokenVault
+  .rotateKeys()
+  .then(rotated => {
+    console.log(`✅ Key rotation complete (${rotated} token(s) re-wrapped)`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error('❌ Key rotation failed:', error);
+    process.exit(1);
+  });
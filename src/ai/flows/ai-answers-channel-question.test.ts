@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aiAnswerChannelQuestion } from '@/ai/flows/ai-answers-channel-question';
+
+// Run with USE_MOCK_FIRESTORE=true (see `npm test`), where no ID token can be verified
+
+describe('aiAnswerChannelQuestion', () => {
+  const question = { repoOwner: 'acme', repoName: 'widgets', channelId: 'general', question: 'Where is the deploy script?' };
+
+  it('refuses callers without credentials', async () => {
+    await assert.rejects(aiAnswerChannelQuestion(question), { name: 'AuthorizationError', statusCode: 401 });
+  });
+
+  it('refuses ID tokens it cannot verify', async () => {
+    await assert.rejects(
+      aiAnswerChannelQuestion({ ...question, idToken: 'not-a-token' }),
+      { name: 'AuthorizationError', statusCode: 503 }
+    );
+  });
+});
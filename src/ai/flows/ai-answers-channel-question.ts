@@ -0,0 +1,153 @@
+'use server';
+
+/**
+ * @fileOverview AI flow for answering /ask questions from a channel's memory and the repo's code.
+ *
+ * - aiAnswerChannelQuestion - Answers a question from the channel's messages, README, issues and source code
+ * - AnswerChannelQuestionInput - Input type for the function
+ * - AnswerChannelQuestionOutput - Output type for the function
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const AnswerChannelQuestionInputSchema = z.object({
+  repoOwner: z.string().describe('The owner of the GitHub repository.'),
+  repoName: z.string().describe('The name of the GitHub repository.'),
+  channelId: z.string().optional().describe('The chat channel the question was asked in; omitted outside the web chat, e.g. in Slack.'),
+  question: z.string().describe('The question to answer.'),
+  accessToken: z.string().optional().describe('GitHub access token, to bring the README, issues and code index up to date. Without an ID token, it must be able to read the repository.'),
+  idToken: z.string().optional().describe("Firebase ID token of the web chat user asking; they must be able to read the repository."),
+});
+
+export type AnswerChannelQuestionInput = z.infer<typeof AnswerChannelQuestionInputSchema>;
+
+const SourceSchema = z.object({
+  kind: z.enum(['message', 'issue', 'readme', 'code']).describe('What kind of source this is.'),
+  id: z.string().describe('Message ID, issue-{number}, readme-{chunk} or {path}:{startLine}-{endLine}.'),
+  label: z.string().describe('How the source is cited; code is cited as path:startLine-endLine.'),
+  url: z.string().nullable().describe('Link to the source, if it has one.'),
+});
+
+const AnswerChannelQuestionOutputSchema = z.object({
+  answer: z.string().describe('The answer, citing sources as [n].'),
+  sources: z.array(SourceSchema.extend({
+    citation: z.number().describe('The n in [n] the answer cites this source by.'),
+  })).describe('The sources the answer cites.'),
+});
+
+export type AnswerChannelQuestionOutput = z.infer<typeof AnswerChannelQuestionOutputSchema>;
+
+export async function aiAnswerChannelQuestion(input: AnswerChannelQuestionInput): Promise<AnswerChannelQuestionOutput> {
+  await authorizeQuestion(input);
+  return aiAnswerChannelQuestionFlow(input);
+}
+
+/**
+ * Memory is read with server credentials, so only someone who can read the
+ * repository may ask about it: web chat users prove it with their ID token,
+ * Slack users with the GitHub token in their vault.
+ */
+async function authorizeQuestion({ repoOwner, repoName, idToken, accessToken }: AnswerChannelQuestionInput): Promise<void> {
+  const { AuthorizationError, requireRepoAccess, requireTokenRepoAccess, verifyIdToken } = await import('@/lib/request-auth');
+
+  if (idToken) {
+    await requireRepoAccess(await verifyIdToken(idToken), repoOwner, repoName, 'read');
+  } else if (accessToken) {
+    await requireTokenRepoAccess(accessToken, repoOwner, repoName, 'read');
+  } else {
+    throw new AuthorizationError('Sign in to ask about this repository');
+  }
+}
+
+const answerQuestionPrompt = ai.definePrompt({
+  name: 'answerChannelQuestionPrompt',
+  input: {
+    schema: z.object({
+      question: z.string(),
+      sources: z.array(z.object({ citation: z.number(), label: z.string(), text: z.string() })),
+    }),
+  },
+  output: {
+    schema: z.object({
+      answer: z.string(),
+      citations: z.array(z.number()).describe('Numbers of the sources the answer relies on.'),
+    }),
+  },
+  prompt: `You are GitPulse, answering a question in a team's project chat.
+
+Answer using only the sources below: chat messages, GitHub issues, README sections and source code. Cite every fact with the source number in brackets, like [2]. When the answer comes from code, name the file and lines it is in, like \`src/app.ts:10-42\` [3]. If the sources don't answer the question, say so briefly instead of guessing.
+
+Question: {{question}}
+
+Sources:
+{{#each sources}}
+[{{citation}}] {{label}}
+{{{text}}}
+
+{{/each}}
+
+Keep the answer short and in markdown.`,
+});
+
+const aiAnswerChannelQuestionFlow = ai.defineFlow(
+  {
+    name: 'aiAnswerChannelQuestionFlow',
+    inputSchema: AnswerChannelQuestionInputSchema,
+    outputSchema: AnswerChannelQuestionOutputSchema,
+  },
+  async (input) => {
+    const { repoOwner, repoName, channelId, question, accessToken } = input;
+    const repoFullName = `${repoOwner}/${repoName}`;
+    const [{ channelMemoryService }, { codeIndexService }] = await Promise.all([
+      import('@/lib/channel-memory'),
+      import('@/lib/code-index'),
+    ]);
+
+    // Catch up on anything indexing missed; a stale index still gives an answer
+    await Promise.all([
+      channelId
+        ? channelMemoryService.indexNewMessages(repoFullName, channelId)
+            .catch(error => console.error('Error indexing channel messages:', error))
+        : null,
+      accessToken
+        ? channelMemoryService.indexRepository(repoFullName, accessToken)
+            .catch(error => console.error('Error indexing README and issues:', error))
+        : null,
+      accessToken
+        ? codeIndexService.indexCommit(repoFullName, accessToken)
+            .catch(error => console.error('Error indexing code:', error))
+        : null,
+    ]);
+
+    const [memoryMatches, codeMatches] = await Promise.all([
+      channelMemoryService.search(repoFullName, channelId ?? null, question),
+      codeIndexService.search(repoFullName, question),
+    ]);
+    const matches = [...memoryMatches, ...codeMatches];
+
+    if (matches.length === 0) {
+      return {
+        answer: "I don't have anything on that yet - nothing in this channel, the README, the issues or the code matches your question.",
+        sources: [],
+      };
+    }
+
+    const sources = matches.map((match, index) => ({ ...match, citation: index + 1 }));
+    const { output } = await answerQuestionPrompt({
+      question,
+      sources: sources.map(({ citation, label, text }) => ({ citation, label, text })),
+    });
+
+    if (!output) {
+      throw new Error('AI did not produce an answer.');
+    }
+
+    return {
+      answer: output.answer,
+      sources: sources
+        .filter(source => output.citations.includes(source.citation))
+        .map(({ kind, id, label, url, citation }) => ({ kind, id, label, url, citation })),
+    };
+  }
+);
@@ -27,6 +27,7 @@ const DetectIssueOutputSchema = z.object({
   description: z.string().describe('A detailed description of the issue.'),
   priority: z.enum(['low', 'medium', 'high']).describe('The priority of the issue.'),
   assignees: z.array(z.string()).optional().describe('Array of GitHub usernames to assign to the issue.'),
+  confidence: z.number().min(0).max(1).optional().describe('How confident the model is that this is a real issue, from 0 to 1.'),
 });
 export type DetectIssueOutput = z.infer<typeof DetectIssueOutputSchema>;
 
@@ -96,6 +97,7 @@ const detectIssuePrompt = ai.definePrompt({
   - Return a JSON object matching the schema exactly.
   - 'is_issue' must be a boolean.
   - If 'is_issue' is true, fill 'title' with a concise, 6-12 word summary suitable for an issue title, 'description' with a clear reproduction or context (include steps if relevant), 'priority' as one of 'low', 'medium', or 'high'. 
+  - 'confidence' is a number from 0 to 1: near 1 for explicit bug reports or requests, around 0.5 for vague complaints, near 0 when there is no issue.
   - For 'assignees': ONLY include usernames that are explicitly provided in the 'mentions' array. Do NOT create, guess, or modify usernames. If no mentions are provided or if you're uncertain about the exact username, leave 'assignees' as an empty array.
   - If 'is_issue' is false, set 'is_issue' to false and return empty strings for 'title' and 'description', 'priority' can be 'low', and 'assignees' should be an empty array.
 
@@ -105,7 +107,8 @@ const detectIssuePrompt = ai.definePrompt({
     "title": "API returns 500 when creating user",
     "description": "Requests to POST /api/users return a 500 error intermittently. Steps: 1) POST payload X; 2) observe 500 with stack trace Y. Occurs on prod for user signups.",
     "priority": "high",
-    "assignees": ["alice"]
+    "assignees": ["alice"],
+    "confidence": 0.9
   }
 
   Example (issue detected but no valid mentions):
@@ -114,7 +117,8 @@ const detectIssuePrompt = ai.definePrompt({
     "title": "API returns 500 when creating user", 
     "description": "Requests to POST /api/users return a 500 error intermittently. Steps: 1) POST payload X; 2) observe 500 with stack trace Y. Occurs on prod for user signups.",
     "priority": "high",
-    "assignees": []
+    "assignees": [],
+    "confidence": 0.9
   }
 
   Example (no issue):
@@ -123,7 +127,8 @@ const detectIssuePrompt = ai.definePrompt({
     "title": "",
     "description": "",
     "priority": "low",
-    "assignees": []
+    "assignees": [],
+    "confidence": 0
   }
 
   Based on the last message, respond with the JSON object only. Do not include any additional text.
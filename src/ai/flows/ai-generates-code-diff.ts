@@ -4,7 +4,9 @@
  * @fileOverview Genkit flow for generating code fixes for GitHub issues.
  * 
  * This flow analyzes issue details and relevant file chunks to generate
- * complete file contents with fixes applied.
+ * either complete file contents with fixes applied ('full' mode) or unified
+ * diffs per file ('patch' mode). Patch mode is meant for files that had to be
+ * chunked, where the model never sees the whole file.
  */
 
 import { ai } from '@/ai/genkit';
@@ -15,6 +17,7 @@ import {
   AICodeGenerationOutput,
   AICodeGenerationOutputSchema,
   FileChangeSchema,
+  FilePatchSchema,
 } from '@/types/mcp';
 
 // ============================================================================
@@ -31,6 +34,7 @@ const generateCodePrompt = ai.definePrompt({
         path: z.string(),
         content: z.string(),
       })),
+      validationErrors: z.array(z.string()).optional(),
     }),
   },
   output: {
@@ -56,6 +60,16 @@ File: {{this.path}}
 
 {{/each}}
 
+{{#if validationErrors}}
+PREVIOUS ATTEMPT FAILED VALIDATION:
+The files above are your previous attempt. The TypeScript compiler reported these errors:
+{{#each validationErrors}}
+- {{{this}}}
+{{/each}}
+
+Fix these errors while still resolving the issue. Do not revert the intended changes.
+{{/if}}
+
 YOUR TASK:
 1. Analyze the issue description and understand what needs to be fixed or implemented
 2. Review the provided file contents carefully
@@ -83,6 +97,114 @@ Return a JSON object with:
 Generate the code fixes now:`,
 });
 
+const generatePatchPrompt = ai.definePrompt({
+  name: 'generatePatchPrompt',
+  input: {
+    schema: z.object({
+      issueTitle: z.string(),
+      issueBody: z.string(),
+      files: z.array(z.object({
+        path: z.string(),
+        content: z.string(),
+      })),
+      validationErrors: z.array(z.string()).optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      patches: z.array(FilePatchSchema),
+      overallSummary: z.string(),
+    }),
+  },
+  prompt: `You are an expert software engineer tasked with fixing a GitHub issue.
+
+ISSUE TITLE:
+{{{issueTitle}}}
+
+ISSUE DESCRIPTION:
+{{{issueBody}}}
+
+RELEVANT FILES (large files are shown as excerpts with their line ranges):
+{{#each files}}
+---
+File: {{this.path}}
+---
+{{{this.content}}}
+
+{{/each}}
+
+{{#if validationErrors}}
+PREVIOUS ATTEMPT FAILED VALIDATION:
+The files above are your previous attempt. The TypeScript compiler reported these errors:
+{{#each validationErrors}}
+- {{{this}}}
+{{/each}}
+
+Fix these errors while still resolving the issue. Do not revert the intended changes.
+{{/if}}
+
+YOUR TASK:
+1. Analyze the issue description and understand what needs to be fixed or implemented
+2. Review the provided file excerpts carefully
+3. Produce a unified diff for every file that needs to change
+4. Ensure your code follows best practices and matches the existing code style
+
+CRITICAL REQUIREMENTS:
+- Return unified diffs, NOT complete file contents
+- Each hunk must start with a header like "@@ -12,7 +12,9 @@"
+- Prefix unchanged lines with a single space, removed lines with "-" and added lines with "+"
+- Include at least 3 lines of unchanged context around every change, copied EXACTLY from the file
+- Only touch code you were shown; never invent context lines
+- For a new file, use a single hunk "@@ -0,0 +1,N @@" with every line prefixed by "+"
+- Do NOT include "diff --git", "index", "---" or "+++" header lines
+
+RESPONSE FORMAT:
+Return a JSON object with:
+- patches: An array of objects, each containing:
+  - path: The file path (exactly as provided, or the new file's path)
+  - diff: The unified diff hunks for that file
+  - summary: A brief description of what was changed in this file
+- overallSummary: A brief description of all changes made to resolve the issue
+
+Generate the patches now:`,
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Flatten chunks into a single content string per file for the prompt
+ */
+function formatFilesForPrompt(
+  files: AICodeGenerationInput['files']
+): Array<{ path: string; content: string }> {
+  return files.map(file => {
+    // If there's only one chunk, use it directly
+    if (file.chunks.length === 1) {
+      return {
+        path: file.path,
+        content: file.chunks[0].snippet,
+      };
+    }
+
+    // If multiple chunks, combine them with markers
+    const combinedContent = file.chunks
+      .map((chunk, index) => {
+        const header = index === 0 
+          ? `// Lines ${chunk.startLine}-${chunk.endLine}\n`
+          : `\n// ... Lines ${chunk.startLine}-${chunk.endLine} ...\n`;
+        return header + chunk.snippet;
+      })
+      .join('\n');
+
+    return {
+      path: file.path,
+      content: combinedContent,
+    };
+  });
+}
+
 // ============================================================================
 // Flow Definition
 // ============================================================================
@@ -94,37 +216,39 @@ const aiGeneratesCodeDiffFlow = ai.defineFlow(
     outputSchema: AICodeGenerationOutputSchema,
   },
   async (input: AICodeGenerationInput): Promise<AICodeGenerationOutput> => {
-    // Flatten chunks into complete file content for the prompt
-    const filesForPrompt = input.files.map(file => {
-      // If there's only one chunk, use it directly
-      if (file.chunks.length === 1) {
-        return {
-          path: file.path,
-          content: file.chunks[0].snippet,
-        };
+    const filesForPrompt = formatFilesForPrompt(input.files);
+
+    if (input.mode === 'patch') {
+      const { output } = await generatePatchPrompt({
+        issueTitle: input.issueTitle,
+        issueBody: input.issueBody || 'No description provided.',
+        files: filesForPrompt,
+        validationErrors: input.validationErrors,
+      });
+
+      if (!output) {
+        throw new Error('AI code generation did not produce an output.');
       }
 
-      // If multiple chunks, combine them with markers
-      const combinedContent = file.chunks
-        .map((chunk, index) => {
-          const header = index === 0 
-            ? `// Lines ${chunk.startLine}-${chunk.endLine}\n`
-            : `\n// ... Lines ${chunk.startLine}-${chunk.endLine} ...\n`;
-          return header + chunk.snippet;
-        })
-        .join('\n');
+      for (const patch of output.patches) {
+        if (!patch.diff || !/^@@ /m.test(patch.diff)) {
+          throw new Error(`Generated patch for ${patch.path} does not contain any hunks.`);
+        }
+      }
 
       return {
-        path: file.path,
-        content: combinedContent,
+        changes: [],
+        patches: output.patches,
+        overallSummary: output.overallSummary,
       };
-    });
+    }
 
     // Call the AI prompt
     const { output } = await generateCodePrompt({
       issueTitle: input.issueTitle,
       issueBody: input.issueBody || 'No description provided.',
       files: filesForPrompt,
+      validationErrors: input.validationErrors,
     });
 
     if (!output) {
@@ -166,8 +290,9 @@ const aiGeneratesCodeDiffFlow = ai.defineFlow(
 /**
  * Generate code fixes for a GitHub issue
  * 
- * @param input - Issue details and relevant file chunks
- * @returns Complete file contents with fixes applied
+ * @param input - Issue details, relevant file chunks, output mode and, for
+ *   repair rounds, the validation errors of the previous attempt
+ * @returns Complete file contents ('full') or per-file unified diffs ('patch')
  */
 export async function aiGeneratesCodeDiff(
   input: AICodeGenerationInput
@@ -2,14 +2,26 @@
 
 /**
  * @fileOverview AI flow for matching pull requests with issues.
- * 
+ *
  * - aiMatchPullRequestWithIssue - Matches PRs with issues using AI analysis
- * - MatchPRWithIssueInput - Input type for the matching function  
+ * - MatchPRWithIssueInput - Input type for the matching function
  * - MatchPRWithIssueOutput - Output type for the matching function
+ *
+ * Candidates come from GitHub's closing-issue references and recent PRs;
+ * the most likely ones are judged by the AI against their diffs and commit
+ * messages. Judgements are cached per PR head SHA, so asking again about an
+ * unchanged PR doesn't refetch its diff or rescore it.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {createHash} from 'crypto';
+import {getFirestore, doc, getDoc, setDoc, serverTimestamp} from '@/lib/server-firestore';
+
+const RECENT_PR_COUNT = 50;
+const MAX_JUDGED_PRS = 8; // Each judged PR costs a diff fetch and an AI call
+const MAX_PATCH_CHARS = 1500;
+const MAX_DIFF_CHARS = 12000;
 
 const MatchPRWithIssueInputSchema = z.object({
   repoOwner: z.string().describe('The owner of the GitHub repository.'),
@@ -17,18 +29,22 @@ const MatchPRWithIssueInputSchema = z.object({
   issueReference: z.string().describe('Reference to the issue (title, number, or keywords).'),
   claimedBy: z.string().describe('User ID who claimed to resolve the issue.'),
   accessToken: z.string().describe('GitHub access token for API access.'),
+  pullRequestNumber: z.number().optional().describe('Only consider this pull request, e.g. one that was just merged.'),
 });
 
 export type MatchPRWithIssueInput = z.infer<typeof MatchPRWithIssueInputSchema>;
 
 const MatchPRWithIssueOutputSchema = z.object({
   matchFound: z.boolean().describe('Whether a matching PR was found.'),
+  issueNumber: z.number().nullable().describe('Number of the referenced issue, if the reference names one.'),
   matchingPRs: z.array(z.object({
     number: z.number().describe('PR number.'),
     title: z.string().describe('PR title.'),
     url: z.string().describe('PR URL.'),
     author: z.string().describe('PR author username.'),
     createdAt: z.string().describe('PR creation date.'),
+    headSha: z.string().describe('Head commit SHA the match was judged at.'),
+    closesIssue: z.boolean().describe('Whether GitHub links the PR as closing the issue.'),
     matchConfidence: z.enum(['low', 'medium', 'high']).describe('Confidence of the match.'),
     matchReason: z.string().describe('Why this PR matches the issue.'),
   })).describe('List of matching pull requests.'),
@@ -41,96 +57,340 @@ export async function aiMatchPullRequestWithIssue(input: MatchPRWithIssueInput):
   return aiMatchPRWithIssueFlow(input);
 }
 
-const fetchRecentPRs = ai.defineTool(
+const PullRequestCandidateSchema = z.object({
+  number: z.number(),
+  title: z.string(),
+  body: z.string().nullable(),
+  url: z.string(),
+  author: z.string(),
+  createdAt: z.string(),
+  headSha: z.string(),
+  closingIssueNumbers: z.array(z.number()),
+  commitMessages: z.array(z.string()),
+});
+
+type PullRequestCandidate = z.infer<typeof PullRequestCandidateSchema>;
+
+const CANDIDATE_FIELDS = `
+  number
+  title
+  body
+  url
+  createdAt
+  headRefOid
+  author { login }
+  closingIssuesReferences(first: 10) { nodes { number } }
+  commits(last: 20) { nodes { commit { message } } }
+`;
+
+const MATCH_CANDIDATES_QUERY = `
+  query MatchCandidates(
+    $owner: String!, $name: String!, $count: Int!,
+    $issueNumber: Int!, $hasIssue: Boolean!, $prNumber: Int!, $hasPR: Boolean!
+  ) {
+    repository(owner: $owner, name: $name) {
+      issue(number: $issueNumber) @include(if: $hasIssue) {
+        title
+        body
+        closedByPullRequestsReferences(first: 10, includeClosedPrs: true) { nodes { ${CANDIDATE_FIELDS} } }
+      }
+      pullRequest(number: $prNumber) @include(if: $hasPR) { ${CANDIDATE_FIELDS} }
+      pullRequests(first: $count, orderBy: {field: CREATED_AT, direction: DESC}) @skip(if: $hasPR) {
+        nodes { ${CANDIDATE_FIELDS} }
+      }
+    }
+  }
+`;
+
+function toCandidate(node: any): PullRequestCandidate {
+  return {
+    number: node.number,
+    title: node.title,
+    body: node.body || null,
+    url: node.url,
+    author: node.author?.login || 'ghost',
+    createdAt: node.createdAt,
+    headSha: node.headRefOid,
+    closingIssueNumbers: (node.closingIssuesReferences?.nodes || []).map((issue: any) => issue.number),
+    commitMessages: (node.commits?.nodes || []).map((commit: any) => commit.commit.message),
+  };
+}
+
+const fetchMatchCandidates = ai.defineTool(
   {
-    name: 'fetchRecentPRs',
-    description: 'Fetches recent pull requests from GitHub repository.',
+    name: 'fetchMatchCandidates',
+    description: 'Fetches the referenced issue and the pull requests that could resolve it, with their closing-issue references and commit messages.',
     inputSchema: z.object({
       repoOwner: z.string(),
       repoName: z.string(),
       accessToken: z.string(),
+      issueNumber: z.number().optional(),
+      pullRequestNumber: z.number().optional(),
     }),
     outputSchema: z.object({
-      pullRequests: z.array(z.object({
-        number: z.number(),
+      issue: z.object({
         title: z.string(),
         body: z.string().nullable(),
-        html_url: z.string(),
-        user: z.object({
-          login: z.string(),
-        }),
-        created_at: z.string(),
-        state: z.string(),
-      })),
+      }).nullable(),
+      pullRequests: z.array(PullRequestCandidateSchema),
     }),
   },
   async (input) => {
-    const { repoOwner, repoName, accessToken } = input;
-    
+    const { repoOwner, repoName, accessToken, issueNumber, pullRequestNumber } = input;
+
     try {
-      // Fetch recent PRs (last 50, both open and closed)
-      const [openResponse, closedResponse] = await Promise.all([
-        fetch(`https://api.github.com/repos/${repoOwner}/${repoName}/pulls?state=open&per_page=25&sort=created&direction=desc`, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Accept: 'application/vnd.github+json',
+      const response = await fetch('https://api.github.com/graphql', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: MATCH_CANDIDATES_QUERY,
+          variables: {
+            owner: repoOwner,
+            name: repoName,
+            count: RECENT_PR_COUNT,
+            issueNumber: issueNumber ?? 0,
+            hasIssue: issueNumber !== undefined,
+            prNumber: pullRequestNumber ?? 0,
+            hasPR: pullRequestNumber !== undefined,
           },
         }),
-        fetch(`https://api.github.com/repos/${repoOwner}/${repoName}/pulls?state=closed&per_page=25&sort=created&direction=desc`, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Accept: 'application/vnd.github+json',
-          },
-        }),
-      ]);
+      });
 
-      if (!openResponse.ok || !closedResponse.ok) {
-        throw new Error('Failed to fetch pull requests');
+      const result = await response.json();
+      if (!response.ok || result.errors) {
+        throw new Error(`Failed to fetch pull requests: ${JSON.stringify(result.errors || response.status)}`);
       }
 
-      const [openPRs, closedPRs] = await Promise.all([
-        openResponse.json(),
-        closedResponse.json(),
-      ]);
+      const repository = result.data.repository;
+      const issue = repository.issue || null;
+
+      // PRs GitHub links to the issue come first, even if they're older than the recent ones
+      const nodes = pullRequestNumber !== undefined
+        ? [repository.pullRequest].filter(Boolean)
+        : [...(issue?.closedByPullRequestsReferences.nodes || []), ...repository.pullRequests.nodes];
 
-      const allPRs = [...openPRs, ...closedPRs].sort(
-        (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
+      const pullRequests = new Map<number, PullRequestCandidate>();
+      for (const node of nodes) {
+        if (!pullRequests.has(node.number)) {
+          pullRequests.set(node.number, toCandidate(node));
+        }
+      }
 
-      return { pullRequests: allPRs };
+      return {
+        issue: issue ? { title: issue.title, body: issue.body || null } : null,
+        pullRequests: [...pullRequests.values()],
+      };
     } catch (error) {
       console.error('Error fetching PRs:', error);
-      return { pullRequests: [] };
+      return { issue: null, pullRequests: [] };
     }
   }
 );
 
-const matchPRPrompt = ai.definePrompt({
-  name: 'matchPRPrompt',
-  tools: [fetchRecentPRs],
-  prompt: `You are an AI assistant that matches pull requests with issue resolution claims.
+const fetchPullRequestDiff = ai.defineTool(
+  {
+    name: 'fetchPullRequestDiff',
+    description: 'Fetches the changed files of a pull request with truncated patches.',
+    inputSchema: z.object({
+      repoOwner: z.string(),
+      repoName: z.string(),
+      accessToken: z.string(),
+      pullRequestNumber: z.number(),
+    }),
+    outputSchema: z.object({
+      files: z.array(z.object({
+        path: z.string(),
+        status: z.string(),
+        patch: z.string(),
+      })),
+    }),
+  },
+  async (input) => {
+    const { repoOwner, repoName, accessToken, pullRequestNumber } = input;
+
+    try {
+      const response = await fetch(`https://api.github.com/repos/${repoOwner}/${repoName}/pulls/${pullRequestNumber}/files?per_page=50`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: 'application/vnd.github+json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch files for PR #${pullRequestNumber}`);
+      }
+
+      const files: any[] = await response.json();
+      let budget = MAX_DIFF_CHARS;
+
+      return {
+        files: files.map(file => {
+          const patch = (file.patch || '').slice(0, Math.min(MAX_PATCH_CHARS, Math.max(budget, 0)));
+          budget -= patch.length;
+          return { path: file.filename, status: file.status, patch };
+        }),
+      };
+    } catch (error) {
+      console.error('Error fetching PR diff:', error);
+      return { files: [] };
+    }
+  }
+);
+
+const PRJudgementSchema = z.object({
+  related: z.boolean().describe('Whether the pull request resolves the issue.'),
+  confidence: z.enum(['low', 'medium', 'high']).describe('How sure the judgement is.'),
+  reason: z.string().describe('One sentence on what in the PR does or does not address the issue.'),
+});
+
+type PRJudgement = z.infer<typeof PRJudgementSchema>;
+
+const judgePRPrompt = ai.definePrompt({
+  name: 'judgePRPrompt',
+  input: {
+    schema: z.object({
+      issueReference: z.string(),
+      issueTitle: z.string().optional(),
+      issueBody: z.string().optional(),
+      closesIssue: z.boolean(),
+      pullRequest: z.object({
+        number: z.number(),
+        title: z.string(),
+        body: z.string(),
+        commitMessages: z.array(z.string()),
+        files: z.array(z.object({ path: z.string(), status: z.string(), patch: z.string() })),
+      }),
+    }),
+  },
+  output: { schema: PRJudgementSchema },
+  prompt: `You are a senior engineer deciding whether a pull request resolves an issue.
 
 Issue Reference: "{{issueReference}}"
-Claimed by User: "{{claimedBy}}"
+{{#if issueTitle}}Issue Title: {{issueTitle}}{{/if}}
+{{#if issueBody}}Issue Description:
+{{{issueBody}}}{{/if}}
+
+Pull Request #{{pullRequest.number}}: {{pullRequest.title}}
+{{#if closesIssue}}GitHub links this PR as closing the issue.{{/if}}
+Description:
+{{{pullRequest.body}}}
 
-First, fetch recent pull requests from the repository using the fetchRecentPRs tool.
+Commit messages:
+{{#each pullRequest.commitMessages}}
+- {{this}}
+{{/each}}
 
-Then analyze each PR to determine if it could be related to the issue reference. Look for:
+Changed files:
+{{#each pullRequest.files}}
+--- {{this.path}} ({{this.status}})
+{{{this.patch}}}
+{{/each}}
 
-1. **Direct matches**: PR title/description mentions the issue reference
-2. **Keyword matches**: PR addresses similar functionality/bug described in issue reference  
-3. **Author matches**: PR is created by the user who claimed to resolve the issue
-4. **Timing**: PR was created recently (within reasonable timeframe)
-5. **Content analysis**: PR description suggests it fixes the type of issue mentioned
+Judge by what the code changes do, not by wording alone. A closing reference or matching title whose diff doesn't touch the problem is not a match; a diff that clearly fixes the described problem is, even if nothing mentions the issue.
 
-For each potentially matching PR, assign a confidence level:
-- **High**: Direct issue reference + same author + recent timing
-- **Medium**: Good keyword match + same author OR direct reference + different author  
-- **Low**: Keyword match only OR same author + timing but unclear content match
+- **High**: the changes clearly address the issue
+- **Medium**: the changes plausibly address it, or address part of it
+- **Low**: only a loose connection
 
-Provide detailed reasoning for each match found.`,
+Set related to false if the PR doesn't address the issue.`,
 });
 
+/**
+ * Cheap pre-filter so only the likeliest PRs get a diff fetch and AI call
+ */
+function scoreCandidate(
+  pr: PullRequestCandidate,
+  issueNumber: number | undefined,
+  keywords: string[],
+  claimedBy: string
+): number {
+  const prText = `${pr.title} ${pr.body || ''} ${pr.commitMessages.join(' ')}`.toLowerCase();
+  let score = 0;
+
+  if (issueNumber !== undefined && pr.closingIssueNumbers.includes(issueNumber)) score += 10;
+  if (issueNumber !== undefined && new RegExp(`#${issueNumber}\\b`).test(prText)) score += 5;
+  score += keywords.filter(keyword => prText.includes(keyword)).length;
+  if (pr.author === claimedBy) score += 1;
+
+  return score;
+}
+
+/**
+ * Judgements are stored per PR head SHA and issue, so they stay valid
+ * until the PR gets new commits
+ */
+function judgementCacheRef(repoOwner: string, repoName: string, pr: PullRequestCandidate, issueKey: string) {
+  const firestore = getFirestore();
+  return doc(firestore, 'repos', encodeURIComponent(`${repoOwner}/${repoName}`), 'pr_matches', `${pr.number}_${pr.headSha}_${issueKey}`);
+}
+
+async function judgeCandidate(
+  input: MatchPRWithIssueInput,
+  pr: PullRequestCandidate,
+  issue: { title: string; body: string | null } | null,
+  issueKey: string,
+  closesIssue: boolean
+): Promise<PRJudgement | null> {
+  const { repoOwner, repoName, issueReference, accessToken } = input;
+  const cacheRef = judgementCacheRef(repoOwner, repoName, pr, issueKey);
+
+  try {
+    const cached = await getDoc(cacheRef);
+    if (cached.exists) {
+      const { related, confidence, reason } = cached.data();
+      return { related, confidence, reason };
+    }
+  } catch (error) {
+    console.warn('⚠️ Could not read cached PR match:', error);
+  }
+
+  const { files } = await fetchPullRequestDiff({ repoOwner, repoName, accessToken, pullRequestNumber: pr.number });
+
+  let judgement: PRJudgement;
+  try {
+    const { output } = await judgePRPrompt({
+      issueReference,
+      issueTitle: issue?.title,
+      issueBody: issue?.body || undefined,
+      closesIssue,
+      pullRequest: {
+        number: pr.number,
+        title: pr.title,
+        body: pr.body || '(no description)',
+        commitMessages: pr.commitMessages,
+        files,
+      },
+    });
+    if (!output) {
+      throw new Error('AI judgement did not produce an output.');
+    }
+    judgement = output;
+  } catch (error) {
+    // Not cached, so the PR is judged again next time
+    console.error(`Error judging PR #${pr.number}:`, error);
+    return null;
+  }
+
+  try {
+    await setDoc(cacheRef, {
+      pr_number: pr.number,
+      head_sha: pr.headSha,
+      issue_key: issueKey,
+      issue_reference: issueReference,
+      closes_issue: closesIssue,
+      ...judgement,
+      judged_at: serverTimestamp(),
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not cache PR match:', error);
+  }
+
+  return judgement;
+}
+
 const aiMatchPRWithIssueFlow = ai.defineFlow(
   {
     name: 'aiMatchPRWithIssueFlow',
@@ -138,85 +398,85 @@ const aiMatchPRWithIssueFlow = ai.defineFlow(
     outputSchema: MatchPRWithIssueOutputSchema,
   },
   async (input) => {
-    const { repoOwner, repoName, issueReference, claimedBy, accessToken } = input;
-    
-    // Fetch recent PRs
-    const { pullRequests } = await fetchRecentPRs({ repoOwner, repoName, accessToken });
-    
+    const { repoOwner, repoName, issueReference, claimedBy, accessToken, pullRequestNumber } = input;
+
+    const issueNumberMatch = issueReference.match(/#(\d+)/);
+    const issueNumber = issueNumberMatch ? Number(issueNumberMatch[1]) : undefined;
+
+    const { issue, pullRequests } = await fetchMatchCandidates({
+      repoOwner,
+      repoName,
+      accessToken,
+      issueNumber,
+      pullRequestNumber,
+    });
+
     if (pullRequests.length === 0) {
       return {
         matchFound: false,
+        issueNumber: issueNumber ?? null,
         matchingPRs: [],
         totalPRsAnalyzed: 0,
       };
     }
 
-    // Analyze each PR for matches
+    const issueKey = issueNumber !== undefined
+      ? `issue-${issueNumber}`
+      : createHash('sha256').update(issueReference.trim().toLowerCase()).digest('hex').slice(0, 16);
+    const keywords = `${issueReference} ${issue?.title || ''}`
+      .toLowerCase()
+      .split(/\W+/)
+      .filter(word => word.length > 3);
+
+    const shortlist = pullRequests
+      .map(pr => ({ pr, score: scoreCandidate(pr, issueNumber, keywords, claimedBy) }))
+      .filter(({ score }) => score > 0 || pullRequestNumber !== undefined)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_JUDGED_PRS);
+
+    const judged = await Promise.all(shortlist.map(async ({ pr }) => {
+      const closesIssue = issueNumber !== undefined && pr.closingIssueNumbers.includes(issueNumber);
+      const judgement = await judgeCandidate(input, pr, issue, issueKey, closesIssue);
+      return { pr, closesIssue, judgement };
+    }));
+
     const matchingPRs = [];
-    
-    for (const pr of pullRequests) {
-      // Simple matching logic - can be enhanced with AI analysis
-      let matchConfidence: 'low' | 'medium' | 'high' = 'low';
-      let matchReason = '';
-      let isMatch = false;
-
-      const prText = `${pr.title} ${pr.body || ''}`.toLowerCase();
-      const issueText = issueReference.toLowerCase();
-      
-      // Check for direct issue number reference (e.g., #123)
-      const issueNumberMatch = issueReference.match(/#(\d+)/);
-      if (issueNumberMatch) {
-        const issueNumber = issueNumberMatch[1];
-        if (prText.includes(`#${issueNumber}`) || prText.includes(`issue ${issueNumber}`)) {
-          isMatch = true;
-          matchConfidence = pr.user.login === claimedBy ? 'high' : 'medium';
-          matchReason = `References issue #${issueNumber}`;
-        }
-      }
-      
-      // Check for keyword matches
-      if (!isMatch) {
-        const keywords = issueText.split(' ').filter(word => word.length > 3);
-        const matchingKeywords = keywords.filter(keyword => 
-          prText.includes(keyword) || pr.title.toLowerCase().includes(keyword)
-        );
-        
-        if (matchingKeywords.length >= 2 || (matchingKeywords.length >= 1 && pr.user.login === claimedBy)) {
-          isMatch = true;
-          matchConfidence = pr.user.login === claimedBy ? 'medium' : 'low';
-          matchReason = `Keyword matches: ${matchingKeywords.join(', ')}`;
-        }
-      }
-      
-      // Check if author matches claimed user
-      if (pr.user.login === claimedBy && !isMatch) {
-        // Recent PR by the same user - could be related
-        const prDate = new Date(pr.created_at);
-        const now = new Date();
-        const hoursDiff = (now.getTime() - prDate.getTime()) / (1000 * 60 * 60);
-        
-        if (hoursDiff <= 24) { // Within last 24 hours
-          isMatch = true;
-          matchConfidence = 'low';
-          matchReason = 'Same author, recent PR';
-        }
-      }
-      
-      if (isMatch) {
-        matchingPRs.push({
-          number: pr.number,
-          title: pr.title,
-          url: pr.html_url,
-          author: pr.user.login,
-          createdAt: pr.created_at,
-          matchConfidence,
-          matchReason,
-        });
+
+    for (const { pr, closesIssue, judgement } of judged) {
+      let matchConfidence: 'low' | 'medium' | 'high';
+      let matchReason: string;
+
+      if (judgement) {
+        if (!judgement.related) continue;
+        // A closing reference the diff backs up is as strong as a match gets
+        matchConfidence = closesIssue && judgement.confidence !== 'low' ? 'high' : judgement.confidence;
+        matchReason = judgement.reason;
+      } else if (closesIssue) {
+        matchConfidence = 'medium';
+        matchReason = `Linked as closing #${issueNumber} (diff not reviewed)`;
+      } else {
+        continue;
       }
+
+      if (closesIssue && judgement) matchReason = `Closes #${issueNumber}. ${matchReason}`;
+      if (pr.author === claimedBy) matchReason = `${matchReason} (opened by the claimer)`;
+
+      matchingPRs.push({
+        number: pr.number,
+        title: pr.title,
+        url: pr.url,
+        author: pr.author,
+        createdAt: pr.createdAt,
+        headSha: pr.headSha,
+        closesIssue,
+        matchConfidence,
+        matchReason,
+      });
     }
-    
+
     return {
       matchFound: matchingPRs.length > 0,
+      issueNumber: issueNumber ?? null,
       matchingPRs: matchingPRs.sort((a, b) => {
         const confidenceOrder = { high: 3, medium: 2, low: 1 };
         return confidenceOrder[b.matchConfidence] - confidenceOrder[a.matchConfidence];
@@ -224,4 +484,4 @@ const aiMatchPRWithIssueFlow = ai.defineFlow(
       totalPRsAnalyzed: pullRequests.length,
     };
   }
-);
\ No newline at end of file
+);
@@ -1,5 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+const STATE_ERROR_MESSAGES = {
+  forged: 'This link was not issued by GitPulse, so it can\'t be used to connect an account.',
+  expired: 'This link has expired.',
+  replayed: 'This link has already been used.',
+};
+
+function renderStateErrorPage(reason: keyof typeof STATE_ERROR_MESSAGES): Response {
+  return new Response(`
+    <!DOCTYPE html>
+    <html>
+      <head><title>Invalid Connect Link - GitPulse</title></head>
+      <body style="font-family: Arial; text-align: center; padding: 50px;">
+        <h1>❌ GitHub Was Not Connected</h1>
+        <p>${STATE_ERROR_MESSAGES[reason]}</p>
+        <p>Run <code>/gitpulse login</code> in Slack to get a new link.</p>
+      </body>
+    </html>
+  `, { headers: { 'Content-Type': 'text/html' }, status: 400 });
+}
+
 /**
  * GitHub OAuth callback specifically for Slack integrations
  * This handles the OAuth flow when users connect GitHub from Slack
@@ -9,15 +29,13 @@ export async function GET(req: NextRequest) {
   const code = searchParams.get('code');
   const state = searchParams.get('state');
   const error = searchParams.get('error');
-  const user_id = searchParams.get('user_id'); // Direct from button URL
-  const channel_id = searchParams.get('channel_id'); // Direct from button URL
 
   console.log('GitHub OAuth callback:', { 
     hasCode: !!code, 
     hasState: !!state, 
     error, 
-    user_id, 
-    channel_id 
+    user_id: searchParams.get('user_id'), 
+    channel_id: searchParams.get('channel_id') 
   });
 
   if (error) {
@@ -27,7 +45,7 @@ export async function GET(req: NextRequest) {
         <head><title>GitHub Connection Failed</title></head>
         <body style="font-family: Arial; text-align: center; padding: 50px;">
           <h1>❌ GitHub Connection Failed</h1>
-          <p>Error: ${error}</p>
+          <p>Error: ${error.replace(/[<>&"]/g, '')}</p>
           <p>Please try again from Slack.</p>
           <script>setTimeout(() => window.close(), 5000);</script>
         </body>
@@ -35,27 +53,20 @@ export async function GET(req: NextRequest) {
     `, { headers: { 'Content-Type': 'text/html' } });
   }
 
+  const { oauthStateService, OAuthStateError } = await import('@/lib/oauth-state-service');
+
   // If no code, redirect to GitHub OAuth
   if (!code) {
-    const slackUserId = user_id;
-    const channelId = channel_id;
-    
-    // If we don't have a direct user_id (button URL), try to extract it from a provided `state` query
-    let finalSlackUserId = slackUserId;
-    let finalChannelId = channelId;
-
-    if (!finalSlackUserId && state) {
-      try {
-        const parsed = JSON.parse(state);
-        finalSlackUserId = parsed.slack_user_id || finalSlackUserId;
-        finalChannelId = parsed.channel_id || finalChannelId;
-      } catch (e) {
-        // ignore parse errors - we'll handle missing user below
+    let context;
+    try {
+      // Only links GitPulse signed for a Slack user can start connecting for them
+      context = oauthStateService.verifyConnectUrl(searchParams);
+    } catch (linkError) {
+      if (linkError instanceof OAuthStateError) {
+        console.warn('Rejected GitHub connect link:', linkError.message);
+        return renderStateErrorPage(linkError.reason);
       }
-    }
-
-    if (!finalSlackUserId) {
-      return NextResponse.json({ error: 'Missing user_id parameter' }, { status: 400 });
+      throw linkError;
     }
 
     // ALWAYS use production URL for OAuth callback
@@ -71,20 +82,24 @@ export async function GET(req: NextRequest) {
     githubOAuthUrl.searchParams.set('client_id', process.env.GITHUB_CLIENT_ID!);
     githubOAuthUrl.searchParams.set('redirect_uri', redirectUri);
     githubOAuthUrl.searchParams.set('scope', 'repo,user:email');
+    githubOAuthUrl.searchParams.set('state', await oauthStateService.issueState(context));
 
-    // Build state payload with Slack user info
-    const statePayload = {
-      slack_user_id: finalSlackUserId,
-      channel_id: finalChannelId,
-      timestamp: Date.now(),
-    };
-
-    githubOAuthUrl.searchParams.set('state', JSON.stringify(statePayload));
-
-    console.log('Redirecting to GitHub OAuth:', githubOAuthUrl.toString());
+    console.log('Redirecting to GitHub OAuth for Slack user:', context.slack_user_id);
     return NextResponse.redirect(githubOAuthUrl.toString());
   }
 
+  // Check the state before the code is exchanged, so a forged callback never gets a token
+  let stateData;
+  try {
+    stateData = await oauthStateService.consumeState(state);
+  } catch (stateError) {
+    if (stateError instanceof OAuthStateError) {
+      console.warn('Rejected GitHub OAuth callback:', stateError.message);
+      return renderStateErrorPage(stateError.reason);
+    }
+    throw stateError;
+  }
+
   try {
     // Exchange code for access token
     const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
@@ -116,10 +131,10 @@ export async function GET(req: NextRequest) {
 
     const userData = await userResponse.json();
 
-    // Parse state to get Slack user info
-    const stateData = state ? JSON.parse(state) : {};
-    const slackUserId = stateData.slack_user_id || user_id;
-    const channelId = stateData.channel_id || channel_id;
+    // Slack user info from the verified state
+    const slackUserId = stateData.slack_user_id;
+    const channelId = stateData.channel_id;
+    const teamId = stateData.team_id;
 
     console.log('Processing GitHub OAuth success:', { 
       slackUserId, 
@@ -129,10 +144,13 @@ export async function GET(req: NextRequest) {
 
     if (slackUserId) {
       try {
-        // Store the GitHub token and user info in Firestore
+        // Store the GitHub tokens (encrypted) and user info in Firestore
         const { slackUserService } = await import('@/lib/slack-user-service');
         await slackUserService.storeGitHubAuth(slackUserId, {
           access_token: tokenData.access_token,
+          refresh_token: tokenData.refresh_token,
+          expires_in: tokenData.expires_in,
+          refresh_token_expires_in: tokenData.refresh_token_expires_in,
           github_user: userData,
         });
 
@@ -140,10 +158,11 @@ export async function GET(req: NextRequest) {
 
         // Send a success message to the Slack channel or user
         try {
-          const { slackAIService } = await import('@/lib/slack-ai-service');
+          const { slackInstallationService } = await import('@/lib/slack-installation-service');
+          const slack = await slackInstallationService.getClient(teamId);
           const targetChannel = channelId || slackUserId;
           
-          await slackAIService.sendMessage(
+          await slack.sendMessage(
             targetChannel,
             '',
             [
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MCPCancelJobRequestSchema,
+  MCPCancelJobResponse,
+  MCPError,
+  GitHubAPIError,
+} from '@/types/mcp';
+import { cancelCodeGeneration } from '@/lib/mcp/agent-service';
+import { AuthorizationError, resolveGitHubLogin, verifyRequestCaller } from '@/lib/request-auth';
+
+/**
+ * POST /api/mcp/cancel
+ *
+ * Cancel a queued or running MCP job by id, or every active job for an issue.
+ * The caller signs in with GitHub and is the requester the jobs are checked
+ * against, by GitHub login or, for jobs queued from the dashboard, Firebase uid.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<MCPCancelJobResponse>> {
+  try {
+    const caller = await verifyRequestCaller(request);
+    const requestedBy = await resolveGitHubLogin(caller);
+
+    // Parse and validate request body
+    const body = await request.json();
+
+    // Validate with Zod schema; the verified caller replaces any requester in the body
+    const validationResult = MCPCancelJobRequestSchema.safeParse({ ...body, requested_by: requestedBy });
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const cancelRequest = validationResult.data;
+
+    console.log(`📨 Received cancel request for ${cancelRequest.owner}/${cancelRequest.repo}`, {
+      jobId: cancelRequest.jobId,
+      issue_number: cancelRequest.issue_number,
+    });
+
+    const result = await cancelCodeGeneration(cancelRequest, caller.uid);
+
+    return NextResponse.json(
+      {
+        success: true,
+        cancelled: result.cancelled,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ MCP cancel error:', error);
+
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.name,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof GitHubAPIError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GitHub API error',
+          details: error.message,
+        },
+        { status: error.statusCode >= 500 ? 502 : 400 }
+      );
+    }
+
+    // JobNotFoundError (404), other users' jobs (403) and finished jobs (409) carry their own status
+    if (error instanceof MCPError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.code,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
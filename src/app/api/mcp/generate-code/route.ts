@@ -5,6 +5,7 @@ import {
   MCPError,
   NotAssigneeError,
   ValidationError,
+  PatchApplyError,
   GitHubAPIError,
   RateLimitError,
 } from '@/types/mcp';
@@ -83,6 +84,18 @@ export async function POST(request: NextRequest): Promise<NextResponse<MCPGenera
       );
     }
     
+    if (error instanceof PatchApplyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          jobId: 'unknown',
+          error: 'Patch could not be applied',
+          details: error.message,
+        },
+        { status: 422 }
+      );
+    }
+    
     if (error instanceof RateLimitError) {
       return NextResponse.json(
         {
@@ -103,7 +116,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<MCPGenera
           error: 'GitHub API error',
           details: error.message,
         },
-        { status: error.statusCode >= 500 ? 502 : 400 }
+        // The queue retries 429 and 5xx, so GitHub's throttling and outages keep their class
+        { status: error.statusCode === 429 ? 429 : error.statusCode >= 500 ? 502 : 400 }
       );
     }
     
@@ -151,12 +165,17 @@ export async function GET(): Promise<NextResponse> {
         jobId: 'string (required) - Unique job identifier',
         requested_by: 'string (required) - GitHub username of requester',
         related_files: 'string[] (optional) - Specific files to analyze',
+        output_mode: "'full' | 'patch' (optional) - Whole-file rewrites or unified diffs; defaults to 'patch' when a file had to be chunked",
+        max_repair_rounds: 'number (optional) - Times to feed validation errors back to the AI before opening a needs-human PR (default MCP_MAX_REPAIR_ROUNDS or 2)',
+        git_backend: "'github' | 'worktree' (optional) - Commit through the GitHub API or a local checkout validated with the repo's own checks (default MCP_GIT_BACKEND or github)",
+        run_tests: "boolean (optional) - Run the project's test suite during validation and quote the result in the PR (default MCP_RUN_TESTS)",
       },
       responses: {
-        200: 'Success - PR created',
+        200: "Success - PR created (labeled 'needs-human' if validation still fails after the last repair round)",
         400: 'Bad request - Invalid payload',
         403: 'Forbidden - User not assigned to issue',
-        422: 'Unprocessable entity - Validation failed',
+        409: 'Conflict - Job was cancelled while running (draft branch deleted)',
+        422: 'Unprocessable entity - Validation failed or patch could not be applied',
         429: 'Rate limit exceeded',
         500: 'Internal server error',
       },
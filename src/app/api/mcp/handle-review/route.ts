@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MCPHandleReviewRequestSchema,
+  MCPHandleReviewResponse,
+  MCPError,
+  PatchApplyError,
+  GitHubAPIError,
+  RateLimitError,
+} from '@/types/mcp';
+import { executeReviewFollowUp } from '@/lib/mcp/agent-service';
+
+/**
+ * POST /api/mcp/handle-review
+ *
+ * MCP endpoint that applies PR review feedback as a follow-up commit on the
+ * job's existing branch
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<MCPHandleReviewResponse>> {
+  let jobId = 'unknown';
+
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+    jobId = body.jobId || 'unknown';
+
+    // Validate with Zod schema
+    const validationResult = MCPHandleReviewRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          jobId,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const reviewRequest = validationResult.data;
+
+    console.log(`📨 Received review for ${reviewRequest.owner}/${reviewRequest.repo}#${reviewRequest.pr_number} from @${reviewRequest.review.user.login}`);
+
+    // Execute review follow-up workflow
+    const result = await executeReviewFollowUp(reviewRequest);
+
+    // Return success response
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: result.jobId,
+        pr_number: result.pr_number,
+        commit_sha: result.commit_sha,
+        threads_answered: result.threads_answered,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ MCP handle-review error:', error);
+
+    // Handle specific error types with appropriate status codes
+    if (error instanceof PatchApplyError) {
+      return NextResponse.json(
+        {
+          success: false,
+          jobId,
+          error: 'Patch could not be applied',
+          details: error.message,
+        },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          jobId,
+          error: 'Rate limit exceeded',
+          details: error.message,
+        },
+        { status: 429 }
+      );
+    }
+
+    if (error instanceof GitHubAPIError) {
+      return NextResponse.json(
+        {
+          success: false,
+          jobId,
+          error: 'GitHub API error',
+          details: error.message,
+        },
+        { status: error.statusCode >= 500 ? 502 : 400 }
+      );
+    }
+
+    if (error instanceof MCPError) {
+      return NextResponse.json(
+        {
+          success: false,
+          jobId,
+          error: error.code,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    // Handle unknown errors
+    return NextResponse.json(
+      {
+        success: false,
+        jobId,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/mcp/handle-review
+ *
+ * Return API documentation
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    {
+      name: 'MCP Review Follow-up API',
+      version: '1.0.0',
+      description: 'Regenerates code on an MCP branch in response to a pull request review',
+      endpoint: 'POST /api/mcp/handle-review',
+      requestBody: {
+        owner: 'string (required) - Repository owner',
+        repo: 'string (required) - Repository name',
+        pr_number: 'number (required) - Pull request created by the MCP job',
+        jobId: 'string (required) - MCP job identifier',
+        review: '{ id?, user: { login }, state, body, submitted_at? } (required) - Review to address; with an id only that review\'s inline comments are answered',
+        max_repair_rounds: 'number (optional) - Times to feed validation errors back to the AI (default MCP_MAX_REPAIR_ROUNDS or 2)',
+        git_backend: "'github' | 'worktree' (optional) - Defaults to the backend the job was generated with",
+        run_tests: "boolean (optional) - Run the project's test suite during validation (default MCP_RUN_TESTS)",
+      },
+      responses: {
+        200: "Success - Follow-up commit pushed and review threads answered (PR labeled 'needs-human' if validation still fails)",
+        400: 'Bad request - Invalid payload',
+        422: 'Unprocessable entity - Review had nothing to act on or patch could not be applied',
+        429: 'Rate limit exceeded',
+        500: 'Internal server error',
+      },
+      authentication: 'Requires GITHUB_TOKEN environment variable',
+    },
+    { status: 200 }
+  );
+}
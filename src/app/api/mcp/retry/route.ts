@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MCPRetryJobRequestSchema,
+  MCPRetryJobResponse,
+  MCPError,
+  GitHubAPIError,
+} from '@/types/mcp';
+import { retryCodeGeneration } from '@/lib/mcp/agent-service';
+import { AuthorizationError, resolveGitHubLogin, verifyRequestCaller } from '@/lib/request-auth';
+
+/**
+ * POST /api/mcp/retry
+ *
+ * Put a failed, dead-lettered or cancelled MCP job back on the queue. The
+ * caller is checked as for /api/mcp/cancel: whoever requested the job, or a
+ * user with write access to the repository.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<MCPRetryJobResponse>> {
+  try {
+    const caller = await verifyRequestCaller(request);
+    const requestedBy = await resolveGitHubLogin(caller);
+
+    // Parse and validate request body
+    const body = await request.json();
+
+    // Validate with Zod schema; the verified caller replaces any requester in the body
+    const validationResult = MCPRetryJobRequestSchema.safeParse({ ...body, requested_by: requestedBy });
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const retryRequest = validationResult.data;
+
+    console.log(`📨 Received retry request for ${retryRequest.owner}/${retryRequest.repo}`, {
+      jobId: retryRequest.jobId,
+    });
+
+    const result = await retryCodeGeneration(retryRequest, caller.uid);
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: result.jobId,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ MCP retry error:', error);
+
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.name,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof GitHubAPIError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GitHub API error',
+          details: error.message,
+        },
+        { status: error.statusCode >= 500 ? 502 : 400 }
+      );
+    }
+
+    // JobNotFoundError (404), other users' jobs (403) and jobs that can't be retried (409) carry their own status
+    if (error instanceof MCPError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.code,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
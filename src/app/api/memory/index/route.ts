@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChannelMemoryIndexRequestSchema } from '@/types/memory';
+import { channelMemoryService } from '@/lib/channel-memory';
+import { AuthorizationError, requireRepoAccess, verifyRequestCaller } from '@/lib/request-auth';
+
+/**
+ * POST /api/memory/index
+ *
+ * Embed a channel's new messages into its /ask memory. The web chat calls
+ * this after each message it sends, without waiting for the result. Callers
+ * sign in and need read access to the repository.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const caller = await verifyRequestCaller(request);
+    const body = await request.json();
+
+    const validationResult = ChannelMemoryIndexRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { owner, repo, channelId } = validationResult.data;
+    await requireRepoAccess(caller, owner, repo, 'read');
+
+    const indexed = await channelMemoryService.indexNewMessages(`${owner}/${repo}`, channelId);
+
+    return NextResponse.json({ success: true, indexed }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Channel memory index error:', error);
+
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.name,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
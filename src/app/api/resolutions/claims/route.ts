@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ResolutionClaimRequestSchema,
+  ResolutionClaimResponse,
+} from '@/types/resolution';
+import { GitHubAPIError } from '@/types/mcp';
+import { resolutionService, ResolutionClaimError } from '@/lib/resolution-service';
+import { AuthorizationError, requireRepoAccess, verifyRequestCaller } from '@/lib/request-auth';
+
+/**
+ * POST /api/resolutions/claims
+ *
+ * Record that PRs the web chat matched with high confidence resolve an
+ * issue, so they are followed up when they merge. Callers sign in and need
+ * read access to the repository; each match is verified again here.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ResolutionClaimResponse>> {
+  try {
+    const caller = await verifyRequestCaller(request);
+    const body = await request.json();
+
+    const validationResult = ResolutionClaimRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { owner, repo, channel_id, issue_number, pr_numbers } = validationResult.data;
+    const login = await requireRepoAccess(caller, owner, repo, 'read');
+
+    console.log(`📨 Received resolution claim for ${owner}/${repo}#${issue_number} (PRs ${pr_numbers.join(', ')}) from ${login}`);
+
+    const recorded = await resolutionService.recordClaims(owner, repo, issue_number, pr_numbers, {
+      claimedBy: caller.name || login,
+      claimedByUid: caller.uid,
+      channelId: channel_id,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        recorded,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Resolution claim error:', error);
+
+    if (error instanceof GitHubAPIError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GitHub API error',
+          details: error.message,
+        },
+        { status: error.statusCode >= 500 ? 502 : 400 }
+      );
+    }
+
+    if (error instanceof AuthorizationError || error instanceof ResolutionClaimError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.name,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
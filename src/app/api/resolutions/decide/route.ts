@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ResolutionDecisionRequestSchema,
+  ResolutionDecisionResponse,
+} from '@/types/resolution';
+import { GitHubAPIError } from '@/types/mcp';
+import { resolutionService, ResolutionClaimError } from '@/lib/resolution-service';
+
+/**
+ * POST /api/resolutions/decide
+ *
+ * Confirm or dismiss closing an issue after its verified PR merged, for
+ * repos whose resolution policy is "confirm"
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ResolutionDecisionResponse>> {
+  try {
+    const body = await request.json();
+
+    const validationResult = ResolutionDecisionRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { owner, repo, pr_number, decision, decided_by } = validationResult.data;
+
+    console.log(`📨 Received resolution ${decision} for ${owner}/${repo} PR #${pr_number} from ${decided_by}`);
+
+    const status = await resolutionService.decide(owner, repo, pr_number, decision, decided_by);
+
+    return NextResponse.json(
+      {
+        success: true,
+        status,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error('❌ Resolution decision error:', error);
+
+    if (error instanceof GitHubAPIError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'GitHub API error',
+          details: error.message,
+        },
+        { status: error.statusCode >= 500 ? 502 : 400 }
+      );
+    }
+
+    // Missing claims (404) and claims already decided (409) carry their own status
+    if (error instanceof ResolutionClaimError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.name,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
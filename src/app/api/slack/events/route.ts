@@ -1,17 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { verifySlackRequest, isUserAllowed, isChannelAllowed } from '@/lib/slack-utils';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { verifySlackRequest } from '@/lib/slack-utils';
+import { slackSettingsService } from '@/lib/slack-settings-service';
+import { slackInstallationService } from '@/lib/slack-installation-service';
+import type { ResolvedSlackSettings, SlackIssueOrigin, SlackIssueThread } from '@/types/slack';
 import { ai } from '@/ai/genkit';
-import { aiCreateGithubIssue } from '@/ai/flows/ai-creates-github-issues';
 
 /**
  * Process a message for potential GitHub issues using Gemini AI
  */
 async function processMessageForIssues(
+  settings: ResolvedSlackSettings,
   channelId: string,
   messageText: string,
-  userId: string
+  userId: string,
+  messageTs: string,
+  teamId: string | null
 ): Promise<void> {
   try {
+    if (!settings.enabled || slackSettingsService.isQuietHours(settings)) {
+      return;
+    }
+
     // Check for issue keywords first
     const issueKeywords = ['bug', 'error', 'broken', 'fix', 'issue', 'problem', 'crash', 'feature', 'add', 'need', 'should', 'implement', 'todo'];
     const hasIssueKeywords = issueKeywords.some(keyword => 
@@ -29,6 +38,14 @@ async function processMessageForIssues(
       return;
     }
 
+    if ((issueAnalysis.confidence ?? 0) < settings.confidence_threshold) {
+      console.log('Skipping low-confidence issue detection:', {
+        confidence: issueAnalysis.confidence,
+        threshold: settings.confidence_threshold,
+      });
+      return;
+    }
+
     // Check user's GitHub integration
     const { slackUserService } = await import('@/lib/slack-user-service');
     const hasGitHub = await slackUserService.hasGitHubAuth(userId);
@@ -39,11 +56,14 @@ async function processMessageForIssues(
         channelId,
         userId,
         issueAnalysis,
-        await slackUserService.getGitHubToken(userId)
+        await slackUserService.getGitHubToken(userId),
+        settings.target_repository,
+        // GitHub comments go to a thread under the message the issue came from
+        { team_id: teamId, channel_id: channelId, user_id: userId, thread_ts: messageTs }
       );
     } else {
       // Send suggestion to connect GitHub
-      await sendGitHubConnectionSuggestion(channelId, userId, issueAnalysis);
+      await sendGitHubConnectionSuggestion(teamId, channelId, userId, issueAnalysis);
     }
   } catch (error) {
     console.error('Error in processMessageForIssues:', error);
@@ -59,6 +79,7 @@ async function analyzeMessageWithGemini(messageText: string): Promise<{
   description?: string;
   priority?: 'low' | 'medium' | 'high';
   type?: 'bug' | 'feature' | 'enhancement';
+  confidence?: number;
 }> {
   try {
     const prompt = `
@@ -72,7 +93,8 @@ Respond with JSON in this exact format:
   "title": "Brief title if it's an issue",
   "description": "Detailed description if it's an issue",
   "priority": "low|medium|high",
-  "type": "bug|feature|enhancement"
+  "type": "bug|feature|enhancement",
+  "confidence": number between 0 and 1
 }
 
 Only set isIssue to true if the message clearly describes:
@@ -85,7 +107,9 @@ Do not detect issues for:
 - General conversation
 - Questions
 - Status updates
-- Greetings`;
+- Greetings
+
+Set confidence near 1 for explicit bug reports or requests, around 0.5 for vague complaints, and near 0 when it is not an issue.`;
 
     const response = await (ai as any).chat({ 
       messages: [{ role: 'user', content: [{ text: prompt }] }]
@@ -112,38 +136,43 @@ async function createIssueFromAnalysis(
   channelId: string,
   userId: string,
   analysis: any,
-  githubToken: string | null
+  githubToken: string | null,
+  targetRepository: string | null,
+  origin: SlackIssueOrigin
 ): Promise<void> {
   try {
     if (!githubToken) {
       return;
     }
 
-    // Get user's repositories
-    const repos = await getUserRepositories(githubToken);
+    // The channel's target repository, else the user's most recent one
+    const repos = targetRepository ? [targetRepository] : await getUserRepositories(githubToken);
     
     if (repos.length === 0) {
-      await sendNoRepositoriesMessage(channelId, userId, analysis);
+      await sendNoRepositoriesMessage(origin.team_id, channelId, userId, analysis);
       return;
     }
 
-    // For now, use the first repository (could be enhanced with user selection)
-    const [repoOwner, repoName] = repos[0].split('/');
-    
-    // Create the GitHub issue
-    const result = await aiCreateGithubIssue({
-      repoOwner,
-      repoName,
-      issueTitle: analysis.title,
-      issueDescription: analysis.description,
-      accessToken: githubToken
-    });
+    // Create the GitHub issue and link it to the message's thread
+    const slack = await slackInstallationService.getClient(origin.team_id);
+    const result = await slack.createGitHubIssueFromSlack(
+      analysis.title,
+      analysis.description,
+      repos[0],
+      githubToken,
+      undefined,
+      origin
+    );
+
+    if (!result.success || !result.issueUrl) {
+      throw new Error(result.error || 'Issue creation failed');
+    }
 
     // Send success message
-    await sendSuccessMessage(channelId, analysis.title, result.issueUrl);
+    await sendSuccessMessage(origin.team_id, channelId, analysis.title, result.issueUrl);
   } catch (error) {
     console.error('Error creating issue from analysis:', error);
-    await sendErrorMessage(channelId, 'Failed to create GitHub issue');
+    await sendErrorMessage(origin.team_id, channelId, 'Failed to create GitHub issue');
   }
 }
 
@@ -177,6 +206,7 @@ async function getUserRepositories(githubToken: string): Promise<string[]> {
  * Send a message suggesting GitHub connection
  */
 async function sendGitHubConnectionSuggestion(
+  teamId: string | null,
   channelId: string,
   userId: string,
   analysis: any
@@ -185,7 +215,7 @@ async function sendGitHubConnectionSuggestion(
     await fetch('https://slack.com/api/chat.postMessage', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+        'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -210,6 +240,7 @@ async function sendGitHubConnectionSuggestion(
  * Send success message after creating an issue
  */
 async function sendSuccessMessage(
+  teamId: string | null,
   channelId: string,
   issueTitle: string,
   issueUrl: string
@@ -218,7 +249,7 @@ async function sendSuccessMessage(
     await fetch('https://slack.com/api/chat.postMessage', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+        'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -234,12 +265,12 @@ async function sendSuccessMessage(
 /**
  * Send error message
  */
-async function sendErrorMessage(channelId: string, message: string): Promise<void> {
+async function sendErrorMessage(teamId: string | null, channelId: string, message: string): Promise<void> {
   try {
     await fetch('https://slack.com/api/chat.postMessage', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+        'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -256,6 +287,7 @@ async function sendErrorMessage(channelId: string, message: string): Promise<voi
  * Send message when user has no repositories
  */
 async function sendNoRepositoriesMessage(
+  teamId: string | null,
   channelId: string,
   userId: string,
   analysis: any
@@ -264,7 +296,7 @@ async function sendNoRepositoriesMessage(
     await fetch('https://slack.com/api/chat.postMessage', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+        'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -277,6 +309,51 @@ async function sendNoRepositoriesMessage(
   }
 }
 
+/**
+ * Send a message in a linked thread to the thread's GitHub issue, posted with
+ * the GitHub account of the user who reacted to it
+ */
+async function sendReplyToGitHub(teamId: string | null, channelId: string, messageTs: string, reactingUserId: string): Promise<void> {
+  const { slackThreadService } = await import('@/lib/slack-thread-service');
+  const { slackUserService } = await import('@/lib/slack-user-service');
+  const slack = await slackInstallationService.getClient(teamId);
+
+  const message = await slack.getMessage(channelId, messageTs);
+  if (!message || message.bot_id || !message.text) {
+    return;
+  }
+
+  const link = await slackThreadService.getThreadLink(channelId, message.thread_ts || message.ts);
+  if (!link) {
+    return;
+  }
+
+  const accessToken = await slackUserService.getGitHubToken(reactingUserId);
+  if (!accessToken) {
+    await slack.sendEphemeral(channelId, reactingUserId, '🔗 Connect your GitHub account with `/gitpulse login` to send replies to GitHub.');
+    return;
+  }
+
+  await slackThreadService.mirrorReply(link, message, accessToken);
+}
+
+/**
+ * Send a reply in a mirrored thread to its GitHub issue, if its author has
+ * connected GitHub
+ */
+async function mirrorThreadReply(link: SlackIssueThread, event: { user?: string; text: string; ts: string }): Promise<void> {
+  const { slackThreadService } = await import('@/lib/slack-thread-service');
+  const { slackUserService } = await import('@/lib/slack-user-service');
+
+  const accessToken = event.user ? await slackUserService.getGitHubToken(event.user) : null;
+  if (!accessToken) {
+    console.log(`Not mirroring reply ${event.ts}: its author has not connected GitHub`);
+    return;
+  }
+
+  await slackThreadService.mirrorReply(link, event, accessToken);
+}
+
 // Handle Slack events
 export async function POST(req: NextRequest) {
   try {
@@ -303,21 +380,51 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Enforce allowlists (best-effort - event payload shapes vary)
+    // Forget the workspace's bot token once Slack has invalidated it
+    if (data.type === 'event_callback' && data.event.type === 'app_uninstalled') {
+      await slackInstallationService.revokeInstallation(data.team_id, 'app_uninstalled');
+      return NextResponse.json({ ok: true });
+    }
+
+    if (data.type === 'event_callback' && data.event.type === 'tokens_revoked') {
+      // Only bot tokens are stored; revoked user tokens need nothing
+      if (data.event.tokens?.bot?.length) {
+        await slackInstallationService.revokeInstallation(data.team_id, 'tokens_revoked');
+      }
+      return NextResponse.json({ ok: true });
+    }
+
+    // Apply the workspace's settings (best-effort - event payload shapes vary).
+    // Ignored events are still acknowledged so Slack doesn't retry them.
     const eventUser = data.event?.user ?? data.event?.bot_user_id ?? null;
     const eventChannel = data.event?.channel ?? null;
-    if (!isUserAllowed(eventUser)) return NextResponse.json({ error: 'User not allowed' }, { status: 403 });
-    if (!isChannelAllowed(eventChannel)) return NextResponse.json({ error: 'Channel not allowed' }, { status: 403 });
+    const settings = await slackSettingsService.getSettings(data.team_id, eventChannel);
+    if (!slackSettingsService.isUserAllowed(settings, eventUser)) {
+      return NextResponse.json({ ok: true });
+    }
+
+    // Publish the Home tab whenever a user opens it
+    if (data.type === 'event_callback' && data.event.type === 'app_home_opened' && data.event.tab === 'home') {
+      const { slackHomeService } = await import('@/lib/slack-home-service');
+
+      after(() =>
+        slackHomeService.publishHome(data.event.user, data.team_id ?? null).catch((error) => {
+          console.error('Error publishing App Home:', error);
+        })
+      );
+      return NextResponse.json({ ok: true });
+    }
 
     // Handle app mention events
     if (data.type === 'event_callback' && data.event.type === 'app_mention') {
       const event = data.event;
+      const teamId = data.team_id ?? null;
       
       // Send a response back to Slack
       const response = await fetch('https://slack.com/api/chat.postMessage', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+          'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -331,6 +438,19 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Handle reactions that send a thread reply to its GitHub issue
+    if (data.type === 'event_callback' && data.event.type === 'reaction_added' && data.event.item?.type === 'message') {
+      const { SLACK_REPLY_REACTION } = await import('@/lib/slack-thread-service');
+
+      if (data.event.reaction === SLACK_REPLY_REACTION) {
+        after(() =>
+          sendReplyToGitHub(data.team_id ?? null, data.event.item.channel, data.event.item.ts, data.event.user).catch((error) => {
+            console.error('Error sending reply to GitHub:', error);
+          })
+        );
+      }
+    }
+
     // Handle message events in channels where the bot is added
     if (data.type === 'event_callback' && data.event.type === 'message' && !data.event.subtype) {
       const event = data.event;
@@ -340,8 +460,26 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ ok: true });
       }
 
+      // Replies in a thread linked to an issue belong to that issue
+      if (event.thread_ts && event.thread_ts !== event.ts) {
+        const { slackThreadService } = await import('@/lib/slack-thread-service');
+        const link = await slackThreadService.getThreadLink(event.channel, event.thread_ts);
+
+        if (link) {
+          // Other threads only send replies that are reacted to
+          if (link.mirror_replies) {
+            after(() =>
+              mirrorThreadReply(link, event).catch((error) => {
+                console.error('Error mirroring thread reply:', error);
+              })
+            );
+          }
+          return NextResponse.json({ ok: true });
+        }
+      }
+
       // Process message for potential issues in background
-      processMessageForIssues(event.channel, event.text, event.user).catch((error) => {
+      processMessageForIssues(settings, event.channel, event.text, event.user, event.ts, data.team_id ?? null).catch((error) => {
         console.error('Error processing message for issues:', error);
       });
     }
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { SLACK_BOT_SCOPES, slackInstallationService } from '@/lib/slack-installation-service';
+
+const STATE_COOKIE = 'slack_install_state';
+const STATE_TTL_SECONDS = 10 * 60;
+
+function getRedirectUri(): string {
+  return `${process.env.NEXTAUTH_URL || 'http://localhost:9002'}/api/slack/install`;
+}
+
+function renderPage(title: string, message: string, status: number = 200): NextResponse {
+  return new NextResponse(`
+    <!DOCTYPE html>
+    <html>
+      <head><title>${title} - GitPulse</title></head>
+      <body style="font-family: Arial; text-align: center; padding: 50px;">
+        <h1>${title}</h1>
+        <p>${message}</p>
+      </body>
+    </html>
+  `, { status, headers: { 'Content-Type': 'text/html' } });
+}
+
+/**
+ * Slack OAuth v2 install flow. Without a code, redirects to Slack's consent
+ * screen; Slack then redirects back here with one, which is exchanged for
+ * the workspace's bot token.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const error = searchParams.get('error');
+
+  if (!process.env.SLACK_CLIENT_ID || !process.env.SLACK_CLIENT_SECRET) {
+    console.error('Missing SLACK_CLIENT_ID or SLACK_CLIENT_SECRET');
+    return renderPage('❌ Slack Install Not Configured', 'Set SLACK_CLIENT_ID and SLACK_CLIENT_SECRET.', 500);
+  }
+
+  if (error) {
+    return renderPage('❌ GitPulse Was Not Installed', `Slack returned: ${error.replace(/[<>&"]/g, '')}`, 400);
+  }
+
+  // No code yet: start the install
+  if (!code) {
+    const nonce = randomBytes(16).toString('hex');
+    const authorizeUrl = new URL('https://slack.com/oauth/v2/authorize');
+    authorizeUrl.searchParams.set('client_id', process.env.SLACK_CLIENT_ID);
+    authorizeUrl.searchParams.set('scope', SLACK_BOT_SCOPES.join(','));
+    authorizeUrl.searchParams.set('redirect_uri', getRedirectUri());
+    authorizeUrl.searchParams.set('state', nonce);
+
+    const response = NextResponse.redirect(authorizeUrl.toString());
+    response.cookies.set(STATE_COOKIE, nonce, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: STATE_TTL_SECONDS,
+      path: '/api/slack/install',
+    });
+    return response;
+  }
+
+  // The browser that started the install must be the one finishing it
+  if (!state || state !== req.cookies.get(STATE_COOKIE)?.value) {
+    return renderPage('❌ Install Link Expired', 'Start the install again from the Add to Slack button.', 400);
+  }
+
+  try {
+    const tokenResponse = await fetch('https://slack.com/api/oauth.v2.access', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.SLACK_CLIENT_ID,
+        client_secret: process.env.SLACK_CLIENT_SECRET,
+        code,
+        redirect_uri: getRedirectUri(),
+      }),
+    });
+
+    const data = await tokenResponse.json();
+
+    if (!data.ok || data.token_type !== 'bot') {
+      throw new Error(data.error || 'Slack did not return a bot token');
+    }
+
+    await slackInstallationService.saveInstallation({
+      team_id: data.team.id,
+      team_name: data.team.name ?? null,
+      enterprise_id: data.enterprise?.id ?? null,
+      app_id: data.app_id,
+      bot_user_id: data.bot_user_id,
+      bot_token: data.access_token,
+      scope: data.scope,
+      installed_by: data.authed_user?.id,
+    });
+
+    const response = renderPage(
+      '✅ GitPulse Installed',
+      `GitPulse is now in ${String(data.team.name || 'your workspace').replace(/[<>&"]/g, '')}. Invite it to a channel with <code>/invite @gitpulse</code>.`
+    );
+    response.cookies.delete({ name: STATE_COOKIE, path: '/api/slack/install' });
+    return response;
+  } catch (installError) {
+    console.error('Slack install failed:', installError);
+    return renderPage('❌ GitPulse Was Not Installed', 'Something went wrong while installing. Please try again.', 500);
+  }
+}
@@ -1,5 +1,195 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifySlackRequest } from '@/lib/slack-utils';
+import { slackInstallationService } from '@/lib/slack-installation-service';
+import type { SlackIssueOrigin } from '@/types/slack';
+
+type IssuePriority = 'low' | 'medium' | 'high';
+
+const PRIORITY_OPTIONS: Record<IssuePriority, { text: { type: 'plain_text'; text: string }; value: IssuePriority }> = {
+  high: { text: { type: 'plain_text', text: '🔴 High Priority' }, value: 'high' },
+  medium: { text: { type: 'plain_text', text: '🟡 Medium Priority' }, value: 'medium' },
+  low: { text: { type: 'plain_text', text: '🟢 Low Priority' }, value: 'low' },
+};
+
+/**
+ * Call a Slack Web API method with a JSON body, as the workspace's bot
+ */
+async function callSlack(teamId: string | null, method: string, body: Record<string, unknown>): Promise<any> {
+  const response = await fetch(`https://slack.com/api/${method}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+  return response.json();
+}
+
+/**
+ * The create_issue_modal, optionally prefilled. Without a repository the
+ * modal asks for one. The issue is linked to the origin's thread on submit,
+ * or to a new thread in its channel.
+ */
+function buildCreateIssueModal(options: {
+  repository: string | null;
+  title?: string;
+  description?: string;
+  priority?: IssuePriority;
+  origin?: SlackIssueOrigin;
+  participants?: string[];
+}) {
+  const fromThread = !!options.origin?.thread_ts;
+  const intro = fromThread
+    ? `🧵 *Summarized from a thread*${options.participants?.length ? ` with ${options.participants.join(', ')}` : ''}.\n\n📝 Review the issue details below:`
+    : `📁 *Repository:* \`${options.repository}\`\n\n📝 Fill in the issue details below:`;
+
+  return {
+    type: 'modal',
+    callback_id: 'create_issue_modal',
+    title: {
+      type: 'plain_text',
+      text: 'Create GitHub Issue'
+    },
+    submit: {
+      type: 'plain_text',
+      text: 'Create Issue'
+    },
+    close: {
+      type: 'plain_text',
+      text: 'Cancel'
+    },
+    private_metadata: JSON.stringify({ repository: options.repository, origin: options.origin }),
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: intro
+        }
+      },
+      options.repository && fromThread ? {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `📁 Repository: \`${options.repository}\`` }]
+      } : null,
+      !options.repository ? {
+        type: 'input',
+        block_id: 'repository',
+        label: {
+          type: 'plain_text',
+          text: 'GitHub Repository'
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'repo',
+          placeholder: {
+            type: 'plain_text',
+            text: 'owner/repository-name'
+          }
+        }
+      } : null,
+      {
+        type: 'input',
+        block_id: 'issue_title',
+        label: {
+          type: 'plain_text',
+          text: 'Issue Title *'
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'title',
+          ...(options.title ? { initial_value: options.title } : {}),
+          placeholder: {
+            type: 'plain_text',
+            text: 'e.g., Fix login bug on mobile devices'
+          }
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'issue_description',
+        label: {
+          type: 'plain_text',
+          text: 'Issue Description'
+        },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'description',
+          multiline: true,
+          ...(options.description ? { initial_value: options.description } : {}),
+          placeholder: {
+            type: 'plain_text',
+            text: 'Describe the issue, steps to reproduce, expected behavior, etc.'
+          }
+        },
+        optional: true
+      },
+      {
+        type: 'input',
+        block_id: 'issue_priority',
+        label: {
+          type: 'plain_text',
+          text: 'Priority Level'
+        },
+        element: {
+          type: 'static_select',
+          action_id: 'priority',
+          placeholder: {
+            type: 'plain_text',
+            text: 'Select priority...'
+          },
+          initial_option: PRIORITY_OPTIONS[options.priority || 'medium'],
+          options: [PRIORITY_OPTIONS.high, PRIORITY_OPTIONS.medium, PRIORITY_OPTIONS.low]
+        },
+        optional: true
+      }
+    ].filter(Boolean)
+  };
+}
+
+/**
+ * Replace the loading modal opened by the thread shortcut with the
+ * create_issue_modal, prefilled from the whole thread
+ */
+async function prefillIssueFromThread(viewId: string, origin: SlackIssueOrigin & { thread_ts: string }): Promise<void> {
+  try {
+    const slack = await slackInstallationService.getClient(origin.team_id);
+    const { slackSettingsService } = await import('@/lib/slack-settings-service');
+    const { slackUserService } = await import('@/lib/slack-user-service');
+
+    const [summary, settings] = await Promise.all([
+      slack.analyzeThreadForIssue(origin.channel_id, origin.thread_ts),
+      slackSettingsService.getSettings(origin.team_id, origin.channel_id),
+    ]);
+    const repository = settings.target_repository || await slackUserService.getCurrentRepository(origin.user_id);
+
+    await callSlack(origin.team_id, 'views.update', {
+      view_id: viewId,
+      view: buildCreateIssueModal({
+        repository,
+        title: summary.title,
+        description: summary.description,
+        priority: summary.priority,
+        origin,
+        participants: summary.participants,
+      })
+    });
+  } catch (error) {
+    console.error('Error summarizing thread:', error);
+    await callSlack(origin.team_id, 'views.update', {
+      view_id: viewId,
+      view: {
+        type: 'modal',
+        title: { type: 'plain_text', text: 'Create GitHub Issue' },
+        close: { type: 'plain_text', text: 'Close' },
+        blocks: [{
+          type: 'section',
+          text: { type: 'mrkdwn', text: '❌ Could not read this thread. Make sure GitPulse is in the channel and try again.' }
+        }]
+      }
+    }).catch(() => undefined);
+  }
+}
 
 export async function POST(req: NextRequest) {
   try {
@@ -25,6 +215,7 @@ export async function POST(req: NextRequest) {
     const payload = JSON.parse(decodeURIComponent(body.replace('payload=', '')));
     const userId = payload.user?.id;
     const channelId = payload.channel?.id;
+    const teamId = payload.team?.id ?? null;
 
     console.log('Interaction payload:', {
       type: payload.type,
@@ -33,6 +224,42 @@ export async function POST(req: NextRequest) {
       channelId
     });
 
+    // Message shortcut: turn a whole thread into an issue
+    if (payload.type === 'message_action' && payload.callback_id === 'create_issue_from_thread') {
+      const origin = {
+        team_id: teamId,
+        channel_id: channelId,
+        user_id: userId,
+        thread_ts: payload.message?.thread_ts || payload.message?.ts,
+        mirror_replies: true,
+      };
+
+      // Summarizing takes longer than Slack waits, so open a placeholder first
+      const opened = await callSlack(teamId, 'views.open', {
+        trigger_id: payload.trigger_id,
+        view: {
+          type: 'modal',
+          title: { type: 'plain_text', text: 'Create GitHub Issue' },
+          close: { type: 'plain_text', text: 'Cancel' },
+          blocks: [{
+            type: 'section',
+            text: { type: 'mrkdwn', text: '🧵 Reading the thread and drafting an issue...' }
+          }]
+        }
+      });
+
+      if (!opened.ok) {
+        console.error('Failed to open modal:', opened.error);
+        return NextResponse.json({ ok: true });
+      }
+
+      prefillIssueFromThread(opened.view.id, origin).catch((error) => {
+        console.error('Error prefilling issue from thread:', error);
+      });
+
+      return NextResponse.json({ ok: true });
+    }
+
     // Handle block actions (e.g., button clicks, dropdowns)
     if (payload.type === 'block_actions') {
       const action = payload.actions?.[0];
@@ -43,108 +270,18 @@ export async function POST(req: NextRequest) {
         console.log('Direct repository selection for issue creation:', selectedRepo);
         
         // Open a modal for issue details
-        const modalView = {
-          type: 'modal',
-          callback_id: 'create_issue_modal',
-          title: {
-            type: 'plain_text',
-            text: 'Create GitHub Issue'
-          },
-          submit: {
-            type: 'plain_text',
-            text: 'Create Issue'
-          },
-          close: {
-            type: 'plain_text',
-            text: 'Cancel'
-          },
-          private_metadata: JSON.stringify({ repository: selectedRepo }),
-          blocks: [
-            {
-              type: 'section',
-              text: {
-                type: 'mrkdwn',
-                text: `📁 *Repository:* \`${selectedRepo}\`\n\n📝 Fill in the issue details below:`
-              }
-            },
-            {
-              type: 'input',
-              block_id: 'issue_title',
-              label: {
-                type: 'plain_text',
-                text: 'Issue Title *'
-              },
-              element: {
-                type: 'plain_text_input',
-                action_id: 'title',
-                placeholder: {
-                  type: 'plain_text',
-                  text: 'e.g., Fix login bug on mobile devices'
-                }
-              }
-            },
-            {
-              type: 'input',
-              block_id: 'issue_description',
-              label: {
-                type: 'plain_text',
-                text: 'Issue Description'
-              },
-              element: {
-                type: 'plain_text_input',
-                action_id: 'description',
-                multiline: true,
-                placeholder: {
-                  type: 'plain_text',
-                  text: 'Describe the issue, steps to reproduce, expected behavior, etc.'
-                }
-              },
-              optional: true
-            },
-            {
-              type: 'input',
-              block_id: 'issue_priority',
-              label: {
-                type: 'plain_text',
-                text: 'Priority Level'
-              },
-              element: {
-                type: 'static_select',
-                action_id: 'priority',
-                placeholder: {
-                  type: 'plain_text',
-                  text: 'Select priority...'
-                },
-                initial_option: {
-                  text: { type: 'plain_text', text: '🟡 Medium Priority' },
-                  value: 'medium'
-                },
-                options: [
-                  {
-                    text: { type: 'plain_text', text: '🔴 High Priority' },
-                    value: 'high'
-                  },
-                  {
-                    text: { type: 'plain_text', text: '🟡 Medium Priority' },
-                    value: 'medium'
-                  },
-                  {
-                    text: { type: 'plain_text', text: '🟢 Low Priority' },
-                    value: 'low'
-                  }
-                ]
-              },
-              optional: true
-            }
-          ]
-        };
+        const modalView = buildCreateIssueModal({
+          repository: selectedRepo,
+          // Issues created from App Home have no channel to start a thread in
+          origin: channelId ? { team_id: teamId, channel_id: channelId, user_id: userId } : undefined,
+        });
 
         // Open the modal
         try {
           const response = await fetch('https://slack.com/api/views.open', {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+              'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
               'Content-Type': 'application/json'
             },
             body: JSON.stringify({
@@ -177,108 +314,18 @@ export async function POST(req: NextRequest) {
         console.log('Repository selected for issue creation:', selectedRepo);
         
         // Open a modal for issue details
-        const modalView = {
-          type: 'modal',
-          callback_id: 'create_issue_modal',
-          title: {
-            type: 'plain_text',
-            text: 'Create GitHub Issue'
-          },
-          submit: {
-            type: 'plain_text',
-            text: 'Create Issue'
-          },
-          close: {
-            type: 'plain_text',
-            text: 'Cancel'
-          },
-          private_metadata: JSON.stringify({ repository: selectedRepo }),
-          blocks: [
-            {
-              type: 'section',
-              text: {
-                type: 'mrkdwn',
-                text: `📁 *Repository:* \`${selectedRepo}\`\n\n📝 Fill in the issue details below:`
-              }
-            },
-            {
-              type: 'input',
-              block_id: 'issue_title',
-              label: {
-                type: 'plain_text',
-                text: 'Issue Title *'
-              },
-              element: {
-                type: 'plain_text_input',
-                action_id: 'title',
-                placeholder: {
-                  type: 'plain_text',
-                  text: 'e.g., Fix login bug on mobile devices'
-                }
-              }
-            },
-            {
-              type: 'input',
-              block_id: 'issue_description',
-              label: {
-                type: 'plain_text',
-                text: 'Issue Description'
-              },
-              element: {
-                type: 'plain_text_input',
-                action_id: 'description',
-                multiline: true,
-                placeholder: {
-                  type: 'plain_text',
-                  text: 'Describe the issue, steps to reproduce, expected behavior, etc.'
-                }
-              },
-              optional: true
-            },
-            {
-              type: 'input',
-              block_id: 'issue_priority',
-              label: {
-                type: 'plain_text',
-                text: 'Priority Level'
-              },
-              element: {
-                type: 'static_select',
-                action_id: 'priority',
-                placeholder: {
-                  type: 'plain_text',
-                  text: 'Select priority...'
-                },
-                initial_option: {
-                  text: { type: 'plain_text', text: '🟡 Medium Priority' },
-                  value: 'medium'
-                },
-                options: [
-                  {
-                    text: { type: 'plain_text', text: '🔴 High Priority' },
-                    value: 'high'
-                  },
-                  {
-                    text: { type: 'plain_text', text: '🟡 Medium Priority' },
-                    value: 'medium'
-                  },
-                  {
-                    text: { type: 'plain_text', text: '🟢 Low Priority' },
-                    value: 'low'
-                  }
-                ]
-              },
-              optional: true
-            }
-          ]
-        };
+        const modalView = buildCreateIssueModal({
+          repository: selectedRepo,
+          // Issues created from App Home have no channel to start a thread in
+          origin: channelId ? { team_id: teamId, channel_id: channelId, user_id: userId } : undefined,
+        });
 
         // Open the modal
         try {
           const response = await fetch('https://slack.com/api/views.open', {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+              'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
               'Content-Type': 'application/json'
             },
             body: JSON.stringify({
@@ -328,7 +375,11 @@ export async function POST(req: NextRequest) {
           }
 
           const { slackUserService } = await import('@/lib/slack-user-service');
-          const created = await slackUserService.createIssueForRepository(repository, title, description, userId || '');
+          const created = await slackUserService.createIssueForRepository(repository, title, description, userId || '', channelId ? {
+            team_id: teamId,
+            channel_id: channelId,
+            user_id: userId,
+          } : undefined);
 
           if (!created) {
             return NextResponse.json({
@@ -362,6 +413,38 @@ export async function POST(req: NextRequest) {
         }
       }
 
+      // Repository picked from /gitpulse switchrepo or App Home
+      if (action?.action_id === 'switch_repository') {
+        const selectedRepo = action.selected_option?.value;
+        const { slackUserService } = await import('@/lib/slack-user-service');
+
+        try {
+          await slackUserService.setDefaultRepository(userId, selectedRepo);
+        } catch (error) {
+          console.error('Error switching repository:', error);
+          return NextResponse.json({ ok: true });
+        }
+
+        if (payload.view?.type === 'home') {
+          const { slackHomeService } = await import('@/lib/slack-home-service');
+          await slackHomeService.publishHome(userId, teamId);
+          return NextResponse.json({ ok: true });
+        }
+
+        return NextResponse.json({
+          response_type: 'ephemeral',
+          replace_original: true,
+          text: `✅ Switched to \`${selectedRepo}\`. New issues and \`/gitpulse assign\` now use it.`
+        });
+      }
+
+      // Refresh button on App Home
+      if (action?.action_id === 'refresh_home') {
+        const { slackHomeService } = await import('@/lib/slack-home-service');
+        await slackHomeService.publishHome(userId, teamId);
+        return NextResponse.json({ ok: true });
+      }
+
       // Show issue creation form button click
       if (action?.action_id === 'show_issue_form') {
         return NextResponse.json({
@@ -459,13 +542,15 @@ export async function POST(req: NextRequest) {
           const description = values.issue_description?.description?.value || '';
           const priority = values.issue_priority?.priority?.selected_option?.value || 'medium';
           
-          // Get repository from private_metadata
-          let repository = '';
+          // Get repository from private_metadata, or the modal when it asked for one
+          let repository = values.repository?.repo?.value?.trim() || '';
+          let origin: SlackIssueOrigin | undefined;
           try {
             const meta = payload.view?.private_metadata;
             if (meta) {
               const parsed = JSON.parse(meta);
-              repository = parsed.repository;
+              repository = parsed.repository || repository;
+              origin = parsed.origin;
             }
           } catch (e) {
             console.error('Error parsing private_metadata:', e);
@@ -492,7 +577,7 @@ export async function POST(req: NextRequest) {
             fullDescription = `**Priority:** ${priorityLabel}\n\n${description}`;
           }
           
-          const created = await slackUserService.createIssueForRepository(repository, title, fullDescription, userId);
+          const created = await slackUserService.createIssueForRepository(repository, title, fullDescription, userId, origin);
 
           if (!created) {
             return NextResponse.json({
@@ -505,16 +590,18 @@ export async function POST(req: NextRequest) {
 
           console.log('GitHub issue created successfully:', created);
 
-          // Send a follow-up message to the user
+          // Send a follow-up message to the user. Modal submissions carry no
+          // channel, and issues created from App Home have none, so DM them.
+          const followUpChannel = channelId || origin?.channel_id;
           try {
-            await fetch('https://slack.com/api/chat.postEphemeral', {
+            await fetch(`https://slack.com/api/${followUpChannel ? 'chat.postEphemeral' : 'chat.postMessage'}`, {
               method: 'POST',
               headers: {
-                'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+                'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
                 'Content-Type': 'application/json'
               },
               body: JSON.stringify({
-                channel: channelId,
+                channel: followUpChannel || userId,
                 user: userId,
                 text: `✅ GitHub issue created successfully!`,
                 blocks: [
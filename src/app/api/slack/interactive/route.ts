@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifySlackRequest, isUserAllowed, isChannelAllowed } from '@/lib/slack-utils';
+import { slackInstallationService } from '@/lib/slack-installation-service';
 
 export async function POST(req: NextRequest) {
   try {
@@ -22,6 +23,7 @@ export async function POST(req: NextRequest) {
     // Enforce allowlists when configured
     const slackUserId = payload.user?.id ?? payload.user_id ?? null;
     const slackChannelId = payload.channel?.id ?? payload.channel_id ?? null;
+    const teamId = payload.team?.id ?? null;
     if (!isUserAllowed(slackUserId)) return NextResponse.json({ error: 'User not allowed' }, { status: 403 });
     if (!isChannelAllowed(slackChannelId)) return NextResponse.json({ error: 'Channel not allowed' }, { status: 403 });
 
@@ -56,7 +58,7 @@ export async function POST(req: NextRequest) {
             const response = await fetch('https://slack.com/api/chat.postEphemeral', {
               method: 'POST',
               headers: {
-                'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+                'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
                 'Content-Type': 'application/json',
               },
               body: JSON.stringify({
@@ -115,7 +117,7 @@ export async function POST(req: NextRequest) {
           const response = await fetch('https://slack.com/api/views.open', {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+              'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
@@ -140,7 +142,7 @@ export async function POST(req: NextRequest) {
         const response = await fetch('https://slack.com/api/chat.update', {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+            'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
@@ -182,7 +184,16 @@ export async function POST(req: NextRequest) {
               type: 'plain_text',
               text: 'Cancel'
             },
-            private_metadata: JSON.stringify({ original_message_ts: payload.message.ts }),
+            private_metadata: JSON.stringify({
+              original_message_ts: payload.message.ts,
+              // GitHub comments go to a thread under the suggestion
+              origin: {
+                team_id: teamId,
+                channel_id: payload.channel?.id,
+                user_id: payload.user.id,
+                thread_ts: payload.message.ts,
+              },
+            }),
             blocks: [
               {
                 type: 'input',
@@ -233,7 +244,7 @@ export async function POST(req: NextRequest) {
           const response = await fetch('https://slack.com/api/views.open', {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+              'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
@@ -257,6 +268,13 @@ export async function POST(req: NextRequest) {
         const modalView = {
           type: 'modal',
           callback_id: 'github_issue_modal',
+          private_metadata: JSON.stringify({
+            origin: {
+              team_id: teamId,
+              channel_id: payload.channel?.id,
+              user_id: payload.user.id,
+            },
+          }),
           title: {
             type: 'plain_text',
             text: 'Create GitHub Issue'
@@ -326,7 +344,7 @@ export async function POST(req: NextRequest) {
         const response = await fetch('https://slack.com/api/views.open', {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${process.env.SLACK_BOT_TOKEN}`,
+            'Authorization': `Bearer ${await slackInstallationService.getBotToken(teamId)}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
@@ -350,36 +368,39 @@ export async function POST(req: NextRequest) {
       const title = values.issue_title.title.value;
       const description = values.issue_description.description.value;
       const repository = values.repository.repo.value;
+      const { origin } = JSON.parse(payload.view.private_metadata || '{}');
 
-      // Import the Slack AI service
-      const { slackAIService } = await import('@/lib/slack-ai-service');
+      // The workspace's Slack client
+      const slack = await slackInstallationService.getClient(teamId);
 
       // Note: In a real implementation, you'd need to get the user's GitHub token
       // For now, we'll use a placeholder or environment variable
       const githubToken = process.env.GITHUB_TOKEN || 'placeholder';
       
       try {
-        const result = await slackAIService.createGitHubIssueFromSlack(
+        const result = await slack.createGitHubIssueFromSlack(
           title,
           description,
           repository,
-          githubToken
+          githubToken,
+          undefined,
+          origin?.channel_id ? origin : undefined
         );
 
         if (result.success) {
-          await slackAIService.sendMessage(
+          await slack.sendMessage(
             payload.user.id, // DM the user
             `✅ GitHub issue created successfully!\n\n**Title:** ${title}\n**Repository:** ${repository}\n**Issue URL:** ${result.issueUrl}`
           );
         } else {
-          await slackAIService.sendMessage(
+          await slack.sendMessage(
             payload.user.id,
             `❌ Failed to create GitHub issue: ${result.error}`
           );
         }
       } catch (error) {
         console.error('Error creating GitHub issue:', error);
-        await slackAIService.sendMessage(
+        await slack.sendMessage(
           payload.user.id,
           `❌ Error creating GitHub issue. Please try again or contact support.`
         );
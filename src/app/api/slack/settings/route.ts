@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SlackSettingsUpdateRequestSchema, SlackSettingsUpdateResponse } from '@/types/slack';
+import { slackSettingsService } from '@/lib/slack-settings-service';
+import { AuthorizationError, verifyRequestCaller } from '@/lib/request-auth';
+
+/**
+ * POST /api/slack/settings
+ *
+ * Change a workspace's Slack settings, or a channel's override, from the
+ * dashboard. Only admins and owners of the workspace may: the caller signs in
+ * with GitHub, and that account must be connected to one of them in Slack.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<SlackSettingsUpdateResponse>> {
+  try {
+    const caller = await verifyRequestCaller(request);
+    const body = await request.json();
+
+    const validationResult = SlackSettingsUpdateRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors = validationResult.error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request payload',
+          details: errors.join('; '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { team_id, channel_id, settings } = validationResult.data;
+
+    console.log(`📨 Received Slack settings update for ${team_id}${channel_id ? `/${channel_id}` : ''} from ${caller.uid}`);
+
+    if (!caller.githubId || !(await slackSettingsService.isWorkspaceAdmin(team_id, caller.githubId))) {
+      throw new AuthorizationError(
+        'Only Slack workspace admins can change its settings. Sign in with the GitHub account you connected with /gitpulse login.',
+        403
+      );
+    }
+
+    await slackSettingsService.updateSettings(team_id, channel_id ?? null, settings);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ Slack settings update error:', error);
+
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.name,
+          details: error.message,
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error.message || 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
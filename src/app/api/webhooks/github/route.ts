@@ -1,4 +1,4 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createHmac, timingSafeEqual } from 'crypto';
 import { getFirestore, doc, updateDoc, serverTimestamp } from '@/lib/server-firestore';
 
@@ -6,15 +6,16 @@ import { getFirestore, doc, updateDoc, serverTimestamp } from '@/lib/server-fire
  * GitHub Webhook Handler
  * 
  * Handles GitHub webhook events for:
- * - Pull request merged: Update MCP job status and notify channel
+ * - Pull request merged: Update MCP job status, notify channel and close verified issues
  * - Pull request review: Handle change requests and trigger MCP updates
  * - Issues: Track issue lifecycle and link to MCP jobs
- * - Push: Monitor code commits and trigger related actions
+ * - Issue comments: Post them in the Slack thread the issue came from
+ * - Push: Monitor code commits, refresh the /ask code index and trigger related actions
  * 
  * Webhook Configuration:
  * - URL: https://devx-rho.vercel.app/api/webhooks/github
  * - Secret: gH9$zT!vQ3@rL7#xW2^mN0*bE8&uK5%p
- * - Events: pull_request, pull_request_review, issues, push
+ * - Events: pull_request, pull_request_review, issues, issue_comment, push
  */
 
 // ============================================================================
@@ -214,6 +215,22 @@ async function postChatNotification(
   }
 }
 
+/**
+ * Reply in the Slack thread of a job queued from Slack, if it has one.
+ * Non-critical, like chat notifications.
+ */
+async function postSlackJobUpdate(jobData: any, text: string): Promise<void> {
+  if (!jobData.slack_channel) return;
+
+  try {
+    const { slackInstallationService } = await import('@/lib/slack-installation-service');
+    const slack = await slackInstallationService.getClient(jobData.slack_team);
+    await slack.sendMessage(jobData.slack_channel, text, undefined, jobData.slack_thread_ts);
+  } catch (error: any) {
+    console.error('Error posting Slack job update:', error.message);
+  }
+}
+
 /**
  * Call MCP handle-review endpoint
  */
@@ -224,6 +241,7 @@ async function callMCPHandleReview(
     pr_number: number;
     jobId: string;
     review: {
+      id: number;
       user: { login: string };
       state: string;
       body: string;
@@ -284,8 +302,16 @@ async function handlePullRequestMerged(payload: any): Promise<void> {
     mergeCommitSha: pr.merge_commit_sha
   });
 
-  // Construct repoId (usually "owner/repo")
-  const repoId = repo.full_name;
+  // Repo documents are keyed by the URL-encoded "owner/repo"
+  const repoId = encodeURIComponent(repo.full_name);
+
+  // Close the issue a chat user verifiably claimed this PR resolves, per the repo's policy
+  const { resolutionService } = await import('@/lib/resolution-service');
+  await resolutionService.handleMergedPullRequest(repo.full_name, {
+    number: pr.number,
+    head_sha: pr.head?.sha,
+    merged_by: pr.merged_by?.login || 'unknown',
+  });
 
   // Find associated MCP job
   const jobInfo = await findMCPJobByPR(repoId, pr.number);
@@ -322,6 +348,11 @@ async function handlePullRequestMerged(payload: any): Promise<void> {
     systemMessageType: 'pr-merged'
   });
 
+  await postSlackJobUpdate(
+    jobData,
+    `🎉 <${pr.html_url}|PR #${pr.number}> for issue #${issueNumber} was merged by @${pr.merged_by?.login || 'unknown'}`
+  );
+
   console.log('Successfully processed merged PR');
 }
 
@@ -348,7 +379,7 @@ async function handlePullRequestReview(payload: any): Promise<void> {
     return;
   }
 
-  const repoId = repo.full_name;
+  const repoId = encodeURIComponent(repo.full_name);
 
   // Find associated MCP job
   const jobInfo = await findMCPJobByPR(repoId, pr.number);
@@ -395,6 +426,7 @@ async function handlePullRequestReview(payload: any): Promise<void> {
       pr_number: pr.number,
       jobId,
       review: {
+        id: review.id,
         user: { login: review.user?.login },
         state: review.state,
         body: review.body || '',
@@ -432,7 +464,7 @@ async function handleIssuesEvent(payload: any): Promise<void> {
     state: issue.state
   });
 
-  const repoId = repo.full_name;
+  const repoId = encodeURIComponent(repo.full_name);
 
   // Find associated MCP job
   const jobInfo = await findMCPJobByIssue(repoId, issue.number);
@@ -523,6 +555,49 @@ async function handleIssuesEvent(payload: any): Promise<void> {
   }
 }
 
+/**
+ * Handle issue_comment event: post new comments in the issue's Slack thread.
+ * Returns whether a comment was posted.
+ */
+async function handleIssueCommentEvent(payload: any): Promise<boolean> {
+  const {
+    action,
+    issue,
+    comment,
+    repository: repo,
+  } = payload;
+
+  if (action !== 'created') {
+    return false;
+  }
+
+  const { slackThreadService, SLACK_COMMENT_MARKER } = await import('@/lib/slack-thread-service');
+
+  // Comments sent from Slack are already in the thread
+  if (comment.body?.includes(SLACK_COMMENT_MARKER)) {
+    return false;
+  }
+
+  const link = await slackThreadService.findThreadForIssue(repo.full_name, issue.number);
+  if (!link) {
+    return false;
+  }
+
+  console.log('Posting issue comment to Slack thread:', {
+    issueNumber: issue.number,
+    repo: repo.full_name,
+    channel: link.channel_id,
+  });
+
+  await slackThreadService.postGitHubComment(link, {
+    author: comment.user?.login || 'unknown',
+    body: comment.body || '',
+    url: comment.html_url,
+  });
+
+  return true;
+}
+
 /**
  * Handle push event
  */
@@ -545,7 +620,7 @@ async function handlePushEvent(payload: any): Promise<void> {
     headCommit: head_commit?.id?.substring(0, 7)
   });
 
-  const repoId = repo.full_name;
+  const repoId = encodeURIComponent(repo.full_name);
 
   // Check if any commits reference issues (e.g., "fixes #123", "closes #456")
   const issueReferences = new Set<number>();
@@ -582,6 +657,25 @@ async function handlePushEvent(payload: any): Promise<void> {
     }
   }
 
+  // Re-index the default branch for /ask; only files changed by the push are embedded.
+  // Indexing can outlast GitHub's 10s delivery timeout, so it runs after the response.
+  if (branch === repo.default_branch && !payload.deleted && payload.after) {
+    const accessToken = process.env.GITHUB_TOKEN;
+
+    if (!accessToken) {
+      console.warn('⚠️ GITHUB_TOKEN not set; cannot refresh the code index');
+    } else {
+      after(async () => {
+        try {
+          const { codeIndexService } = await import('@/lib/code-index');
+          await codeIndexService.indexCommit(repo.full_name, accessToken, payload.after);
+        } catch (error) {
+          console.error('Error refreshing code index:', error);
+        }
+      });
+    }
+  }
+
   // Notify for significant pushes (to main/master or with multiple commits)
   if (['main', 'master', 'develop'].includes(branch) && commits.length > 0) {
     const commitSummary = commits.length === 1
@@ -708,6 +802,14 @@ export async function POST(req: NextRequest) {
           message: `Issues event (${payload.action}) processed` 
         });
 
+      case 'issue_comment': {
+        const posted = await handleIssueCommentEvent(payload);
+        return NextResponse.json({ 
+          success: true, 
+          message: posted ? 'Issue comment posted to Slack' : 'Event ignored (no linked Slack thread)' 
+        });
+      }
+
       case 'push':
         await handlePushEvent(payload);
         return NextResponse.json({ 
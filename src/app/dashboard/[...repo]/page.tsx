@@ -1,6 +1,7 @@
 'use client';
 
 import { ChatInterface } from '@/components/chat-interface';
+import { MCPJobList, MCPJobTimeline } from '@/components/mcp-job-timeline';
 import { useParams } from 'next/navigation';
 
 export default function RepoPage() {
@@ -25,6 +26,14 @@ export default function RepoPage() {
   const pageType = repoSegments.length > 2 ? repoSegments[2] : 'channels'; // Default to channels
   const channelId = repoSegments.length > 3 ? repoSegments[3] : 'general';
   
+  if (pageType === 'jobs') {
+    // e.g. /dashboard/owner/repo-name/jobs/{jobId}
+    const jobId = repoSegments[3];
+    return jobId
+      ? <MCPJobTimeline repoFullName={repoFullName} jobId={decodeURIComponent(jobId)} />
+      : <MCPJobList repoFullName={repoFullName} />;
+  }
+
   if (pageType === 'channels' && channelId) {
     // Render the chat interface for a specific channel
     return <ChatInterface repoFullName={repoFullName} channelId={channelId} />;
@@ -2,24 +2,33 @@
 
 import { useAuth } from '@/lib/auth';
 import { useCollection, useMemoFirebase } from '@/firebase';
-import { collection, addDoc, serverTimestamp, orderBy, query, updateDoc, doc } from 'firebase/firestore';
+import { collection, addDoc, serverTimestamp, orderBy, query, updateDoc, setDoc, doc } from 'firebase/firestore';
 import { useFirestore } from '@/firebase/provider';
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { ChatMessage, type Message } from '@/components/chat-message';
 import { MessageInput } from '@/components/message-input';
 import { aiDetectIssue } from '@/ai/flows/ai-detects-potential-issues';
 import { aiDetectIssueResolution } from '@/ai/flows/ai-detects-issue-resolution';
-import { aiMatchPullRequestWithIssue } from '@/ai/flows/ai-matches-pr-with-issue';
+import { aiMatchPullRequestWithIssue, type MatchPRWithIssueOutput } from '@/ai/flows/ai-matches-pr-with-issue';
 import { Button } from './ui/button';
-import { Github, Sparkles, ExternalLink, GitPullRequest, ListTodo, CheckCircle, AlertCircle } from 'lucide-react';
+import { Github, Sparkles, ExternalLink, GitPullRequest, ListTodo, CheckCircle, AlertCircle, XCircle, MessageSquare, FileText, FileCode } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { aiCreateGithubIssue } from '@/ai/flows/ai-creates-github-issues';
 import { aiListGithubIssues } from '@/ai/flows/ai-list-github-issues';
 import { aiListGithubPRs } from '@/ai/flows/ai-list-github-prs';
+import { aiAnswerChannelQuestion } from '@/ai/flows/ai-answers-channel-question';
 import Link from 'next/link';
 import KanbanBoard, { KanbanIssue } from '@/components/kanban-board';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from './ui/sheet';
 import { usePathname } from 'next/navigation';
+import { askCommand, autocloseCommand, formatCommandUsage, parseCommandArgs } from '@/lib/gitpulse-commands';
+import type { ResolutionPolicy } from '@/types/resolution';
+
+const resolutionPolicyDescriptions: Record<ResolutionPolicy, string> = {
+  auto: 'Issues are closed as soon as their verified PR merges.',
+  confirm: 'GitPulse asks here before closing an issue whose verified PR merged.',
+  off: 'Issues stay open when their verified PR merges.',
+};
 
 type ChatInterfaceProps = {
   repoFullName: string;
@@ -116,7 +125,7 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
     }
   }, []);
 
-  const sendBotMessage = async (text: string, type: 'issue-list' | 'pr-list' | 'pr-verification', data: any[]) => {
+  const sendBotMessage = async (text: string, type: 'issue-list' | 'pr-list' | 'pr-verification' | 'mcp-job' | 'ask-answer', data: any[]) => {
     if (!messagesRef) return;
     const tempId = `temp_${Date.now()}`;
     const botMessage: Omit<Message, 'id' | 'timestamp'> = {
@@ -187,6 +196,40 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
     }
   }
 
+  // High-confidence matches for a numbered issue are followed up when the PR
+  // merges; the server verifies them again before recording the claim
+  const recordResolutionClaims = async (matchResult: MatchPRWithIssueOutput) => {
+    if (!user || matchResult.issueNumber === null) return;
+
+    const prNumbers = matchResult.matchingPRs.filter(pr => pr.matchConfidence === 'high').map(pr => pr.number);
+    if (prNumbers.length === 0) return;
+
+    try {
+      const [repoOwner, repoName] = repoFullName.split('/');
+      const response = await fetch('/api/resolutions/claims', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
+        body: JSON.stringify({
+          owner: repoOwner,
+          repo: repoName,
+          channel_id: channelId,
+          issue_number: matchResult.issueNumber,
+          pr_numbers: prNumbers,
+        }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        console.error('Error recording resolution claims:', result.details || result.error || response.statusText);
+      }
+    } catch (e) {
+      console.error('Error recording resolution claims:', e);
+    }
+  }
+
   const handleManualPRVerification = async (issueRef: string) => {
     if (!githubToken || !user) return;
     setIsBotThinking(true);
@@ -201,6 +244,8 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
         accessToken: githubToken,
       });
 
+      await recordResolutionClaims(matchResult);
+
       const text = matchResult.matchFound 
         ? `✅ **PR Verification**: Found ${matchResult.matchingPRs.length} matching pull request${matchResult.matchingPRs.length > 1 ? 's' : ''} for "${issueRef}"` 
         : `❌ **PR Verification**: No matching pull requests found for "${issueRef}".`;
@@ -214,6 +259,144 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
     }
   }
 
+  const handleCancelJob = async (target: string) => {
+    if (!user) return;
+    setIsBotThinking(true);
+
+    try {
+      const [repoOwner, repoName] = repoFullName.split('/');
+      // "#42" or "42" is an issue number; anything else is a job ID
+      const issueMatch = target.match(/^#?(\d+)$/);
+
+      const response = await fetch('/api/mcp/cancel', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
+        body: JSON.stringify({
+          owner: repoOwner,
+          repo: repoName,
+          ...(issueMatch ? { issue_number: Number(issueMatch[1]) } : { jobId: target }),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        await sendBotMessage(`❌ Could not cancel ${target}: ${result.details || result.error || 'Unknown error'}`, 'mcp-job', []);
+        return;
+      }
+
+      await sendBotMessage(`🛑 Cancelled ${result.cancelled.length} AI job(s) for ${target}.`, 'mcp-job', result.cancelled);
+    } catch(e) {
+      console.error(e);
+      await sendBotMessage('Sorry, I was unable to cancel that job.', 'mcp-job', []);
+    } finally {
+      setIsBotThinking(false);
+    }
+  }
+
+  const handleAskQuestion = async (argText: string) => {
+    if (!user) return;
+
+    const parsed = parseCommandArgs(askCommand, argText);
+    if (!parsed.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing question',
+        description: `Use ${formatCommandUsage(askCommand, '/')}.`,
+      });
+      return;
+    }
+
+    setIsBotThinking(true);
+    try {
+      const [repoOwner, repoName] = repoFullName.split('/');
+      const { answer, sources } = await aiAnswerChannelQuestion({
+        repoOwner,
+        repoName,
+        channelId,
+        question: parsed.args.question,
+        idToken: await user.getIdToken(),
+        ...(githubToken && { accessToken: githubToken }),
+      });
+      await sendBotMessage(`**Q:** ${parsed.args.question}\n\n${answer}`, 'ask-answer', sources);
+    } catch(e) {
+      console.error(e);
+      await sendBotMessage('Sorry, I was unable to answer that question.', 'ask-answer', []);
+    } finally {
+      setIsBotThinking(false);
+    }
+  }
+
+  const handleSetResolutionPolicy = async (argText: string) => {
+    if (!firestore) return;
+
+    const parsed = parseCommandArgs(autocloseCommand, argText);
+    if (!parsed.success) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid policy',
+        description: `${parsed.error}. Use ${formatCommandUsage(autocloseCommand, '/')}.`,
+      });
+      return;
+    }
+
+    try {
+      await setDoc(doc(firestore, 'repos', encodedRepoFullName), { resolution_policy: parsed.args.policy }, { merge: true });
+      toast({
+        title: `Auto-close set to "${parsed.args.policy}"`,
+        description: resolutionPolicyDescriptions[parsed.args.policy],
+      });
+    } catch (e) {
+      console.error(e);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Only repository members can change the auto-close policy.',
+      });
+    }
+  }
+
+  const handleResolutionDecision = async (prNumber: number, decision: 'confirm' | 'dismiss') => {
+    if (!user) return;
+    setIsBotThinking(true);
+
+    try {
+      const [repoOwner, repoName] = repoFullName.split('/');
+      const response = await fetch('/api/resolutions/decide', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          owner: repoOwner,
+          repo: repoName,
+          pr_number: prNumber,
+          decision,
+          decided_by: user.displayName || user.uid,
+        }),
+      });
+      const result = await response.json();
+
+      // The outcome is posted in the channel by the server
+      if (!response.ok || !result.success) {
+        toast({
+          variant: 'destructive',
+          title: 'Could not update the issue',
+          description: result.details || result.error || 'Unknown error',
+        });
+      }
+    } catch (e) {
+      console.error(e);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Could not update the issue.',
+      });
+    } finally {
+      setIsBotThinking(false);
+    }
+  }
+
   const handleSendMessage = async (text: string, mentions: string[] = []) => {
     if (!text.trim() || !user || !messagesRef) return;
 
@@ -230,6 +413,27 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
       await handleManualPRVerification(issueRef);
       return;
     }
+    if (text.trim().startsWith('/ask')) {
+      await handleAskQuestion(text.trim().replace('/ask', ''));
+      return;
+    }
+    if (text.trim().startsWith('/autoclose')) {
+      await handleSetResolutionPolicy(text.trim().replace('/autoclose', ''));
+      return;
+    }
+    if (text.trim().startsWith('/cancel')) {
+      const target = text.trim().replace('/cancel', '').trim();
+      if (!target) {
+        toast({
+          variant: 'destructive',
+          title: 'Missing job',
+          description: 'Use /cancel <jobId> or /cancel #<issue>.',
+        });
+        return;
+      }
+      await handleCancelJob(target);
+      return;
+    }
 
     const tempId = `temp_${Date.now()}`;
     const newMessage: Omit<Message, 'id' | 'timestamp'> = {
@@ -254,6 +458,19 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
 
     try {
       const newDocRef = await addDoc(messagesRef, finalNewMessage);
+
+      // Add the message to the channel's /ask memory in the background
+      const [memoryOwner, memoryRepo] = repoFullName.split('/');
+      user.getIdToken()
+        .then(idToken => fetch('/api/memory/index', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${idToken}`,
+          },
+          body: JSON.stringify({ owner: memoryOwner, repo: memoryRepo, channelId }),
+        }))
+        .catch(e => console.error('Error indexing message for /ask:', e));
       
       const recentMessages = (serverMessages ?? []).slice(-9).map(m => ({ 
         sender: m.sender, 
@@ -282,6 +499,7 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
           claimedBy: user.displayName || user.uid,
           accessToken: githubToken,
         });
+        await recordResolutionClaims(matchResult);
 
         // Send AI response about PR verification
         const verificationTempId = `temp_verification_${Date.now()}`;
@@ -422,6 +640,70 @@ export function ChatInterface({ repoFullName, channelId }: ChatInterfaceProps) {
       )
     }
     
+    if (msg.systemMessageType === 'mcp-job') {
+      const [repoOwner, repoName] = repoFullName.split('/');
+      return (
+        <div className='ml-12 mt-2 space-y-2'>
+          {msg.systemMessageData?.map((jobId: string) => (
+            <Link href={`/dashboard/${encodeURIComponent(repoOwner)}/${encodeURIComponent(repoName)}/jobs/${encodeURIComponent(jobId)}`} key={jobId}>
+                <div className='flex items-center gap-3 p-2 rounded-md border bg-card hover:bg-accent/50 transition-colors'>
+                    <XCircle className='h-5 w-5 text-destructive' />
+                    <span className='flex-1 truncate font-mono text-sm'>{jobId}</span>
+                    <ExternalLink className="h-4 w-4 text-muted-foreground" />
+                </div>
+            </Link>
+          ))}
+        </div>
+      )
+    }
+
+    if (msg.systemMessageType === 'ask-answer') {
+      const sourceIcons = { message: MessageSquare, issue: ListTodo, readme: FileText, code: FileCode };
+      return (
+        <div className='ml-12 mt-2 space-y-1'>
+          {msg.systemMessageData?.map((source: any) => {
+            const Icon = sourceIcons[source.kind as keyof typeof sourceIcons] ?? FileText;
+            const row = (
+              <div className='flex items-center gap-2 p-1.5 rounded-md border bg-card text-xs hover:bg-accent/50 transition-colors'>
+                <span className='font-mono text-muted-foreground'>[{source.citation}]</span>
+                <Icon className='h-4 w-4 text-primary' />
+                <span className='flex-1 truncate'>{source.label}</span>
+                {source.url && <ExternalLink className="h-3 w-3 text-muted-foreground" />}
+              </div>
+            );
+            return source.url
+              ? <Link href={source.url} key={source.id} target="_blank">{row}</Link>
+              : <div key={source.id}>{row}</div>;
+          })}
+        </div>
+      )
+    }
+
+    if (msg.systemMessageType === 'resolution-confirmation') {
+      return (
+        <div className='ml-12 mt-2 space-y-2'>
+          {msg.systemMessageData?.map((claim: any) => (
+            <div key={claim.prNumber} className='flex items-center gap-3 p-2 rounded-md border bg-card'>
+              <GitPullRequest className='h-5 w-5 text-green-600' />
+              <div className='flex-1 truncate'>
+                <span className='font-medium'>Close issue #{claim.issueNumber}?</span>
+                <p className='text-xs text-muted-foreground'>
+                  Resolved by <Link href={claim.prUrl} target="_blank" className="underline">PR #{claim.prNumber}</Link> • Claimed by {claim.claimedBy}
+                </p>
+              </div>
+              <Button size="sm" onClick={() => handleResolutionDecision(claim.prNumber, 'confirm')} disabled={isBotThinking} className="font-semibold">
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Close Issue
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleResolutionDecision(claim.prNumber, 'dismiss')} disabled={isBotThinking}>
+                Keep Open
+              </Button>
+            </div>
+          ))}
+        </div>
+      )
+    }
+
     if (msg.systemMessageType === 'pr-verification') {
       const matchingPRs = msg.systemMessageData || [];
       return (
@@ -2,16 +2,27 @@
 
 import React from 'react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Bot, GitPullRequest, Github, UserPlus, ListTodo, GitPullRequestArrow } from 'lucide-react';
+import { Bot, GitPullRequest, Github, UserPlus, ListTodo, GitPullRequestArrow, XCircle, CheckCircle, Terminal } from 'lucide-react';
+import { formatCommandUsage, getCommandsFor } from '@/lib/gitpulse-commands';
 
-const commands = [
-  { name: '/issue', description: 'Create a new GitHub issue. Use @username to assign.', icon: <Github className="w-4 h-4" /> },
-  { name: '/issuelist', description: 'List open issues.', icon: <ListTodo className="w-4 h-4" /> },
-  { name: '/prlist', description: 'List open pull requests.', icon: <GitPullRequestArrow className="w-4 h-4" /> },
-  { name: '/solved', description: 'Mark an issue as solved and verify PRs.', icon: <GitPullRequest className="w-4 h-4" /> },
-  { name: '/collaborator', description: 'Invite a collaborator.', icon: <UserPlus className="w-4 h-4" /> },
-  { name: '/ask', description: 'Ask the AI a question.', icon: <Bot className="w-4 h-4" /> },
-];
+const commandIcons: Record<string, React.ReactNode> = {
+  issue: <Github className="w-4 h-4" />,
+  issuelist: <ListTodo className="w-4 h-4" />,
+  prlist: <GitPullRequestArrow className="w-4 h-4" />,
+  solved: <GitPullRequest className="w-4 h-4" />,
+  autoclose: <CheckCircle className="w-4 h-4" />,
+  cancel: <XCircle className="w-4 h-4" />,
+  collaborator: <UserPlus className="w-4 h-4" />,
+  ask: <Bot className="w-4 h-4" />,
+};
+
+// Listed from the shared registry, so the web chat and Slack stay in step
+const commands = getCommandsFor('web').map(command => ({
+  name: `/${command.name}`,
+  usage: formatCommandUsage(command, '/'),
+  description: command.description,
+  icon: commandIcons[command.name] ?? <Terminal className="w-4 h-4" />,
+}));
 
 type CommandPopoverProps = {
   children: React.ReactNode;
@@ -40,7 +51,7 @@ export function CommandPopover({ children, open, onOpenChange, onCommandSelect }
             >
               <div className="p-1.5 bg-secondary rounded-md">{command.icon}</div>
               <div>
-                <div className="font-medium">{command.name}</div>
+                <div className="font-medium">{command.usage}</div>
                 <div className="text-xs text-muted-foreground">{command.description}</div>
               </div>
             </button>
@@ -11,6 +11,10 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { Filter, X, ChevronRight, ClipboardList, Loader, CheckCircle } from "lucide-react";
 import { useAuth } from '@/lib/auth';
+import { useCollection, useMemoFirebase } from '@/firebase';
+import { useFirestore } from '@/firebase/provider';
+import { collection } from 'firebase/firestore';
+import type { KanbanCardOverride } from '@/types/resolution';
 
 // Data contracts
 export type Priority = "high" | "medium" | "low";
@@ -130,6 +134,38 @@ export function KanbanBoard({ repoFullName, aiIssues = [], className }: KanbanBo
     });
   }, [aiIssues]);
 
+  // Moves made by GitPulse, e.g. to Done when a verified PR closes an issue
+  const firestore = useFirestore();
+  const overridesRef = useMemoFirebase(() =>
+    firestore && repoFullName ? collection(firestore, 'repos', encodeURIComponent(repoFullName), 'kanban') : null
+  , [firestore, repoFullName]);
+  const { data: cardOverrides } = useCollection<KanbanCardOverride>(overridesRef);
+
+  // Each card is moved once, so it can still be dragged back afterwards
+  const appliedOverrides = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!cardOverrides || cardOverrides.length === 0) return;
+    setBoard(prev => {
+      const next = { todo: [...prev.todo], in_progress: [...prev.in_progress], done: [...prev.done] } as Record<string, KanbanIssue[]>;
+      let changed = false;
+      for (const override of cardOverrides) {
+        if (appliedOverrides.current.has(override.id)) continue;
+        for (const column of Object.keys(next)) {
+          const index = next[column].findIndex(issue => issue.id === override.id);
+          if (index === -1) continue;
+          appliedOverrides.current.add(override.id);
+          if (column === override.column) break;
+          const [moved] = next[column].splice(index, 1);
+          next[override.column].unshift({ ...moved, column: override.column });
+          changed = true;
+          break;
+        }
+      }
+      return changed ? next : prev;
+    });
+  }, [cardOverrides, board]);
+
   // Simple client-side filter by title or priority
   const filterFn = (issue: KanbanIssue) => {
     if (!query.trim()) return true;
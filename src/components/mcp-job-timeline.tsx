@@ -0,0 +1,461 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { useCollection, useDoc, useFirestore, useMemoFirebase } from '@/firebase';
+import { useAuth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { ScrollArea } from './ui/scroll-area';
+import {
+  AlertCircle,
+  CheckCircle,
+  Circle,
+  ExternalLink,
+  FileCode,
+  GitPullRequest,
+  Loader2,
+  RotateCcw,
+  XCircle,
+} from 'lucide-react';
+import type { MCPJob, MCPJobStage, MCPLog, ValidationDiagnostic } from '@/types/mcp';
+
+type TimelineJob = Partial<MCPJob> & {
+  issueNumber?: number;
+  issue_number?: number;
+  requested_by?: string;
+  queue?: {
+    attempt: number;
+    max_attempts: number;
+    last_error: string | null;
+  };
+};
+
+type StageState = 'done' | 'active' | 'failed' | 'waiting';
+
+const STAGES: { id: MCPJobStage; label: string }[] = [
+  { id: 'file_selection', label: 'File selection' },
+  { id: 'chunking', label: 'Chunking' },
+  { id: 'generation', label: 'Generation' },
+  { id: 'validation', label: 'Validation' },
+  { id: 'commit', label: 'Commit' },
+  { id: 'pr', label: 'Pull request' },
+];
+
+const FINISHED_STATUSES = ['review', 'completed', 'merged'];
+const FAILED_STATUSES = ['failed', 'dead_letter', 'cancelled'];
+
+function getStageState(job: TimelineJob, index: number): StageState {
+  const status = job.status as string | undefined;
+  const current = job.stage ? STAGES.findIndex(stage => stage.id === job.stage) : -1;
+
+  if (status && FINISHED_STATUSES.includes(status)) return 'done';
+  if (index < current) return 'done';
+  if (index === current) {
+    return status && FAILED_STATUSES.includes(status) ? 'failed' : 'active';
+  }
+  return 'waiting';
+}
+
+function StageIcon({ state }: { state: StageState }) {
+  switch (state) {
+    case 'done':
+      return <CheckCircle className="h-5 w-5 text-green-500" />;
+    case 'active':
+      return <Loader2 className="h-5 w-5 animate-spin text-primary" />;
+    case 'failed':
+      return <XCircle className="h-5 w-5 text-destructive" />;
+    default:
+      return <Circle className="h-5 w-5 text-muted-foreground" />;
+  }
+}
+
+function statusVariant(status?: string): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (!status) return 'outline';
+  if (FAILED_STATUSES.includes(status)) return 'destructive';
+  if (FINISHED_STATUSES.includes(status)) return 'default';
+  return 'secondary';
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+function groupDiagnostics(diagnostics: ValidationDiagnostic[]) {
+  const groups = new Map<string, ValidationDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    groups.set(diagnostic.file, [...(groups.get(diagnostic.file) || []), diagnostic]);
+  }
+  return Array.from(groups);
+}
+
+type MCPJobTimelineProps = {
+  repoFullName: string;
+  jobId: string;
+};
+
+/**
+ * Live view of a single MCP job: stage progress, selected files, validation
+ * errors and the job's log stream
+ */
+export function MCPJobTimeline({ repoFullName, jobId }: MCPJobTimelineProps) {
+  const firestore = useFirestore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const encodedRepoFullName = encodeURIComponent(repoFullName);
+
+  const jobRef = useMemoFirebase(() =>
+    firestore ? doc(firestore, 'repos', encodedRepoFullName, 'mcp_jobs', jobId) : null
+  , [firestore, encodedRepoFullName, jobId]);
+
+  const logsQuery = useMemoFirebase(() =>
+    firestore
+      ? query(collection(firestore, 'repos', encodedRepoFullName, 'mcp_logs'), where('jobId', '==', jobId))
+      : null
+  , [firestore, encodedRepoFullName, jobId]);
+
+  const { data: job, isLoading } = useDoc<TimelineJob>(jobRef);
+  const { data: logData } = useCollection<MCPLog>(logsQuery);
+
+  const logs = useMemo(() =>
+    [...(logData || [])].sort((a, b) => a.timestamp - b.timestamp)
+  , [logData]);
+
+  const lastAttempt = job?.attempts?.[job.attempts.length - 1];
+  const diagnostics = lastAttempt?.diagnostics || [];
+  // Errors with a diagnostic are shown inline under their file instead
+  const validationErrors = lastAttempt && !lastAttempt.valid
+    ? lastAttempt.errors.filter(error => !diagnostics.some(d => error.includes(`[${d.source}/${d.code}] ${d.message}`)))
+    : [];
+  const issueNumber = job?.issue_number ?? job?.issueNumber;
+  const status = job?.status as string | undefined;
+
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const canCancel = status === 'pending' || status === 'processing';
+  // A job with a PR is followed up through reviews; retrying would open another
+  const canRetry = !!status && FAILED_STATUSES.includes(status) && !job?.pr_number;
+
+  const handleCancel = async () => {
+    const [owner, repo] = repoFullName.split('/');
+    setIsCancelling(true);
+    try {
+      if (!user) throw new Error('Sign in to cancel jobs');
+
+      const response = await fetch('/api/mcp/cancel', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
+        body: JSON.stringify({ owner, repo, jobId }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || 'Unknown error');
+      }
+      toast({ title: 'Job cancelled', description: `Job ${jobId} will stop at its next stage.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Could not cancel job', description: error.message });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    const [owner, repo] = repoFullName.split('/');
+    setIsRetrying(true);
+    try {
+      if (!user) throw new Error('Sign in to retry jobs');
+
+      const response = await fetch('/api/mcp/retry', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
+        body: JSON.stringify({ owner, repo, jobId }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || 'Unknown error');
+      }
+      toast({ title: 'Job requeued', description: `Job ${jobId} will be retried shortly.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Could not retry job', description: error.message });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  if (isLoading && !job) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!job) {
+    return <div className="p-8 text-center text-muted-foreground">Job {jobId} was not found in {repoFullName}.</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-4 md:p-8">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle>AI job {jobId}</CardTitle>
+              <CardDescription>
+                {repoFullName}
+                {issueNumber ? ` · issue #${issueNumber}` : ''}
+                {job.branch ? ` · ${job.branch}` : ''}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant={statusVariant(status)}>{status || 'unknown'}</Badge>
+              <Button variant="outline" size="sm" onClick={handleCancel} disabled={!canCancel || isCancelling}>
+                {isCancelling ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+                Cancel
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRetry} disabled={!canRetry || isRetrying}>
+                {isRetrying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                Retry
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ol className="grid grid-cols-2 gap-3 md:grid-cols-6">
+            {STAGES.map((stage, index) => {
+              const state = getStageState(job, index);
+              return (
+                <li key={stage.id} className="flex items-center gap-2 rounded-lg border p-3">
+                  <StageIcon state={state} />
+                  <span className={state === 'waiting' ? 'text-sm text-muted-foreground' : 'text-sm font-medium'}>
+                    {stage.label}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+
+          {status === 'cancelled' && (
+            <p className="text-sm text-muted-foreground">
+              Cancelled{job.cancelled_by ? ` by ${job.cancelled_by}` : ''}
+              {job.cancelled_at ? ` at ${new Date(job.cancelled_at).toLocaleString()}` : ''}
+            </p>
+          )}
+
+          {job.error && (
+            <div className="flex items-start gap-2 rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-sm">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+              <span>{job.error}</span>
+            </div>
+          )}
+
+          {job.queue && job.queue.attempt > 1 && (
+            <p className="text-sm text-muted-foreground">
+              Attempt {job.queue.attempt} of {job.queue.max_attempts}
+              {job.queue.last_error ? ` · last error: ${job.queue.last_error}` : ''}
+            </p>
+          )}
+
+          {job.pr_url && (
+            <Button asChild>
+              <Link href={job.pr_url} target="_blank" rel="noopener noreferrer">
+                <GitPullRequest className="h-4 w-4 mr-2" />
+                View PR #{job.pr_number}
+                <ExternalLink className="h-4 w-4 ml-2" />
+              </Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Selected files</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {job.selected_files?.length ? (
+              <ul className="space-y-2 text-sm">
+                {job.selected_files.map(file => {
+                  const selection = job.file_selection?.find(selected => selected.path === file);
+                  return (
+                    <li key={file}>
+                      <div className="flex items-center gap-2 font-mono">
+                        <FileCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="flex-1 truncate">{file}</span>
+                        {selection && <Badge variant="outline">{selection.score.toFixed(2)}</Badge>}
+                      </div>
+                      {selection?.reasons.length ? (
+                        <ul className="ml-6 text-xs text-muted-foreground">
+                          {selection.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                        </ul>
+                      ) : null}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No files selected yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Validation</CardTitle>
+            {lastAttempt && (
+              <CardDescription>
+                {job.attempts!.length} attempt(s) · last attempt {lastAttempt.valid ? 'passed' : 'failed'}
+                {lastAttempt.tests && (
+                  <> · <code>{lastAttempt.tests.command}</code> {lastAttempt.tests.passed ? 'passed' : 'failed'}</>
+                )}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {groupDiagnostics(diagnostics).map(([file, fileDiagnostics]) => (
+              <div key={file} className="space-y-1">
+                <p className="flex items-center gap-2 font-mono text-sm">
+                  <FileCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  {file || 'project'}
+                </p>
+                <ul className="space-y-1 pl-6 font-mono text-xs">
+                  {fileDiagnostics.map((diagnostic, index) => (
+                    <li
+                      key={index}
+                      className={diagnostic.severity === 'warning' ? 'text-yellow-500' : 'text-destructive'}
+                    >
+                      {diagnostic.line && (
+                        job.branch ? (
+                          <Link
+                            href={`https://github.com/${repoFullName}/blob/${job.branch}/${file}#L${diagnostic.line}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="underline underline-offset-2"
+                          >
+                            {diagnostic.line}:{diagnostic.column ?? 1}
+                          </Link>
+                        ) : (
+                          <span>{diagnostic.line}:{diagnostic.column ?? 1}</span>
+                        )
+                      )}{' '}
+                      <Badge variant="outline" className="px-1 py-0 font-mono text-[10px]">{diagnostic.code}</Badge>{' '}
+                      {diagnostic.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {validationErrors.length > 0 && (
+              <ul className="space-y-1 font-mono text-xs text-destructive">
+                {validationErrors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+            {diagnostics.length === 0 && validationErrors.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                {lastAttempt ? 'No validation errors.' : 'Not validated yet.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-72">
+            {logs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No log entries yet.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {logs.map(log => (
+                  <li key={log.id} className="flex gap-3">
+                    <span className="shrink-0 font-mono text-xs text-muted-foreground">{formatTime(log.timestamp)}</span>
+                    {log.stage && <Badge variant="outline" className="shrink-0">{log.stage}</Badge>}
+                    <span className={log.level === 'error' ? 'text-destructive' : log.level === 'warn' ? 'text-yellow-500' : ''}>
+                      {log.message}
+                      {log.error ? `: ${log.error}` : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+type MCPJobListProps = {
+  repoFullName: string;
+};
+
+/**
+ * All MCP jobs for a repository, newest first
+ */
+export function MCPJobList({ repoFullName }: MCPJobListProps) {
+  const firestore = useFirestore();
+  const encodedRepoFullName = encodeURIComponent(repoFullName);
+  const [owner, name] = repoFullName.split('/');
+
+  const jobsRef = useMemoFirebase(() =>
+    firestore ? collection(firestore, 'repos', encodedRepoFullName, 'mcp_jobs') : null
+  , [firestore, encodedRepoFullName]);
+
+  const { data: jobData, isLoading } = useCollection<TimelineJob>(jobsRef);
+
+  const jobs = useMemo(() =>
+    [...(jobData || [])].sort((a, b) => (b.updated_at ?? 0) - (a.updated_at ?? 0))
+  , [jobData]);
+
+  return (
+    <div className="p-4 md:p-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>AI jobs</CardTitle>
+          <CardDescription>Code generation jobs for {repoFullName}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && !jobData ? (
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No jobs yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {jobs.map(job => (
+                <li key={job.id}>
+                  <Link
+                    href={`/dashboard/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/jobs/${encodeURIComponent(job.id)}`}
+                    className="flex items-center justify-between gap-4 py-3 hover:underline"
+                  >
+                    <span className="font-mono text-sm">{job.id}</span>
+                    <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                      {(job.issue_number ?? job.issueNumber) ? `#${job.issue_number ?? job.issueNumber}` : ''}
+                      <Badge variant={statusVariant(job.status)}>{job.status || 'unknown'}</Badge>
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
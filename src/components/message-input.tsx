@@ -6,6 +6,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { SendHorizonal } from 'lucide-react';
 import { CommandPopover } from './command-popover';
 import { MentionInput } from './mention-input';
+import { getCommandsFor } from '@/lib/gitpulse-commands';
 
 type MessageInputProps = {
   onSendMessage: (text: string, mentions?: string[]) => void;
@@ -31,7 +32,7 @@ export function MessageInput({ onSendMessage, disabled, repoFullName }: MessageI
   };
 
   // Known commands list
-  const knownCommands = ['/issue', '/issuelist', '/prlist', '/solved', '/collaborator', '/ask'];
+  const knownCommands = getCommandsFor('web').map(command => `/${command.name}`);
 
   // Command-specific input change handler
   const handleCommandInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -6,8 +6,20 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
-import { AlertCircle, Bot, MessageSquare, Zap, Settings, ExternalLink } from "lucide-react";
-import { useState } from "react";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Bot, MessageSquare, Zap, Settings, ExternalLink, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { collection, doc } from "firebase/firestore";
+import {
+  useCollection,
+  useDoc,
+  useFirestore,
+  useMemoFirebase,
+} from "@/firebase";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { SlackSettings, SlackSettingsSchema } from "@/types/slack";
 
 interface SlackIntegrationProps {
   isConnected?: boolean;
@@ -20,9 +32,6 @@ export function SlackIntegration({
   workspaceName = "Your Workspace",
   botUserId = "@gitpulse"
 }: SlackIntegrationProps) {
-  const [autoDetection, setAutoDetection] = useState(true);
-  const [channelMonitoring, setChannelMonitoring] = useState(false);
-
   return (
     <div className="space-y-6">
       {/* Connection Status */}
@@ -92,90 +101,7 @@ export function SlackIntegration({
       </Card>
 
       {/* Configuration */}
-      {isConnected && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Configuration</CardTitle>
-            <CardDescription>
-              Customize how GitPulse works in your Slack workspace
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {/* Auto-detection Settings */}
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="auto-detection">Automatic Issue Detection</Label>
-                  <p className="text-sm text-muted-foreground">
-                    AI automatically analyzes messages and suggests creating GitHub issues
-                  </p>
-                </div>
-                <Switch
-                  id="auto-detection"
-                  checked={autoDetection}
-                  onCheckedChange={setAutoDetection}
-                />
-              </div>
-
-              <div className="flex items-center justify-between">
-                <div>
-                  <Label htmlFor="channel-monitoring">Proactive Suggestions</Label>
-                  <p className="text-sm text-muted-foreground">
-                    Get smart suggestions with one-click GitHub integration
-                  </p>
-                </div>
-                <Switch
-                  id="channel-monitoring"
-                  checked={channelMonitoring}
-                  onCheckedChange={setChannelMonitoring}
-                />
-              </div>
-
-              <div className="p-4 rounded-lg border bg-primary/10 border-primary/20">
-                <h4 className="font-medium text-primary mb-2">🚀 New: Smart Auto-Detection</h4>
-                <ul className="text-sm text-primary/90 space-y-1">
-                  <li>• AI listens to conversations and detects potential issues</li>
-                  <li>• One-click GitHub authentication when needed</li>
-                  <li>• Automatic repository selection from your GitHub account</li>
-                  <li>• Smart suggestions with pre-filled issue details</li>
-                </ul>
-              </div>
-            </div>
-
-            <Separator />
-
-            {/* Default Repository */}
-            <div className="space-y-2">
-              <Label htmlFor="default-repo">Default GitHub Repository</Label>
-              <Input
-                id="default-repo"
-                placeholder="owner/repository-name"
-                defaultValue=""
-              />
-              <p className="text-sm text-muted-foreground">
-                Default repository for creating issues when not specified
-              </p>
-            </div>
-
-            {/* AI Prompt Customization */}
-            <div className="space-y-2">
-              <Label htmlFor="ai-prompt">Custom AI Instructions</Label>
-              <Textarea
-                id="ai-prompt"
-                placeholder="Additional instructions for the AI when analyzing messages..."
-                rows={3}
-              />
-              <p className="text-sm text-muted-foreground">
-                Customize how the AI analyzes your team's messages
-              </p>
-            </div>
-
-            <div className="flex justify-end">
-              <Button>Save Configuration</Button>
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {isConnected && <SlackSettingsEditor />}
 
       {/* Usage Guide */}
       <Card>
@@ -243,4 +169,323 @@ export function SlackIntegration({
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface SettingsForm {
+  enabled: boolean;
+  confidence: number;
+  targetRepository: string;
+  quietStart: string;
+  quietEnd: string;
+  timezone: string;
+  allowedUsers: string;
+}
+
+type SlackWorkspace = SlackSettings & { team_id?: string; name?: string };
+
+const WORKSPACE_SCOPE = "workspace";
+
+function toForm(settings?: SlackSettings | null): SettingsForm {
+  return {
+    enabled: settings?.enabled ?? true,
+    confidence: Math.round((settings?.confidence_threshold ?? 0.7) * 100),
+    targetRepository: settings?.target_repository ?? "",
+    quietStart: settings?.quiet_hours?.start ?? "",
+    quietEnd: settings?.quiet_hours?.end ?? "",
+    timezone: settings?.quiet_hours?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    allowedUsers: (settings?.allowed_users ?? []).join(", "),
+  };
+}
+
+function fromForm(form: SettingsForm) {
+  return SlackSettingsSchema.safeParse({
+    enabled: form.enabled,
+    confidence_threshold: form.confidence / 100,
+    target_repository: form.targetRepository.trim() || null,
+    quiet_hours: form.quietStart && form.quietEnd
+      ? { start: form.quietStart, end: form.quietEnd, timezone: form.timezone.trim() || "UTC" }
+      : null,
+    allowed_users: form.allowedUsers.split(/[\s,]+/).filter(Boolean),
+  });
+}
+
+/**
+ * Edit a workspace's settings, or override them for one channel. Changes go
+ * through the server, which only accepts them from workspace admins; the
+ * events route picks them up within 30 seconds.
+ */
+function SlackSettingsEditor() {
+  const firestore = useFirestore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [scope, setScope] = useState(WORKSPACE_SCOPE);
+  const [newChannelId, setNewChannelId] = useState("");
+  const [form, setForm] = useState<SettingsForm>(toForm());
+
+  const workspacesQuery = useMemoFirebase(() =>
+    firestore ? collection(firestore, "slack_workspaces") : null
+  , [firestore]);
+  const { data: workspaces, isLoading } = useCollection<SlackWorkspace>(workspacesQuery);
+  const teamId = selectedTeamId ?? workspaces?.[0]?.id ?? null;
+
+  const channelsQuery = useMemoFirebase(() =>
+    firestore && teamId ? collection(firestore, "slack_workspaces", teamId, "channels") : null
+  , [firestore, teamId]);
+  const { data: channels } = useCollection<SlackSettings>(channelsQuery);
+
+  const settingsRef = useMemoFirebase(() => {
+    if (!firestore || !teamId) return null;
+    return scope === WORKSPACE_SCOPE
+      ? doc(firestore, "slack_workspaces", teamId)
+      : doc(firestore, "slack_workspaces", teamId, "channels", scope);
+  }, [firestore, teamId, scope]);
+  const { data: settings } = useDoc<SlackSettings>(settingsRef);
+
+  useEffect(() => {
+    setForm(toForm(settings));
+  }, [settings]);
+
+  const update = (changes: Partial<SettingsForm>) => setForm(current => ({ ...current, ...changes }));
+
+  // Null settings remove a channel's override; returns whether the server accepted the change
+  const saveSettings = async (channelId: string | null, changes: SlackSettings | null): Promise<boolean> => {
+    if (!teamId || !user) return false;
+
+    try {
+      const response = await fetch("/api/slack/settings", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${await user.getIdToken()}`,
+        },
+        body: JSON.stringify({
+          team_id: teamId,
+          ...(channelId && { channel_id: channelId }),
+          settings: changes,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details || result.error || "Unknown error");
+      }
+      return true;
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could not save settings", description: error.message });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settingsRef) return;
+    const parsed = fromForm(form);
+
+    if (!parsed.success) {
+      toast({ variant: "destructive", title: "Invalid settings", description: parsed.error.issues[0]?.message });
+      return;
+    }
+
+    if (await saveSettings(scope === WORKSPACE_SCOPE ? null : scope, parsed.data)) {
+      toast({ title: "Settings saved", description: scope === WORKSPACE_SCOPE ? "Workspace defaults updated." : `Override for ${scope} updated.` });
+    }
+  };
+
+  const handleAddOverride = async () => {
+    const channelId = newChannelId.trim().toUpperCase();
+    if (!teamId || !channelId) return;
+    const parsed = fromForm(form);
+
+    // Start the override from what the channel gets today
+    if (await saveSettings(channelId, parsed.success ? parsed.data : {})) {
+      setScope(channelId);
+      setNewChannelId("");
+    }
+  };
+
+  const handleRemoveOverride = async () => {
+    if (!settingsRef || scope === WORKSPACE_SCOPE) return;
+
+    if (await saveSettings(scope, null)) {
+      setScope(WORKSPACE_SCOPE);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Configuration</CardTitle>
+        <CardDescription>
+          Customize how GitPulse works in your Slack workspace
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && !workspaces ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !teamId ? (
+          <p className="text-sm text-muted-foreground">
+            Workspaces appear here once GitPulse receives their first event. Add the bot to a channel and send a message.
+          </p>
+        ) : (
+          <>
+            {/* Scope */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Workspace</Label>
+                <Select
+                  value={teamId}
+                  onValueChange={(value) => {
+                    setSelectedTeamId(value);
+                    setScope(WORKSPACE_SCOPE);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workspaces?.map(workspace => (
+                      <SelectItem key={workspace.id} value={workspace.id}>
+                        {workspace.name || workspace.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WORKSPACE_SCOPE}>All channels (workspace defaults)</SelectItem>
+                    {channels?.map(channel => (
+                      <SelectItem key={channel.id} value={channel.id}>
+                        Channel {channel.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Channel ID to override, e.g. C0123456789"
+                value={newChannelId}
+                onChange={(e) => setNewChannelId(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleAddOverride} disabled={!newChannelId.trim()}>
+                Add Override
+              </Button>
+            </div>
+
+            <Separator />
+
+            {/* Auto-detection Settings */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="auto-detection">Automatic Issue Detection</Label>
+                  <p className="text-sm text-muted-foreground">
+                    AI automatically analyzes messages and suggests creating GitHub issues
+                  </p>
+                </div>
+                <Switch
+                  id="auto-detection"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => update({ enabled })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Confidence Threshold</Label>
+                  <span className="text-sm font-medium">{form.confidence}%</span>
+                </div>
+                <Slider
+                  value={[form.confidence]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([confidence]) => update({ confidence })}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Only suggest issues the AI is at least this confident about
+                </p>
+              </div>
+            </div>
+
+            <Separator />
+
+            {/* Target Repository */}
+            <div className="space-y-2">
+              <Label htmlFor="default-repo">Target GitHub Repository</Label>
+              <Input
+                id="default-repo"
+                placeholder="owner/repository-name"
+                value={form.targetRepository}
+                onChange={(e) => update({ targetRepository: e.target.value })}
+              />
+              <p className="text-sm text-muted-foreground">
+                Detected issues are filed here; leave empty to use the author&apos;s most recent repository
+              </p>
+            </div>
+
+            {/* Quiet Hours */}
+            <div className="space-y-2">
+              <Label>Quiet Hours</Label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                <Input
+                  type="time"
+                  aria-label="Quiet hours start"
+                  value={form.quietStart}
+                  onChange={(e) => update({ quietStart: e.target.value })}
+                />
+                <Input
+                  type="time"
+                  aria-label="Quiet hours end"
+                  value={form.quietEnd}
+                  onChange={(e) => update({ quietEnd: e.target.value })}
+                />
+                <Input
+                  aria-label="Time zone"
+                  placeholder="Europe/Berlin"
+                  value={form.timezone}
+                  onChange={(e) => update({ timezone: e.target.value })}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                No suggestions are posted between these times; leave empty to stay active around the clock
+              </p>
+            </div>
+
+            {/* Allowed Users */}
+            <div className="space-y-2">
+              <Label htmlFor="allowed-users">Allowed Users</Label>
+              <Textarea
+                id="allowed-users"
+                placeholder="U0123456789, U9876543210"
+                rows={2}
+                value={form.allowedUsers}
+                onChange={(e) => update({ allowedUsers: e.target.value })}
+              />
+              <p className="text-sm text-muted-foreground">
+                Slack user IDs GitPulse listens to; leave empty to allow everyone
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {scope !== WORKSPACE_SCOPE && (
+                <Button variant="outline" onClick={handleRemoveOverride}>Remove Override</Button>
+              )}
+              <Button onClick={handleSave}>Save Configuration</Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { channelMemoryService } from '@/lib/channel-memory';
+import { localEmbeddingProvider } from '@/lib/embeddings';
+import { doc, getDoc, getFirestore, setDoc } from '@/lib/server-firestore';
+
+// Run with USE_MOCK_FIRESTORE=true and EMBEDDING_PROVIDER=local (see `npm test`)
+
+const REPO = 'acme/widgets';
+
+async function postMessage(channelId: string, id: string, message: Record<string, unknown>) {
+  const firestore = getFirestore();
+  await setDoc(doc(firestore, 'repos', encodeURIComponent(REPO), 'channels', channelId, 'messages', id), message);
+}
+
+describe('channel memory', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('indexes only messages posted since the last catch-up', async () => {
+    await postMessage('general', 'm1', {
+      sender: 'ana',
+      text: 'The deploy script lives in scripts/deploy-check.js',
+      timestamp: '2026-01-01T10:00:00.000Z',
+    });
+    await postMessage('general', 'm2', {
+      sender: 'GitPulse',
+      text: 'Open issues: #1, #2',
+      isSystemMessage: true,
+      timestamp: '2026-01-01T10:01:00.000Z',
+    });
+
+    assert.equal(await channelMemoryService.indexNewMessages(REPO, 'general'), 1);
+    assert.equal(await channelMemoryService.indexNewMessages(REPO, 'general'), 0);
+
+    await postMessage('general', 'm3', {
+      sender: 'bo',
+      text: 'Webhook retries are capped at five attempts',
+      timestamp: '2026-01-01T10:02:00.000Z',
+    });
+
+    assert.equal(await channelMemoryService.indexNewMessages(REPO, 'general'), 1);
+  });
+
+  it('tags entries with the embedding provider', async () => {
+    const entry = await getDoc(
+      doc(getFirestore(), 'repos', encodeURIComponent(REPO), 'channels', 'general', 'memory', 'm1')
+    );
+
+    assert.equal(entry.exists, true);
+    assert.equal(entry.data().provider, localEmbeddingProvider.id);
+    assert.equal(entry.data().embedding.length, localEmbeddingProvider.dimensions);
+  });
+
+  it('finds the message that answers a question first', async () => {
+    const matches = await channelMemoryService.search(REPO, 'general', 'how many attempts do webhook retries get?');
+
+    assert.equal(matches[0].id, 'm3');
+    assert.equal(matches[0].kind, 'message');
+    assert.match(matches[0].text, /capped at five attempts/);
+    assert.ok(matches.every(match => !('embedding' in match)));
+  });
+
+  it('keeps channels apart', async () => {
+    await postMessage('random', 'r1', {
+      sender: 'cy',
+      text: 'Lunch is at noon on Fridays',
+      timestamp: '2026-01-01T11:00:00.000Z',
+    });
+    await channelMemoryService.indexNewMessages(REPO, 'random');
+
+    const general = await channelMemoryService.search(REPO, 'general', 'when is lunch?');
+    const withoutChannel = await channelMemoryService.search(REPO, null, 'when is lunch?');
+
+    assert.ok(general.every(match => match.id !== 'r1'));
+    assert.deepEqual(withoutChannel, []);
+  });
+});
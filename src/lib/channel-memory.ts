@@ -0,0 +1,287 @@
+import { getFirestore, doc, getDoc, setDoc, serverTimestamp } from '@/lib/server-firestore';
+import { EmbeddingProvider, getEmbeddingProvider, rankBySimilarity } from '@/lib/embeddings';
+import type { MemoryEntry, MemoryMatch, MemorySource } from '@/types/memory';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MESSAGE_BATCH_SIZE = 100;
+const MAX_MESSAGE_BATCHES = 5; // A catch-up indexes at most 500 messages; the next one continues
+const ISSUE_PAGE_SIZE = 100;
+const MAX_ISSUE_PAGES = 3;
+const README_CHUNK_CHARS = 1500;
+const ENTRY_TEXT_CHARS = 2000;
+
+interface RepositoryMemoryState {
+  provider: string;
+  readme_sha: string | null;
+  readme_chunks: number;
+  /** ISO timestamp of the most recently updated issue indexed */
+  issues_synced_at: string | null;
+}
+
+interface ChannelMemoryState {
+  provider: string;
+  /** Timestamp of the last message indexed */
+  last_message_at: unknown;
+}
+
+// ============================================================================
+// Channel Memory Service
+// ============================================================================
+
+/**
+ * An embedding index of what a channel knows: its messages, plus the repo's
+ * README and issues. Indexing is incremental - each catch-up only embeds
+ * messages after the last one indexed, issues updated since the last sync
+ * and the README if its SHA changed. Switching embedding provider starts the
+ * index over, since vectors from different providers can't be compared.
+ */
+export class ChannelMemoryService {
+  /**
+   * Embed messages posted since the last catch-up. Returns how many were indexed.
+   */
+  async indexNewMessages(repoFullName: string, channelId: string): Promise<number> {
+    const provider = getEmbeddingProvider();
+    const firestore = getFirestore();
+    const repoId = encodeURIComponent(repoFullName);
+    const stateRef = doc(firestore, 'repos', repoId, 'memory_state', `channel-${channelId}`);
+    const state = await this.loadState<ChannelMemoryState>(stateRef, provider);
+
+    const channelRef = firestore.collection('repos').doc(repoId).collection('channels').doc(channelId);
+    let watermark = state?.last_message_at ?? null;
+    let indexed = 0;
+
+    for (let batch = 0; batch < MAX_MESSAGE_BATCHES; batch++) {
+      let query = channelRef.collection('messages').orderBy('timestamp');
+      if (watermark) {
+        query = query.startAfter(watermark);
+      }
+
+      const snapshot = await query.limit(MESSAGE_BATCH_SIZE).get();
+      if (snapshot.empty) break;
+
+      const sources: MemorySource[] = [];
+      for (const messageDoc of snapshot.docs) {
+        const source = messageSource(messageDoc.id, messageDoc.data());
+        if (source) sources.push(source);
+      }
+
+      await this.storeEntries(channelRef.collection('memory'), sources, provider);
+      indexed += sources.length;
+
+      watermark = snapshot.docs[snapshot.docs.length - 1].data().timestamp;
+      const nextState: ChannelMemoryState = { provider: provider.id, last_message_at: watermark };
+      await setDoc(stateRef, { ...nextState, updated_at: serverTimestamp() });
+
+      if (snapshot.docs.length < MESSAGE_BATCH_SIZE) break;
+    }
+
+    if (indexed > 0) {
+      console.log(`🧠 Indexed ${indexed} message(s) from ${repoFullName}#${channelId}`);
+    }
+    return indexed;
+  }
+
+  /**
+   * Embed the README if it changed and issues updated since the last sync.
+   * Returns how many entries were indexed.
+   */
+  async indexRepository(repoFullName: string, accessToken: string): Promise<number> {
+    const provider = getEmbeddingProvider();
+    const firestore = getFirestore();
+    const repoId = encodeURIComponent(repoFullName);
+    const stateRef = doc(firestore, 'repos', repoId, 'memory_state', 'repository');
+    const state: RepositoryMemoryState = (await this.loadState<RepositoryMemoryState>(stateRef, provider)) ?? {
+      provider: provider.id,
+      readme_sha: null,
+      readme_chunks: 0,
+      issues_synced_at: null,
+    };
+
+    const memoryRef = firestore.collection('repos').doc(repoId).collection('memory');
+    let indexed = 0;
+
+    const readme = await fetchGitHub(`/repos/${repoFullName}/readme`, accessToken);
+    if (readme && readme.sha !== state.readme_sha) {
+      const chunks = chunkReadme(Buffer.from(readme.content, 'base64').toString('utf-8'));
+      await this.storeEntries(memoryRef, chunks.map((text, index) => ({
+        kind: 'readme' as const,
+        id: `readme-${index}`,
+        label: chunks.length > 1 ? `README (part ${index + 1})` : 'README',
+        url: readme.html_url,
+        text,
+      })), provider);
+
+      // Drop sections left over from a longer README
+      for (let index = chunks.length; index < state.readme_chunks; index++) {
+        await memoryRef.doc(`readme-${index}`).delete();
+      }
+
+      state.readme_sha = readme.sha;
+      state.readme_chunks = chunks.length;
+      indexed += chunks.length;
+    }
+
+    // Sorted by update time, so pages read past the limit are picked up by the next sync
+    const since = state.issues_synced_at ? `&since=${encodeURIComponent(state.issues_synced_at)}` : '';
+    for (let page = 1; page <= MAX_ISSUE_PAGES; page++) {
+      const issues: any[] | null = await fetchGitHub(
+        `/repos/${repoFullName}/issues?state=all&sort=updated&direction=asc&per_page=${ISSUE_PAGE_SIZE}&page=${page}${since}`,
+        accessToken
+      );
+      if (!issues || issues.length === 0) break;
+
+      const sources: MemorySource[] = issues
+        .filter(issue => !issue.pull_request)
+        .map(issue => ({
+          kind: 'issue' as const,
+          id: `issue-${issue.number}`,
+          label: `#${issue.number} ${issue.title}`,
+          url: issue.html_url,
+          text: `Issue #${issue.number} (${issue.state}): ${issue.title}\n\n${issue.body || ''}`.slice(0, ENTRY_TEXT_CHARS),
+        }));
+
+      await this.storeEntries(memoryRef, sources, provider);
+      indexed += sources.length;
+
+      state.issues_synced_at = issues[issues.length - 1].updated_at;
+      if (issues.length < ISSUE_PAGE_SIZE) break;
+    }
+
+    await setDoc(stateRef, { ...state, provider: provider.id, updated_at: serverTimestamp() });
+
+    if (indexed > 0) {
+      console.log(`🧠 Indexed ${indexed} README section(s) and issue(s) from ${repoFullName}`);
+    }
+    return indexed;
+  }
+
+  /**
+   * The indexed messages, issues and README sections closest to a question.
+   * Without a channel only the README and issues are searched.
+   */
+  async search(repoFullName: string, channelId: string | null, question: string, limit: number = 8): Promise<MemoryMatch[]> {
+    const provider = getEmbeddingProvider();
+    const firestore = getFirestore();
+    const repoRef = firestore.collection('repos').doc(encodeURIComponent(repoFullName));
+
+    const [[queryVector], channelEntries, repoEntries] = await Promise.all([
+      provider.embed([question], 'query'),
+      channelId ? this.loadEntries(repoRef.collection('channels').doc(channelId).collection('memory'), provider) : [],
+      this.loadEntries(repoRef.collection('memory'), provider),
+    ]);
+
+    return rankBySimilarity(queryVector, [...channelEntries, ...repoEntries], limit)
+      .map(({ embedding, provider: _provider, indexed_at, ...match }) => match);
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  /**
+   * Saved state, or null if there is none or it belongs to another provider
+   */
+  private async loadState<T extends { provider: string }>(stateRef: any, provider: EmbeddingProvider): Promise<T | null> {
+    const snapshot = await getDoc(stateRef);
+    const state = snapshot.exists ? (snapshot.data() as T) : null;
+
+    if (state && state.provider !== provider.id) {
+      console.log(`🧠 Embedding provider changed to ${provider.id}; re-indexing from scratch`);
+      return null;
+    }
+    return state;
+  }
+
+  private async storeEntries(collectionRef: any, sources: MemorySource[], provider: EmbeddingProvider): Promise<void> {
+    if (sources.length === 0) return;
+
+    const embeddings = await provider.embed(sources.map(source => source.text), 'document');
+
+    for (let i = 0; i < sources.length; i++) {
+      const entry: MemoryEntry = { ...sources[i], provider: provider.id, embedding: embeddings[i] };
+      await setDoc(collectionRef.doc(sources[i].id), { ...entry, indexed_at: serverTimestamp() });
+    }
+  }
+
+  private async loadEntries(collectionRef: any, provider: EmbeddingProvider): Promise<MemoryEntry[]> {
+    const snapshot = await collectionRef.where('provider', '==', provider.id).get();
+    const entries: MemoryEntry[] = [];
+
+    for (const entryDoc of snapshot.docs) {
+      entries.push(entryDoc.data() as MemoryEntry);
+    }
+    return entries;
+  }
+}
+
+// ============================================================================
+// Source Helpers
+// ============================================================================
+
+/**
+ * A chat message as a memory source. System messages (lists, verification
+ * results) are skipped; AI issue suggestions are kept.
+ */
+function messageSource(id: string, message: any): MemorySource | null {
+  if (message.isSystemMessage || !message.text?.trim()) {
+    return null;
+  }
+
+  const sentAt = typeof message.timestamp?.toDate === 'function'
+    ? message.timestamp.toDate().toISOString().slice(0, 10)
+    : null;
+  const suggestion = message.issueDetails
+    ? `\nSuggested issue: ${message.issueDetails.title} - ${message.issueDetails.description}`
+    : '';
+
+  return {
+    kind: 'message',
+    id,
+    label: sentAt ? `${message.sender}, ${sentAt}` : message.sender,
+    url: message.issueUrl || null,
+    text: `${message.sender}: ${message.text}${suggestion}`.slice(0, ENTRY_TEXT_CHARS),
+  };
+}
+
+/**
+ * Split a README into sections of whole paragraphs
+ */
+function chunkReadme(content: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of content.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > README_CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks.map(chunk => chunk.slice(0, ENTRY_TEXT_CHARS));
+}
+
+async function fetchGitHub(path: string, accessToken: string): Promise<any | null> {
+  const response = await fetch(`https://api.github.com${path}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github+json',
+    },
+  });
+
+  if (!response.ok) {
+    // No README is a 404, which is fine
+    if (response.status !== 404) {
+      console.error(`GitHub request failed for ${path}:`, response.status);
+    }
+    return null;
+  }
+  return response.json();
+}
+
+// Export singleton instance
+export const channelMemoryService = new ChannelMemoryService();
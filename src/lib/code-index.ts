@@ -0,0 +1,326 @@
+import { getFirestore, doc, getDoc, setDoc, serverTimestamp } from '@/lib/server-firestore';
+import { EmbeddingProvider, getEmbeddingProvider, rankBySimilarity } from '@/lib/embeddings';
+import { chunkFileContent } from '@/lib/mcp/file-chunker';
+import { GitHubAPIError } from '@/types/mcp';
+import type { CodeChunkEntry, CodeIndex, CodeIndexFile, MemoryMatch } from '@/types/memory';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const INDEXED_EXTENSIONS_PATTERN = /\.(tsx?|jsx?|mjs|cjs|py|go|rs|java|kt|rb|php|cs|swift|c|h|cpp|hpp|vue|svelte|css|scss|sql|ya?ml|md)$/i;
+const IGNORED_PATH_PATTERN = /(^|\/)(node_modules|dist|build|out|\.next|coverage|vendor|\.git)\/|\.min\.\w+$|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$/;
+const MAX_INDEXED_FILES = 500;
+const MAX_FILE_BYTES = 100_000;
+const CHUNK_MAX_LINES = 80; // Much smaller than the chunker's default, so each chunk is one idea
+const CHUNK_TEXT_CHARS = 4000;
+const FILES_PER_BATCH = 20; // Files fetched and embedded together
+const MAX_RANKED_CHUNKS = 2000; // Chunks loaded to answer one question
+const CHUNKS_PER_READ = 100;
+
+/** A file's similarity to a text, with the lines of its closest chunk */
+export interface CodeFileMatch {
+  path: string;
+  score: number;
+  start_line: number;
+  end_line: number;
+}
+
+interface CodeIndexState {
+  provider: string;
+  commit_sha: string;
+}
+
+// ============================================================================
+// Code Index Service
+// ============================================================================
+
+/**
+ * An embedding index of a repository's source code at the latest commit of
+ * its default branch, for /ask. Files are split with the MCP file chunker's
+ * function and class boundaries, and chunks are stored per git blob, so
+ * re-indexing a new commit only embeds the files that changed in it.
+ */
+export class CodeIndexService {
+  /**
+   * Index the repo at a commit, the default branch's head if none is given.
+   * Does nothing if that commit is already indexed. Returns how many chunks
+   * were embedded.
+   */
+  async indexCommit(repoFullName: string, accessToken: string, commitSha?: string): Promise<number> {
+    const provider = getEmbeddingProvider();
+    const firestore = getFirestore();
+    const repoId = encodeURIComponent(repoFullName);
+    const stateRef = doc(firestore, 'repos', repoId, 'memory_state', 'code');
+    const state = await this.loadState(stateRef, provider);
+
+    const sha = commitSha || await resolveDefaultBranchHead(repoFullName, accessToken);
+    if (state?.commit_sha === sha) {
+      return 0;
+    }
+
+    const repoRef = firestore.collection('repos').doc(repoId);
+    const previous = state ? await this.loadIndex(repoRef, state.commit_sha) : null;
+    const knownBlobs = new Map((previous?.files || []).map(file => [file.blob_sha, file.chunks]));
+
+    const tree = await fetchGitHub(`/repos/${repoFullName}/git/trees/${sha}?recursive=1`, accessToken);
+    const candidates: Array<{ path: string; sha: string }> = tree.tree.filter((entry: any) =>
+      entry.type === 'blob' &&
+      entry.size <= MAX_FILE_BYTES &&
+      INDEXED_EXTENSIONS_PATTERN.test(entry.path) &&
+      !IGNORED_PATH_PATTERN.test(entry.path)
+    );
+    const selected = candidates.slice(0, MAX_INDEXED_FILES);
+    const truncated = tree.truncated === true || candidates.length > selected.length;
+
+    const files: CodeIndexFile[] = [];
+    const toEmbed: Array<{ path: string; sha: string }> = [];
+
+    for (const entry of selected) {
+      const chunks = knownBlobs.get(entry.sha);
+      if (chunks !== undefined) {
+        files.push({ path: entry.path, blob_sha: entry.sha, chunks });
+      } else {
+        toEmbed.push(entry);
+      }
+    }
+
+    let embedded = 0;
+    for (let start = 0; start < toEmbed.length; start += FILES_PER_BATCH) {
+      const batch = toEmbed.slice(start, start + FILES_PER_BATCH);
+      const contents = await Promise.all(batch.map(entry =>
+        fetchGitHub(`/repos/${repoFullName}/git/blobs/${entry.sha}`, accessToken)
+          .then(blob => Buffer.from(blob.content, 'base64').toString('utf-8'))
+      ));
+
+      const chunks: Array<Omit<CodeChunkEntry, 'provider' | 'embedding'>> = [];
+      batch.forEach((entry, index) => {
+        const fileChunks = chunkSourceFile(entry.path, entry.sha, contents[index]);
+        files.push({ path: entry.path, blob_sha: entry.sha, chunks: fileChunks.length });
+        chunks.push(...fileChunks);
+      });
+
+      await this.storeChunks(repoRef.collection('code_chunks'), chunks, provider);
+      embedded += chunks.length;
+    }
+
+    const index: CodeIndex = { commit_sha: sha, provider: provider.id, files, truncated };
+    await setDoc(doc(firestore, 'repos', repoId, 'code_index', sha), { ...index, indexed_at: serverTimestamp() });
+
+    const nextState: CodeIndexState = { provider: provider.id, commit_sha: sha };
+    await setDoc(stateRef, { ...nextState, updated_at: serverTimestamp() });
+
+    // Only the latest commit is kept; drop chunks of files that changed since the previous one
+    if (previous && state) {
+      const currentBlobs = new Set(files.map(file => file.blob_sha));
+      for (const file of previous.files) {
+        if (currentBlobs.has(file.blob_sha)) continue;
+        for (let chunk = 0; chunk < file.chunks; chunk++) {
+          await repoRef.collection('code_chunks').doc(`${file.blob_sha}-${chunk}`).delete();
+        }
+      }
+      await repoRef.collection('code_index').doc(state.commit_sha).delete();
+    }
+
+    console.log(`🧠 Indexed ${repoFullName}@${sha.substring(0, 7)}: ${files.length} file(s), ${embedded} new chunk(s)${truncated ? ' (truncated)' : ''}`);
+    return embedded;
+  }
+
+  /**
+   * The code chunks closest to a question, cited as path:startLine-endLine
+   * and linked to the indexed commit. Empty if the repo has not been indexed.
+   */
+  async search(repoFullName: string, question: string, limit: number = 6): Promise<MemoryMatch[]> {
+    const ranked = await this.rankChunks(repoFullName, question);
+
+    return ranked.slice(0, limit).map(({ path, chunk, commitSha }) => {
+      const citation = `${path}:${chunk.start_line}-${chunk.end_line}`;
+
+      return {
+        kind: 'code' as const,
+        id: citation,
+        label: citation,
+        url: `https://github.com/${repoFullName}/blob/${commitSha}/${path}#L${chunk.start_line}-L${chunk.end_line}`,
+        text: chunk.text,
+        score: chunk.score,
+      };
+    });
+  }
+
+  /**
+   * The files closest to a text, each scored by its closest chunk
+   */
+  async rankFiles(repoFullName: string, text: string, limit: number): Promise<CodeFileMatch[]> {
+    const ranked = await this.rankChunks(repoFullName, text);
+    const files = new Map<string, CodeFileMatch>();
+
+    // Chunks come best first, so the first chunk seen for a file is its closest
+    for (const { path, chunk } of ranked) {
+      if (files.size >= limit) break;
+      if (!files.has(path)) {
+        files.set(path, { path, score: chunk.score, start_line: chunk.start_line, end_line: chunk.end_line });
+      }
+    }
+
+    return [...files.values()];
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  /**
+   * The chunks at the indexed commit, closest to the text first. Empty if
+   * the repo has not been indexed.
+   *
+   * Chunks are read by ID from the commit's index rather than queried, at
+   * most MAX_RANKED_CHUNKS of them: every file's first chunk, then every
+   * file's second, and so on, so a big repo still has each file considered.
+   */
+  private async rankChunks(
+    repoFullName: string,
+    text: string
+  ): Promise<Array<{ path: string; chunk: CodeChunkEntry & { score: number }; commitSha: string }>> {
+    const provider = getEmbeddingProvider();
+    const firestore = getFirestore();
+    const repoId = encodeURIComponent(repoFullName);
+    const state = await this.loadState(doc(firestore, 'repos', repoId, 'memory_state', 'code'), provider);
+    if (!state) {
+      return [];
+    }
+
+    const repoRef = firestore.collection('repos').doc(repoId);
+    const index = await this.loadIndex(repoRef, state.commit_sha);
+    if (!index) {
+      return [];
+    }
+
+    const paths = new Map(index.files.map(file => [file.blob_sha, file.path]));
+    const chunkIds: string[] = [];
+    const mostChunks = Math.max(0, ...index.files.map(file => file.chunks));
+
+    for (let chunk = 0; chunk < mostChunks && chunkIds.length < MAX_RANKED_CHUNKS; chunk++) {
+      for (const file of index.files) {
+        if (chunk < file.chunks && chunkIds.length < MAX_RANKED_CHUNKS) {
+          chunkIds.push(`${file.blob_sha}-${chunk}`);
+        }
+      }
+    }
+
+    const [[queryVector], chunks] = await Promise.all([
+      provider.embed([text], 'query'),
+      this.loadChunks(firestore, repoRef, chunkIds, provider),
+    ]);
+
+    return rankBySimilarity(queryVector, chunks, chunks.length).map(chunk => ({
+      path: paths.get(chunk.blob_sha)!,
+      chunk,
+      commitSha: index.commit_sha,
+    }));
+  }
+
+  /**
+   * Saved state, or null if there is none or it belongs to another provider
+   */
+  private async loadState(stateRef: any, provider: EmbeddingProvider): Promise<CodeIndexState | null> {
+    const snapshot = await getDoc(stateRef);
+    const state = snapshot.exists ? (snapshot.data() as CodeIndexState) : null;
+
+    if (state && state.provider !== provider.id) {
+      console.log(`🧠 Embedding provider changed to ${provider.id}; re-indexing code from scratch`);
+      return null;
+    }
+    return state;
+  }
+
+  /**
+   * Read chunks by ID, skipping any missing or embedded by another provider
+   */
+  private async loadChunks(
+    firestore: any,
+    repoRef: any,
+    chunkIds: string[],
+    provider: EmbeddingProvider
+  ): Promise<CodeChunkEntry[]> {
+    const chunks: CodeChunkEntry[] = [];
+
+    for (let start = 0; start < chunkIds.length; start += CHUNKS_PER_READ) {
+      const refs = chunkIds.slice(start, start + CHUNKS_PER_READ).map(id => repoRef.collection('code_chunks').doc(id));
+      const snapshots = await firestore.getAll(...refs);
+
+      for (const snapshot of snapshots) {
+        const chunk = snapshot.exists ? (snapshot.data() as CodeChunkEntry) : null;
+        if (chunk?.provider === provider.id) chunks.push(chunk);
+      }
+    }
+
+    return chunks;
+  }
+
+  private async loadIndex(repoRef: any, commitSha: string): Promise<CodeIndex | null> {
+    const snapshot = await repoRef.collection('code_index').doc(commitSha).get();
+    return snapshot.exists ? (snapshot.data() as CodeIndex) : null;
+  }
+
+  private async storeChunks(
+    collectionRef: any,
+    chunks: Array<Omit<CodeChunkEntry, 'provider' | 'embedding'>>,
+    provider: EmbeddingProvider
+  ): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const embeddings = await provider.embed(chunks.map(chunk => chunk.text), 'document');
+
+    for (let i = 0; i < chunks.length; i++) {
+      const entry: CodeChunkEntry = { ...chunks[i], provider: provider.id, embedding: embeddings[i] };
+      await setDoc(collectionRef.doc(`${entry.blob_sha}-${entry.chunk}`), { ...entry, indexed_at: serverTimestamp() });
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split a file at the chunker's boundaries. The text of each chunk is its own
+ * lines under a path:line header - not the chunker's snippet, whose repeated
+ * import context would crowd out the code in a short embedding.
+ */
+function chunkSourceFile(path: string, blobSha: string, content: string): Array<Omit<CodeChunkEntry, 'provider' | 'embedding'>> {
+  const lines = content.split('\n');
+
+  return chunkFileContent(content, CHUNK_MAX_LINES)
+    .filter(chunk => chunk.endLine >= chunk.startLine)
+    .map((chunk, index) => ({
+      blob_sha: blobSha,
+      chunk: index,
+      start_line: chunk.startLine,
+      end_line: chunk.endLine,
+      text: `// ${path}:${chunk.startLine}-${chunk.endLine}\n${lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')}`
+        .slice(0, CHUNK_TEXT_CHARS),
+    }));
+}
+
+async function resolveDefaultBranchHead(repoFullName: string, accessToken: string): Promise<string> {
+  const repo = await fetchGitHub(`/repos/${repoFullName}`, accessToken);
+  const commit = await fetchGitHub(`/repos/${repoFullName}/commits/${encodeURIComponent(repo.default_branch)}`, accessToken);
+  return commit.sha;
+}
+
+async function fetchGitHub(path: string, accessToken: string): Promise<any> {
+  const response = await fetch(`https://api.github.com${path}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/vnd.github+json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new GitHubAPIError(`GitHub request failed for ${path}: ${response.statusText}`, response.status);
+  }
+  return response.json();
+}
+
+// Export singleton instance
+export const codeIndexService = new CodeIndexService();
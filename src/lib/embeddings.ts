@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const GOOGLE_EMBEDDER = 'gemini-embedding-001';
+const GOOGLE_DIMENSIONS = 768;
+const GOOGLE_BATCH_SIZE = 100; // Texts per embedding request
+const LOCAL_DIMENSIONS = 256;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Documents are embedded for storage, queries for searching them */
+export type EmbeddingPurpose = 'document' | 'query';
+
+/**
+ * Turns text into vectors. Vectors from different providers live in
+ * different spaces, so stored embeddings are tagged with the provider ID and
+ * only compared with embeddings from the same provider.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  dimensions: number;
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Gemini embeddings through Genkit
+ */
+export const googleEmbeddingProvider: EmbeddingProvider = {
+  id: `googleai/${GOOGLE_EMBEDDER}@${GOOGLE_DIMENSIONS}`,
+  dimensions: GOOGLE_DIMENSIONS,
+
+  async embed(texts, purpose) {
+    const [{ ai }, { googleAI }] = await Promise.all([
+      import('@/ai/genkit'),
+      import('@genkit-ai/google-genai'),
+    ]);
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += GOOGLE_BATCH_SIZE) {
+      const batch = await ai.embedMany({
+        embedder: googleAI.embedder(GOOGLE_EMBEDDER),
+        content: texts.slice(start, start + GOOGLE_BATCH_SIZE),
+        options: {
+          taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+          outputDimensionality: GOOGLE_DIMENSIONS,
+        },
+      });
+      vectors.push(...batch.map(({ embedding }) => normalize(embedding)));
+    }
+
+    return vectors;
+  },
+};
+
+/**
+ * A deterministic stand-in that needs no API: words and word pairs hashed
+ * into a fixed number of buckets. It only captures shared vocabulary, but
+ * that is enough for tests and for local development without an API key.
+ */
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: `local/hashed-terms@${LOCAL_DIMENSIONS}`,
+  dimensions: LOCAL_DIMENSIONS,
+
+  async embed(texts) {
+    return texts.map(text => {
+      const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().match(/[a-z0-9_]+/g) || [];
+      const terms = [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+
+      for (const term of terms) {
+        const hash = createHash('md5').update(term).digest();
+        const bucket = hash.readUInt32BE(0) % LOCAL_DIMENSIONS;
+        vector[bucket] += hash[4] & 1 ? 1 : -1;
+      }
+
+      return normalize(vector);
+    });
+  },
+};
+
+/**
+ * The provider set by EMBEDDING_PROVIDER ('google' or 'local'). Without it,
+ * Gemini is used when GOOGLE_GENAI_API_KEY is set and the local stand-in
+ * otherwise.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+
+  if (configured === 'local') return localEmbeddingProvider;
+  if (configured === 'google') return googleEmbeddingProvider;
+  if (configured) {
+    console.warn(`⚠️ Unknown EMBEDDING_PROVIDER "${configured}", choosing one automatically`);
+  }
+
+  return process.env.GOOGLE_GENAI_API_KEY ? googleEmbeddingProvider : localEmbeddingProvider;
+}
+
+// ============================================================================
+// Vector Helpers
+// ============================================================================
+
+/**
+ * Cosine similarity; vectors from the providers above are unit length, so
+ * this is their dot product
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The `limit` items whose embeddings are closest to the query
+ */
+export function rankBySimilarity<T extends { embedding: number[] }>(
+  query: number[],
+  items: T[],
+  limit: number
+): Array<T & { score: number }> {
+  return items
+    .map(item => ({ ...item, score: cosineSimilarity(query, item.embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
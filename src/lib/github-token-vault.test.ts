@@ -0,0 +1,77 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { GitHubTokenVault } from '@/lib/github-token-vault';
+import { doc, getFirestore, updateDoc } from '@/lib/server-firestore';
+
+// Run with USE_MOCK_FIRESTORE=true (see `npm test`)
+
+function tokenResponse(accessToken: string) {
+  return new Response(JSON.stringify({
+    access_token: accessToken,
+    refresh_token: `refresh-${accessToken}`,
+    expires_in: 8 * 60 * 60,
+  }));
+}
+
+describe('GitHubTokenVault', () => {
+  const vault = new GitHubTokenVault();
+
+  before(() => {
+    process.env.GITHUB_TOKEN_ENCRYPTION_KEYS = `k1:${randomBytes(32).toString('base64')}`;
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('returns stored tokens that are not about to expire', async () => {
+    await vault.storeTokens('U1', { access_token: 'gho_one', refresh_token: 'ghr_one', expires_in: 8 * 60 * 60 });
+
+    assert.equal(await vault.getToken('U1'), 'gho_one');
+    assert.equal(await vault.hasToken('U1'), true);
+    assert.equal(await vault.hasToken('U-unknown'), false);
+  });
+
+  it('spends the refresh token once when requests refresh at the same time', async () => {
+    await vault.storeTokens('U2', { access_token: 'gho_old', refresh_token: 'ghr_old', expires_in: 60 });
+    const fetchMock = mock.method(globalThis, 'fetch', async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return tokenResponse('gho_new');
+    });
+
+    const tokens = await Promise.all([vault.getToken('U2'), vault.getToken('U2'), vault.getToken('U2')]);
+
+    assert.deepEqual(tokens, ['gho_new', 'gho_new', 'gho_new']);
+    assert.equal(fetchMock.mock.callCount(), 1);
+    fetchMock.mock.restore();
+  });
+
+  it('waits for a refresh another server holds the lease for', async () => {
+    await vault.storeTokens('U3', { access_token: 'gho_old', refresh_token: 'ghr_old', expires_in: 60 });
+    await updateDoc(doc(getFirestore(), 'github_token_vault', 'U3'), { refresh_lease_until: Date.now() + 10_000 });
+    const fetchMock = mock.method(globalThis, 'fetch', async () => tokenResponse('gho_mine'));
+
+    const token = vault.getToken('U3');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await new GitHubTokenVault().storeTokens('U3', { access_token: 'gho_theirs', refresh_token: 'ghr_theirs', expires_in: 8 * 60 * 60 });
+
+    assert.equal(await token, 'gho_theirs');
+    assert.equal(fetchMock.mock.callCount(), 0);
+    fetchMock.mock.restore();
+  });
+
+  it('releases the lease when GitHub refuses the refresh', async () => {
+    await vault.storeTokens('U4', { access_token: 'gho_old', refresh_token: 'ghr_old', expires_in: 60 });
+    mock.method(console, 'error', () => {});
+    const fetchMock = mock.method(globalThis, 'fetch', async () =>
+      new Response(JSON.stringify({ error: 'bad_refresh_token' }))
+    );
+
+    assert.equal(await vault.getToken('U4'), null);
+    fetchMock.mock.mockImplementation(async () => tokenResponse('gho_retry'));
+    assert.equal(await vault.getToken('U4'), 'gho_retry');
+    fetchMock.mock.restore();
+  });
+});
@@ -0,0 +1,404 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { getFirestore, doc, getDoc, setDoc, updateDoc, serverTimestamp } from '@/lib/server-firestore';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const VAULT_COLLECTION = 'github_token_vault';
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh a little early so a token doesn't expire mid-request
+const REFRESH_LEASE_MS = 15 * 1000; // How long other servers wait on a refresh before taking it over
+const REFRESH_POLL_MS = 250;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Master keys from GITHUB_TOKEN_ENCRYPTION_KEYS, as comma-separated
+ * `id:base64key` pairs. The first key wraps new data keys; the rest are
+ * kept so tokens wrapped before a rotation can still be read.
+ */
+function loadMasterKeys(): MasterKey[] {
+  const raw = process.env.GITHUB_TOKEN_ENCRYPTION_KEYS?.trim();
+  if (!raw) {
+    throw new Error('GITHUB_TOKEN_ENCRYPTION_KEYS is not set; GitHub tokens cannot be stored');
+  }
+
+  return raw.split(',').map(entry => {
+    const [id, encoded] = entry.trim().split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+    if (!id || key.length !== KEY_BYTES) {
+      throw new Error(`Invalid GitHub token encryption key "${id}": expected id:base64 of ${KEY_BYTES} bytes`);
+    }
+    return { id, key };
+  });
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Tokens from GitHub's OAuth token endpoint. Expiry fields are only set
+ * when the OAuth app uses expiring user tokens.
+ */
+export interface GitHubOAuthTokens {
+  access_token: string;
+  refresh_token?: string;
+  /** Seconds */
+  expires_in?: number;
+  /** Seconds */
+  refresh_token_expires_in?: number;
+}
+
+/** AES-256-GCM output, base64-encoded */
+interface SealedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface VaultRecord {
+  slack_user_id: string;
+  /** The master key that wrapped data_key */
+  key_id: string;
+  data_key: SealedValue;
+  access_token: SealedValue;
+  refresh_token: SealedValue | null;
+  /** Epoch ms; null for tokens that don't expire */
+  expires_at: number | null;
+  refresh_token_expires_at: number | null;
+  /** Epoch ms until which a server holds the right to spend the refresh token */
+  refresh_lease_until?: number | null;
+}
+
+type RefreshClaim =
+  | { state: 'missing' }
+  | { state: 'fresh'; record: VaultRecord }
+  | { state: 'busy' }
+  | { state: 'claimed'; record: VaultRecord };
+
+// ============================================================================
+// Token Vault
+// ============================================================================
+
+/**
+ * GitHub tokens for Slack users, encrypted at rest. Each user's tokens are
+ * sealed with their own data key, which is in turn wrapped by a master key
+ * held only by the server, so rotating the master key means re-wrapping
+ * data keys rather than re-encrypting tokens. Records live on
+ * github_token_vault/{slackUserId}, which clients can't read.
+ */
+export class GitHubTokenVault {
+  /** Refreshes in flight on this server, by Slack user */
+  private refreshes = new Map<string, Promise<string | null>>();
+
+  /**
+   * Encrypt and store a user's tokens, replacing any earlier ones
+   */
+  async storeTokens(slackUserId: string, tokens: GitHubOAuthTokens): Promise<void> {
+    const [masterKey] = loadMasterKeys();
+    const dataKey = randomBytes(KEY_BYTES);
+    const now = Date.now();
+
+    const record: VaultRecord = {
+      slack_user_id: slackUserId,
+      key_id: masterKey.id,
+      data_key: seal(masterKey.key, dataKey, slackUserId),
+      access_token: seal(dataKey, Buffer.from(tokens.access_token), slackUserId),
+      refresh_token: tokens.refresh_token ? seal(dataKey, Buffer.from(tokens.refresh_token), slackUserId) : null,
+      expires_at: tokens.expires_in ? now + tokens.expires_in * 1000 : null,
+      refresh_token_expires_at: tokens.refresh_token_expires_in ? now + tokens.refresh_token_expires_in * 1000 : null,
+    };
+
+    const firestore = getFirestore();
+    await setDoc(doc(firestore, VAULT_COLLECTION, slackUserId), {
+      ...record,
+      updated_at: serverTimestamp(),
+    });
+  }
+
+  /**
+   * A user's access token, refreshed first if it's about to expire. Returns
+   * null if the user has no token or it can no longer be refreshed.
+   */
+  async getToken(slackUserId: string): Promise<string | null> {
+    const record = await this.loadRecord(slackUserId);
+    if (!record) return null;
+
+    if (needsRefresh(record)) {
+      return this.refreshOnce(slackUserId);
+    }
+
+    const dataKey = this.unwrapDataKey(record);
+
+    if (record.key_id !== loadMasterKeys()[0].id) {
+      await this.rewrap(slackUserId, record, dataKey);
+    }
+
+    return open(dataKey, record.access_token, slackUserId).toString();
+  }
+
+  /**
+   * Whether a user has stored tokens, without decrypting them
+   */
+  async hasToken(slackUserId: string): Promise<boolean> {
+    return !!(await this.loadRecord(slackUserId));
+  }
+
+  /**
+   * Revoke a user's token with GitHub and erase it. The local copy is
+   * erased even if GitHub can't be reached.
+   */
+  async revokeToken(slackUserId: string): Promise<void> {
+    let token: string | null = null;
+    try {
+      token = await this.getToken(slackUserId);
+    } catch (error) {
+      console.error('Could not decrypt GitHub token for revocation:', error);
+    }
+
+    if (token) {
+      await this.revokeWithGitHub(token);
+    }
+
+    const firestore = getFirestore();
+    await setDoc(doc(firestore, VAULT_COLLECTION, slackUserId), {
+      slack_user_id: slackUserId,
+      revoked_at: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Re-wrap every data key still wrapped by a retired master key. Once this
+   * has run, the retired key can be dropped from GITHUB_TOKEN_ENCRYPTION_KEYS.
+   */
+  async rotateKeys(): Promise<number> {
+    const currentKeyId = loadMasterKeys()[0].id;
+    const firestore = getFirestore();
+    const snapshot = await firestore
+      .collection(VAULT_COLLECTION)
+      .where('key_id', '!=', currentKeyId)
+      .get();
+
+    let rotated = 0;
+    for (const recordDoc of snapshot.docs) {
+      const record = recordDoc.data() as VaultRecord;
+      await this.rewrap(record.slack_user_id, record, this.unwrapDataKey(record));
+      rotated++;
+    }
+
+    console.log(`🔑 Re-wrapped ${rotated} GitHub token data key(s) with ${currentKeyId}`);
+    return rotated;
+  }
+
+  private async loadRecord(slackUserId: string): Promise<VaultRecord | null> {
+    const firestore = getFirestore();
+    const snapshot = await getDoc(doc(firestore, VAULT_COLLECTION, slackUserId));
+    const record = snapshot.exists ? (snapshot.data() as Partial<VaultRecord>) : null;
+
+    return record?.access_token ? (record as VaultRecord) : null;
+  }
+
+  private unwrapDataKey(record: VaultRecord): Buffer {
+    const masterKey = loadMasterKeys().find(key => key.id === record.key_id);
+    if (!masterKey) {
+      throw new Error(`GitHub token for ${record.slack_user_id} was wrapped with unknown key "${record.key_id}"`);
+    }
+
+    return open(masterKey.key, record.data_key, record.slack_user_id);
+  }
+
+  private async rewrap(slackUserId: string, record: VaultRecord, dataKey: Buffer): Promise<void> {
+    const [masterKey] = loadMasterKeys();
+    const firestore = getFirestore();
+
+    await setDoc(doc(firestore, VAULT_COLLECTION, slackUserId), {
+      ...record,
+      key_id: masterKey.id,
+      data_key: seal(masterKey.key, dataKey, slackUserId),
+      updated_at: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Refresh a user's tokens once, however many requests need them. GitHub
+   * refresh tokens are single-use, so concurrent requests on this server
+   * share one refresh, and other servers wait on a lease stored on the record.
+   */
+  private refreshOnce(slackUserId: string): Promise<string | null> {
+    let pending = this.refreshes.get(slackUserId);
+    if (!pending) {
+      pending = this.refreshWithLease(slackUserId).finally(() => this.refreshes.delete(slackUserId));
+      this.refreshes.set(slackUserId, pending);
+    }
+    return pending;
+  }
+
+  private async refreshWithLease(slackUserId: string): Promise<string | null> {
+    for (let waited = 0; ; waited += REFRESH_POLL_MS) {
+      const claim = await this.claimRefresh(slackUserId);
+
+      if (claim.state === 'missing') return null;
+      if (claim.state === 'fresh') {
+        return open(this.unwrapDataKey(claim.record), claim.record.access_token, slackUserId).toString();
+      }
+      if (claim.state === 'claimed') {
+        return this.refreshAndRelease(slackUserId, claim.record);
+      }
+
+      // Another server is refreshing. Its lease expires if it dies, and the
+      // next claim takes over, so waiting longer than that means it's stuck.
+      if (waited > REFRESH_LEASE_MS) {
+        console.warn('⚠️ Timed out waiting for another GitHub token refresh for user:', slackUserId);
+        return null;
+      }
+      await new Promise(resolve => setTimeout(resolve, REFRESH_POLL_MS));
+    }
+  }
+
+  /**
+   * Take the refresh lease in a transaction, unless the tokens were already
+   * refreshed or another server holds an unexpired lease
+   */
+  private async claimRefresh(slackUserId: string): Promise<RefreshClaim> {
+    const firestore = getFirestore();
+    const recordRef = doc(firestore, VAULT_COLLECTION, slackUserId);
+
+    return firestore.runTransaction(async (transaction: any) => {
+      const snapshot = await transaction.get(recordRef);
+      const record = snapshot.exists ? (snapshot.data() as VaultRecord) : null;
+
+      if (!record?.access_token) return { state: 'missing' };
+      if (!needsRefresh(record)) return { state: 'fresh', record };
+
+      const now = Date.now();
+      if (record.refresh_lease_until && record.refresh_lease_until > now) return { state: 'busy' };
+
+      transaction.update(recordRef, { refresh_lease_until: now + REFRESH_LEASE_MS });
+      return { state: 'claimed', record };
+    });
+  }
+
+  /**
+   * Refresh holding the lease. Storing the new pair replaces the record and
+   * with it the lease; if no pair is stored, the lease is released so the
+   * next request can try again.
+   */
+  private async refreshAndRelease(slackUserId: string, record: VaultRecord): Promise<string | null> {
+    let token: string | null = null;
+    try {
+      token = await this.refresh(slackUserId, record, this.unwrapDataKey(record));
+      return token;
+    } finally {
+      if (!token) {
+        await updateDoc(doc(getFirestore(), VAULT_COLLECTION, slackUserId), { refresh_lease_until: null });
+      }
+    }
+  }
+
+  /**
+   * Trade the refresh token for a new token pair. GitHub refresh tokens are
+   * single-use, so the new pair is stored before the access token is returned.
+   */
+  private async refresh(slackUserId: string, record: VaultRecord, dataKey: Buffer): Promise<string | null> {
+    const refreshExpired = record.refresh_token_expires_at !== null && record.refresh_token_expires_at < Date.now();
+    if (!record.refresh_token || refreshExpired) {
+      console.warn('⚠️ GitHub token expired and cannot be refreshed for user:', slackUserId);
+      return null;
+    }
+
+    const response = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: process.env.GITHUB_CLIENT_ID!,
+        client_secret: process.env.GITHUB_CLIENT_SECRET!,
+        grant_type: 'refresh_token',
+        refresh_token: open(dataKey, record.refresh_token, slackUserId).toString(),
+      }),
+    });
+
+    const tokens = await response.json();
+    if (!response.ok || tokens.error || !tokens.access_token) {
+      console.error('Failed to refresh GitHub token:', tokens.error_description || tokens.error || response.status);
+      return null;
+    }
+
+    await this.storeTokens(slackUserId, tokens);
+    console.log('🔄 Refreshed GitHub token for user:', slackUserId);
+    return tokens.access_token;
+  }
+
+  private async revokeWithGitHub(token: string): Promise<void> {
+    const clientId = process.env.GITHUB_CLIENT_ID;
+    const clientSecret = process.env.GITHUB_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      console.warn('⚠️ GITHUB_CLIENT_ID or GITHUB_CLIENT_SECRET not set; GitHub token was not revoked');
+      return;
+    }
+
+    try {
+      const response = await fetch(`https://api.github.com/applications/${clientId}/token`, {
+        method: 'DELETE',
+        headers: {
+          'Accept': 'application/vnd.github+json',
+          'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ access_token: token }),
+      });
+
+      // 404: the token was already revoked or had expired
+      if (!response.ok && response.status !== 404) {
+        console.error('GitHub token revocation failed:', response.status, await response.text());
+      }
+    } catch (error) {
+      console.error('GitHub token revocation failed:', error);
+    }
+  }
+}
+
+// ============================================================================
+// Encryption Helpers
+// ============================================================================
+
+function needsRefresh(record: VaultRecord): boolean {
+  return !!record.expires_at && record.expires_at - REFRESH_MARGIN_MS < Date.now();
+}
+
+/**
+ * Encrypt with AES-256-GCM. The Slack user ID is bound as associated data,
+ * so a sealed value copied onto another user's record won't open.
+ */
+function seal(key: Buffer, plaintext: Buffer, slackUserId: string): SealedValue {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(slackUserId));
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function open(key: Buffer, sealed: SealedValue, slackUserId: string): Buffer {
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAAD(Buffer.from(slackUserId));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]);
+}
+
+// Export singleton instance
+export const githubTokenVault = new GitHubTokenVault();
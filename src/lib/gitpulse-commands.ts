@@ -0,0 +1,272 @@
+import { z } from 'zod';
+import { ResolutionPolicySchema } from '@/types/resolution';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Where a command can be run: `/gitpulse <name>` in Slack, `/<name>` in the web chat */
+export type CommandSurface = 'slack' | 'web';
+
+/**
+ * A GitPulse command, shared by the Slack slash command and the web chat so
+ * both list the same commands. Argument keys are positional in declaration
+ * order, the last one taking the rest of the text; a field's description is
+ * its placeholder in usage text.
+ */
+export interface GitPulseCommand<Args extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  args: Args;
+  /** 'github' commands need the user to have connected their GitHub account */
+  auth: 'github' | 'none';
+  surfaces: CommandSurface[];
+}
+
+export type CommandArgsResult<Args extends z.AnyZodObject> =
+  | { success: true; args: z.infer<Args> }
+  | { success: false; error: string };
+
+function defineCommand<Args extends z.AnyZodObject>(command: GitPulseCommand<Args>): GitPulseCommand<Args> {
+  return command;
+}
+
+// ============================================================================
+// Arguments
+// ============================================================================
+
+const noArgs = z.object({});
+
+const issueNumber = z
+  .string()
+  .regex(/^#?\d+$/, 'Expected an issue number like #42')
+  .transform(value => Number(value.replace(/^#/, '')))
+  .describe('#issue');
+
+const repository = z
+  .string()
+  .regex(/^[\w.-]+\/[\w.-]+$/, 'Expected a repository like owner/repo')
+  .describe('owner/repo')
+  .optional();
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+export const analyzeCommand = defineCommand({
+  name: 'analyze',
+  description: 'Analyze recent channel messages for potential issues',
+  args: noArgs,
+  auth: 'none',
+  surfaces: ['slack'],
+});
+
+export const createIssueCommand = defineCommand({
+  name: 'create-issue',
+  description: 'Create a new GitHub issue, picking the repository',
+  args: noArgs,
+  auth: 'github',
+  surfaces: ['slack'],
+});
+
+export const issueCommand = defineCommand({
+  name: 'issue',
+  description: 'Create a new GitHub issue. Use @username to assign.',
+  args: z.object({ title: z.string().describe('title').optional() }),
+  auth: 'github',
+  surfaces: ['web'],
+});
+
+export const issueListCommand = defineCommand({
+  name: 'issuelist',
+  description: 'List open issues',
+  args: z.object({ repo: repository }),
+  auth: 'github',
+  surfaces: ['slack', 'web'],
+});
+
+export const prListCommand = defineCommand({
+  name: 'prlist',
+  description: 'List open pull requests',
+  args: z.object({ repo: repository }),
+  auth: 'github',
+  surfaces: ['slack', 'web'],
+});
+
+export const solvedCommand = defineCommand({
+  name: 'solved',
+  description: 'Mark an issue as solved and verify PRs',
+  args: z.object({ issue: z.string().describe('issue').optional() }),
+  auth: 'github',
+  surfaces: ['web'],
+});
+
+export const autocloseCommand = defineCommand({
+  name: 'autoclose',
+  description: 'Choose what happens to an issue when its verified PR merges',
+  args: z.object({ policy: ResolutionPolicySchema.describe('auto|confirm|off') }),
+  auth: 'none',
+  surfaces: ['web'],
+});
+
+export const assignCommand = defineCommand({
+  name: 'assign',
+  description: 'Have MCP draft a PR for an issue assigned to you',
+  args: z.object({ issue: issueNumber }),
+  auth: 'github',
+  surfaces: ['slack'],
+});
+
+export const cancelCommand = defineCommand({
+  name: 'cancel',
+  description: 'Cancel a queued or running MCP job by job ID or #issue',
+  args: z.object({ target: z.string().min(1).describe('jobId|#issue') }),
+  auth: 'none',
+  surfaces: ['slack', 'web'],
+});
+
+export const replyCommand = defineCommand({
+  name: 'reply',
+  description: 'Comment on an issue in your current repository',
+  args: z.object({ issue: issueNumber, message: z.string().min(1).describe('message') }),
+  auth: 'github',
+  surfaces: ['slack'],
+});
+
+export const collaboratorCommand = defineCommand({
+  name: 'collaborator',
+  description: 'Invite a collaborator',
+  args: z.object({ username: z.string().describe('@username').optional() }),
+  auth: 'github',
+  surfaces: ['web'],
+});
+
+export const askCommand = defineCommand({
+  name: 'ask',
+  description: 'Ask a question about the repository, answered from its code, README, issues and chat',
+  args: z.object({ question: z.string().min(1).describe('question') }),
+  auth: 'github',
+  surfaces: ['slack', 'web'],
+});
+
+export const switchRepoCommand = defineCommand({
+  name: 'switchrepo',
+  description: 'Switch to a different repository',
+  args: noArgs,
+  auth: 'github',
+  surfaces: ['slack'],
+});
+
+export const loginCommand = defineCommand({
+  name: 'login',
+  description: 'Connect or check your GitHub authentication',
+  args: noArgs,
+  auth: 'none',
+  surfaces: ['slack'],
+});
+
+export const logoutCommand = defineCommand({
+  name: 'logout',
+  description: 'Disconnect your GitHub account',
+  args: noArgs,
+  auth: 'none',
+  surfaces: ['slack'],
+});
+
+export const statusCommand = defineCommand({
+  name: 'status',
+  description: 'Check your connection and repository status',
+  args: noArgs,
+  auth: 'none',
+  surfaces: ['slack'],
+});
+
+export const helpCommand = defineCommand({
+  name: 'help',
+  description: 'Show this help message',
+  args: noArgs,
+  auth: 'none',
+  surfaces: ['slack'],
+});
+
+/** Every command, in the order help and the command picker list them */
+export const GITPULSE_COMMANDS: GitPulseCommand[] = [
+  analyzeCommand,
+  createIssueCommand,
+  issueCommand,
+  issueListCommand,
+  prListCommand,
+  solvedCommand,
+  autocloseCommand,
+  assignCommand,
+  cancelCommand,
+  replyCommand,
+  collaboratorCommand,
+  askCommand,
+  switchRepoCommand,
+  loginCommand,
+  logoutCommand,
+  statusCommand,
+  helpCommand,
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The commands available on a surface
+ */
+export function getCommandsFor(surface: CommandSurface): GitPulseCommand[] {
+  return GITPULSE_COMMANDS.filter(command => command.surfaces.includes(surface));
+}
+
+/**
+ * A command's usage line, e.g. `/gitpulse reply <#issue> <message>`
+ */
+export function formatCommandUsage(command: GitPulseCommand, prefix: string): string {
+  const placeholders = Object.entries(command.args.shape).map(([key, schema]) => {
+    const field = schema as z.ZodTypeAny;
+    const label = field.description || key;
+    return field.isOptional() ? `[${label}]` : `<${label}>`;
+  });
+
+  return [`${prefix}${command.name}`, ...placeholders].join(' ');
+}
+
+/**
+ * Parse the text after a command name into its arguments
+ */
+export function parseCommandArgs<Args extends z.AnyZodObject>(
+  command: GitPulseCommand<Args>,
+  text: string
+): CommandArgsResult<Args> {
+  const keys = Object.keys(command.args.shape);
+  const raw: Record<string, string> = {};
+  let rest = text.trim();
+
+  keys.forEach((key, index) => {
+    if (!rest) return;
+
+    if (index === keys.length - 1) {
+      raw[key] = rest;
+      return;
+    }
+
+    const [token] = rest.split(/\s+/, 1);
+    raw[key] = token;
+    rest = rest.slice(token.length).trim();
+  });
+
+  const parsed = command.args.safeParse(raw);
+  if (parsed.success) {
+    return { success: true, args: parsed.data };
+  }
+
+  return {
+    success: false,
+    error: parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+      .join('; '),
+  };
+}
@@ -1,26 +1,61 @@
-import { MCPGenerateCodeRequest, NotAssigneeError, ValidationError, MCPLog, MCPJob } from '@/types/mcp';
+import {
+  MCPGenerateCodeRequest,
+  MCPHandleReviewRequest,
+  MCPCancelJobRequest,
+  MCPRetryJobRequest,
+  MCPEnqueueJobRequest,
+  MCPError,
+  NotAssigneeError,
+  PatchApplyError,
+  JobNotFoundError,
+  JobCancelledError,
+  NotJobOwnerError,
+  MCPLog,
+  MCPJob,
+  MCPJobStage,
+  MCPAttempt,
+  MCPValidationSettingsSchema,
+  DiagnosticFilter,
+  FileChange,
+  FilePatch,
+  RejectedHunk,
+  TestRunResult,
+  ValidationResult,
+  AICodeGenerationInput,
+} from '@/types/mcp';
 import {
   fetchIssueWithAssignees,
   getDefaultBranch,
-  getBranchSHA,
-  createBranch,
-  getFileContent,
-  createGitTree,
-  createCommit,
-  updateRef,
   createDraftPR,
   postIssueComment,
+  getPullRequest,
+  listPullRequestFiles,
+  addLabels,
 } from '@/lib/mcp/github-client';
+import { GitBackend, GitHubApiBackend, createGitBackend } from '@/lib/mcp/git-backend';
+import type { GitHubReviewComment } from '@/lib/mcp/github-tools';
 import { selectRelatedFiles } from '@/lib/mcp/file-selector';
 import { chunkFileContent } from '@/lib/mcp/file-chunker';
-import { validateGeneratedCode } from '@/lib/mcp/code-validator';
+import { applyFilePatch, createUnifiedDiff } from '@/lib/mcp/patch-utils';
+import { formatDiagnostic } from '@/lib/mcp/validator-registry';
+import {
+  DiagnosticLink,
+  formatDiagnosticsMarkdown,
+  formatDiagnosticsSlack,
+  githubLineLink,
+} from '@/lib/mcp/diagnostics';
+import { slackInstallationService } from '@/lib/slack-installation-service';
+import { hasRepoAccess } from '@/lib/request-auth';
 import { aiGeneratesCodeDiff } from '@/ai/flows/ai-generates-code-diff';
 import {
   getFirestore,
   doc,
+  getDoc,
   setDoc,
   updateDoc,
   serverTimestamp,
+  timestampNow,
+  deleteField,
 } from '@/lib/server-firestore';
 
 // ============================================================================
@@ -33,6 +68,25 @@ if (!GITHUB_TOKEN) {
   console.error('❌ GITHUB_TOKEN environment variable is not set');
 }
 
+const DEFAULT_MAX_REPAIR_ROUNDS = parseRepairRounds(process.env.MCP_MAX_REPAIR_ROUNDS, 2);
+const MAX_ATTEMPT_DIFF_CHARS = 20000; // Keep job documents well under Firestore's 1MB limit
+const QUEUE_MAX_ATTEMPTS = Number(process.env.MCP_QUEUE_MAX_ATTEMPTS || 5); // Matches functions/src/mcp-queue.ts
+
+/**
+ * A non-negative whole number of repair rounds, or the fallback with a
+ * warning when the setting is anything else
+ */
+function parseRepairRounds(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+
+  const rounds = Number(value);
+  if (!Number.isInteger(rounds) || rounds < 0) {
+    console.warn(`⚠️ MCP_MAX_REPAIR_ROUNDS must be a non-negative integer, got "${value}"; using ${fallback}`);
+    return fallback;
+  }
+  return rounds;
+}
+
 // ============================================================================
 // Firestore Helpers
 // ============================================================================
@@ -91,6 +145,451 @@ async function updateMCPJob(
   });
 }
 
+/**
+ * Update a job only if its current status allows it, atomically, so a
+ * concurrent cancel or review isn't overwritten. Returns the job as it was,
+ * or null if it doesn't exist, and whether the update was applied.
+ */
+async function updateMCPJobIf(
+  owner: string,
+  repo: string,
+  jobId: string,
+  allowed: (status: MCPJob['status'] | undefined) => boolean,
+  updates: Partial<MCPJob>
+): Promise<{ job: Partial<MCPJob> | null; applied: boolean }> {
+  const firestore = getFirestoreInstance();
+  const jobRef = doc(firestore, 'repos', encodeRepoId(owner, repo), 'mcp_jobs', jobId);
+  
+  return firestore.runTransaction(async (transaction: any) => {
+    const snapshot = await transaction.get(jobRef);
+    const job = snapshot.exists ? (snapshot.data() as Partial<MCPJob>) : null;
+    
+    if (!job || !allowed(job.status)) {
+      return { job, applied: false };
+    }
+    
+    transaction.update(jobRef, { ...updates, updated_at: Date.now() });
+    return { job, applied: true };
+  });
+}
+
+/**
+ * Move a job to a pipeline stage and append the step to the job's log stream.
+ * Best-effort: a failed write is reported but never fails the job.
+ */
+async function recordJobStage(
+  owner: string,
+  repo: string,
+  log: Omit<MCPLog, 'timestamp'> & { jobId: string; stage: MCPJobStage },
+  updates: Partial<MCPJob> = {}
+): Promise<void> {
+  try {
+    await updateMCPJob(owner, repo, log.jobId, { ...updates, stage: log.stage });
+    await logMCPOperation(owner, repo, { level: 'info', ...log, timestamp: Date.now() });
+  } catch (error) {
+    console.error(`Failed to record ${log.stage} stage:`, error);
+  }
+}
+
+/**
+ * Load the repository's diagnostic filters from `mcp_validation` on its
+ * document. Returns undefined, and so the backend's defaults, when unset.
+ */
+async function loadDiagnosticFilters(owner: string, repo: string): Promise<DiagnosticFilter[] | undefined> {
+  const firestore = getFirestoreInstance();
+  const snapshot = await getDoc(doc(firestore, 'repos', encodeRepoId(owner, repo)));
+  const settings = MCPValidationSettingsSchema.safeParse(snapshot.exists ? snapshot.data()?.mcp_validation ?? {} : {});
+  
+  if (!settings.success) {
+    console.warn(`⚠️ Ignoring invalid mcp_validation settings for ${owner}/${repo}:`, settings.error.message);
+    return undefined;
+  }
+  
+  return settings.data.diagnostic_filters;
+}
+
+// ============================================================================
+// Generation Helpers
+// ============================================================================
+
+/**
+ * Fetch a file's content from the given ref, or '' if it does not exist yet
+ */
+async function fetchBaseContent(
+  backend: GitBackend,
+  ref: string,
+  path: string
+): Promise<string> {
+  // A missing file is fine as long as the change creates it
+  return (await backend.readFile(path, ref)) ?? '';
+}
+
+/**
+ * Apply AI-generated unified diffs to each file's current content.
+ * Files not in `currentContents` are patched against their real base content.
+ * Hunks that fail to apply are collected rather than force-applied.
+ */
+async function applyGeneratedPatches(
+  backend: GitBackend,
+  ref: string,
+  patches: FilePatch[],
+  currentContents: Map<string, string>
+): Promise<{ changes: FileChange[]; rejected: RejectedHunk[] }> {
+  const changes: FileChange[] = [];
+  const rejected: RejectedHunk[] = [];
+
+  for (const patch of patches) {
+    const baseContent = currentContents.get(patch.path)
+      ?? await fetchBaseContent(backend, ref, patch.path);
+
+    const result = applyFilePatch(patch.path, baseContent, patch.diff);
+    rejected.push(...result.rejectedHunks);
+
+    if (result.content === null) {
+      if (result.rejectedHunks.length === 0) {
+        rejected.push({ path: patch.path, header: '', reason: 'file deletion is not supported' });
+      }
+      continue;
+    }
+
+    changes.push({
+      path: patch.path,
+      content: result.content,
+      mode: '100644',
+      summary: patch.summary,
+    });
+  }
+
+  return { changes, rejected };
+}
+
+/**
+ * Run the AI flow and turn its output into concrete file changes
+ */
+async function generateChanges(
+  backend: GitBackend,
+  ref: string,
+  input: AICodeGenerationInput,
+  currentContents: Map<string, string>
+): Promise<{ changes: FileChange[]; rejected: RejectedHunk[]; overallSummary: string }> {
+  const aiResult = await aiGeneratesCodeDiff(input);
+
+  if (input.mode !== 'patch') {
+    return { changes: aiResult.changes, rejected: [], overallSummary: aiResult.overallSummary };
+  }
+
+  console.log(`🩹 Applying ${aiResult.patches?.length || 0} patch(es)...`);
+  const patchResult = await applyGeneratedPatches(backend, ref, aiResult.patches || [], currentContents);
+
+  return { ...patchResult, overallSummary: aiResult.overallSummary };
+}
+
+/**
+ * Replace changed files with their repaired versions, keeping the rest
+ */
+function mergeChanges(previous: FileChange[], repaired: FileChange[]): FileChange[] {
+  const merged = new Map(previous.map(change => [change.path, change]));
+
+  for (const change of repaired) {
+    merged.set(change.path, {
+      ...change,
+      summary: change.summary || merged.get(change.path)?.summary,
+    });
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Build the combined diff of an attempt against the base branch
+ */
+async function buildAttemptDiff(
+  backend: GitBackend,
+  ref: string,
+  changes: FileChange[],
+  baseContents: Map<string, string>
+): Promise<string> {
+  const diffs: string[] = [];
+
+  for (const change of changes) {
+    if (!baseContents.has(change.path)) {
+      baseContents.set(change.path, await fetchBaseContent(backend, ref, change.path));
+    }
+
+    diffs.push(createUnifiedDiff(change.path, baseContents.get(change.path)!, change.content));
+  }
+
+  const diff = diffs.filter(Boolean).join('\n');
+
+  return diff.length > MAX_ATTEMPT_DIFF_CHARS
+    ? `${diff.slice(0, MAX_ATTEMPT_DIFF_CHARS)}\n... (truncated)`
+    : diff;
+}
+
+interface RepairContext {
+  owner: string;
+  repo: string;
+  jobId: string;
+  backend: GitBackend;
+  /** Branch the changes will be committed on */
+  branch: string;
+  /** Ref that attempt diffs are computed against */
+  ref: string;
+  /** Prefix for the validation temp directory */
+  validationKey: string;
+  issueTitle: string;
+  issueBody: string;
+  mode: 'full' | 'patch';
+  source: 'generation' | 'review';
+  maxRepairRounds: number;
+  baseContents: Map<string, string>;
+  attempts: MCPAttempt[];
+  rejectedHunks: RejectedHunk[];
+}
+
+/**
+ * Describe a rejected hunk as a validation error, so a repair round regenerates it
+ */
+function formatRejectedHunk(hunk: RejectedHunk): string {
+  return `Patch for ${hunk.path}${hunk.header ? ` (${hunk.header})` : ''} was not applied: ${hunk.reason}. ` +
+    'Regenerate the whole patch for this file against its current content.';
+}
+
+/**
+ * Validate changes, feeding errors back to the AI until they pass or the
+ * repair budget runs out. Files whose patches were rejected count as errors
+ * too, and are sent back with their current content. Every attempt is
+ * recorded on the job.
+ */
+async function validateWithRepairs(
+  ctx: RepairContext,
+  initialChanges: FileChange[],
+  initialRejected: RejectedHunk[]
+): Promise<{ changes: FileChange[]; validationResult: ValidationResult; rounds: number }> {
+  const { owner, repo, jobId, backend, ref, mode, maxRepairRounds, baseContents, attempts, rejectedHunks } = ctx;
+  let changes = initialChanges;
+  let unapplied = initialRejected;
+  
+  const validateAttempt = async (round: number): Promise<ValidationResult> => {
+    const checked = await backend.validate(
+      ctx.branch,
+      changes,
+      round === 0 ? ctx.validationKey : `${ctx.validationKey}-repair-${round}`
+    );
+    const result = unapplied.length > 0
+      ? { ...checked, valid: false, errors: [...unapplied.map(formatRejectedHunk), ...checked.errors] }
+      : checked;
+    
+    attempts.push({
+      round,
+      source: ctx.source,
+      mode,
+      valid: result.valid,
+      errors: result.errors,
+      diff: await buildAttemptDiff(backend, ref, changes, baseContents),
+      ...(result.tests ? {
+        tests: { command: result.tests.command, passed: result.tests.passed, failing: result.tests.failing },
+      } : {}),
+      ...(result.diagnostics?.length ? { diagnostics: result.diagnostics } : {}),
+      created_at: Date.now(),
+    });
+    await updateMCPJob(owner, repo, jobId, { attempts });
+    
+    return result;
+  };
+  
+  console.log('🔍 Validating generated code...');
+  let round = 0;
+  let validationResult = await validateAttempt(round);
+  
+  while (!validationResult.valid && round < maxRepairRounds) {
+    await throwIfCancelled(owner, repo, jobId);
+    round++;
+    console.warn(`🔧 Validation failed with ${validationResult.errors.length} error(s). Repair round ${round}/${maxRepairRounds}...`);
+    
+    // Files whose patches were rejected are still at their base content
+    const currentContents = new Map(changes.map(change => [change.path, change.content]));
+    for (const hunk of unapplied) {
+      if (currentContents.has(hunk.path)) continue;
+      if (!baseContents.has(hunk.path)) {
+        baseContents.set(hunk.path, await fetchBaseContent(backend, ref, hunk.path));
+      }
+      currentContents.set(hunk.path, baseContents.get(hunk.path)!);
+    }
+    
+    const repair = await generateChanges(
+      backend,
+      ref,
+      {
+        issueTitle: ctx.issueTitle,
+        issueBody: ctx.issueBody,
+        files: Array.from(currentContents, ([path, content]) => ({
+          path,
+          chunks: chunkFileContent(content),
+        })),
+        mode,
+        validationErrors: validationResult.errors,
+      },
+      currentContents
+    );
+    
+    if (repair.rejected.length > 0) {
+      rejectedHunks.push(...repair.rejected);
+      await updateMCPJob(owner, repo, jobId, { rejected_hunks: rejectedHunks });
+    }
+    
+    // Files left out of the repair keep their earlier outcome
+    const repairedPaths = new Set([...repair.changes, ...repair.rejected].map(item => item.path));
+    unapplied = [...unapplied.filter(hunk => !repairedPaths.has(hunk.path)), ...repair.rejected];
+    changes = mergeChanges(changes, repair.changes);
+    validationResult = await validateAttempt(round);
+  }
+  
+  if (validationResult.valid) {
+    console.log(`✅ Validation passed${round > 0 ? ` after ${round} repair round(s)` : ''}`);
+  } else {
+    console.error(`❌ Validation still failing after ${round} repair round(s):`, validationResult.errors);
+  }
+  
+  return { changes, validationResult, rounds: round };
+}
+
+/**
+ * Name the checks a backend validates with, for PR bodies and comments
+ */
+function describeValidation(backend: GitBackend): string {
+  return backend.kind === 'worktree' ? "the repository's typecheck, lint and test checks" : 'TypeScript validation';
+}
+
+/**
+ * Quote a test run in a PR body, with the failing tests or the end of the output
+ */
+function formatTestSection(tests: TestRunResult): string {
+  const status = tests.passed ? '✅ passed' : tests.timed_out ? '⏱️ timed out' : '❌ failed';
+  
+  return `\n\n### 🧪 Tests\n` +
+    `\`${tests.command}\` ${status} in ${Math.round(tests.duration_ms / 1000)}s` +
+    (tests.failing.length > 0
+      ? `\n\nFailing tests:\n` + tests.failing.map(name => `- \`${name}\``).join('\n')
+      : '') +
+    (!tests.passed && tests.failing.length === 0 && tests.output
+      ? `\n\n\`\`\`\n${tests.output}\n\`\`\``
+      : '');
+}
+
+/**
+ * Split validation errors into structured diagnostics and errors that have
+ * none, such as failing tests
+ */
+function splitValidationErrors(result: ValidationResult) {
+  const diagnostics = result.diagnostics || [];
+  const formatted = new Set(diagnostics.map(formatDiagnostic));
+  
+  return { diagnostics, otherErrors: result.errors.filter(error => !formatted.has(error)) };
+}
+
+/**
+ * Validation errors as markdown, with diagnostics linked to their lines
+ */
+function formatValidationMarkdown(result: ValidationResult, link: DiagnosticLink): string {
+  const { diagnostics, otherErrors } = splitValidationErrors(result);
+  
+  return [
+    diagnostics.length > 0 ? formatDiagnosticsMarkdown(diagnostics, link) : '',
+    otherErrors.map(error => `- ${error}`).join('\n'),
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Validation errors as Slack mrkdwn
+ */
+function formatValidationSlack(result: ValidationResult, link: DiagnosticLink): string {
+  const { diagnostics, otherErrors } = splitValidationErrors(result);
+  
+  return [
+    diagnostics.length > 0 ? formatDiagnosticsSlack(diagnostics, link) : '',
+    otherErrors.slice(0, 10).map(error => `• ${error}`).join('\n'),
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Post a job update to the Slack channel the job was requested from, if it
+ * was. Best-effort: a failed post is reported but never fails the job.
+ */
+async function notifySlack(owner: string, repo: string, jobId: string, text: string): Promise<void> {
+  try {
+    const job = await getMCPJob(owner, repo, jobId);
+    if (!job?.slack_channel) return;
+    
+    const slack = await slackInstallationService.getClient(job.slack_team);
+    const sent = await slack.sendMessage(job.slack_channel, text, undefined, job.slack_thread_ts);
+    if (!sent) {
+      console.warn(`⚠️ Slack notification for job ${jobId} was not delivered`);
+    }
+  } catch (error) {
+    console.error('Failed to notify Slack:', error);
+  }
+}
+
+/**
+ * Turn a review body and its inline comments into an issue-style prompt body
+ */
+function formatReviewFeedback(reviewBody: string, threads: GitHubReviewComment[]): string {
+  const sections: string[] = [];
+  
+  if (reviewBody.trim()) {
+    sections.push(`Reviewer summary:\n${reviewBody.trim()}`);
+  }
+  
+  for (const thread of threads) {
+    const line = thread.line ?? thread.original_line;
+    sections.push(
+      `Comment on ${thread.path}${line ? `:${line}` : ''}:\n${thread.body.trim()}\n\n` +
+      `Code under discussion:\n${thread.diff_hunk}`
+    );
+  }
+  
+  return `Apply the following pull request review feedback.\n\n${sections.join('\n\n---\n\n')}`;
+}
+
+/**
+ * Load an MCP job document, or null if it does not exist
+ */
+async function getMCPJob(
+  owner: string,
+  repo: string,
+  jobId: string
+): Promise<Partial<MCPJob> | null> {
+  const firestore = getFirestoreInstance();
+  const repoId = encodeRepoId(owner, repo);
+  
+  const snapshot = await getDoc(doc(firestore, 'repos', repoId, 'mcp_jobs', jobId));
+  
+  return snapshot.exists ? (snapshot.data() as Partial<MCPJob>) : null;
+}
+
+/**
+ * Stop the pipeline if the job was cancelled since the last stage
+ */
+async function throwIfCancelled(owner: string, repo: string, jobId: string): Promise<void> {
+  const job = await getMCPJob(owner, repo, jobId);
+  
+  if (job?.status === 'cancelled') {
+    throw new JobCancelledError(jobId);
+  }
+}
+
+/**
+ * Whether the queue retries a failure: rate limits, 5xx errors and anything
+ * unexpected, the same split the API route makes between 4xx and 5xx/429
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof MCPError) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return true;
+}
+
 // ============================================================================
 // Main Service Function
 // ============================================================================
@@ -109,7 +608,18 @@ export interface CodeGenerationResult {
 export async function executeCodeGeneration(
   request: MCPGenerateCodeRequest
 ): Promise<CodeGenerationResult> {
-  const { owner, repo, issue_number, jobId, requested_by, related_files } = request;
+  const {
+    owner,
+    repo,
+    issue_number,
+    jobId,
+    requested_by,
+    related_files,
+    output_mode,
+    max_repair_rounds,
+    git_backend,
+    run_tests,
+  } = request;
   
   console.log(`🚀 Starting MCP code generation for ${owner}/${repo}#${issue_number}`);
   
@@ -117,6 +627,14 @@ export async function executeCodeGeneration(
     throw new Error('GitHub token not configured. Set GITHUB_TOKEN environment variable.');
   }
   
+  const backend = createGitBackend(owner, repo, jobId, git_backend, {
+    runTests: run_tests,
+    diagnosticFilters: await loadDiagnosticFilters(owner, repo),
+  });
+  
+  // Set once the draft branch exists so a cancelled job can clean it up
+  let createdBranch: string | null = null;
+  
   try {
     // ========================================================================
     // Step 1: Fetch issue and verify assignee
@@ -139,6 +657,8 @@ export async function executeCodeGeneration(
         requested_by,
         timestamp: Date.now(),
         issue_number,
+        jobId,
+        level: 'error',
         error: `User ${requested_by} is not assigned to issue #${issue_number}`,
       });
       
@@ -147,47 +667,78 @@ export async function executeCodeGeneration(
     
     console.log(`✅ User ${requested_by} is assigned to this issue`);
     
+    await notifySlack(owner, repo, jobId, `🚧 Started working on *${owner}/${repo}#${issue_number}*: ${issue.title}`);
+    
     // ========================================================================
     // Step 2: Create branch
     // ========================================================================
-    console.log('🌿 Creating branch...');
+    await throwIfCancelled(owner, repo, jobId);
+    console.log(`🌿 Creating branch (${backend.kind} backend)...`);
     const defaultBranch = await getDefaultBranch(owner, repo);
-    const baseSHA = await getBranchSHA(owner, repo, defaultBranch);
+    
+    // A queue retry starts over; drop the branch the failed attempt left behind
+    const previousAttempt = await getMCPJob(owner, repo, jobId);
+    if (previousAttempt?.branch && !previousAttempt.pr_number) {
+      try {
+        // The failed attempt may have run on another worker, so go through the API
+        await new GitHubApiBackend(owner, repo).deleteBranch(previousAttempt.branch);
+        console.log(`🗑️ Deleted branch of the previous attempt: ${previousAttempt.branch}`);
+      } catch (error) {
+        console.error(`Failed to delete branch ${previousAttempt.branch}:`, error);
+      }
+    }
     
     const timestamp = Date.now();
     const branchName = `gitpulse/issue-${issue_number}/draft-${timestamp}`;
     
-    await createBranch(owner, repo, branchName, baseSHA);
+    await backend.createBranch(branchName, defaultBranch);
+    createdBranch = branchName;
     console.log(`✅ Created branch: ${branchName}`);
     
     // ========================================================================
     // Step 3: Select and fetch files
     // ========================================================================
     console.log('📁 Selecting relevant files...');
-    const selectedFiles = await selectRelatedFiles(
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'file_selection',
+      message: `Selecting files for issue #${issue_number} on branch ${branchName}`,
+    }, { status: 'processing', branch: branchName, git_backend: backend.kind });
+    const fileSelection = await selectRelatedFiles(
       owner,
       repo,
       GITHUB_TOKEN,
-      issue.body || '',
+      `${issue.title}\n\n${issue.body || ''}`,
       related_files
     );
+    const selectedFiles = fileSelection.map(file => file.path);
     
     console.log(`✅ Selected ${selectedFiles.length} file(s):`, selectedFiles);
     
     // Fetch file contents
     console.log('📥 Fetching file contents...');
     const filesWithContent = await Promise.all(
-      selectedFiles.map(async (filePath) => {
-        const fileData = await getFileContent(owner, repo, filePath, defaultBranch);
-        const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
-        return { path: filePath, content };
-      })
+      selectedFiles.map(async (filePath) => ({
+        path: filePath,
+        content: await fetchBaseContent(backend, defaultBranch, filePath),
+      }))
     );
     
     // ========================================================================
     // Step 4: Chunk files
     // ========================================================================
     console.log('✂️ Chunking files...');
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'chunking',
+      message: `Selected ${selectedFiles.length} file(s): ${selectedFiles.join(', ')}`,
+    }, { selected_files: selectedFiles, file_selection: fileSelection });
     const filesWithChunks = filesWithContent.map(file => ({
       path: file.path,
       chunks: chunkFileContent(file.content),
@@ -199,90 +750,139 @@ export async function executeCodeGeneration(
     // ========================================================================
     // Step 5: Generate code with AI
     // ========================================================================
-    console.log('🤖 Generating code fixes with AI...');
-    const aiResult = await aiGeneratesCodeDiff({
-      issueTitle: issue.title,
-      issueBody: issue.body || '',
-      files: filesWithChunks,
+    // Whole-file rewrites silently drop code the model never saw, so chunked
+    // files default to patch mode
+    const mode = output_mode ?? (filesWithChunks.some(f => f.chunks.length > 1) ? 'patch' : 'full');
+    
+    console.log(`🤖 Generating code fixes with AI (${mode} mode)...`);
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'generation',
+      message: `Split ${filesWithContent.length} file(s) into ${totalChunks} chunk(s); generating changes in ${mode} mode`,
     });
+    const generation = await generateChanges(
+      backend,
+      defaultBranch,
+      {
+        issueTitle: issue.title,
+        issueBody: issue.body || '',
+        files: filesWithChunks,
+        mode,
+      },
+      new Map()
+    );
     
-    console.log(`✅ AI generated ${aiResult.changes.length} file change(s)`);
-    console.log(`   Summary: ${aiResult.overallSummary}`);
+    const overallSummary = generation.overallSummary;
+    const rejectedHunks: RejectedHunk[] = [...generation.rejected];
     
-    // ========================================================================
-    // Step 6: Validate generated code
-    // ========================================================================
-    console.log('🔍 Validating generated code...');
-    const validationResult = await validateGeneratedCode(
-      aiResult.changes.map(change => ({
-        path: change.path,
-        content: change.content,
-      })),
-      jobId
-    );
+    if (rejectedHunks.length > 0) {
+      console.warn(`⚠️ Rejected ${rejectedHunks.length} hunk(s):`, rejectedHunks);
+      await updateMCPJob(owner, repo, jobId, { rejected_hunks: rejectedHunks });
+    }
     
-    if (!validationResult.valid) {
-      console.error('❌ Validation failed:', validationResult.errors);
-      
-      // Post comment on issue about validation failure
-      const errorComment = `⚠️ **AI Code Generation Failed - Validation Errors**\n\n` +
-        `The AI-generated code for this issue failed TypeScript validation:\n\n` +
-        validationResult.errors.map(err => `- ${err}`).join('\n') +
-        `\n\nPlease review the issue requirements and try again.`;
-      
-      await postIssueComment(owner, repo, issue_number, errorComment);
-      
-      throw new ValidationError(validationResult.errors);
+    if (generation.changes.length === 0) {
+      throw new PatchApplyError(rejectedHunks);
     }
     
-    console.log('✅ Validation passed');
+    console.log(`✅ AI generated ${generation.changes.length} file change(s)`);
+    console.log(`   Summary: ${overallSummary}`);
     
     // ========================================================================
-    // Step 7: Commit changes atomically via Tree API
+    // Step 6: Validate generated code, feeding errors back for repair rounds
     // ========================================================================
-    console.log('💾 Committing changes...');
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'validation',
+      message: `AI generated ${generation.changes.length} file change(s): ${overallSummary}`,
+    });
+    const repaired = await validateWithRepairs(
+      {
+        owner,
+        repo,
+        jobId,
+        backend,
+        branch: branchName,
+        ref: defaultBranch,
+        validationKey: jobId,
+        issueTitle: issue.title,
+        issueBody: issue.body || '',
+        mode,
+        source: 'generation',
+        maxRepairRounds: max_repair_rounds ?? DEFAULT_MAX_REPAIR_ROUNDS,
+        baseContents: new Map(filesWithContent.map(file => [file.path, file.content])),
+        attempts: [],
+        rejectedHunks,
+      },
+      generation.changes,
+      generation.rejected
+    );
     
-    // Get the base tree SHA from the branch
-    const branchSHA = await getBranchSHA(owner, repo, branchName);
+    const changes = repaired.changes;
+    const validationResult = repaired.validationResult;
+    const round = repaired.rounds;
+    const needsHuman = !validationResult.valid;
     
-    // Create tree with all file changes
-    const tree = await createGitTree(
-      owner,
-      repo,
-      branchSHA,
-      aiResult.changes.map(change => ({
-        path: change.path,
-        mode: '100644',
-        type: 'blob' as const,
-        content: change.content,
-      }))
-    );
+    // ========================================================================
+    // Step 7: Commit changes
+    // ========================================================================
+    console.log('💾 Committing changes...');
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'commit',
+      level: needsHuman ? 'warn' : 'info',
+      message: needsHuman
+        ? `Validation still failing after ${round} repair round(s) with ${validationResult.errors.length} error(s); committing for human follow-up`
+        : `Validation passed${round > 0 ? ` after ${round} repair round(s)` : ''}`,
+    });
     
-    // Create commit
-    const commit = await createCommit(
-      owner,
-      repo,
-      `AI: auto-generated fix for issue #${issue_number}\n\n${aiResult.overallSummary}`,
-      tree.sha,
-      branchSHA
+    await backend.commit(
+      branchName,
+      changes,
+      `AI: auto-generated fix for issue #${issue_number}\n\n${overallSummary}`
     );
     
-    // Update branch reference
-    await updateRef(owner, repo, branchName, commit.sha);
-    
-    console.log(`✅ Committed ${aiResult.changes.length} file(s) to ${branchName}`);
+    console.log(`✅ Committed ${changes.length} file(s) to ${branchName}`);
     
     // ========================================================================
     // Step 8: Create draft PR
     // ========================================================================
     console.log('📝 Creating draft pull request...');
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'pr',
+      message: `Committed ${changes.length} file(s) to ${branchName}; opening draft pull request`,
+    });
     
     const prTitle = `AI: Fix for #${issue_number} - ${issue.title}`;
     const prBody = `## 🤖 AI-Generated Fix\n\n` +
       `This PR was automatically generated by the MCP agent to address issue #${issue_number}.\n\n` +
-      `### Changes Summary\n${aiResult.overallSummary}\n\n` +
+      `### Changes Summary\n${overallSummary}\n\n` +
       `### Files Modified\n` +
-      aiResult.changes.map(change => `- \`${change.path}\`: ${change.summary || 'Updated'}`).join('\n') +
+      changes.map(change => `- \`${change.path}\`: ${change.summary || 'Updated'}`).join('\n') +
+      (rejectedHunks.length > 0
+        ? `\n\n### 🩹 Rejected Hunks\n` +
+          `The following generated hunks did not apply cleanly and were left out:\n` +
+          rejectedHunks.map(hunk => `- \`${hunk.path}\` ${hunk.header}: ${hunk.reason}`).join('\n')
+        : '') +
+      (validationResult.tests ? formatTestSection(validationResult.tests) : '') +
+      (needsHuman
+        ? `\n\n### ❌ Validation Failed\n` +
+          `The generated code still fails ${describeValidation(backend)} after ${round} repair round(s). ` +
+          `This PR needs a human to finish it:\n\n` +
+          formatValidationMarkdown(validationResult, githubLineLink(owner, repo, branchName))
+        : '') +
       `\n\n### ⚠️ Review Required\n` +
       `This code was generated by AI and requires human review before merging.\n` +
       `Please verify:\n` +
@@ -299,23 +899,51 @@ export async function executeCodeGeneration(
       prBody,
       branchName,
       defaultBranch,
-      ['ai-generated', 'needs-review']
+      needsHuman ? ['ai-generated', 'needs-review', 'needs-human'] : ['ai-generated', 'needs-review']
     );
     
     console.log(`✅ Created draft PR: ${pr.html_url}`);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by,
+      issue_number,
+      stage: 'pr',
+      message: `Opened draft PR #${pr.number}: ${pr.html_url}`,
+    });
     
     // ========================================================================
     // Step 9: Update Firestore job
     // ========================================================================
     console.log('📊 Updating job status...');
-    await updateMCPJob(owner, repo, jobId, {
+    const prFields = { pr_url: pr.html_url, pr_number: pr.number, branch: branchName };
+    const { applied } = await updateMCPJobIf(owner, repo, jobId, status => status !== 'cancelled', {
       status: 'review',
-      pr_url: pr.html_url,
-      pr_number: pr.number,
-      branch: branchName,
-      validated: true,
+      ...prFields,
+      validated: !needsHuman,
     });
     
+    if (!applied) {
+      // Cancelled while the PR was being opened: it stays cancelled, but keeps its PR
+      console.log(`🛑 Job ${jobId} was cancelled after PR #${pr.number} was opened`);
+      await updateMCPJob(owner, repo, jobId, prFields);
+      await logMCPOperation(owner, repo, {
+        message: `Cancelled after draft PR #${pr.number} was opened; the PR was left open`,
+        requested_by,
+        timestamp: Date.now(),
+        issue_number,
+        jobId,
+        level: 'warn',
+      });
+      
+      return {
+        success: true,
+        jobId,
+        pr_url: pr.html_url,
+        pr_number: pr.number,
+        branch: branchName,
+      };
+    }
+    
     // ========================================================================
     // Step 10: Post comment on issue
     // ========================================================================
@@ -325,13 +953,28 @@ export async function executeCodeGeneration(
       `@${requested_by} A draft pull request has been created with AI-generated fixes for this issue.\n\n` +
       `📝 **Pull Request**: ${pr.html_url}\n` +
       `🌿 **Branch**: \`${branchName}\`\n\n` +
-      `### Changes Summary\n${aiResult.overallSummary}\n\n` +
-      `⚠️ **Please review the changes carefully before merging.**`;
+      `### Changes Summary\n${overallSummary}\n\n` +
+      (needsHuman
+        ? `❌ **The generated code still fails ${describeValidation(backend)} after ${round} repair round(s).** ` +
+          `The PR is labeled \`needs-human\` and needs manual fixes before it can be merged:\n\n` +
+          formatValidationMarkdown(validationResult, githubLineLink(owner, repo, branchName))
+        : `⚠️ **Please review the changes carefully before merging.**`);
     
     await postIssueComment(owner, repo, issue_number, issueComment);
     
     console.log('✅ Posted comment on issue');
     
+    await notifySlack(
+      owner,
+      repo,
+      jobId,
+      `🤖 Draft PR for *${owner}/${repo}#${issue_number}* is ready: <${pr.html_url}|#${pr.number} ${issue.title}>` +
+        (needsHuman
+          ? `\n\n❌ Still failing ${describeValidation(backend)} after ${round} repair round(s):\n` +
+            formatValidationSlack(validationResult, githubLineLink(owner, repo, branchName))
+          : '')
+    );
+    
     // ========================================================================
     // Done!
     // ========================================================================
@@ -345,19 +988,731 @@ export async function executeCodeGeneration(
       branch: branchName,
     };
   } catch (error: any) {
+    if (error instanceof JobCancelledError) {
+      console.log(`🛑 Job ${jobId} was cancelled; stopping code generation`);
+      
+      try {
+        if (createdBranch) {
+          await backend.deleteBranch(createdBranch);
+          console.log(`🗑️ Deleted branch: ${createdBranch}`);
+        }
+        await logMCPOperation(owner, repo, {
+          message: createdBranch
+            ? `Stopped after cancellation and deleted branch ${createdBranch}`
+            : 'Stopped after cancellation',
+          requested_by,
+          timestamp: Date.now(),
+          issue_number,
+          jobId,
+          level: 'warn',
+        });
+      } catch (cleanupError) {
+        console.error('Failed to clean up cancelled job:', cleanupError);
+      }
+      
+      throw error;
+    }
+    
     console.error('❌ MCP code generation failed:', error);
     
+    // The queue retries transient failures and reports the job once it gives
+    // up, so a failed attempt of a queued job is not a failure yet
+    const failedJob = await getMCPJob(owner, repo, jobId).catch(() => null);
+    if (failedJob && 'queue' in failedJob && isRetryableError(error)) {
+      try {
+        await logMCPOperation(owner, repo, {
+          message: 'Attempt failed; the queue will retry it',
+          requested_by,
+          timestamp: Date.now(),
+          issue_number,
+          jobId,
+          level: 'warn',
+          error: error.message || 'Unknown error',
+        });
+      } catch (logError) {
+        console.error('Failed to log failed attempt:', logError);
+      }
+      
+      throw error;
+    }
+    
     // Update job status to failed
     try {
       await updateMCPJob(owner, repo, jobId, {
         status: 'failed',
         error: error.message || 'Unknown error',
       });
+      await logMCPOperation(owner, repo, {
+        message: 'Code generation failed',
+        requested_by,
+        timestamp: Date.now(),
+        issue_number,
+        jobId,
+        level: 'error',
+        error: error.message || 'Unknown error',
+      });
     } catch (updateError) {
       console.error('Failed to update job status:', updateError);
     }
     
+    await notifySlack(
+      owner,
+      repo,
+      jobId,
+      `❌ Code generation for *${owner}/${repo}#${issue_number}* failed: ${error.message || 'Unknown error'}`
+    );
+    
     // Re-throw the error to be handled by the API route
     throw error;
+  } finally {
+    await backend.dispose();
+  }
+}
+
+// ============================================================================
+// Review Follow-up
+// ============================================================================
+
+export interface ReviewFollowUpResult {
+  success: true;
+  jobId: string;
+  pr_number: number;
+  commit_sha: string;
+  threads_answered: number;
+}
+
+/**
+ * Regenerate code for a PR review on the job's existing branch, push a
+ * follow-up commit and answer each review thread
+ */
+export async function executeReviewFollowUp(
+  request: MCPHandleReviewRequest
+): Promise<ReviewFollowUpResult> {
+  const { owner, repo, pr_number, jobId, review, max_repair_rounds, git_backend, run_tests } = request;
+  const reviewer = review.user.login;
+  const reviewBody = review.body || '';
+  
+  console.log(`🔁 Handling review from @${reviewer} on ${owner}/${repo}#${pr_number}`);
+  
+  if (!GITHUB_TOKEN) {
+    throw new Error('GitHub token not configured. Set GITHUB_TOKEN environment variable.');
   }
+  
+  // github-tools refuses to load without a token, so import it after the check
+  const { listPRReviewComments, postPRComment } = await import('@/lib/mcp/github-tools');
+  
+  let backend: GitBackend | null = null;
+  let claimed = false;
+  
+  try {
+    // ========================================================================
+    // Step 1: Move the job back to processing
+    // ========================================================================
+    // Only a job in review takes follow-ups; cancelled, failed or finished
+    // jobs stay as they are
+    const { job, applied } = await updateMCPJobIf(owner, repo, jobId, status => status === 'review', {
+      status: 'processing',
+    });
+    
+    if (!job) {
+      throw new JobNotFoundError(`Job ${jobId} not found in ${owner}/${repo}`);
+    }
+    
+    if (!applied) {
+      throw new MCPError(`Job ${jobId} is ${job.status}; only jobs in review take review follow-ups`, 'INVALID_STATE', 409);
+    }
+    claimed = true;
+    
+    // Follow-ups stay on the backend the job was generated with
+    backend = createGitBackend(owner, repo, jobId, git_backend ?? job?.git_backend, {
+      runTests: run_tests,
+      diagnosticFilters: await loadDiagnosticFilters(owner, repo),
+    });
+    
+    // ========================================================================
+    // Step 2: Fetch the PR and the threads opened by this review
+    // ========================================================================
+    console.log('📋 Fetching pull request and review comments...');
+    const pr = await getPullRequest(owner, repo, pr_number);
+    const branch = pr.head?.ref || job?.branch;
+    
+    if (!branch) {
+      throw new MCPError(`Could not determine the branch for PR #${pr_number}`, 'INTERNAL_ERROR', 500);
+    }
+    
+    const comments = await listPRReviewComments({ owner, repo, pr_number });
+    
+    // Only the first comment of a thread carries the request; replies are discussion
+    const threads = comments.filter(comment =>
+      !comment.in_reply_to_id &&
+      (review.id ? comment.pull_request_review_id === review.id : comment.user.login === reviewer)
+    );
+    
+    if (threads.length === 0 && !reviewBody.trim()) {
+      throw new MCPError('Review has no body or inline comments to act on', 'VALIDATION_FAILED', 422);
+    }
+    
+    console.log(`✅ Found ${threads.length} review thread(s) on branch ${branch}`);
+    
+    // ========================================================================
+    // Step 3: Fetch the files the PR touches plus any commented on
+    // ========================================================================
+    console.log('📥 Fetching file contents...');
+    const prFiles = await listPullRequestFiles(owner, repo, pr_number);
+    const filePaths = Array.from(new Set([...prFiles, ...threads.map(thread => thread.path)]));
+    
+    const filesWithContent = await Promise.all(
+      filePaths.map(async (path) => ({
+        path,
+        content: await fetchBaseContent(backend!, branch, path),
+      }))
+    );
+    
+    const filesWithChunks = filesWithContent.map(file => ({
+      path: file.path,
+      chunks: chunkFileContent(file.content),
+    }));
+    
+    // ========================================================================
+    // Step 4: Generate follow-up changes with AI
+    // ========================================================================
+    const mode = filesWithChunks.some(f => f.chunks.length > 1) ? 'patch' : 'full';
+    const issueTitle = `Address review feedback on PR #${pr_number}: ${pr.title}`;
+    const issueBody = formatReviewFeedback(reviewBody, threads);
+    const baseContents = new Map(filesWithContent.map(file => [file.path, file.content]));
+    
+    console.log(`🤖 Generating review follow-up with AI (${mode} mode)...`);
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by: reviewer,
+      stage: 'generation',
+      message: `Addressing ${threads.length} review thread(s) from @${reviewer} across ${filePaths.length} file(s)`,
+    });
+    const generation = await generateChanges(
+      backend,
+      branch,
+      {
+        issueTitle,
+        issueBody,
+        files: filesWithChunks,
+        mode,
+      },
+      new Map(baseContents)
+    );
+    
+    const rejectedHunks: RejectedHunk[] = [...(job?.rejected_hunks || []), ...generation.rejected];
+    
+    if (generation.rejected.length > 0) {
+      console.warn(`⚠️ Rejected ${generation.rejected.length} hunk(s):`, generation.rejected);
+      await updateMCPJob(owner, repo, jobId, { rejected_hunks: rejectedHunks });
+    }
+    
+    if (generation.changes.length === 0) {
+      throw new PatchApplyError(generation.rejected);
+    }
+    
+    // ========================================================================
+    // Step 5: Validate, feeding errors back for repair rounds
+    // ========================================================================
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by: reviewer,
+      stage: 'validation',
+      message: `AI generated ${generation.changes.length} follow-up change(s): ${generation.overallSummary}`,
+    });
+    const repaired = await validateWithRepairs(
+      {
+        owner,
+        repo,
+        jobId,
+        backend,
+        branch,
+        ref: branch,
+        validationKey: `${jobId}-review-${Date.now()}`,
+        issueTitle,
+        issueBody,
+        mode,
+        source: 'review',
+        maxRepairRounds: max_repair_rounds ?? DEFAULT_MAX_REPAIR_ROUNDS,
+        baseContents,
+        attempts: [...(job?.attempts || [])],
+        rejectedHunks,
+      },
+      generation.changes,
+      generation.rejected
+    );
+    
+    const changes = repaired.changes;
+    const needsHuman = !repaired.validationResult.valid;
+    
+    // ========================================================================
+    // Step 6: Commit the follow-up on the existing branch
+    // ========================================================================
+    console.log('💾 Committing follow-up changes...');
+    await throwIfCancelled(owner, repo, jobId);
+    await recordJobStage(owner, repo, {
+      jobId,
+      requested_by: reviewer,
+      stage: 'commit',
+      level: needsHuman ? 'warn' : 'info',
+      message: needsHuman
+        ? `Validation still failing after ${repaired.rounds} repair round(s); committing for human follow-up`
+        : 'Validation passed; committing follow-up',
+    });
+    const commitSha = await backend.commit(
+      branch,
+      changes,
+      `AI: address review feedback from @${reviewer} on PR #${pr_number}\n\n${generation.overallSummary}`
+    );
+    
+    console.log(`✅ Committed ${changes.length} file(s) to ${branch}`);
+    
+    if (needsHuman) {
+      await addLabels(owner, repo, pr_number, ['needs-human']);
+    }
+    
+    // ========================================================================
+    // Step 7: Answer each review thread
+    // ========================================================================
+    console.log('💬 Answering review threads...');
+    const shortSha = commitSha.slice(0, 7);
+    const link = githubLineLink(owner, repo, commitSha);
+    const validationNote = needsHuman
+      ? `\n\n❌ The changes still fail ${describeValidation(backend)} after ${repaired.rounds} repair round(s), so this PR is labeled \`needs-human\`.`
+      : '';
+    
+    for (const thread of threads) {
+      const line = thread.line ?? thread.original_line;
+      const change = changes.find(c => c.path === thread.path);
+      const quoted = thread.body.trim().split('\n').map(l => `> ${l}`).join('\n');
+      // Each thread only lists the diagnostics in its own file
+      const threadDiagnostics = (repaired.validationResult.diagnostics || []).filter(d => d.file === thread.path);
+      
+      await postPRComment({
+        owner,
+        repo,
+        pr_number,
+        body: `🤖 **Re: [\`${thread.path}${line ? `:${line}` : ''}\`](${thread.html_url})**\n\n${quoted}\n\n` +
+          (change
+            ? `@${reviewer} Addressed in ${shortSha}: ${change.summary || 'Updated'}`
+            : `@${reviewer} ${shortSha} did not change \`${thread.path}\`; this thread may need a closer look.`) +
+          validationNote +
+          (needsHuman && threadDiagnostics.length > 0 ? `\n\n${formatDiagnosticsMarkdown(threadDiagnostics, link)}` : ''),
+      });
+    }
+    
+    if (threads.length === 0) {
+      await postPRComment({
+        owner,
+        repo,
+        pr_number,
+        body: `🤖 **Review feedback addressed**\n\n@${reviewer} Pushed ${shortSha} to \`${branch}\`.\n\n` +
+          `### Changes Summary\n${generation.overallSummary}` +
+          validationNote +
+          (needsHuman ? `\n\n${formatValidationMarkdown(repaired.validationResult, link)}` : ''),
+      });
+    }
+    
+    await notifySlack(
+      owner,
+      repo,
+      jobId,
+      `🔁 Pushed ${shortSha} to <${pr.html_url}|PR #${pr_number}> addressing @${reviewer}'s review` +
+        (needsHuman
+          ? `\n\n❌ Still failing ${describeValidation(backend)} after ${repaired.rounds} repair round(s):\n` +
+            formatValidationSlack(repaired.validationResult, link)
+          : '')
+    );
+    
+    // ========================================================================
+    // Step 8: Hand the job back for review
+    // ========================================================================
+    const { applied: handedBack } = await updateMCPJobIf(owner, repo, jobId, status => status === 'processing', {
+      status: 'review',
+      validated: !needsHuman,
+      review_rounds: [
+        ...(job?.review_rounds || []),
+        {
+          ...(review.id ? { review_id: review.id } : {}),
+          reviewer,
+          commit_sha: commitSha,
+          threads: threads.length,
+          validated: !needsHuman,
+          created_at: Date.now(),
+        },
+      ],
+    });
+    
+    if (!handedBack) {
+      console.log(`🛑 Job ${jobId} was cancelled during the follow-up; leaving it cancelled`);
+    }
+    
+    console.log(`🎉 Review follow-up pushed to ${branch}`);
+    
+    return {
+      success: true,
+      jobId,
+      pr_number,
+      commit_sha: commitSha,
+      threads_answered: threads.length,
+    };
+  } catch (error: any) {
+    console.error('❌ MCP review follow-up failed:', error);
+    
+    // The PR is still open, so hand it back for review with the error
+    // attached - unless the job was never taken, or was cancelled since
+    try {
+      if (claimed) {
+        await updateMCPJobIf(owner, repo, jobId, status => status === 'processing', {
+          status: 'review',
+          error: error.message || 'Unknown error',
+        });
+      }
+    } catch (updateError) {
+      console.error('Failed to update job status:', updateError);
+    }
+    
+    throw error;
+  } finally {
+    await backend?.dispose();
+  }
+}
+
+// ============================================================================
+// Queueing
+// ============================================================================
+
+export interface EnqueueJobResult {
+  jobId: string;
+  issue_title: string;
+  /** Slack message that progress updates are threaded under */
+  slack_thread_ts?: string;
+}
+
+/**
+ * Queue a code generation job for the Cloud Functions worker, the same way
+ * requestAIForIssue does. The assignee rule is checked up front so the
+ * requester hears about it now rather than from a failed job.
+ */
+export async function enqueueCodeGeneration(request: MCPEnqueueJobRequest): Promise<EnqueueJobResult> {
+  const { owner, repo, issue_number, requested_by, related_files, slack_channel, slack_team } = request;
+  
+  const issue = await fetchIssueWithAssignees(owner, repo, issue_number);
+  const assigneeLogins = issue.assignees.map(assignee => assignee.login);
+  
+  if (!assigneeLogins.includes(requested_by)) {
+    throw new NotAssigneeError(requested_by, assigneeLogins);
+  }
+  
+  const firestore = getFirestoreInstance();
+  const jobRef = firestore.collection('repos').doc(encodeRepoId(owner, repo)).collection('mcp_jobs').doc();
+  const jobId: string = jobRef.id;
+  
+  // Start the thread first so the worker finds it on the job from its first update
+  const slack = await slackInstallationService.getClient(slack_team);
+  const slackThreadTs = slack_channel
+    ? await slack.startThread(
+        slack_channel,
+        `⏳ Queued code generation for *${owner}/${repo}#${issue_number}* (${issue.title}) requested by @${requested_by}. ` +
+          `Updates will follow in this thread. Job: \`${jobId}\``
+      )
+    : null;
+  
+  await setDoc(jobRef, {
+    jobId,
+    issueNumber: issue_number,
+    owner,
+    repo,
+    requested_by,
+    status: 'pending',
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    ...(related_files && { relatedFiles: related_files }),
+    ...(slack_channel && { slack_channel }),
+    ...(slack_team && { slack_team }),
+    ...(slackThreadTs && { slack_thread_ts: slackThreadTs }),
+    // Same shape as initialQueueState() in functions/src/mcp-queue.ts
+    queue: {
+      attempt: 0,
+      max_attempts: QUEUE_MAX_ATTEMPTS,
+      next_run_at: timestampNow(),
+      lease_owner: null,
+      lease_expires_at: null,
+      heartbeat_at: null,
+      last_error: null,
+    },
+  });
+  
+  await logMCPOperation(owner, repo, {
+    message: `Job queued by ${requested_by}`,
+    requested_by,
+    timestamp: Date.now(),
+    issue_number,
+    jobId,
+    level: 'info',
+  });
+  
+  console.log(`📥 Queued job ${jobId} for ${owner}/${repo}#${issue_number}`);
+  
+  return {
+    jobId,
+    issue_title: issue.title,
+    ...(slackThreadTs ? { slack_thread_ts: slackThreadTs } : {}),
+  };
+}
+
+// ============================================================================
+// Cancellation
+// ============================================================================
+
+const CANCELLABLE_STATUSES = ['pending', 'processing'];
+
+export interface CancelJobResult {
+  success: true;
+  cancelled: string[];
+}
+
+/**
+ * Cancel a running or queued job by id, or every active job for an issue.
+ * Only whoever requested the jobs, or a user with write access to the repo,
+ * may cancel them. The pipeline notices at its next stage boundary; a draft
+ * branch without a PR is deleted right away so it doesn't linger if the
+ * worker already died.
+ */
+export async function cancelCodeGeneration(
+  request: MCPCancelJobRequest,
+  requesterUid?: string
+): Promise<CancelJobResult> {
+  const { owner, repo, jobId, issue_number, requested_by } = request;
+  const firestore = getFirestoreInstance();
+  const jobsRef = firestore.collection('repos').doc(encodeRepoId(owner, repo)).collection('mcp_jobs');
+  
+  const targets: Array<{ id: string; job: Partial<MCPJob> }> = [];
+  
+  if (jobId) {
+    const job = await getMCPJob(owner, repo, jobId);
+    
+    if (!job) {
+      throw new JobNotFoundError(`Job ${jobId} not found in ${owner}/${repo}`);
+    }
+    
+    if (!CANCELLABLE_STATUSES.includes(job.status || '')) {
+      throw new MCPError(`Job ${jobId} is already ${job.status} and can no longer be cancelled`, 'INVALID_STATE', 409);
+    }
+    
+    targets.push({ id: jobId, job });
+  } else {
+    // Jobs queued by Cloud Functions use issueNumber; API-created ones issue_number
+    const snapshots = await Promise.all([
+      jobsRef.where('issue_number', '==', issue_number).get(),
+      jobsRef.where('issueNumber', '==', issue_number).get(),
+    ]);
+    
+    const seen = new Set<string>();
+    for (const snapshot of snapshots) {
+      for (const jobDoc of snapshot.docs) {
+        const job = jobDoc.data() as Partial<MCPJob>;
+        if (!seen.has(jobDoc.id) && CANCELLABLE_STATUSES.includes(job.status || '')) {
+          seen.add(jobDoc.id);
+          targets.push({ id: jobDoc.id, job });
+        }
+      }
+    }
+    
+    if (targets.length === 0) {
+      throw new JobNotFoundError(`No queued or running job found for issue #${issue_number} in ${owner}/${repo}`);
+    }
+  }
+  
+  // Jobs queued from the dashboard record the requester's Firebase uid
+  const othersJobs = targets.filter(({ job }) =>
+    job.requested_by !== requested_by && !(requesterUid && job.requested_by === requesterUid)
+  );
+  if (othersJobs.length > 0 && !(await hasRepoAccess(owner, repo, requested_by, 'write'))) {
+    throw new NotJobOwnerError(requested_by, othersJobs.map(target => target.id));
+  }
+  
+  const cancelled: string[] = [];
+  
+  for (const { id } of targets) {
+    console.log(`🛑 Cancelling job ${id} for ${requested_by}`);
+    
+    // The job may have finished since it was read; only cancel it if it hasn't
+    const { job, applied } = await updateMCPJobIf(owner, repo, id, status => CANCELLABLE_STATUSES.includes(status || ''), {
+      status: 'cancelled',
+      cancelled_by: requested_by,
+      cancelled_at: Date.now(),
+    });
+    
+    if (!applied || !job) {
+      console.log(`Job ${id} is already ${job?.status ?? 'gone'}; not cancelling it`);
+      continue;
+    }
+    cancelled.push(id);
+    
+    if (job.branch && !job.pr_number) {
+      try {
+        // The job's worker may be elsewhere, so go through the API directly
+        await new GitHubApiBackend(owner, repo).deleteBranch(job.branch);
+        console.log(`🗑️ Deleted branch: ${job.branch}`);
+      } catch (error) {
+        console.error(`Failed to delete branch ${job.branch}:`, error);
+      }
+    }
+    
+    await logMCPOperation(owner, repo, {
+      message: `Job cancelled by ${requested_by}`,
+      requested_by,
+      timestamp: Date.now(),
+      ...(issue_number ? { issue_number } : {}),
+      jobId: id,
+      level: 'warn',
+    });
+    
+    await notifySlack(owner, repo, id, `🛑 Cancelled by ${requested_by}`);
+  }
+  
+  if (cancelled.length === 0) {
+    throw new MCPError('Every matching job finished before it could be cancelled', 'INVALID_STATE', 409);
+  }
+  
+  return {
+    success: true,
+    cancelled,
+  };
+}
+
+// ============================================================================
+// Retry
+// ============================================================================
+
+const RETRYABLE_STATUSES = ['failed', 'dead_letter', 'cancelled'];
+
+/**
+ * Put a failed, dead-lettered or cancelled job back on the queue with a fresh
+ * attempt budget and no results from its earlier attempts. Jobs that already
+ * opened a PR are refused, since a retry would open a second one; the same
+ * callers as for cancelCodeGeneration may retry.
+ */
+export async function retryCodeGeneration(
+  request: MCPRetryJobRequest,
+  requesterUid?: string
+): Promise<{ success: true; jobId: string }> {
+  const { owner, repo, jobId, requested_by } = request;
+  const job = await getMCPJob(owner, repo, jobId);
+  
+  if (!job) {
+    throw new JobNotFoundError(`Job ${jobId} not found in ${owner}/${repo}`);
+  }
+  
+  if (job.requested_by !== requested_by && !(requesterUid && job.requested_by === requesterUid)
+      && !(await hasRepoAccess(owner, repo, requested_by, 'write'))) {
+    throw new NotJobOwnerError(requested_by, [jobId]);
+  }
+  
+  // Checked again with the update, in case the job moved on in between
+  const { job: current, applied } = await updateMCPJobIf(
+    owner,
+    repo,
+    jobId,
+    status => RETRYABLE_STATUSES.includes(status || ''),
+    {
+      status: 'pending',
+      error: deleteField(),
+      stage: deleteField(),
+      cancelled_by: deleteField(),
+      cancelled_at: deleteField(),
+      attempts: deleteField(),
+      rejected_hunks: deleteField(),
+      validated: deleteField(),
+      queue: {
+        attempt: 0,
+        max_attempts: QUEUE_MAX_ATTEMPTS,
+        next_run_at: timestampNow(),
+        lease_owner: null,
+        lease_expires_at: null,
+        heartbeat_at: null,
+        last_error: null,
+      },
+    } as Partial<MCPJob>
+  );
+  
+  if (current?.pr_number) {
+    throw new MCPError(
+      `Job ${jobId} already opened PR #${current.pr_number}; review it instead of retrying`,
+      'INVALID_STATE',
+      409
+    );
+  }
+  
+  if (!applied) {
+    throw new MCPError(`Job ${jobId} is ${current?.status ?? 'gone'} and can only be retried once it has failed`, 'INVALID_STATE', 409);
+  }
+  
+  console.log(`🔁 Requeued job ${jobId} for ${requested_by}`);
+  
+  await logMCPOperation(owner, repo, {
+    message: `Job requeued by ${requested_by}`,
+    requested_by,
+    timestamp: Date.now(),
+    jobId,
+    level: 'info',
+  });
+  
+  await notifySlack(owner, repo, jobId, `🔁 Requeued by ${requested_by}`);
+  
+  return { success: true, jobId };
+}
+
+// ============================================================================
+// Job Queries
+// ============================================================================
+
+const ACTIVE_STATUSES = ['pending', 'processing', 'review'];
+
+export interface ActiveJob {
+  jobId: string;
+  issue_number?: number;
+  status: MCPJob['status'];
+  pr_url?: string;
+  pr_number?: number;
+}
+
+/**
+ * Jobs a user queued in a repository that are still in flight or awaiting
+ * review
+ */
+export async function listActiveJobs(
+  owner: string,
+  repo: string,
+  requested_by: string
+): Promise<ActiveJob[]> {
+  const firestore = getFirestoreInstance();
+  const snapshot = await firestore
+    .collection('repos')
+    .doc(encodeRepoId(owner, repo))
+    .collection('mcp_jobs')
+    .where('requested_by', '==', requested_by)
+    .get();
+  
+  const jobs: ActiveJob[] = [];
+  
+  for (const jobDoc of snapshot.docs) {
+    const job = jobDoc.data() as Partial<MCPJob> & { issue_number?: number; issueNumber?: number };
+    
+    if (ACTIVE_STATUSES.includes(job.status || '')) {
+      jobs.push({
+        jobId: jobDoc.id,
+        // Jobs queued by Cloud Functions use issueNumber; API-created ones issue_number
+        issue_number: job.issue_number ?? job.issueNumber,
+        status: job.status as MCPJob['status'],
+        pr_url: job.pr_url,
+        pr_number: job.pr_number,
+      });
+    }
+  }
+  
+  return jobs;
 }
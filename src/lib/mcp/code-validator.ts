@@ -1,10 +1,14 @@
-import { ValidationResult } from '@/types/mcp';
+import { DiagnosticFilter, TestRunResult, ValidationDiagnostic, ValidationResult } from '@/types/mcp';
+import { runTestSuite, compareTestRuns, sandboxEnv, withResourceLimits } from '@/lib/mcp/test-runner';
+import { runValidators, formatDiagnostic, ValidatorContext } from '@/lib/mcp/validator-registry';
+import { DEFAULT_DIAGNOSTIC_FILTERS, applyDiagnosticFilters, parseTscOutput } from '@/lib/mcp/diagnostics';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // ============================================================================
 // Configuration
@@ -13,6 +17,10 @@ const execAsync = promisify(exec);
 const TEMP_BASE_DIR = process.env.TEMP || process.env.TMP || '/tmp';
 const CLEANUP_DELAY_MS = 24 * 60 * 60 * 1000; // 24 hours
 const VALIDATION_TIMEOUT_MS = 60000; // 60 seconds
+const REPO_CHECK_TIMEOUT_MS = Number(process.env.MCP_REPO_CHECK_TIMEOUT_MS || 5 * 60 * 1000);
+const REPO_CHECK_OUTPUT_LINES = 20;
+const MAX_REPORTED_DIAGNOSTICS = 20;
+const TYPESCRIPT_FILE_PATTERN = /\.(tsx?|jsx?|mts|cts)$/i;
 
 // ============================================================================
 // Temp Directory Management
@@ -138,13 +146,37 @@ function resolveScopedImports(
 // TypeScript Validation
 // ============================================================================
 
+interface CheckOutcome {
+  success: boolean;
+  errors: string[];
+  warnings: string[];
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * Split filtered diagnostics into failing errors and reported warnings,
+ * keeping the first few of each
+ */
+function summarizeDiagnostics(diagnostics: ValidationDiagnostic[]): CheckOutcome {
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+  const warnings = diagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+  
+  return {
+    success: errors.length === 0,
+    errors: errors.slice(0, MAX_REPORTED_DIAGNOSTICS).map(formatDiagnostic),
+    warnings: warnings.slice(0, MAX_REPORTED_DIAGNOSTICS).map(formatDiagnostic),
+    diagnostics: [...errors, ...warnings].slice(0, MAX_REPORTED_DIAGNOSTICS),
+  };
+}
+
 /**
  * Run TypeScript compiler on scoped files
  */
 async function runTypeScriptValidation(
   tempDir: string,
-  files: string[]
-): Promise<{ success: boolean; errors: string[]; warnings: string[] }> {
+  files: string[],
+  filters: DiagnosticFilter[]
+): Promise<CheckOutcome> {
   try {
     // Create a minimal tsconfig.json for validation
     const tsConfig = {
@@ -180,8 +212,8 @@ async function runTypeScriptValidation(
     const projectRoot = process.cwd();
     const tscPath = path.join(projectRoot, 'node_modules', '.bin', 'tsc');
     const command = process.platform === 'win32' 
-      ? `"${tscPath}.cmd" --project "${tsConfigPath}" --noEmit --skipLibCheck --noResolve`
-      : `"${tscPath}" --project "${tsConfigPath}" --noEmit --skipLibCheck --noResolve`;
+      ? `"${tscPath}.cmd" --project "${tsConfigPath}" --noEmit --skipLibCheck --noResolve --pretty false`
+      : `"${tscPath}" --project "${tsConfigPath}" --noEmit --skipLibCheck --noResolve --pretty false`;
     
     const { stdout, stderr } = await Promise.race([
       execAsync(command, { cwd: tempDir, maxBuffer: 1024 * 1024 * 10 }), // 10MB buffer
@@ -195,38 +227,32 @@ async function runTypeScriptValidation(
       success: true,
       errors: [],
       warnings: stderr ? [stderr] : [],
+      diagnostics: [],
     };
   } catch (error: any) {
     // tsc returns non-zero exit code on errors
     const output = error.stdout || error.stderr || error.message;
+    const parsed = parseTscOutput(output);
     
-    // Parse errors from tsc output, filtering out module resolution errors
-    const errorLines = output
-      .split('\n')
-      .filter((line: string) => line.includes('error TS'))
-      .filter((line: string) => {
-        // Skip "Cannot find module" errors (TS2307) - these are expected in isolated validation
-        if (line.includes('TS2307')) return false;
-        // Skip "Cannot find name" for common imports (TS2304)
-        if (line.includes('TS2304') && (line.includes('React') || line.includes('process') || line.includes('require'))) return false;
-        return true;
-      })
-      .slice(0, 20); // Limit to first 20 errors
-    
-    // If no real errors after filtering, consider it a success
-    if (errorLines.length === 0) {
+    // No diagnostics means tsc itself failed to run; don't blame the generated code
+    if (parsed.length === 0) {
       return {
         success: true,
         errors: [],
-        warnings: ['Some import warnings were suppressed'],
+        warnings: [`TypeScript validation did not run: ${output.trim().split('\n')[0].slice(0, 200)}`],
+        diagnostics: [],
       };
     }
     
-    return {
-      success: false,
-      errors: errorLines.length > 0 ? errorLines : [output.slice(0, 500)],
-      warnings: [],
-    };
+    // Drop what isolated validation can't check, e.g. unresolved imports
+    const { diagnostics, ignored } = applyDiagnosticFilters(parsed, filters);
+    const outcome = summarizeDiagnostics(diagnostics);
+    
+    if (ignored > 0) {
+      outcome.warnings.unshift(`Ignored ${ignored} TypeScript diagnostic(s) matching the diagnostic filters`);
+    }
+    
+    return outcome;
   }
 }
 
@@ -234,17 +260,26 @@ async function runTypeScriptValidation(
 // Main Validation Function
 // ============================================================================
 
+export interface ValidateCodeOptions extends Pick<ValidatorContext, 'fileExists'> {
+  /** Defaults to DEFAULT_DIAGNOSTIC_FILTERS */
+  diagnosticFilters?: DiagnosticFilter[];
+}
+
 /**
- * Validate generated code with scoped TypeScript checking
+ * Validate generated code with scoped TypeScript checking, plus the
+ * registered validator plugins for JSON, YAML, CSS, Markdown and others
  * 
  * @param files - Array of files to validate
  * @param jobId - Unique job identifier for temp directory
- * @returns Validation result with errors and temp directory path
+ * @param options - Repository lookups and the repository's diagnostic filters
+ * @returns Validation result with errors, diagnostics and temp directory path
  */
 export async function validateGeneratedCode(
   files: Array<{ path: string; content: string }>,
-  jobId: string
+  jobId: string,
+  options: ValidateCodeOptions = {}
 ): Promise<ValidationResult> {
+  const { diagnosticFilters = DEFAULT_DIAGNOSTIC_FILTERS, ...validatorOptions } = options;
   let tempDir: string | undefined;
   
   try {
@@ -256,15 +291,29 @@ export async function validateGeneratedCode(
     
     // Only validate the files that were actually generated, not their dependencies
     // This avoids errors from missing node_modules dependencies
-    const filesToValidate = files.map(f => f.path);
+    const filesToValidate = files.map(f => f.path).filter(filePath => TYPESCRIPT_FILE_PATTERN.test(filePath));
     
-    console.log(`🔍 Validating ${filesToValidate.length} generated file(s) with TypeScript...`);
+    // Run TypeScript validation; tsc fails outright when given no inputs
+    let result: CheckOutcome = { success: true, errors: [], warnings: [], diagnostics: [] };
+    if (filesToValidate.length > 0) {
+      console.log(`🔍 Validating ${filesToValidate.length} generated file(s) with TypeScript...`);
+      result = await runTypeScriptValidation(tempDir, filesToValidate, diagnosticFilters);
+    }
     
-    // Run TypeScript validation
-    const result = await runTypeScriptValidation(tempDir, filesToValidate);
+    // Run plugins for everything else
+    const plugins = await runValidators(files, { rootDir: tempDir, ...validatorOptions });
+    const pluginOutcome = summarizeDiagnostics(plugins.diagnostics);
+    
+    result = {
+      success: result.success && pluginOutcome.success,
+      errors: [...result.errors, ...pluginOutcome.errors],
+      warnings: [...result.warnings, ...pluginOutcome.warnings, ...plugins.warnings],
+      diagnostics: [...result.diagnostics, ...pluginOutcome.diagnostics],
+    };
+    const diagnostics = result.diagnostics;
     
     if (result.success) {
-      console.log('✅ TypeScript validation passed');
+      console.log('✅ Validation passed');
       
       // Schedule immediate cleanup on success
       scheduleCleanup(tempDir, 0);
@@ -274,9 +323,10 @@ export async function validateGeneratedCode(
         errors: [],
         warnings: result.warnings,
         tempDir,
+        diagnostics,
       };
     } else {
-      console.error('❌ TypeScript validation failed:', result.errors);
+      console.error('❌ Validation failed:', result.errors);
       
       // Move to failed directory and schedule delayed cleanup
       const failedTempDir = await createTempDir(jobId, true);
@@ -290,6 +340,7 @@ export async function validateGeneratedCode(
         errors: result.errors,
         warnings: result.warnings,
         tempDir: failedTempDir,
+        diagnostics,
       };
     }
   } catch (error: any) {
@@ -321,6 +372,165 @@ export async function validateGeneratedCode(
   }
 }
 
+// ============================================================================
+// Repository Checks
+// ============================================================================
+
+export type RepoCheckName = 'typecheck' | 'lint' | 'test';
+
+export interface RepoCheckResult {
+  name: RepoCheckName;
+  passed: boolean;
+  /** Formatted diagnostics for typecheck, the tail of the output otherwise */
+  errors: string[];
+  diagnostics?: ValidationDiagnostic[];
+  tests?: TestRunResult;
+}
+
+/**
+ * Run a repository command, capturing output whether or not it succeeds.
+ * Repository scripts are untrusted, so they get the sandbox's allow-listed
+ * environment rather than the server's, and its resource limits.
+ */
+async function runRepoCommand(
+  repoDir: string,
+  command: string,
+  args: string[]
+): Promise<{ ok: boolean; output: string }> {
+  try {
+    const limited = await withResourceLimits({ command, args });
+    const { stdout, stderr } = await execFileAsync(limited.command, limited.args, {
+      cwd: repoDir,
+      timeout: REPO_CHECK_TIMEOUT_MS,
+      maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+      env: sandboxEnv(),
+      shell: process.platform === 'win32',
+    });
+    return { ok: true, output: `${stdout}\n${stderr}` };
+  } catch (error: any) {
+    const output = `${error.stdout || ''}\n${error.stderr || ''}`.trim();
+    return {
+      ok: false,
+      output: error.killed ? `${output}\nTimed out after ${REPO_CHECK_TIMEOUT_MS / 1000}s` : output || error.message,
+    };
+  }
+}
+
+function outputTail(output: string): string[] {
+  return output
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(Boolean)
+    .slice(-REPO_CHECK_OUTPUT_LINES);
+}
+
+/**
+ * Run the repository's own checks in a checkout with its dependencies
+ * installed: tsc against its tsconfig.json, its lint script, then its test
+ * suite. Checks the repository doesn't define are skipped.
+ */
+export async function runRepoChecks(repoDir: string): Promise<RepoCheckResult[]> {
+  const results: RepoCheckResult[] = [];
+  const npx = process.platform === 'win32' ? 'npx.cmd' : 'npx';
+  const npm = process.platform === 'win32' ? 'npm.cmd' : 'npm';
+  
+  const hasTsConfig = await fs.access(path.join(repoDir, 'tsconfig.json')).then(() => true, () => false);
+  
+  if (hasTsConfig) {
+    const { ok, output } = await runRepoCommand(repoDir, npx, ['--no-install', 'tsc', '--noEmit', '--pretty', 'false', '-p', 'tsconfig.json']);
+    const diagnostics = parseTscOutput(output);
+    results.push({
+      name: 'typecheck',
+      passed: ok,
+      errors: diagnostics.length > 0 ? diagnostics.map(formatDiagnostic) : ok ? [] : outputTail(output),
+      diagnostics,
+    });
+  }
+  
+  let scripts: Record<string, string> = {};
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(repoDir, 'package.json'), 'utf-8'));
+    scripts = packageJson.scripts || {};
+  } catch {
+    // Not a Node project; only the typecheck applies
+  }
+  
+  if (scripts.lint) {
+    const { ok, output } = await runRepoCommand(repoDir, npm, ['run', 'lint', '--silent']);
+    results.push({ name: 'lint', passed: ok, errors: ok ? [] : outputTail(output) });
+  }
+  
+  const tests = await runTestSuite(repoDir);
+  if (tests) {
+    results.push({ name: 'test', passed: tests.passed, errors: tests.failing, tests });
+  }
+  
+  return results;
+}
+
+/**
+ * Compare checks after applying changes with the same checks on the base
+ * checkout, so pre-existing failures don't count against the generated code.
+ * Compiler diagnostics are compared one by one and tests by name; a check
+ * that fails without either (lint, a missing compiler) only fails validation
+ * if it passed before. Diagnostic filters apply to the compiler's output.
+ */
+export function compareRepoChecks(
+  baseline: RepoCheckResult[],
+  current: RepoCheckResult[],
+  tempDir?: string,
+  filters: DiagnosticFilter[] = []
+): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const diagnostics: ValidationDiagnostic[] = [];
+  
+  const testCheck = current.find(check => check.name === 'test');
+  
+  for (const check of current) {
+    if (check.passed) continue;
+    
+    const before = baseline.find(result => result.name === check.name);
+    
+    if (check.tests) {
+      const comparison = compareTestRuns(before?.tests || null, check.tests);
+      errors.push(...comparison.errors);
+      warnings.push(...comparison.warnings);
+    } else if (check.diagnostics && check.diagnostics.length > 0) {
+      // Edits shift line numbers, so match diagnostics without their position
+      const withoutPosition = (diagnostic: ValidationDiagnostic) =>
+        `${diagnostic.file}|${diagnostic.code}|${diagnostic.message}`;
+      const known = new Set((before?.diagnostics || []).map(withoutPosition));
+      const filtered = applyDiagnosticFilters(check.diagnostics, filters);
+      const introduced = filtered.diagnostics.filter(diagnostic => !known.has(withoutPosition(diagnostic)));
+      const outcome = summarizeDiagnostics(introduced);
+      
+      errors.push(...outcome.errors);
+      warnings.push(...outcome.warnings);
+      diagnostics.push(...outcome.diagnostics);
+      if (introduced.length < filtered.diagnostics.length) {
+        warnings.push(`${check.name}: ignored ${filtered.diagnostics.length - introduced.length} error(s) already present on the base branch`);
+      }
+      if (filtered.ignored > 0) {
+        warnings.push(`${check.name}: ignored ${filtered.ignored} diagnostic(s) matching the diagnostic filters`);
+      }
+    } else if (before && !before.passed) {
+      warnings.push(`${check.name}: already failing on the base branch`);
+    } else {
+      errors.push(`[${check.name}] failed:`, ...check.errors);
+    }
+  }
+  
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    tempDir,
+    diagnostics,
+    ...(testCheck?.tests ? { tests: testCheck.tests } : {}),
+  };
+}
+
 /**
  * Manual cleanup function for immediate removal (for testing)
  */
@@ -0,0 +1,195 @@
+import { DiagnosticFilter, ValidationDiagnostic } from '@/types/mcp';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MAX_RENDERED_DIAGNOSTICS = 20;
+
+// tsc output without --pretty: `src/a.ts(12,5): error TS2322: Type ...`.
+// Messages spanning several lines continue on indented lines.
+const TSC_DIAGNOSTIC_PATTERN = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+const TSC_GLOBAL_DIAGNOSTIC_PATTERN = /^(error|warning) (TS\d+): (.*)$/;
+
+/**
+ * Filters for isolated validation, where only the generated files are on
+ * disk: imports of anything else can't resolve, and globals from @types
+ * packages aren't installed. A repository's `mcp_validation` settings
+ * replace these.
+ */
+export const DEFAULT_DIAGNOSTIC_FILTERS: DiagnosticFilter[] = [
+  { code: 'TS2307', action: 'ignore' },
+  { code: 'TS2304', pattern: "'(React|process|require)'", action: 'ignore' },
+];
+
+// ============================================================================
+// Parsing and Filtering
+// ============================================================================
+
+/**
+ * Parse tsc output into diagnostics, with paths as tsc printed them
+ */
+export function parseTscOutput(output: string): ValidationDiagnostic[] {
+  const diagnostics: ValidationDiagnostic[] = [];
+  let current: ValidationDiagnostic | null = null;
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trimEnd();
+    const located = line.match(TSC_DIAGNOSTIC_PATTERN);
+    const global = located ? null : line.match(TSC_GLOBAL_DIAGNOSTIC_PATTERN);
+
+    if (located) {
+      current = {
+        file: located[1].trim(),
+        line: Number(located[2]),
+        column: Number(located[3]),
+        code: located[5],
+        message: located[6],
+        severity: located[4] as ValidationDiagnostic['severity'],
+        source: 'typescript',
+      };
+      diagnostics.push(current);
+    } else if (global) {
+      // Config and CLI errors have no file
+      current = {
+        file: '',
+        code: global[2],
+        message: global[3],
+        severity: global[1] as ValidationDiagnostic['severity'],
+        source: 'typescript',
+      };
+      diagnostics.push(current);
+    } else if (current && /^\s+\S/.test(line)) {
+      current.message += ` ${line.trim()}`;
+    } else {
+      current = null;
+    }
+  }
+
+  return diagnostics;
+}
+
+function matchesFilter(filter: DiagnosticFilter, diagnostic: ValidationDiagnostic): boolean {
+  if (filter.code.toUpperCase() !== diagnostic.code.toUpperCase()) return false;
+  if (!filter.pattern) return true;
+
+  try {
+    return new RegExp(filter.pattern).test(diagnostic.message);
+  } catch {
+    console.warn(`⚠️ Ignoring diagnostic filter with an invalid pattern: ${filter.pattern}`);
+    return false;
+  }
+}
+
+/**
+ * Apply filters in order; the first match decides. Ignored diagnostics are
+ * dropped and counted, `warn` ones are kept as warnings.
+ */
+export function applyDiagnosticFilters(
+  diagnostics: ValidationDiagnostic[],
+  filters: DiagnosticFilter[]
+): { diagnostics: ValidationDiagnostic[]; ignored: number } {
+  const kept: ValidationDiagnostic[] = [];
+  let ignored = 0;
+
+  for (const diagnostic of diagnostics) {
+    const filter = filters.find(candidate => matchesFilter(candidate, diagnostic));
+
+    if (!filter) {
+      kept.push(diagnostic);
+    } else if (filter.action === 'warn') {
+      kept.push({ ...diagnostic, severity: 'warning' });
+    } else {
+      ignored++;
+    }
+  }
+
+  return { diagnostics: kept, ignored };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Link to a diagnostic's line, e.g. on the branch the changes were pushed to
+ */
+export type DiagnosticLink = (diagnostic: ValidationDiagnostic) => string | null;
+
+function groupByFile(diagnostics: ValidationDiagnostic[]): Map<string, ValidationDiagnostic[]> {
+  const groups = new Map<string, ValidationDiagnostic[]>();
+
+  for (const diagnostic of diagnostics.slice(0, MAX_RENDERED_DIAGNOSTICS)) {
+    const group = groups.get(diagnostic.file) || [];
+    group.push(diagnostic);
+    groups.set(diagnostic.file, group);
+  }
+
+  return groups;
+}
+
+function formatPosition(diagnostic: ValidationDiagnostic): string {
+  if (!diagnostic.line) return '';
+  return diagnostic.column ? `L${diagnostic.line}:${diagnostic.column}` : `L${diagnostic.line}`;
+}
+
+function formatOverflow(diagnostics: ValidationDiagnostic[]): string {
+  const hidden = diagnostics.length - MAX_RENDERED_DIAGNOSTICS;
+  return hidden > 0 ? `\n_…and ${hidden} more_` : '';
+}
+
+/**
+ * GitHub markdown: diagnostics grouped under their file, each linked to its line
+ */
+export function formatDiagnosticsMarkdown(diagnostics: ValidationDiagnostic[], link?: DiagnosticLink): string {
+  const sections: string[] = [];
+
+  for (const [file, group] of Array.from(groupByFile(diagnostics))) {
+    const items = group.map(diagnostic => {
+      const position = formatPosition(diagnostic);
+      const url = position ? link?.(diagnostic) : null;
+      const location = position ? (url ? `[${position}](${url})` : position) : '';
+      const icon = diagnostic.severity === 'warning' ? '⚠️' : '❌';
+
+      return `- ${icon} ${location ? `${location} ` : ''}\`${diagnostic.code}\` ${diagnostic.message}`;
+    });
+
+    sections.push(`**\`${file || 'project'}\`**\n${items.join('\n')}`);
+  }
+
+  return sections.join('\n\n') + formatOverflow(diagnostics);
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack mrkdwn: the same grouping, with `<url|text>` links
+ */
+export function formatDiagnosticsSlack(diagnostics: ValidationDiagnostic[], link?: DiagnosticLink): string {
+  const sections: string[] = [];
+
+  for (const [file, group] of Array.from(groupByFile(diagnostics))) {
+    const items = group.map(diagnostic => {
+      const position = formatPosition(diagnostic);
+      const url = position ? link?.(diagnostic) : null;
+      const location = position ? (url ? `<${url}|${position}>` : position) : '';
+
+      return `• ${location ? `${location} ` : ''}\`${diagnostic.code}\` ${escapeSlack(diagnostic.message)}`;
+    });
+
+    sections.push(`*${escapeSlack(file || 'project')}*\n${items.join('\n')}`);
+  }
+
+  return sections.join('\n') + formatOverflow(diagnostics);
+}
+
+/**
+ * Link diagnostics to their line in a GitHub repository at `ref`
+ */
+export function githubLineLink(owner: string, repo: string, ref: string): DiagnosticLink {
+  return (diagnostic) => diagnostic.file && diagnostic.line
+    ? encodeURI(`https://github.com/${owner}/${repo}/blob/${ref}/${diagnostic.file}`) + `#L${diagnostic.line}`
+    : null;
+}
@@ -0,0 +1,290 @@
+import path from 'path';
+import { codeIndexService } from '@/lib/code-index';
+import { getFileContent, listCommitFiles, listCommitsForPath } from '@/lib/mcp/github-client';
+import type { FileSelectionSignals, SelectedFile } from '@/types/mcp';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const SIGNAL_WEIGHTS = {
+  semantic: 0.5,
+  imports: 0.2,
+  co_change: 0.2,
+  keywords: 0.1,
+};
+
+const SEMANTIC_CANDIDATES = 20;
+const KEYWORD_CANDIDATES = 20;
+const MAX_ANCHORS = 3;
+const MAX_IMPORT_SCANS = 25; // Candidates fetched to read their imports
+const COMMITS_PER_ANCHOR = 10;
+const MAX_COMMIT_FILES = 50; // Bigger commits (renames, reformatting) say little about what changes together
+const RESOLVABLE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js'];
+
+export interface FileRankingInput {
+  owner: string;
+  repo: string;
+  githubToken: string;
+  issueText: string;
+  /** Paths named in the issue that exist in the repository */
+  mentioned: string[];
+  /** Every source file in the repository; empty if the file tree could not be read */
+  sourceFiles: string[];
+}
+
+interface Candidate {
+  path: string;
+  signals: FileSelectionSignals;
+  reasons: string[];
+}
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * Issue words of four or more characters, to look for in file paths
+ */
+function extractKeywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9_-]{4,}/g) || [];
+  return [...new Set(words)];
+}
+
+/**
+ * Module specifiers imported or required by a file. Unlike the validator's
+ * single-line pattern, this also reads imports split over several lines.
+ */
+function extractImportSpecifiers(content: string): string[] {
+  const pattern = /(?:\bfrom\s+|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/g;
+  const specifiers: string[] = [];
+  let match;
+
+  while ((match = pattern.exec(content)) !== null) {
+    specifiers.push(match[1]);
+  }
+
+  return specifiers;
+}
+
+/**
+ * Resolve a relative or `@/` import to a repository path, if it names a known file
+ */
+function resolveImportPath(specifier: string, fromFile: string, knownFiles: Set<string>): string | null {
+  let base: string;
+
+  if (specifier.startsWith('.')) {
+    base = path.posix.join(path.posix.dirname(fromFile), specifier);
+  } else if (specifier.startsWith('@/')) {
+    base = `src/${specifier.slice(2)}`;
+  } else {
+    return null; // A package
+  }
+
+  for (const suffix of RESOLVABLE_SUFFIXES) {
+    if (knownFiles.has(base + suffix)) {
+      return base + suffix;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * How often files changed in the same recent commits as an anchor, keyed by
+ * path: the share of the anchor's commits that also touched each file
+ */
+async function coChangeRates(
+  owner: string,
+  repo: string,
+  anchor: string,
+  commitFiles: Map<string, Promise<string[]>>
+): Promise<{ commits: number; rates: Map<string, number> }> {
+  const shas = await listCommitsForPath(owner, repo, anchor, COMMITS_PER_ANCHOR);
+  const counts = new Map<string, number>();
+
+  for (const sha of shas) {
+    // Anchors share commits, so each commit's file list is fetched once
+    if (!commitFiles.has(sha)) {
+      commitFiles.set(sha, listCommitFiles(owner, repo, sha));
+    }
+
+    const files = await commitFiles.get(sha)!;
+    if (files.length > MAX_COMMIT_FILES) continue;
+
+    for (const file of files) {
+      if (file !== anchor) counts.set(file, (counts.get(file) || 0) + 1);
+    }
+  }
+
+  const rates = new Map<string, number>();
+  counts.forEach((count, file) => rates.set(file, count / shas.length));
+
+  return { commits: shas.length, rates };
+}
+
+function weightedScore(signals: FileSelectionSignals): number {
+  return (
+    SIGNAL_WEIGHTS.semantic * signals.semantic +
+    SIGNAL_WEIGHTS.imports * signals.imports +
+    SIGNAL_WEIGHTS.co_change * signals.co_change +
+    SIGNAL_WEIGHTS.keywords * signals.keywords
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Rank the files an MCP job should read for an issue. Candidates come from
+ * the issue text, the code index and path keywords; they are scored by
+ * semantic similarity to the issue, import edges with the anchor files (those
+ * named in the issue, else the best matches so far) and how often they
+ * recently changed together with an anchor. Files named in the issue always
+ * come first. Each file carries the reasons it was chosen.
+ *
+ * Every signal is best-effort: one that can't be computed (no code index,
+ * GitHub errors) just scores 0.
+ */
+export async function rankCandidateFiles(input: FileRankingInput, maxFiles: number): Promise<SelectedFile[]> {
+  const { owner, repo, githubToken, issueText, mentioned, sourceFiles } = input;
+  const repoFullName = `${owner}/${repo}`;
+  const candidates = new Map<string, Candidate>();
+
+  const candidate = (filePath: string): Candidate => {
+    let entry = candidates.get(filePath);
+    if (!entry) {
+      entry = {
+        path: filePath,
+        signals: { mentioned: false, semantic: 0, imports: 0, co_change: 0, keywords: 0 },
+        reasons: [],
+      };
+      candidates.set(filePath, entry);
+    }
+    return entry;
+  };
+
+  // Files named in the issue
+  for (const filePath of mentioned) {
+    candidate(filePath).signals.mentioned = true;
+    candidate(filePath).reasons.push('Mentioned in the issue');
+  }
+
+  // Semantic similarity, from the code index brought up to date first
+  try {
+    await codeIndexService.indexCommit(repoFullName, githubToken);
+    const matches = await codeIndexService.rankFiles(repoFullName, issueText, SEMANTIC_CANDIDATES);
+    const best = matches[0]?.score || 0;
+
+    for (const match of matches) {
+      if (match.score <= 0 || best <= 0) continue;
+      const entry = candidate(match.path);
+      entry.signals.semantic = match.score / best;
+      entry.reasons.push(`Similar to the issue (${round(match.score)}) at lines ${match.start_line}-${match.end_line}`);
+    }
+  } catch (error) {
+    console.warn('⚠️ Semantic file ranking unavailable:', error);
+  }
+
+  // Issue keywords in file paths
+  const keywords = extractKeywords(issueText);
+  const pathMatches = sourceFiles
+    .map(filePath => ({ filePath, matched: keywords.filter(keyword => filePath.toLowerCase().includes(keyword)) }))
+    .filter(({ matched }) => matched.length > 0)
+    .sort((a, b) => b.matched.length - a.matched.length);
+  const mostMatched = pathMatches[0]?.matched.length || 0;
+
+  pathMatches.forEach(({ filePath, matched }, index) => {
+    if (index >= KEYWORD_CANDIDATES && !candidates.has(filePath)) return;
+    const entry = candidate(filePath);
+    entry.signals.keywords = matched.length / mostMatched;
+    entry.reasons.push(`Path matches issue keywords: ${matched.join(', ')}`);
+  });
+
+  if (candidates.size === 0) {
+    return [];
+  }
+
+  // Anchors: the files named in the issue, else the strongest candidates so far
+  const preliminary = [...candidates.values()].sort((a, b) => weightedScore(b.signals) - weightedScore(a.signals));
+  const anchors = mentioned.length > 0
+    ? mentioned.slice(0, MAX_ANCHORS)
+    : preliminary.slice(0, MAX_ANCHORS).map(entry => entry.path);
+
+  // Import graph: direct imports of the anchors, and candidates that import an anchor
+  const knownFiles = new Set([...sourceFiles, ...candidates.keys()]);
+  const scanned = [...new Set([...anchors, ...preliminary.slice(0, MAX_IMPORT_SCANS).map(entry => entry.path)])];
+  const imports = new Map<string, string[]>();
+
+  await Promise.all(scanned.map(async filePath => {
+    try {
+      const file = await getFileContent(owner, repo, filePath);
+      const content = Buffer.from(file.content, 'base64').toString('utf-8');
+      const resolved = extractImportSpecifiers(content)
+        .map(specifier => resolveImportPath(specifier, filePath, knownFiles))
+        .filter((resolvedPath): resolvedPath is string => !!resolvedPath);
+      imports.set(filePath, [...new Set(resolved)]);
+    } catch (error) {
+      console.warn(`⚠️ Could not read imports of ${filePath}:`, error);
+    }
+  }));
+
+  for (const anchor of anchors) {
+    for (const dependency of imports.get(anchor) || []) {
+      if (dependency === anchor) continue;
+      const entry = candidate(dependency);
+      entry.signals.imports = 1;
+      entry.reasons.push(`Imported by ${anchor}`);
+    }
+
+    imports.forEach((dependencies, filePath) => {
+      if (filePath === anchor || !dependencies.includes(anchor)) return;
+      const entry = candidate(filePath);
+      entry.signals.imports = 1;
+      entry.reasons.push(`Imports ${anchor}`);
+    });
+  }
+
+  // Co-change history of the anchors
+  const commitFiles = new Map<string, Promise<string[]>>();
+  const sourceSet = new Set(sourceFiles);
+
+  await Promise.all(anchors.map(async anchor => {
+    try {
+      const { commits, rates } = await coChangeRates(owner, repo, anchor, commitFiles);
+
+      rates.forEach((rate, filePath) => {
+        // Without a file tree, only files already in the running can gain from history
+        if (sourceSet.size > 0 ? !sourceSet.has(filePath) : !candidates.has(filePath)) return;
+        const entry = candidate(filePath);
+        if (rate <= entry.signals.co_change) return;
+        entry.signals.co_change = rate;
+        entry.reasons.push(`Changed with ${anchor} in ${Math.round(rate * commits)} of its last ${commits} commits`);
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not read the commit history of ${anchor}:`, error);
+    }
+  }));
+
+  return [...candidates.values()]
+    .map(entry => ({
+      path: entry.path,
+      score: round(weightedScore(entry.signals)),
+      signals: {
+        mentioned: entry.signals.mentioned,
+        semantic: round(entry.signals.semantic),
+        imports: round(entry.signals.imports),
+        co_change: round(entry.signals.co_change),
+        keywords: round(entry.signals.keywords),
+      },
+      reasons: entry.reasons,
+    }))
+    .filter(file => file.signals.mentioned || file.score > 0)
+    .sort((a, b) => Number(b.signals.mentioned) - Number(a.signals.mentioned) || b.score - a.score)
+    .slice(0, maxFiles);
+}
@@ -1,5 +1,7 @@
 import { aiAnalyzeRepository } from '@/ai/flows/ai-analyze-repository';
 import { getFileContent } from '@/lib/mcp/github-client';
+import { rankCandidateFiles } from '@/lib/mcp/file-ranker';
+import type { SelectedFile } from '@/types/mcp';
 
 // ============================================================================
 // Configuration
@@ -43,102 +45,56 @@ function extractFilePathsFromText(text: string): string[] {
 }
 
 /**
- * Use AI to analyze repository and select relevant files
+ * List the repository's source files, from the AI repository analysis's file tree
  */
-async function selectFilesWithAI(
+async function listSourceFiles(
   owner: string,
   repo: string,
-  githubToken: string,
-  issueBody: string
+  githubToken: string
 ): Promise<string[]> {
-  try {
-    console.log('🤖 Using AI to select relevant files...');
-    
-    // Call existing AI analyze repository flow
-    const analysis = await aiAnalyzeRepository({
-      repoOwner: owner,
-      repoName: repo,
-      accessToken: githubToken,
-    });
-    
-    // Extract file paths from the file tree
-    const allFiles = analysis.fileTree.map(f => f.path);
-    
-    // Filter for relevant source files (not node_modules, dist, etc.)
-    const sourceFiles = allFiles.filter(path => {
-      // Skip common ignore patterns
-      if (
-        path.includes('node_modules/') ||
-        path.includes('dist/') ||
-        path.includes('build/') ||
-        path.includes('.next/') ||
-        path.includes('coverage/') ||
-        path.includes('.git/')
-      ) {
-        return false;
-      }
-      
-      // Include files with relevant extensions
-      return FILE_EXTENSIONS_PATTERN.test(path);
-    });
-    
-    // Try to match files based on keywords in issue body
-    const keywords = issueBody.toLowerCase().split(/\s+/).filter(word => word.length > 3);
-    
-    const scoredFiles = sourceFiles.map(path => {
-      const lowerPath = path.toLowerCase();
-      let score = 0;
-      
-      // Score based on keyword matches
-      keywords.forEach(keyword => {
-        if (lowerPath.includes(keyword)) {
-          score += 2;
-        }
-      });
-      
-      // Prefer certain file types
-      if (path.match(/\.(tsx?|jsx?)$/)) {
-        score += 1;
-      }
-      
-      // Prefer files in src or app directories
-      if (path.startsWith('src/') || path.startsWith('app/')) {
-        score += 1;
-      }
-      
-      return { path, score };
-    });
-    
-    // Sort by score and take top files
-    const topFiles = scoredFiles
-      .sort((a, b) => b.score - a.score)
-      .slice(0, DEFAULT_MAX_FILES)
-      .map(f => f.path);
-    
-    console.log(`✅ AI selected ${topFiles.length} file(s):`, topFiles);
+  console.log('🤖 Reading the file tree for file selection...');
+  
+  // Call existing AI analyze repository flow
+  const analysis = await aiAnalyzeRepository({
+    repoOwner: owner,
+    repoName: repo,
+    accessToken: githubToken,
+  });
+  
+  // Filter for relevant source files (not node_modules, dist, etc.)
+  return analysis.fileTree.map(f => f.path).filter(path => {
+    // Skip common ignore patterns
+    if (
+      path.includes('node_modules/') ||
+      path.includes('dist/') ||
+      path.includes('build/') ||
+      path.includes('.next/') ||
+      path.includes('coverage/') ||
+      path.includes('.git/')
+    ) {
+      return false;
+    }
     
-    return topFiles;
-  } catch (error) {
-    console.error('AI file selection failed:', error);
-    throw error;
-  }
+    // Include files with relevant extensions
+    return FILE_EXTENSIONS_PATTERN.test(path);
+  });
 }
 
 /**
- * Fallback: Use keyword matching to find relevant files
+ * Find the file paths mentioned in the issue
  */
 function selectFilesWithKeywords(
   owner: string,
   repo: string,
   issueBody: string
 ): string[] {
-  console.log('🔍 Using keyword matching for file selection (fallback)...');
+  console.log('🔍 Looking for file paths mentioned in the issue...');
   
   // Extract file paths mentioned in the issue
   const files = extractFilePathsFromText(issueBody);
   
   if (files.length === 0) {
-    console.warn('⚠️ No files found in issue body. Cannot select files automatically.');
+    console.log('No file paths mentioned in the issue.');
   } else {
     console.log(`✅ Found ${files.length} file(s) mentioned in issue:`, files);
   }
@@ -176,12 +132,16 @@ async function verifyFilesExist(
 /**
  * Select related files for code generation
  * 
+ * Paths mentioned in the issue are combined with candidates from the code
+ * index and the file tree, then ranked by semantic similarity, import-graph
+ * proximity and co-change history (see file-ranker.ts).
+ * 
  * @param owner - Repository owner
  * @param repo - Repository name
  * @param githubToken - GitHub access token
- * @param issueBody - Issue description text
+ * @param issueBody - Issue title and description text
  * @param relatedFiles - Optional pre-selected files
- * @returns Array of file paths to analyze
+ * @returns The files to analyze, with why each was chosen
  */
 export async function selectRelatedFiles(
   owner: string,
@@ -189,7 +149,7 @@ export async function selectRelatedFiles(
   githubToken: string,
   issueBody: string,
   relatedFiles?: string[]
-): Promise<string[]> {
+): Promise<SelectedFile[]> {
   // If files are provided, use them directly
   if (relatedFiles && relatedFiles.length > 0) {
     console.log(`✅ Using ${relatedFiles.length} provided file(s):`, relatedFiles);
@@ -205,30 +165,38 @@ export async function selectRelatedFiles(
       console.warn(`⚠️ Some provided files were not found. Using ${validFiles.length} valid file(s).`);
     }
     
-    return validFiles;
+    return validFiles.map(path => ({
+      path,
+      score: 1,
+      signals: { mentioned: false, semantic: 0, imports: 0, co_change: 0, keywords: 0 },
+      reasons: ['Provided with the job request'],
+    }));
   }
   
-  // Try AI-based selection first
+  // Paths mentioned in the issue
+  const keywordFiles = selectFilesWithKeywords(owner, repo, issueBody);
+  const mentioned = keywordFiles.length > 0
+    ? await verifyFilesExist(owner, repo, githubToken, keywordFiles)
+    : [];
+  
+  let sourceFiles: string[] = [];
   try {
-    const aiSelectedFiles = await selectFilesWithAI(owner, repo, githubToken, issueBody);
-    
-    if (aiSelectedFiles.length > 0) {
-      return aiSelectedFiles;
-    }
+    sourceFiles = await listSourceFiles(owner, repo, githubToken);
   } catch (error) {
-    console.warn('AI file selection failed, falling back to keyword matching:', error);
+    console.warn('Reading the file tree failed, ranking without it:', error);
   }
   
-  // Fallback to keyword matching
-  const keywordFiles = selectFilesWithKeywords(owner, repo, issueBody);
+  const rankedFiles = await rankCandidateFiles(
+    { owner, repo, githubToken, issueText: issueBody, mentioned, sourceFiles },
+    DEFAULT_MAX_FILES
+  );
   
-  if (keywordFiles.length > 0) {
-    // Verify files exist
-    const validFiles = await verifyFilesExist(owner, repo, githubToken, keywordFiles);
-    return validFiles;
+  if (rankedFiles.length > 0) {
+    console.log(`✅ Ranked ${rankedFiles.length} file(s):`, rankedFiles.map(f => `${f.path} (${f.score})`));
+    return rankedFiles;
   }
   
-  // If all else fails, return empty array (caller should handle this)
+  // Nothing to go on; the caller needs related_files
   throw new Error(
     'Could not automatically select relevant files. ' +
     'Please provide specific files in the related_files parameter.'
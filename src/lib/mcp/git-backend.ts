@@ -0,0 +1,335 @@
+import { DiagnosticFilter, FileChange, GitBackendKind, GitHubAPIError, TestRunResult, ValidationResult } from '@/types/mcp';
+import {
+  getBranchSHA,
+  createBranch,
+  deleteBranch,
+  getFileContent,
+  createGitTree,
+  createCommit,
+  updateRef,
+  downloadTarball,
+} from '@/lib/mcp/github-client';
+import { validateGeneratedCode } from '@/lib/mcp/code-validator';
+import { installDependencies, runTestSuite, compareTestRuns } from '@/lib/mcp/test-runner';
+import { LocalWorktreeBackend } from '@/lib/mcp/local-worktree-backend';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const TEMP_BASE_DIR = process.env.TEMP || process.env.TMP || '/tmp';
+const SNAPSHOT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// ============================================================================
+// Backend Interface
+// ============================================================================
+
+/**
+ * Where the MCP pipeline reads files, validates changes and commits them.
+ * Pull requests, issues and comments always go through the GitHub API.
+ */
+export interface GitBackend {
+  readonly kind: GitBackendKind;
+
+  /**
+   * Create `branch` from the tip of `base` on the remote and return its SHA
+   */
+  createBranch(branch: string, base: string): Promise<string>;
+
+  /**
+   * Read a file at a branch, or null if it does not exist there
+   */
+  readFile(filePath: string, ref: string): Promise<string | null>;
+
+  /**
+   * Validate changes as they would look on top of `branch`
+   */
+  validate(branch: string, changes: FileChange[], validationKey: string): Promise<ValidationResult>;
+
+  /**
+   * Commit changes on top of `branch`, push, and return the commit SHA
+   */
+  commit(branch: string, changes: FileChange[], message: string): Promise<string>;
+
+  /**
+   * Delete a branch from the remote; a branch that is already gone is not an error
+   */
+  deleteBranch(branch: string): Promise<void>;
+
+  /**
+   * Release anything the backend holds locally
+   */
+  dispose(): Promise<void>;
+}
+
+export interface GitBackendOptions {
+  /**
+   * Run the project's test suite during validation. The worktree backend
+   * always runs it as one of the repository's checks.
+   */
+  runTests?: boolean;
+  /**
+   * The repository's diagnostic filters. The GitHub backend falls back to
+   * filters for isolated validation; the worktree backend to none.
+   */
+  diagnosticFilters?: DiagnosticFilter[];
+}
+
+// ============================================================================
+// Test Snapshots
+// ============================================================================
+
+interface TestSnapshot {
+  dir: string;
+  /** Test run on the unchanged snapshot */
+  baseline: TestRunResult | null;
+}
+
+// Snapshots are shared by every job and repair round at the same commit, so
+// dependencies are installed and the baseline runs only once. Runs on one
+// snapshot are serialized because each overlays its own changes.
+const testSnapshots = new Map<string, Promise<TestSnapshot>>();
+const snapshotQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Download, install and baseline-test the repository at a commit
+ */
+function getTestSnapshot(owner: string, repo: string, sha: string): Promise<TestSnapshot> {
+  const key = `${owner}/${repo}@${sha}`;
+  const existing = testSnapshots.get(key);
+  if (existing) return existing;
+
+  const snapshot = (async () => {
+    const dir = path.join(TEMP_BASE_DIR, `mcp-tests-${owner}-${repo}-${sha.slice(0, 12)}`);
+    const archive = `${dir}.tar.gz`;
+
+    console.log(`📦 Preparing test snapshot of ${key}...`);
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(archive, await downloadTarball(owner, repo, sha));
+
+    try {
+      await execFileAsync('tar', ['-xzf', archive, '--strip-components=1', '-C', dir]);
+    } finally {
+      await fs.rm(archive, { force: true });
+    }
+
+    const install = await installDependencies(dir);
+    if (!install.ok) {
+      console.warn(`⚠️ Dependency install failed for ${key}`);
+    }
+
+    const baseline = await runTestSuite(dir);
+
+    setTimeout(() => {
+      testSnapshots.delete(key);
+      snapshotQueues.delete(key);
+      fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+    }, SNAPSHOT_TTL_MS).unref?.();
+
+    return { dir, baseline };
+  })();
+
+  testSnapshots.set(key, snapshot);
+  snapshot.catch(() => testSnapshots.delete(key));
+
+  return snapshot;
+}
+
+/**
+ * Run the test suite with changes written over the snapshot, then put the
+ * snapshot back the way it was
+ */
+function runTestsWithChanges(
+  key: string,
+  snapshot: TestSnapshot,
+  changes: FileChange[]
+): Promise<TestRunResult | null> {
+  const run = async () => {
+    const originals = new Map<string, string | null>();
+
+    try {
+      for (const change of changes) {
+        const filePath = path.resolve(snapshot.dir, change.path);
+
+        if (!filePath.startsWith(snapshot.dir + path.sep)) {
+          throw new Error(`Refusing to write outside the test snapshot: ${change.path}`);
+        }
+
+        originals.set(filePath, await fs.readFile(filePath, 'utf-8').catch(() => null));
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, change.content, 'utf-8');
+      }
+
+      return await runTestSuite(snapshot.dir);
+    } finally {
+      for (const [filePath, content] of Array.from(originals)) {
+        if (content === null) {
+          await fs.rm(filePath, { force: true });
+        } else {
+          await fs.writeFile(filePath, content, 'utf-8');
+        }
+      }
+    }
+  };
+
+  const previous = snapshotQueues.get(key) || Promise.resolve();
+  const result = previous.then(run, run);
+  snapshotQueues.set(key, result.catch(() => undefined));
+
+  return result;
+}
+
+// ============================================================================
+// GitHub API Backend
+// ============================================================================
+
+/**
+ * Commits through the Git Data API and validates in an isolated temp dir.
+ * Needs nothing on disk besides the generated files, unless tests are run
+ * against a snapshot of the branch.
+ */
+export class GitHubApiBackend implements GitBackend {
+  readonly kind = 'github' as const;
+
+  constructor(private owner: string, private repo: string, private options: GitBackendOptions = {}) {}
+
+  async createBranch(branch: string, base: string): Promise<string> {
+    const baseSHA = await getBranchSHA(this.owner, this.repo, base);
+    await createBranch(this.owner, this.repo, branch, baseSHA);
+    return baseSHA;
+  }
+
+  async readFile(filePath: string, ref: string): Promise<string | null> {
+    try {
+      const fileData = await getFileContent(this.owner, this.repo, filePath, ref);
+      return Buffer.from(fileData.content, 'base64').toString('utf-8');
+    } catch (error) {
+      if (error instanceof GitHubAPIError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async validate(branch: string, changes: FileChange[], validationKey: string): Promise<ValidationResult> {
+    const result = await validateGeneratedCode(
+      changes.map(change => ({
+        path: change.path,
+        content: change.content,
+      })),
+      validationKey,
+      {
+        fileExists: async (filePath) => (await this.readFile(filePath, branch)) !== null,
+        diagnosticFilters: this.options.diagnosticFilters,
+      }
+    );
+
+    // Tests only run once the code compiles
+    if (!this.options.runTests || !result.valid) {
+      return result;
+    }
+
+    let tests: TestRunResult | null;
+    let baseline: TestRunResult | null;
+
+    try {
+      const sha = await getBranchSHA(this.owner, this.repo, branch);
+      const snapshot = await getTestSnapshot(this.owner, this.repo, sha);
+      tests = await runTestsWithChanges(`${this.owner}/${this.repo}@${sha}`, snapshot, changes);
+      baseline = snapshot.baseline;
+    } catch (error: any) {
+      console.error('Test run failed:', error);
+      return { ...result, warnings: [...(result.warnings || []), `Tests skipped: ${error.message}`] };
+    }
+
+    if (!tests) {
+      return { ...result, warnings: [...(result.warnings || []), 'Tests skipped: no test command found'] };
+    }
+
+    const comparison = compareTestRuns(baseline, tests);
+
+    return {
+      ...result,
+      valid: comparison.errors.length === 0,
+      errors: [...result.errors, ...comparison.errors],
+      warnings: [...(result.warnings || []), ...comparison.warnings],
+      tests,
+    };
+  }
+
+  async commit(branch: string, changes: FileChange[], message: string): Promise<string> {
+    // Get the base tree SHA from the branch
+    const branchSHA = await getBranchSHA(this.owner, this.repo, branch);
+
+    // Create tree with all file changes
+    const tree = await createGitTree(
+      this.owner,
+      this.repo,
+      branchSHA,
+      changes.map(change => ({
+        path: change.path,
+        mode: '100644',
+        type: 'blob' as const,
+        content: change.content,
+      }))
+    );
+
+    const commit = await createCommit(this.owner, this.repo, message, tree.sha, branchSHA);
+
+    // Update branch reference
+    await updateRef(this.owner, this.repo, branch, commit.sha);
+
+    return commit.sha;
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    try {
+      await deleteBranch(this.owner, this.repo, branch);
+    } catch (error) {
+      // GitHub answers 422 "Reference does not exist" for missing refs
+      if (error instanceof GitHubAPIError && (error.statusCode === 404 || error.statusCode === 422)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async dispose(): Promise<void> {
+    // Nothing held locally
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create the backend for a job. Defaults to MCP_GIT_BACKEND, then 'github';
+ * tests run when MCP_RUN_TESTS is 'true' unless the options say otherwise.
+ */
+export function createGitBackend(
+  owner: string,
+  repo: string,
+  jobId: string,
+  kind: GitBackendKind = (process.env.MCP_GIT_BACKEND as GitBackendKind) || 'github',
+  options: GitBackendOptions = {}
+): GitBackend {
+  switch (kind) {
+    case 'worktree':
+      return new LocalWorktreeBackend(owner, repo, jobId, options);
+    case 'github':
+      return new GitHubApiBackend(owner, repo, {
+        ...options,
+        runTests: options.runTests ?? process.env.MCP_RUN_TESTS === 'true',
+      });
+    default:
+      throw new Error(`Unknown MCP_GIT_BACKEND "${kind}". Use "github" or "worktree".`);
+  }
+}
@@ -100,6 +100,11 @@ export async function safeGithubCall<T>(
         throw new GitHubAPIError(errorMessage, response.status, { errorText });
       }
 
+      // No Content (e.g. DELETE) - nothing to parse
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
       // Success - parse JSON response
       const data = await response.json();
       
@@ -210,6 +215,26 @@ export async function createBranch(
   );
 }
 
+/**
+ * Delete a branch
+ */
+export async function deleteBranch(
+  owner: string,
+  repo: string,
+  branchName: string
+): Promise<void> {
+  await safeGithubCall<void>(() =>
+    fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/refs/heads/${branchName}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+}
+
 /**
  * Get file content from repository
  */
@@ -352,40 +377,205 @@ export async function createDraftPR(
   );
 
   // Add labels to the PR
-  if (labels.length > 0) {
-    await safeGithubCall(() =>
-      fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${pr.number}/labels`, {
-        method: 'POST',
+  await addLabels(owner, repo, pr.number, labels);
+
+  return pr;
+}
+
+/**
+ * Get a pull request, including its head and base refs
+ */
+export async function getPullRequest(
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<GitHubPullRequest> {
+  return safeGithubCall<GitHubPullRequest>(() =>
+    fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${prNumber}`, {
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+}
+
+/**
+ * List the paths of files changed by a pull request
+ */
+export async function listPullRequestFiles(
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<string[]> {
+  const files = await safeGithubCall<Array<{ filename: string; status: string }>>(() =>
+    fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${prNumber}/files?per_page=100`, {
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+  
+  return files.filter(file => file.status !== 'removed').map(file => file.filename);
+}
+
+/**
+ * List the SHAs of the most recent commits on the default branch that touched a path
+ */
+export async function listCommitsForPath(
+  owner: string,
+  repo: string,
+  path: string,
+  perPage: number = 10
+): Promise<string[]> {
+  const url = new URL(`${GITHUB_API_BASE}/repos/${owner}/${repo}/commits`);
+  url.searchParams.set('path', path);
+  url.searchParams.set('per_page', String(perPage));
+  
+  const commits = await safeGithubCall<Array<{ sha: string }>>(() =>
+    fetch(url.toString(), {
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+  
+  return commits.map(commit => commit.sha);
+}
+
+/**
+ * List the paths of files changed by a commit
+ */
+export async function listCommitFiles(
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<string[]> {
+  const commit = await safeGithubCall<{ files?: Array<{ filename: string }> }>(() =>
+    fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${sha}`, {
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+  
+  return (commit.files || []).map(file => file.filename);
+}
+
+/**
+ * The login of a GitHub user, by numeric ID
+ */
+export async function getUserLogin(userId: string): Promise<string> {
+  const user = await safeGithubCall<{ login: string }>(() =>
+    fetch(`${GITHUB_API_BASE}/user/${userId}`, {
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+  
+  return user.login;
+}
+
+/**
+ * The login of the user a GitHub access token belongs to
+ */
+export async function getAuthenticatedLogin(accessToken: string): Promise<string> {
+  const user = await safeGithubCall<{ login: string }>(() =>
+    fetch(`${GITHUB_API_BASE}/user`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    })
+  );
+  
+  return user.login;
+}
+
+/**
+ * A user's permission on a repository: admin, write, read or none. Users that
+ * GitHub doesn't know have none.
+ */
+export async function getRepoPermission(
+  owner: string,
+  repo: string,
+  username: string
+): Promise<string> {
+  try {
+    const result = await safeGithubCall<{ permission: string }>(() =>
+      fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/collaborators/${encodeURIComponent(username)}/permission`, {
         headers: {
           'Authorization': `Bearer ${GITHUB_TOKEN}`,
           'Accept': 'application/vnd.github+json',
           'X-GitHub-Api-Version': '2022-11-28',
-          'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          labels,
-        }),
       })
     );
+    
+    return result.permission;
+  } catch (error) {
+    if (error instanceof GitHubAPIError && error.statusCode === 404) {
+      return 'none';
+    }
+    throw error;
   }
+}
 
-  return pr;
+/**
+ * Add labels to an issue or pull request
+ */
+export async function addLabels(
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  labels: string[]
+): Promise<void> {
+  if (labels.length === 0) {
+    return;
+  }
+  
+  await safeGithubCall(() =>
+    fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issueNumber}/labels`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        labels,
+      }),
+    })
+  );
 }
 
 /**
- * Post a comment on an issue
+ * Post a comment on an issue, as GitPulse unless a user's token is given
  */
 export async function postIssueComment(
   owner: string,
   repo: string,
   issueNumber: number,
-  body: string
+  body: string,
+  accessToken?: string
 ): Promise<void> {
   await safeGithubCall(() =>
     fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issueNumber}/comments`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Authorization': `Bearer ${accessToken || GITHUB_TOKEN}`,
         'Accept': 'application/vnd.github+json',
         'X-GitHub-Api-Version': '2022-11-28',
         'Content-Type': 'application/json',
@@ -396,3 +586,56 @@ export async function postIssueComment(
     })
   );
 }
+
+/**
+ * Close an issue as completed
+ */
+export async function closeIssue(
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<void> {
+  await safeGithubCall(() =>
+    fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/issues/${issueNumber}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${GITHUB_TOKEN}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        state: 'closed',
+        state_reason: 'completed',
+      }),
+    })
+  );
+}
+
+/**
+ * Download a gzipped tarball of the repository at a commit
+ */
+export async function downloadTarball(
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<Buffer> {
+  // The endpoint redirects to codeload and returns the archive itself
+  const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/tarball/${ref}`, {
+    headers: {
+      'Authorization': `Bearer ${GITHUB_TOKEN}`,
+      'Accept': 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    },
+    redirect: 'follow',
+  });
+  
+  if (!response.ok) {
+    throw new GitHubAPIError(
+      `Failed to download ${owner}/${repo}@${ref}: ${response.statusText}`,
+      response.status
+    );
+  }
+  
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -102,6 +102,9 @@ export interface GitHubReviewComment extends GitHubComment {
   path: string;
   position?: number;
   line?: number;
+  original_line?: number;
+  pull_request_review_id?: number;
+  in_reply_to_id?: number;
   commit_id: string;
   diff_hunk: string;
 }
@@ -0,0 +1,104 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { LocalWorktreeBackend as Backend } from '@/lib/mcp/local-worktree-backend';
+
+// Works against a local bare repository through MCP_GIT_REMOTE_URL, so it
+// needs git but no network
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-backend-'));
+const remote = path.join(root, 'remotes', 'acme', 'widgets.git');
+
+function git(args: string[], cwd: string = remote): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' });
+}
+
+describe('LocalWorktreeBackend', () => {
+  let LocalWorktreeBackend: typeof Backend;
+  let baseSHA: string;
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+
+    // A bare remote whose main branch has one commit
+    const seed = path.join(root, 'seed');
+    fs.mkdirSync(seed, { recursive: true });
+    git(['init', '--quiet', '--initial-branch=main'], seed);
+    fs.writeFileSync(path.join(seed, 'README.md'), '# Widgets\n');
+    git(['add', 'README.md'], seed);
+    git(['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '--quiet', '-m', 'Initial commit'], seed);
+    fs.mkdirSync(path.dirname(remote), { recursive: true });
+    git(['clone', '--quiet', '--bare', seed, remote], root);
+    baseSHA = git(['rev-parse', 'main']).trim();
+
+    process.env.MCP_GIT_REMOTE_URL = `file://${path.join(root, 'remotes')}/{owner}/{repo}.git`;
+    process.env.MCP_WORKTREE_ROOT = path.join(root, 'worktrees');
+    process.env.MCP_WORKTREE_INSTALL = 'false';
+    ({ LocalWorktreeBackend } = await import('@/lib/mcp/local-worktree-backend'));
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('creates branches on the remote from the base branch', async () => {
+    const backend = new LocalWorktreeBackend('acme', 'widgets', 'job-1');
+
+    assert.equal(await backend.createBranch('ai/fix-1', 'main'), baseSHA);
+    assert.equal(git(['rev-parse', 'ai/fix-1']).trim(), baseSHA);
+    await backend.dispose();
+  });
+
+  it('reads files at a ref, and null for missing ones', async () => {
+    const backend = new LocalWorktreeBackend('acme', 'widgets', 'job-2');
+
+    assert.equal(await backend.readFile('README.md', 'main'), '# Widgets\n');
+    assert.equal(await backend.readFile('missing.ts', 'main'), null);
+    await backend.dispose();
+  });
+
+  it('commits and pushes changes to the branch', async () => {
+    const backend = new LocalWorktreeBackend('acme', 'widgets', 'job-3');
+    await backend.createBranch('ai/fix-3', 'main');
+
+    const sha = await backend.commit('ai/fix-3', [
+      { path: 'src/widget.ts', content: 'export const size = 3;\n', mode: '100644', summary: 'Add widget' },
+    ], 'AI: add widget');
+    await backend.dispose();
+
+    assert.equal(git(['rev-parse', 'ai/fix-3']).trim(), sha);
+    assert.equal(git(['show', 'ai/fix-3:src/widget.ts']), 'export const size = 3;\n');
+    assert.equal(git(['rev-parse', 'ai/fix-3^']).trim(), baseSHA);
+  });
+
+  it('deletes branches, including ones already gone', async () => {
+    const backend = new LocalWorktreeBackend('acme', 'widgets', 'job-4');
+    await backend.createBranch('ai/fix-4', 'main');
+
+    await backend.deleteBranch('ai/fix-4');
+    await backend.deleteBranch('ai/fix-4');
+    await backend.dispose();
+
+    assert.equal(git(['branch', '--list', 'ai/fix-4']).trim(), '');
+  });
+
+  it('lets jobs on the same repository share its clone at the same time', async () => {
+    const backends = ['a', 'b', 'c'].map(id => new LocalWorktreeBackend('acme', 'widgets', `job-5${id}`));
+
+    // Each refreshes the clone, then adds a worktree and pushes a commit
+    const shas = await Promise.all(backends.map(async (backend, index) => {
+      const branch = `ai/fix-5-${index}`;
+      await backend.createBranch(branch, 'main');
+      return backend.commit(branch, [
+        { path: `file-${index}.txt`, content: `${index}\n`, mode: '100644', summary: 'Add file' },
+      ], `AI: add file ${index}`);
+    }));
+    await Promise.all(backends.map(backend => backend.dispose()));
+
+    shas.forEach((sha, index) => assert.equal(git(['rev-parse', `ai/fix-5-${index}`]).trim(), sha));
+  });
+});
@@ -0,0 +1,350 @@
+import { FileChange, GitCommandError, ValidationResult } from '@/types/mcp';
+import type { GitBackend, GitBackendOptions } from '@/lib/mcp/git-backend';
+import { runRepoChecks, compareRepoChecks, RepoCheckResult } from '@/lib/mcp/code-validator';
+import { installDependencies } from '@/lib/mcp/test-runner';
+import { runValidators, formatDiagnostic } from '@/lib/mcp/validator-registry';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+const TEMP_BASE_DIR = process.env.TEMP || process.env.TMP || '/tmp';
+const WORKTREE_ROOT = process.env.MCP_WORKTREE_ROOT || path.join(TEMP_BASE_DIR, 'mcp-worktrees');
+const GIT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes, enough for a first clone
+const COMMIT_AUTHOR_NAME = process.env.MCP_GIT_AUTHOR_NAME || 'GitPulse AI';
+const COMMIT_AUTHOR_EMAIL = process.env.MCP_GIT_AUTHOR_EMAIL || 'gitpulse-ai@users.noreply.github.com';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Remote to clone from. MCP_GIT_REMOTE_URL may point elsewhere, e.g. a local
+ * bare repository: file:///srv/git/{owner}/{repo}.git
+ *
+ * The URL never carries credentials: the clone outlives the job and
+ * repository scripts run inside its worktrees, so anything in .git/config is
+ * readable by them. See gitAuthEnv.
+ */
+function getRemoteUrl(owner: string, repo: string): string {
+  const template = process.env.MCP_GIT_REMOTE_URL;
+
+  if (template) {
+    return template.replace('{owner}', owner).replace('{repo}', repo);
+  }
+
+  if (!GITHUB_TOKEN) {
+    throw new Error('GitHub token not configured. Set GITHUB_TOKEN environment variable.');
+  }
+
+  return `https://github.com/${owner}/${repo}.git`;
+}
+
+/**
+ * The token as a Basic credential, the form git expects for GitHub over HTTPS
+ */
+function githubCredential(): string | null {
+  return GITHUB_TOKEN ? Buffer.from(`x-access-token:${GITHUB_TOKEN}`).toString('base64') : null;
+}
+
+/**
+ * Per-command config that authenticates requests to GitHub. It goes through
+ * git's GIT_CONFIG_* variables rather than `-c`, so the token is neither
+ * written to the clone's config nor visible on the command line in `ps` or
+ * /proc/<pid>/cmdline; only git itself sees the environment.
+ */
+function gitAuthEnv(): Record<string, string> {
+  const credential = githubCredential();
+  if (process.env.MCP_GIT_REMOTE_URL || !credential) return {};
+
+  return {
+    GIT_CONFIG_COUNT: '1',
+    GIT_CONFIG_KEY_0: 'http.https://github.com/.extraheader',
+    GIT_CONFIG_VALUE_0: `Authorization: Basic ${credential}`,
+  };
+}
+
+/**
+ * Git commands that write to a shared clone, by clone directory. Jobs on the
+ * same repository share its clone, so their fetches, pushes and worktree
+ * changes take turns rather than failing on git's lock files.
+ */
+const cloneLocks = new Map<string, Promise<unknown>>();
+
+function withCloneLock<T>(cloneDir: string, task: () => Promise<T>): Promise<T> {
+  const previous = cloneLocks.get(cloneDir) ?? Promise.resolve();
+  const run = previous.then(task, task);
+  const settled = run.then(() => undefined, () => undefined);
+
+  cloneLocks.set(cloneDir, settled);
+  settled.then(() => {
+    if (cloneLocks.get(cloneDir) === settled) cloneLocks.delete(cloneDir);
+  });
+
+  return run;
+}
+
+/**
+ * Keep the token out of errors and logs
+ */
+function redact(text: string): string {
+  const credential = githubCredential();
+  if (!GITHUB_TOKEN || !credential) return text;
+
+  return text.split(GITHUB_TOKEN).join('***').split(credential).join('***');
+}
+
+// ============================================================================
+// Local Worktree Backend
+// ============================================================================
+
+/**
+ * Works in a real checkout: one shared clone per repository under
+ * MCP_WORKTREE_ROOT and a detached worktree per job and branch. Validation
+ * installs dependencies and runs the repository's own typecheck, lint and
+ * test scripts, compared against the same checks on the unchanged branch.
+ */
+export class LocalWorktreeBackend implements GitBackend {
+  readonly kind = 'worktree' as const;
+
+  private cloneDir: string;
+  private cloneReady: Promise<void> | null = null;
+  private worktrees = new Map<string, string>();
+  /** Baseline checks keyed by the commit they ran on */
+  private baselines = new Map<string, RepoCheckResult[]>();
+  private installed = new Set<string>();
+
+  constructor(
+    private owner: string,
+    private repo: string,
+    private jobId: string,
+    private options: GitBackendOptions = {}
+  ) {
+    this.cloneDir = path.join(WORKTREE_ROOT, 'repos', owner, repo);
+  }
+
+  async createBranch(branch: string, base: string): Promise<string> {
+    await this.ensureClone();
+    const baseSHA = (await this.git(['rev-parse', `refs/remotes/origin/${base}`])).trim();
+
+    // Pushing also updates refs/remotes/origin/<branch>
+    await withCloneLock(this.cloneDir, () => this.git(['push', 'origin', `${baseSHA}:refs/heads/${branch}`]));
+
+    return baseSHA;
+  }
+
+  async readFile(filePath: string, ref: string): Promise<string | null> {
+    await this.ensureClone();
+
+    try {
+      return await this.git(['show', `refs/remotes/origin/${ref}:${filePath}`]);
+    } catch (error: any) {
+      if (/does not exist in|exists on disk, but not in/.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async validate(branch: string, changes: FileChange[], validationKey: string): Promise<ValidationResult> {
+    const worktree = await this.ensureWorktree(branch);
+    await this.resetWorktree(worktree);
+    await this.installDependencies(worktree);
+
+    const head = (await this.git(['rev-parse', 'HEAD'], worktree)).trim();
+    let baseline = this.baselines.get(head);
+
+    if (!baseline) {
+      console.log(`🔍 Running baseline checks on ${branch} (${head.slice(0, 7)})...`);
+      baseline = await runRepoChecks(worktree);
+      this.baselines.set(head, baseline);
+    }
+
+    await this.writeChanges(worktree, changes);
+
+    console.log(`🔍 Validating ${changes.length} file(s) with the repository's own checks (${validationKey})...`);
+    const current = await runRepoChecks(worktree);
+    const result = compareRepoChecks(baseline, current, worktree, this.options.diagnosticFilters);
+
+    if (current.length === 0) {
+      result.warnings = [...(result.warnings || []), 'Repository defines no typecheck, lint or test checks'];
+    }
+
+    // The repository's checks rarely cover config and docs, so run the plugins too
+    const plugins = await runValidators(changes, {
+      rootDir: worktree,
+      fileExists: (filePath) => fs.access(path.join(worktree, filePath)).then(() => true, () => false),
+    });
+    const pluginErrors = plugins.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+
+    return {
+      ...result,
+      valid: result.valid && pluginErrors.length === 0,
+      errors: [...result.errors, ...pluginErrors.map(formatDiagnostic)],
+      warnings: [...(result.warnings || []), ...plugins.warnings],
+      diagnostics: [...(result.diagnostics || []), ...plugins.diagnostics],
+    };
+  }
+
+  async commit(branch: string, changes: FileChange[], message: string): Promise<string> {
+    const worktree = await this.ensureWorktree(branch);
+    await this.resetWorktree(worktree);
+    await this.writeChanges(worktree, changes);
+
+    await this.git(['add', '--', ...changes.map(change => change.path)], worktree);
+    await this.git([
+      '-c', `user.name=${COMMIT_AUTHOR_NAME}`,
+      '-c', `user.email=${COMMIT_AUTHOR_EMAIL}`,
+      'commit', '--allow-empty', '--no-verify', '-m', message,
+    ], worktree);
+    await withCloneLock(this.cloneDir, () => this.git(['push', 'origin', `HEAD:refs/heads/${branch}`], worktree));
+
+    return (await this.git(['rev-parse', 'HEAD'], worktree)).trim();
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    await this.ensureClone();
+    await this.removeWorktree(branch);
+
+    try {
+      await withCloneLock(this.cloneDir, () => this.git(['push', 'origin', '--delete', branch]));
+    } catch (error: any) {
+      if (/remote ref does not exist/.test(error.message)) {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  async dispose(): Promise<void> {
+    for (const branch of Array.from(this.worktrees.keys())) {
+      try {
+        await this.removeWorktree(branch);
+      } catch (error) {
+        console.error(`Failed to remove worktree for ${branch}:`, error);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private async git(args: string[], cwd: string = this.cloneDir): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: 1024 * 1024 * 50, // 50MB buffer for large files
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...gitAuthEnv() },
+      });
+      return stdout;
+    } catch (error: any) {
+      throw new GitCommandError(args[0], redact((error.stderr || error.message || '').trim()));
+    }
+  }
+
+  /**
+   * Clone the repository once, or refresh an existing clone
+   */
+  private ensureClone(): Promise<void> {
+    if (!this.cloneReady) {
+      this.cloneReady = withCloneLock(this.cloneDir, async () => {
+        const remoteUrl = getRemoteUrl(this.owner, this.repo);
+        const hasClone = await fs.access(path.join(this.cloneDir, '.git')).then(() => true, () => false);
+
+        if (hasClone) {
+          // Also strips the token from remotes of clones made before it was passed per command
+          await this.git(['remote', 'set-url', 'origin', remoteUrl]);
+          await this.git(['fetch', '--prune', 'origin']);
+          await this.git(['worktree', 'prune']);
+        } else {
+          console.log(`📦 Cloning ${this.owner}/${this.repo} into ${this.cloneDir}...`);
+          await fs.mkdir(path.dirname(this.cloneDir), { recursive: true });
+          await this.git(['clone', '--no-checkout', remoteUrl, this.cloneDir], WORKTREE_ROOT);
+        }
+      });
+
+      // Let the next call retry after a failed clone or fetch
+      this.cloneReady.catch(() => {
+        this.cloneReady = null;
+      });
+    }
+
+    return this.cloneReady;
+  }
+
+  /**
+   * Check out the tip of a remote branch in this job's worktree for it
+   */
+  private async ensureWorktree(branch: string): Promise<string> {
+    const existing = this.worktrees.get(branch);
+    if (existing) return existing;
+
+    await this.ensureClone();
+    const worktree = path.join(WORKTREE_ROOT, 'jobs', `${this.jobId}-${branch.replace(/[^\w.-]+/g, '-')}`);
+
+    await withCloneLock(this.cloneDir, async () => {
+      await this.git(['fetch', 'origin', `+refs/heads/${branch}:refs/remotes/origin/${branch}`]);
+      await fs.rm(worktree, { recursive: true, force: true });
+      await this.git(['worktree', 'prune']);
+
+      // Detached so several jobs can work on the same branch name over time
+      await this.git(['worktree', 'add', '--detach', worktree, `refs/remotes/origin/${branch}`]);
+    });
+    this.worktrees.set(branch, worktree);
+
+    return worktree;
+  }
+
+  private async removeWorktree(branch: string): Promise<void> {
+    const worktree = this.worktrees.get(branch);
+    if (!worktree) return;
+
+    this.worktrees.delete(branch);
+    await withCloneLock(this.cloneDir, () => this.git(['worktree', 'remove', '--force', worktree]));
+    console.log(`🧹 Removed worktree: ${worktree}`);
+  }
+
+  /**
+   * Drop changes written by a previous validation. Ignored files such as
+   * node_modules survive, so dependencies are installed once per worktree.
+   */
+  private async resetWorktree(worktree: string): Promise<void> {
+    await this.git(['reset', '--hard', '--quiet', 'HEAD'], worktree);
+    await this.git(['clean', '-fd', '--quiet'], worktree);
+  }
+
+  private async installDependencies(worktree: string): Promise<void> {
+    if (this.installed.has(worktree) || process.env.MCP_WORKTREE_INSTALL === 'false') return;
+    this.installed.add(worktree);
+
+    const { ok, output } = await installDependencies(worktree);
+
+    if (!ok) {
+      // Checks will fail the same way on the baseline, so only their new
+      // failures count; keep going rather than failing the job here
+      console.warn(`⚠️ Dependency install failed: ${redact(output.slice(-2000))}`);
+    }
+  }
+
+  private async writeChanges(worktree: string, changes: FileChange[]): Promise<void> {
+    for (const change of changes) {
+      const filePath = path.resolve(worktree, change.path);
+
+      if (!filePath.startsWith(worktree + path.sep)) {
+        throw new Error(`Refusing to write outside the worktree: ${change.path}`);
+      }
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, change.content, 'utf-8');
+    }
+  }
+}
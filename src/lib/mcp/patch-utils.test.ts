@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFilePatch, createUnifiedDiff, parseUnifiedDiff } from '@/lib/mcp/patch-utils';
+
+const base = [
+  'import { size } from "./size";',
+  '',
+  'export function area(width: number) {',
+  '  return width * size;',
+  '}',
+  '',
+  'export function perimeter(width: number) {',
+  '  return 2 * (width + size);',
+  '}',
+  '',
+].join('\n');
+
+const patch = [
+  '--- a/src/shape.ts',
+  '+++ b/src/shape.ts',
+  '@@ -7,3 +7,3 @@',
+  ' export function perimeter(width: number) {',
+  '-  return 2 * (width + size);',
+  '+  return 2 * width + 2 * size;',
+  ' }',
+].join('\n');
+
+const patched = base.replace('2 * (width + size)', '2 * width + 2 * size');
+
+describe('applyFilePatch', () => {
+  it('applies a hunk at its declared position', () => {
+    const result = applyFilePatch('src/shape.ts', base, patch);
+
+    assert.equal(result.content, patched);
+    assert.equal(result.appliedHunks, 1);
+    assert.deepEqual(result.rejectedHunks, []);
+  });
+
+  it('finds hunks whose line numbers are off', () => {
+    const shifted = '// Shapes\n// Sizes are in pixels\n' + base;
+    const result = applyFilePatch('src/shape.ts', shifted, patch.replace('@@ -7,3 +7,3 @@', '@@ -3,3 +3,3 @@'));
+
+    assert.equal(result.content, '// Shapes\n// Sizes are in pixels\n' + patched);
+  });
+
+  it('rejects hunks whose context is not in the file, and fails the whole file', () => {
+    const diff = [
+      patch,
+      '@@ -1,1 +1,1 @@',
+      '-import { size } from "./dimensions";',
+      '+import { size, unit } from "./dimensions";',
+    ].join('\n');
+    const result = applyFilePatch('src/shape.ts', base, diff);
+
+    assert.equal(result.content, null);
+    assert.equal(result.appliedHunks, 1);
+    assert.deepEqual(result.rejectedHunks, [
+      { path: 'src/shape.ts', header: '@@ -1,1 +1,1 @@', reason: 'context does not match base content' },
+    ]);
+  });
+
+  it('rejects context-free hunks against an existing file', () => {
+    const result = applyFilePatch('src/shape.ts', base, '@@ -0,0 +1,1 @@\n+// Shapes');
+
+    assert.equal(result.content, null);
+    assert.equal(result.rejectedHunks[0].reason, 'hunk has no context lines to locate it in an existing file');
+  });
+
+  it('keeps CRLF line endings, whatever the diff uses', () => {
+    const crlf = base.replace(/\n/g, '\r\n');
+
+    assert.equal(applyFilePatch('src/shape.ts', crlf, patch).content, patched.replace(/\n/g, '\r\n'));
+    assert.equal(
+      applyFilePatch('src/shape.ts', crlf, patch.replace(/\n/g, '\r\n')).content,
+      patched.replace(/\n/g, '\r\n')
+    );
+  });
+
+  it('creates new files from /dev/null diffs', () => {
+    const diff = createUnifiedDiff('src/unit.ts', '', 'export const unit = "px";\n');
+    const result = applyFilePatch('src/unit.ts', '', diff);
+
+    assert.equal(result.content, 'export const unit = "px";\n');
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('round-trips through applyFilePatch', () => {
+    const diff = createUnifiedDiff('src/shape.ts', base, patched);
+
+    assert.equal(applyFilePatch('src/shape.ts', base, diff).content, patched);
+  });
+
+  it('splits multi-file diffs by their headers', () => {
+    const files = parseUnifiedDiff([
+      createUnifiedDiff('src/shape.ts', base, patched),
+      createUnifiedDiff('src/unit.ts', '', 'export const unit = "px";'),
+    ].join('\n'));
+
+    assert.deepEqual(files.map(file => [file.path, file.isNew]), [['src/shape.ts', false], ['src/unit.ts', true]]);
+  });
+});
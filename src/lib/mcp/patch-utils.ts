@@ -0,0 +1,496 @@
+import { RejectedHunk } from '@/types/mcp';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// How far (in lines) a hunk may drift from its declared position and still apply
+const MAX_HUNK_OFFSET = 200;
+const DEFAULT_CONTEXT_LINES = 3;
+// Above this many LCS table cells the changed region is emitted as one replace block
+const MAX_LCS_CELLS = 4_000_000;
+
+const DIFF_FILE_HEADER = /^diff --git a\/(.*?) b\/(.*?)$/;
+const OLD_FILE_HEADER = /^--- (?:a\/)?(.+?)\s*$/;
+const NEW_FILE_HEADER = /^\+\+\+ (?:b\/)?(.+?)\s*$/;
+const FILE_MODE_NEW = /^new file mode \d+$/;
+const FILE_MODE_DELETED = /^deleted file mode \d+$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const BINARY_FILE = /^Binary files? /;
+const NO_NEWLINE_MARKER = /^\\ No newline at end of file/;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface DiffLine {
+  type: 'add' | 'remove' | 'context';
+  content: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  isNew: boolean;
+  isDeleted: boolean;
+  isBinary: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface PatchApplyResult {
+  path: string;
+  /** New file content, or null when the file is deleted or any hunk was rejected */
+  content: string | null;
+  appliedHunks: number;
+  rejectedHunks: RejectedHunk[];
+}
+
+// ============================================================================
+// Diff Parsing
+// ============================================================================
+
+/**
+ * Parse the lines of a single file's diff
+ */
+function parseFileDiffLines(diffLines: string[], fallbackPath?: string): FileDiff | null {
+  const file: FileDiff = {
+    path: fallbackPath || '',
+    isNew: false,
+    isDeleted: false,
+    isBinary: false,
+    hunks: [],
+  };
+
+  let currentHunk: DiffHunk | null = null;
+
+  for (const line of diffLines) {
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      if (currentHunk) {
+        file.hunks.push(currentHunk);
+      }
+
+      currentHunk = {
+        header: hunkMatch[0],
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: parseInt(hunkMatch[2] ?? '1', 10),
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: parseInt(hunkMatch[4] ?? '1', 10),
+        lines: [],
+      };
+      continue;
+    }
+
+    // Header lines only appear before the first hunk
+    if (!currentHunk) {
+      const diffMatch = line.match(DIFF_FILE_HEADER);
+      if (diffMatch) {
+        file.path = diffMatch[2];
+      } else if (FILE_MODE_NEW.test(line)) {
+        file.isNew = true;
+      } else if (FILE_MODE_DELETED.test(line)) {
+        file.isDeleted = true;
+      } else if (BINARY_FILE.test(line)) {
+        file.isBinary = true;
+      } else if (line.startsWith('--- ')) {
+        const oldMatch = line.match(OLD_FILE_HEADER);
+        if (oldMatch?.[1] === '/dev/null') {
+          file.isNew = true;
+        }
+      } else if (line.startsWith('+++ ')) {
+        const newMatch = line.match(NEW_FILE_HEADER);
+        if (newMatch?.[1] === '/dev/null') {
+          file.isDeleted = true;
+        } else if (newMatch && !file.path) {
+          file.path = newMatch[1];
+        }
+      }
+      continue;
+    }
+
+    if (NO_NEWLINE_MARKER.test(line)) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      currentHunk.lines.push({ type: 'add', content: line.substring(1) });
+    } else if (line.startsWith('-')) {
+      currentHunk.lines.push({ type: 'remove', content: line.substring(1) });
+    } else if (line.startsWith(' ')) {
+      currentHunk.lines.push({ type: 'context', content: line.substring(1) });
+    } else if (line === '') {
+      // Models frequently strip the leading space from blank context lines
+      currentHunk.lines.push({ type: 'context', content: '' });
+    }
+  }
+
+  if (currentHunk) {
+    file.hunks.push(currentHunk);
+  }
+
+  // Trailing blank context (e.g. from a final newline) never changes the result
+  for (const hunk of file.hunks) {
+    while (hunk.lines.length > 0) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last.type !== 'context' || last.content !== '') {
+        break;
+      }
+      hunk.lines.pop();
+    }
+  }
+
+  return file.path ? file : null;
+}
+
+/**
+ * Parse a multi-file unified diff (e.g. `git diff` output)
+ */
+export function parseUnifiedDiff(diffString: string): FileDiff[] {
+  const lines = diffString.replace(/\r\n/g, '\n').split('\n');
+  const fileBlocks: string[][] = [];
+  let current: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // A new file starts at a `diff --git` header, or at a plain ---/+++ pair
+    // once the current block already has hunks
+    const isGitHeader = line.startsWith('diff --git');
+    const isPlainHeader =
+      line.startsWith('--- ') &&
+      lines[i + 1]?.startsWith('+++ ') &&
+      current.some(l => HUNK_HEADER.test(l));
+
+    if ((isGitHeader || isPlainHeader) && current.length > 0) {
+      fileBlocks.push(current);
+      current = [];
+    }
+
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    fileBlocks.push(current);
+  }
+
+  return fileBlocks
+    .map(block => parseFileDiffLines(block))
+    .filter((file): file is FileDiff => file !== null);
+}
+
+/**
+ * Parse a single-file diff, falling back to the given path when the diff has no headers
+ */
+export function parseFilePatch(path: string, diff: string): FileDiff {
+  const parsed = parseFileDiffLines(diff.replace(/\r\n/g, '\n').split('\n'), path);
+
+  return {
+    ...(parsed as FileDiff),
+    // The declared path wins over whatever header the model produced
+    path,
+  };
+}
+
+// ============================================================================
+// Patch Application
+// ============================================================================
+
+/**
+ * Check whether `expected` matches `lines` starting at `position`
+ */
+function matchesAt(lines: string[], expected: string[], position: number, loose: boolean): boolean {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+
+  for (let i = 0; i < expected.length; i++) {
+    const actual = lines[position + i];
+    const wanted = expected[i];
+
+    if (loose ? actual.trimEnd() !== wanted.trimEnd() : actual !== wanted) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find where a hunk's old lines sit in the file, searching outwards from the
+ * declared position. Returns -1 when the context cannot be located.
+ */
+function locateHunk(lines: string[], expected: string[], declared: number, minPosition: number): number {
+  for (const loose of [false, true]) {
+    for (let offset = 0; offset <= MAX_HUNK_OFFSET; offset++) {
+      const candidates = offset === 0 ? [declared] : [declared - offset, declared + offset];
+
+      for (const candidate of candidates) {
+        if (candidate >= minPosition && matchesAt(lines, expected, candidate, loose)) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * The line ending a file uses, judged by its first line break
+ */
+function detectLineEnding(content: string): '\r\n' | '\n' {
+  const firstBreak = content.indexOf('\n');
+  return firstBreak > 0 && content[firstBreak - 1] === '\r' ? '\r\n' : '\n';
+}
+
+/**
+ * Apply a parsed file diff to its base content.
+ *
+ * Hunks are located by their context rather than trusting line numbers, since
+ * model-generated diffs often get those slightly wrong. Hunks whose context
+ * cannot be found are rejected and reported instead of being force-applied,
+ * and a single rejected hunk fails the whole file: the others may depend on
+ * it, so partly patched content is never returned.
+ *
+ * Hunks without old lines carry no context to locate them by. They only
+ * apply to a new file (`--- /dev/null`), which replaces any base content, or
+ * to an empty one.
+ *
+ * Diffs are matched line by line whatever their line endings, and the result
+ * keeps the line ending of the base content.
+ *
+ * @param baseContent - Current file content ('' for new files)
+ * @param fileDiff - Parsed diff for the file
+ */
+export function applyFileDiff(baseContent: string, fileDiff: FileDiff): PatchApplyResult {
+  const rejectedHunks: RejectedHunk[] = [];
+
+  if (fileDiff.isBinary) {
+    return {
+      path: fileDiff.path,
+      content: null,
+      appliedHunks: 0,
+      rejectedHunks: [{ path: fileDiff.path, header: '', reason: 'binary patches are not supported' }],
+    };
+  }
+
+  if (fileDiff.isDeleted) {
+    return { path: fileDiff.path, content: null, appliedHunks: 0, rejectedHunks };
+  }
+
+  if (fileDiff.hunks.length === 0) {
+    return {
+      path: fileDiff.path,
+      content: null,
+      appliedHunks: 0,
+      rejectedHunks: [{ path: fileDiff.path, header: '', reason: 'patch contains no hunks' }],
+    };
+  }
+
+  const lineEnding = detectLineEnding(baseContent);
+  const lines = baseContent.length > 0 && !fileDiff.isNew ? baseContent.split(/\r?\n/) : [];
+  const patchesExistingContent = lines.length > 0;
+  let appliedHunks = 0;
+  let lineOffset = 0;
+  let minPosition = 0;
+
+  for (const hunk of fileDiff.hunks) {
+    const oldLines = hunk.lines.filter(l => l.type !== 'add').map(l => l.content);
+    const newLines = hunk.lines.filter(l => l.type !== 'remove').map(l => l.content);
+
+    // A zero-length old range means "insert after line oldStart"
+    const declared = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + lineOffset);
+
+    if (oldLines.length === 0 && patchesExistingContent) {
+      rejectedHunks.push({
+        path: fileDiff.path,
+        header: hunk.header,
+        reason: 'hunk has no context lines to locate it in an existing file',
+      });
+      continue;
+    }
+
+    const position = oldLines.length === 0
+      ? Math.min(Math.max(declared, minPosition), lines.length)
+      : locateHunk(lines, oldLines, declared, minPosition);
+
+    if (position === -1) {
+      rejectedHunks.push({
+        path: fileDiff.path,
+        header: hunk.header,
+        reason: 'context does not match base content',
+      });
+      continue;
+    }
+
+    lines.splice(position, oldLines.length, ...newLines);
+    lineOffset += newLines.length - oldLines.length;
+    minPosition = position + newLines.length;
+    appliedHunks++;
+  }
+
+  return {
+    path: fileDiff.path,
+    content: appliedHunks > 0 && rejectedHunks.length === 0 ? lines.join(lineEnding) : null,
+    appliedHunks,
+    rejectedHunks,
+  };
+}
+
+/**
+ * Parse and apply a single-file diff in one step
+ */
+export function applyFilePatch(path: string, baseContent: string, diff: string): PatchApplyResult {
+  return applyFileDiff(baseContent, parseFilePatch(path, diff));
+}
+
+// ============================================================================
+// Diff Generation
+// ============================================================================
+
+/**
+ * Compute line-level diff operations between two line arrays (LCS based)
+ */
+function diffLineOps(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midOld = oldLines.slice(prefix, oldLines.length - suffix);
+  const midNew = newLines.slice(prefix, newLines.length - suffix);
+  const ops: DiffLine[] = oldLines.slice(0, prefix).map(content => ({ type: 'context', content }));
+
+  if ((midOld.length + 1) * (midNew.length + 1) > MAX_LCS_CELLS) {
+    ops.push(
+      ...midOld.map(content => ({ type: 'remove' as const, content })),
+      ...midNew.map(content => ({ type: 'add' as const, content }))
+    );
+  } else {
+    const m = midOld.length;
+    const n = midNew.length;
+    const width = n + 1;
+    const table = new Uint32Array((m + 1) * width);
+
+    for (let i = m - 1; i >= 0; i--) {
+      for (let j = n - 1; j >= 0; j--) {
+        table[i * width + j] = midOld[i] === midNew[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < m && j < n) {
+      if (midOld[i] === midNew[j]) {
+        ops.push({ type: 'context', content: midOld[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        ops.push({ type: 'remove', content: midOld[i++] });
+      } else {
+        ops.push({ type: 'add', content: midNew[j++] });
+      }
+    }
+    while (i < m) ops.push({ type: 'remove', content: midOld[i++] });
+    while (j < n) ops.push({ type: 'add', content: midNew[j++] });
+  }
+
+  ops.push(...oldLines.slice(oldLines.length - suffix).map(content => ({ type: 'context' as const, content })));
+
+  return ops;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @param path - File path used in the ---/+++ headers
+ * @param oldContent - Original content ('' for new files)
+ * @param newContent - Updated content
+ * @param contextLines - Unchanged lines to keep around each change (default 3)
+ * @returns Unified diff, or '' when the contents are identical
+ */
+export function createUnifiedDiff(
+  path: string,
+  oldContent: string,
+  newContent: string,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): string {
+  if (oldContent === newContent) {
+    return '';
+  }
+
+  const ops = diffLineOps(
+    oldContent.length > 0 ? oldContent.split('\n') : [],
+    newContent.length > 0 ? newContent.split('\n') : []
+  );
+
+  // Line positions (0-based) in the old/new file before each op
+  const oldPos: number[] = [];
+  const newPos: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldPos.push(oldLine);
+    newPos.push(newLine);
+    if (op.type !== 'add') oldLine++;
+    if (op.type !== 'remove') newLine++;
+  }
+
+  // Group changes that are close enough to share context into hunks
+  const ranges: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === 'context') {
+      return;
+    }
+
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(ops.length, index + contextLines + 1);
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  const output = [
+    `--- ${oldContent.length > 0 ? `a/${path}` : '/dev/null'}`,
+    `+++ b/${path}`,
+  ];
+
+  for (const [start, end] of ranges) {
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter(op => op.type !== 'add').length;
+    const newCount = slice.filter(op => op.type !== 'remove').length;
+    const oldStart = oldCount === 0 ? oldPos[start] : oldPos[start] + 1;
+    const newStart = newCount === 0 ? newPos[start] : newPos[start] + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of slice) {
+      const prefix = op.type === 'add' ? '+' : op.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${op.content}`);
+    }
+  }
+
+  return output.join('\n');
+}
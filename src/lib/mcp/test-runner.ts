@@ -0,0 +1,348 @@
+import { TestRunResult } from '@/types/mcp';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const TEST_TIMEOUT_MS = Number(process.env.MCP_TEST_TIMEOUT_MS || 5 * 60 * 1000);
+const TEST_MAX_MEMORY_MB = Number(process.env.MCP_TEST_MAX_MEMORY_MB || 2048);
+const INSTALL_TIMEOUT_MS = Number(process.env.MCP_INSTALL_TIMEOUT_MS || 10 * 60 * 1000);
+// Enforced by prlimit on every process repository code starts
+const SANDBOX_MAX_MEMORY_MB = Number(process.env.MCP_SANDBOX_MAX_MEMORY_MB || 2 * TEST_MAX_MEMORY_MB);
+const SANDBOX_MAX_PROCESSES = Number(process.env.MCP_SANDBOX_MAX_PROCESSES || 512);
+// Lets installs run the dependencies' lifecycle scripts, for packages that
+// build native code or download binaries in postinstall
+const INSTALL_SCRIPTS = process.env.MCP_INSTALL_SCRIPTS === 'true';
+const MAX_OUTPUT_BYTES = 1024 * 1024; // Keep the last 1MB of output
+const MAX_FAILING_TESTS = 20;
+const OUTPUT_TAIL_LINES = 20;
+
+// Failing test lines from common runners: jest/vitest, jest file headers,
+// node:test and other TAP output, pytest and go test
+const FAILING_TEST_PATTERNS = [
+  /^\s*(?:✕|×|✗)\s+(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?$/,
+  /^\s*FAIL\s+(\S+\.\w+)/,
+  /^not ok \d+ - (.+)$/,
+  /^FAILED (\S+)/,
+  /^--- FAIL: (\S+)/,
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CommandSpec {
+  command: string;
+  args: string[];
+  /** Run through the shell, for commands given as a single string */
+  shell?: boolean;
+}
+
+interface CommandOutput {
+  code: number | null;
+  output: string;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+// ============================================================================
+// Process Helpers
+// ============================================================================
+
+async function fileExists(repoDir: string, file: string): Promise<boolean> {
+  return fs.access(path.join(repoDir, file)).then(() => true, () => false);
+}
+
+/**
+ * Environment for repository code: only what toolchains need, with HOME
+ * pointed at a scratch directory so the server's ~/.npmrc, ~/.gitconfig and
+ * the like aren't picked up. This keeps secrets out of the environment
+ * variables repository code is handed, but it is not isolation: the code
+ * still runs as the server's user and can read whatever that user can,
+ * including the server's own /proc/<pid>/environ. Run the MCP server under
+ * a dedicated user or in a container that holds nothing else.
+ */
+export function sandboxEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {
+    CI: 'true',
+    FORCE_COLOR: '0',
+    NODE_ENV: 'test',
+    NODE_OPTIONS: `--max-old-space-size=${TEST_MAX_MEMORY_MB}`,
+    HOME: path.join(os.tmpdir(), 'mcp-sandbox-home'),
+  };
+
+  for (const key of ['PATH', 'LANG', 'TMPDIR', 'TEMP', 'TMP', 'SystemRoot', 'GOPATH', 'GOCACHE']) {
+    if (process.env[key]) env[key] = process.env[key];
+  }
+
+  return env;
+}
+
+let prlimitCheck: Promise<boolean> | null = null;
+
+function hasPrlimit(): Promise<boolean> {
+  if (!prlimitCheck) {
+    prlimitCheck = process.platform === 'linux'
+      ? execFileAsync('prlimit', ['--version']).then(() => true, () => {
+          console.warn('⚠️ prlimit not found; repository commands run without memory and process limits');
+          return false;
+        })
+      : Promise.resolve(false);
+  }
+  return prlimitCheck;
+}
+
+/**
+ * Wrap a command in prlimit, capping the memory (RLIMIT_DATA) of each
+ * process it starts and the number of processes (RLIMIT_NPROC) the server's
+ * user may have while it runs. Root ignores RLIMIT_NPROC. Without prlimit
+ * (macOS, Windows, minimal images) the command is returned unchanged, and
+ * only the Node heap limit from sandboxEnv applies.
+ */
+export async function withResourceLimits(spec: CommandSpec): Promise<CommandSpec> {
+  if (!(await hasPrlimit())) return spec;
+
+  const command = spec.shell
+    ? ['sh', '-c', [spec.command, ...spec.args].join(' ')]
+    : [spec.command, ...spec.args];
+
+  return {
+    command: 'prlimit',
+    args: [
+      `--data=${SANDBOX_MAX_MEMORY_MB * 1024 * 1024}`,
+      `--nproc=${SANDBOX_MAX_PROCESSES}`,
+      '--',
+      ...command,
+    ],
+  };
+}
+
+/**
+ * Run a command in its own process group with resource limits, killing the
+ * whole group when it runs past the timeout
+ */
+async function runSandboxed(repoDir: string, command: CommandSpec, timeoutMs: number): Promise<CommandOutput> {
+  const startedAt = Date.now();
+  const spec = await withResourceLimits(command);
+
+  return new Promise((resolve) => {
+    const child = spawn(spec.command, spec.args, {
+      cwd: repoDir,
+      env: sandboxEnv(),
+      shell: spec.shell || process.platform === 'win32',
+      detached: process.platform !== 'win32',
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let output = '';
+    let timedOut = false;
+
+    const append = (chunk: Buffer) => {
+      output += chunk.toString('utf-8');
+      if (output.length > MAX_OUTPUT_BYTES) {
+        output = output.slice(-MAX_OUTPUT_BYTES);
+      }
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // Already exited
+      }
+    }, timeoutMs);
+
+    const finish = (code: number | null) => {
+      clearTimeout(timer);
+      resolve({ code, output, timedOut, durationMs: Date.now() - startedAt });
+    };
+
+    child.on('error', (error) => {
+      output += `\n${error.message}`;
+      finish(null);
+    });
+    child.on('close', finish);
+  });
+}
+
+// ============================================================================
+// Dependencies
+// ============================================================================
+
+/**
+ * Pick the install command from the lockfile the repository ships
+ */
+async function getPackageManagerCommand(repoDir: string): Promise<CommandSpec | null> {
+  if (!(await fileExists(repoDir, 'package.json'))) return null;
+  if (await fileExists(repoDir, 'pnpm-lock.yaml')) return { command: 'pnpm', args: ['install', '--frozen-lockfile'] };
+  if (await fileExists(repoDir, 'yarn.lock')) return { command: 'yarn', args: ['install', '--frozen-lockfile'] };
+  if (await fileExists(repoDir, 'package-lock.json')) return { command: 'npm', args: ['ci'] };
+  return { command: 'npm', args: ['install'] };
+}
+
+/**
+ * The install command, without lifecycle scripts unless MCP_INSTALL_SCRIPTS
+ * allows them
+ */
+async function getInstallCommand(repoDir: string): Promise<CommandSpec | null> {
+  const install = await getPackageManagerCommand(repoDir);
+  if (!install || INSTALL_SCRIPTS) return install;
+  return { ...install, args: [...install.args, '--ignore-scripts'] };
+}
+
+/**
+ * Install a Node project's dependencies. Failures are returned rather than
+ * thrown: the checks that need them will fail and say so.
+ */
+export async function installDependencies(repoDir: string): Promise<{ ok: boolean; output: string }> {
+  const install = await getInstallCommand(repoDir);
+  if (!install) return { ok: true, output: '' };
+
+  console.log(`📦 Installing dependencies with ${install.command} ${install.args.join(' ')}...`);
+  const result = await runSandboxed(repoDir, install, INSTALL_TIMEOUT_MS);
+
+  return { ok: result.code === 0 && !result.timedOut, output: result.output };
+}
+
+// ============================================================================
+// Test Discovery and Execution
+// ============================================================================
+
+/**
+ * Find the project's test command: MCP_TEST_COMMAND, the package.json test
+ * script, pytest or go test. Returns null if the project has no tests.
+ */
+export async function discoverTestCommand(repoDir: string): Promise<CommandSpec | null> {
+  if (process.env.MCP_TEST_COMMAND) {
+    return { command: process.env.MCP_TEST_COMMAND, args: [], shell: true };
+  }
+
+  if (await fileExists(repoDir, 'package.json')) {
+    try {
+      const packageJson = JSON.parse(await fs.readFile(path.join(repoDir, 'package.json'), 'utf-8'));
+      const testScript: string | undefined = packageJson.scripts?.test;
+
+      // npm init leaves a placeholder test script that always fails
+      if (testScript && !testScript.includes('no test specified')) {
+        const packageManager = await getPackageManagerCommand(repoDir);
+        return { command: packageManager?.command || 'npm', args: ['test'] };
+      }
+    } catch {
+      // Unreadable package.json; fall through to other ecosystems
+    }
+  }
+
+  if (await fileExists(repoDir, 'go.mod')) {
+    return { command: 'go', args: ['test', './...'] };
+  }
+
+  if (
+    await fileExists(repoDir, 'pytest.ini') ||
+    await fileExists(repoDir, 'conftest.py') ||
+    (await fs.readFile(path.join(repoDir, 'pyproject.toml'), 'utf-8').catch(() => '')).includes('[tool.pytest')
+  ) {
+    return { command: 'python', args: ['-m', 'pytest', '-q'] };
+  }
+
+  return null;
+}
+
+/**
+ * Pull failing test names out of runner output
+ */
+export function parseFailingTests(output: string): string[] {
+  const failing = new Set<string>();
+
+  for (const line of output.split('\n')) {
+    for (const pattern of FAILING_TEST_PATTERNS) {
+      const match = line.match(pattern);
+      if (match) {
+        failing.add(match[1].trim());
+        break;
+      }
+    }
+  }
+
+  return Array.from(failing).slice(0, MAX_FAILING_TESTS);
+}
+
+/**
+ * Run the project's test suite with a timeout, a memory cap and a scrubbed
+ * environment. Returns null if no test command was found.
+ */
+export async function runTestSuite(repoDir: string): Promise<TestRunResult | null> {
+  const spec = await discoverTestCommand(repoDir);
+  if (!spec) return null;
+
+  const command = [spec.command, ...spec.args].join(' ');
+  console.log(`🧪 Running tests: ${command}`);
+
+  const result = await runSandboxed(repoDir, spec, TEST_TIMEOUT_MS);
+  const passed = result.code === 0 && !result.timedOut;
+  const tail = result.output
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(Boolean)
+    .slice(-OUTPUT_TAIL_LINES)
+    .join('\n');
+
+  return {
+    command,
+    passed,
+    failing: passed ? [] : parseFailingTests(result.output),
+    duration_ms: result.durationMs,
+    ...(result.timedOut ? { timed_out: true } : {}),
+    ...(passed ? {} : { output: result.timedOut ? `${tail}\nTimed out after ${TEST_TIMEOUT_MS / 1000}s` : tail }),
+  };
+}
+
+/**
+ * Compare a test run after applying changes with a run on the unchanged
+ * code. Only tests that newly fail count as errors.
+ */
+export function compareTestRuns(
+  baseline: TestRunResult | null,
+  current: TestRunResult
+): { errors: string[]; warnings: string[] } {
+  if (current.passed) {
+    return { errors: [], warnings: [] };
+  }
+
+  if (current.failing.length > 0) {
+    const known = new Set(baseline?.failing || []);
+    const introduced = current.failing.filter(name => !known.has(name));
+
+    return {
+      errors: introduced.map(name => `[test] ${name} failed`),
+      warnings: introduced.length < current.failing.length
+        ? [`test: ${current.failing.length - introduced.length} test(s) already failing on the base branch`]
+        : [],
+    };
+  }
+
+  if (baseline && !baseline.passed) {
+    return { errors: [], warnings: [`test: \`${current.command}\` already failing on the base branch`] };
+  }
+
+  return {
+    errors: [
+      current.timed_out ? `[test] \`${current.command}\` timed out` : `[test] \`${current.command}\` failed:`,
+      ...(current.output ? current.output.split('\n') : []),
+    ],
+    warnings: [],
+  };
+}
@@ -0,0 +1,420 @@
+import { ValidationDiagnostic } from '@/types/mcp';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { parseAllDocuments, parseDocument } from 'yaml';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const PLUGIN_TIMEOUT_MS = 30000; // 30 seconds per external checker
+const MAX_LINK_CHECKS_PER_FILE = 50;
+
+// Built-in plugins that need a toolchain on the host; enable with e.g.
+// MCP_VALIDATORS=python,go
+const ENABLED_OPTIONAL_PLUGINS = (process.env.MCP_VALIDATORS || '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ValidatorFile {
+  path: string;
+  content: string;
+}
+
+export interface ValidatorContext {
+  /** Directory the files were written to */
+  rootDir: string;
+  /** Every path in the change set, including files other plugins handle */
+  changedPaths: Set<string>;
+  /**
+   * Whether a path exists in the repository, for files that are not part of
+   * the change set. Checks that need it are skipped when it is missing.
+   */
+  fileExists?: (filePath: string) => Promise<boolean>;
+}
+
+export interface ValidatorPlugin {
+  id: string;
+  /** Lower-case extensions, including the dot, or full file names */
+  extensions: string[];
+  /** Optional plugins only run when listed in MCP_VALIDATORS */
+  optional?: boolean;
+  validate(files: ValidatorFile[], context: ValidatorContext): Promise<ValidationDiagnostic[]>;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const plugins = new Map<string, ValidatorPlugin>();
+
+/**
+ * Add a validator plugin, replacing any plugin with the same id
+ */
+export function registerValidator(plugin: ValidatorPlugin): void {
+  plugins.set(plugin.id, plugin);
+}
+
+/**
+ * Plugins that will run: every required plugin plus enabled optional ones
+ */
+export function getValidators(): ValidatorPlugin[] {
+  return Array.from(plugins.values()).filter(plugin =>
+    !plugin.optional || ENABLED_OPTIONAL_PLUGINS.includes(plugin.id)
+  );
+}
+
+function matchesPlugin(plugin: ValidatorPlugin, filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return plugin.extensions.some(ext => ext.startsWith('.') ? lower.endsWith(ext) : path.basename(lower) === ext);
+}
+
+/**
+ * Render a diagnostic in the `file:line:col` form editors and the AI expect
+ */
+export function formatDiagnostic(diagnostic: ValidationDiagnostic): string {
+  const position = diagnostic.line
+    ? `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}`
+    : '';
+  return `${diagnostic.file}${position} [${diagnostic.source}/${diagnostic.code}] ${diagnostic.message}`;
+}
+
+/**
+ * Run every enabled plugin on the files it handles. A plugin that crashes
+ * or lacks its toolchain is reported as a warning, not a failed file.
+ */
+export async function runValidators(
+  files: ValidatorFile[],
+  options: Omit<ValidatorContext, 'changedPaths'>
+): Promise<{ diagnostics: ValidationDiagnostic[]; warnings: string[] }> {
+  const diagnostics: ValidationDiagnostic[] = [];
+  const warnings: string[] = [];
+  const context: ValidatorContext = {
+    ...options,
+    changedPaths: new Set(files.map(file => path.posix.normalize(file.path))),
+  };
+
+  for (const plugin of getValidators()) {
+    const matched = files.filter(file => matchesPlugin(plugin, file.path));
+    if (matched.length === 0) continue;
+
+    try {
+      diagnostics.push(...await plugin.validate(matched, context));
+    } catch (error: any) {
+      console.warn(`⚠️ Validator ${plugin.id} failed:`, error);
+      warnings.push(`${plugin.id}: skipped (${error.message || 'unknown error'})`);
+    }
+  }
+
+  return { diagnostics, warnings };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Locate a JSON syntax error. Newer V8 messages carry no position, but JSON
+ * is YAML, so the YAML parser can usually point at the same spot.
+ */
+function locateJsonError(content: string): { line?: number; column?: number } {
+  const position = parseDocument(content, { schema: 'json' }).errors[0]?.linePos?.[0];
+  return position ? { line: position.line, column: position.col } : {};
+}
+
+/**
+ * postcss, which ships as a dev dependency of the app. Deployments that prune
+ * dev dependencies don't have it, so it is loaded on first use and the CSS
+ * plugin is reported as skipped without it.
+ */
+async function loadPostcss(): Promise<typeof import('postcss')> {
+  try {
+    return await import('postcss');
+  } catch {
+    throw new Error('postcss is not installed');
+  }
+}
+
+/**
+ * Blank out comments and trailing commas so JSONC (tsconfig.json,
+ * .vscode settings) parses as JSON without shifting any offsets
+ */
+function stripJsonComments(content: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < content.length && content[i] !== '\n') {
+        result += ' ';
+        i++;
+      }
+      result += content[i] ?? '';
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      result += content.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop - 1;
+    } else {
+      result += char;
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, ' $1');
+}
+
+function isJsonc(filePath: string): boolean {
+  const name = path.basename(filePath).toLowerCase();
+  return filePath.endsWith('.jsonc') ||
+    /^(ts|js)config(\..+)?\.json$/.test(name) ||
+    filePath.split('/').includes('.vscode');
+}
+
+// ============================================================================
+// Built-in Plugins
+// ============================================================================
+
+const jsonValidator: ValidatorPlugin = {
+  id: 'json',
+  extensions: ['.json', '.jsonc'],
+  async validate(files) {
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    for (const file of files) {
+      const content = isJsonc(file.path) ? stripJsonComments(file.content) : file.content;
+
+      try {
+        JSON.parse(content);
+      } catch (error: any) {
+        diagnostics.push({
+          file: file.path,
+          ...locateJsonError(content),
+          code: 'parse-error',
+          // V8 quotes the surrounding source, newlines included
+          message: error.message.replace(/\s+/g, ' '),
+          severity: 'error',
+          source: 'json',
+        });
+      }
+    }
+
+    return diagnostics;
+  },
+};
+
+const yamlValidator: ValidatorPlugin = {
+  id: 'yaml',
+  extensions: ['.yaml', '.yml'],
+  async validate(files) {
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    for (const file of files) {
+      for (const document of parseAllDocuments(file.content)) {
+        if (!('errors' in document)) continue;
+
+        for (const error of document.errors) {
+          diagnostics.push({
+            file: file.path,
+            ...(error.linePos ? { line: error.linePos[0].line, column: error.linePos[0].col } : {}),
+            code: error.code,
+            // The message repeats the position and a code frame; keep the text
+            message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+            severity: 'error',
+            source: 'yaml',
+          });
+        }
+      }
+    }
+
+    return diagnostics;
+  },
+};
+
+const cssValidator: ValidatorPlugin = {
+  id: 'css',
+  // postcss only understands plain CSS; SCSS and Less need their own parsers
+  extensions: ['.css'],
+  async validate(files) {
+    const { default: postcss, CssSyntaxError } = await loadPostcss();
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    for (const file of files) {
+      try {
+        postcss.parse(file.content, { from: file.path });
+      } catch (error) {
+        if (!(error instanceof CssSyntaxError)) throw error;
+
+        diagnostics.push({
+          file: file.path,
+          ...(error.line ? { line: error.line, column: error.column } : {}),
+          code: 'syntax-error',
+          message: error.reason,
+          severity: 'error',
+          source: 'css',
+        });
+      }
+    }
+
+    return diagnostics;
+  },
+};
+
+const markdownValidator: ValidatorPlugin = {
+  id: 'markdown',
+  extensions: ['.md', '.mdx'],
+  async validate(files, context) {
+    const diagnostics: ValidationDiagnostic[] = [];
+
+    for (const file of files) {
+      let inFence = false;
+      let checked = 0;
+      const lines = file.content.split('\n');
+
+      for (let index = 0; index < lines.length && checked < MAX_LINK_CHECKS_PER_FILE; index++) {
+        const line = lines[index];
+
+        if (/^\s*(```|~~~)/.test(line)) {
+          inFence = !inFence;
+          continue;
+        }
+        if (inFence) continue;
+
+        // Inline code spans can't hold links
+        const text = line.replace(/`[^`]*`/g, match => ' '.repeat(match.length));
+
+        for (const match of Array.from(text.matchAll(/!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g))) {
+          const target = match[1];
+
+          // External links, mail links and in-page anchors aren't checked
+          if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('//')) continue;
+
+          const targetPath = decodeURI(target.split(/[?#]/)[0]);
+          if (!targetPath) continue;
+
+          const resolved = targetPath.startsWith('/')
+            ? path.posix.normalize(targetPath.slice(1))
+            : path.posix.normalize(path.posix.join(path.posix.dirname(file.path), targetPath));
+
+          checked++;
+          const exists = context.changedPaths.has(resolved) ||
+            resolved.startsWith('..') ||
+            !context.fileExists ||
+            await context.fileExists(resolved);
+
+          if (!exists) {
+            diagnostics.push({
+              file: file.path,
+              line: index + 1,
+              column: (match.index ?? 0) + 1,
+              code: 'broken-link',
+              message: `Link target "${target}" does not exist`,
+              severity: 'error',
+              source: 'markdown',
+            });
+          }
+        }
+      }
+    }
+
+    return diagnostics;
+  },
+};
+
+const pythonValidator: ValidatorPlugin = {
+  id: 'python',
+  extensions: ['.py'],
+  optional: true,
+  async validate(files, context) {
+    // Parse each file with ast and print one JSON line per syntax error
+    const script = [
+      'import ast, json, sys',
+      'for p in sys.argv[1:]:',
+      '    try:',
+      '        ast.parse(open(p, encoding="utf-8").read(), p)',
+      '    except SyntaxError as e:',
+      '        print(json.dumps({"file": p, "line": e.lineno, "column": e.offset, "message": e.msg}))',
+    ].join('\n');
+
+    const { stdout } = await execFileAsync('python3', ['-c', script, ...files.map(file => file.path)], {
+      cwd: context.rootDir,
+      timeout: PLUGIN_TIMEOUT_MS,
+    });
+
+    return stdout
+      .split('\n')
+      .filter(Boolean)
+      .map((line): ValidationDiagnostic => {
+        const error = JSON.parse(line);
+        return {
+          file: error.file,
+          ...(error.line ? { line: error.line } : {}),
+          ...(error.column ? { column: error.column } : {}),
+          code: 'SyntaxError',
+          message: error.message,
+          severity: 'error',
+          source: 'python',
+        };
+      });
+  },
+};
+
+const goValidator: ValidatorPlugin = {
+  id: 'go',
+  extensions: ['.go'],
+  optional: true,
+  async validate(files, context) {
+    let output = '';
+
+    try {
+      await execFileAsync('gofmt', ['-e', '-l', ...files.map(file => file.path)], {
+        cwd: context.rootDir,
+        timeout: PLUGIN_TIMEOUT_MS,
+      });
+      return [];
+    } catch (error: any) {
+      // gofmt exits non-zero on syntax errors; a missing binary has no stderr
+      if (!error.stderr) throw error;
+      output = error.stderr;
+    }
+
+    return output
+      .split('\n')
+      .map(line => line.match(/^(.+?):(\d+):(\d+): (.+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match): ValidationDiagnostic => ({
+        file: match[1],
+        line: Number(match[2]),
+        column: Number(match[3]),
+        code: 'syntax-error',
+        message: match[4],
+        severity: 'error',
+        source: 'go',
+      }));
+  },
+};
+
+[jsonValidator, yamlValidator, cssValidator, markdownValidator, pythonValidator, goValidator]
+  .forEach(registerValidator);
+
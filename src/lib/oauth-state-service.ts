@@ -0,0 +1,170 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getFirestore, doc, getDoc, setDoc, serverTimestamp } from '@/lib/server-firestore';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const STATE_COLLECTION = 'oauth_states';
+const STATE_TTL_MS = 10 * 60 * 1000; // Time allowed on GitHub's consent screen
+const CONNECT_LINK_TTL_MS = 24 * 60 * 60 * 1000; // Connect buttons stay usable for a day
+
+function getStateSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET is not set; GitHub connect links cannot be signed');
+  }
+  return secret;
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The Slack user a GitHub account is being connected for */
+export interface SlackOAuthContext {
+  slack_user_id: string;
+  channel_id: string | null;
+  team_id: string | null;
+}
+
+export class OAuthStateError extends Error {
+  constructor(
+    message: string,
+    public reason: 'forged' | 'expired' | 'replayed'
+  ) {
+    super(message);
+    this.name = 'OAuthStateError';
+  }
+}
+
+// ============================================================================
+// OAuth State Service
+// ============================================================================
+
+/**
+ * Ties a GitHub OAuth callback to the Slack user who started it. Connect
+ * links carry an HMAC over the Slack user, so they can't be pointed at
+ * someone else; the OAuth state is a signed nonce stored server-side,
+ * which expires and can be used only once.
+ */
+export class OAuthStateService {
+  /**
+   * A signed link that starts connecting GitHub for a Slack user
+   */
+  buildConnectUrl(context: SlackOAuthContext, extra: string = ''): string {
+    const expires = String(Date.now() + CONNECT_LINK_TTL_MS);
+    const params = new URLSearchParams({
+      user_id: context.slack_user_id,
+      ...(context.channel_id && { channel_id: context.channel_id }),
+      ...(context.team_id && { team_id: context.team_id }),
+      expires,
+      sig: this.sign(this.linkPayload(context, expires)),
+    });
+
+    return `${process.env.NEXTAUTH_URL || 'http://localhost:9002'}/api/auth/github/slack?${params}${extra}`;
+  }
+
+  /**
+   * The Slack user a connect link was issued for
+   */
+  verifyConnectUrl(searchParams: URLSearchParams): SlackOAuthContext {
+    const context: SlackOAuthContext = {
+      slack_user_id: searchParams.get('user_id') || '',
+      channel_id: searchParams.get('channel_id'),
+      team_id: searchParams.get('team_id'),
+    };
+    const expires = searchParams.get('expires') || '';
+
+    if (!context.slack_user_id || !this.verify(this.linkPayload(context, expires), searchParams.get('sig'))) {
+      throw new OAuthStateError('Connect link signature is invalid', 'forged');
+    }
+
+    if (Number(expires) < Date.now()) {
+      throw new OAuthStateError('Connect link has expired', 'expired');
+    }
+
+    return context;
+  }
+
+  /**
+   * Store a single-use nonce for a Slack user and return it, signed, as
+   * the OAuth state
+   */
+  async issueState(context: SlackOAuthContext): Promise<string> {
+    const nonce = randomBytes(16).toString('hex');
+    const firestore = getFirestore();
+
+    await setDoc(doc(firestore, STATE_COLLECTION, nonce), {
+      ...context,
+      expires_at: Date.now() + STATE_TTL_MS,
+      used_at: null,
+      created_at: serverTimestamp(),
+    });
+
+    return `${nonce}.${this.sign(nonce)}`;
+  }
+
+  /**
+   * Check an OAuth state from a callback and mark it used, returning the
+   * Slack user it was issued for
+   */
+  async consumeState(state: string | null): Promise<SlackOAuthContext> {
+    const [nonce, signature] = (state || '').split('.');
+
+    if (!nonce || !this.verify(nonce, signature)) {
+      throw new OAuthStateError('OAuth state signature is invalid', 'forged');
+    }
+
+    const firestore = getFirestore();
+    const stateRef = doc(firestore, STATE_COLLECTION, nonce);
+    const snapshot = await getDoc(stateRef);
+
+    if (!snapshot.exists) {
+      throw new OAuthStateError('OAuth state was not issued by this server', 'forged');
+    }
+
+    const stored = snapshot.data();
+
+    if (stored.used_at) {
+      throw new OAuthStateError('OAuth state has already been used', 'replayed');
+    }
+
+    if (stored.expires_at < Date.now()) {
+      throw new OAuthStateError('OAuth state has expired', 'expired');
+    }
+
+    // The precondition fails if another callback used the state since it was read
+    try {
+      await stateRef.update({ used_at: serverTimestamp() }, { lastUpdateTime: snapshot.updateTime });
+    } catch (error) {
+      console.warn('⚠️ OAuth state was used concurrently:', error);
+      throw new OAuthStateError('OAuth state has already been used', 'replayed');
+    }
+
+    return {
+      slack_user_id: stored.slack_user_id,
+      channel_id: stored.channel_id ?? null,
+      team_id: stored.team_id ?? null,
+    };
+  }
+
+  private linkPayload(context: SlackOAuthContext, expires: string): string {
+    return [context.slack_user_id, context.channel_id || '', context.team_id || '', expires].join('|');
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', getStateSecret()).update(payload).digest('base64url');
+  }
+
+  private verify(payload: string, signature: string | null | undefined): boolean {
+    if (!signature) return false;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
+
+// Export singleton instance
+export const oauthStateService = new OAuthStateService();
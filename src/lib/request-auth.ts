@@ -0,0 +1,139 @@
+import { getAuth } from '@/lib/server-firestore';
+import { getAuthenticatedLogin, getRepoPermission, getUserLogin } from '@/lib/mcp/github-client';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const WRITE_PERMISSIONS = ['admin', 'write']; // GitHub reports maintainers as write
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class AuthorizationError extends Error {
+  constructor(message: string, public statusCode: number = 401) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+// ============================================================================
+// Callers
+// ============================================================================
+
+/** A signed-in dashboard user, from a verified Firebase ID token */
+export interface RequestCaller {
+  uid: string;
+  /** Numeric GitHub user ID, if they signed in with GitHub */
+  githubId: string | null;
+  /** Display name from their sign-in provider */
+  name: string | null;
+}
+
+/**
+ * Verify a Firebase ID token from the web client. Fails closed in mock mode,
+ * where there are no credentials to check it with.
+ */
+export async function verifyIdToken(idToken: string): Promise<RequestCaller> {
+  const auth = getAuth();
+  if (!auth) {
+    throw new AuthorizationError('Sign-in cannot be verified without Firebase credentials', 503);
+  }
+
+  let decoded;
+  try {
+    decoded = await auth.verifyIdToken(idToken);
+  } catch {
+    throw new AuthorizationError('Invalid or expired Firebase ID token');
+  }
+
+  const githubIds = decoded.firebase?.identities?.['github.com'];
+
+  return {
+    uid: decoded.uid,
+    githubId: Array.isArray(githubIds) && githubIds.length > 0 ? String(githubIds[0]) : null,
+    name: typeof decoded.name === 'string' && decoded.name ? decoded.name : null,
+  };
+}
+
+/**
+ * The caller of an API route, from the ID token in its
+ * `Authorization: Bearer` header
+ */
+export async function verifyRequestCaller(request: Request): Promise<RequestCaller> {
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(\S+)$/i);
+
+  if (!match) {
+    throw new AuthorizationError('Missing Firebase ID token');
+  }
+  return verifyIdToken(match[1]);
+}
+
+// ============================================================================
+// Repository Access
+// ============================================================================
+
+/**
+ * The GitHub login of a caller who signed in with GitHub
+ */
+export async function resolveGitHubLogin(caller: RequestCaller): Promise<string> {
+  if (!caller.githubId) {
+    throw new AuthorizationError('Sign in with GitHub to do this', 403);
+  }
+  return getUserLogin(caller.githubId);
+}
+
+/**
+ * Whether a GitHub user can read, or write to, a repository
+ */
+export async function hasRepoAccess(
+  owner: string,
+  repo: string,
+  login: string,
+  access: 'read' | 'write'
+): Promise<boolean> {
+  const permission = await getRepoPermission(owner, repo, login);
+  return access === 'write' ? WRITE_PERMISSIONS.includes(permission) : permission !== 'none';
+}
+
+/**
+ * Check that a caller can read, or write to, a repository. Returns their
+ * GitHub login.
+ */
+export async function requireRepoAccess(
+  caller: RequestCaller,
+  owner: string,
+  repo: string,
+  access: 'read' | 'write'
+): Promise<string> {
+  const login = await resolveGitHubLogin(caller);
+
+  if (!(await hasRepoAccess(owner, repo, login, access))) {
+    throw new AuthorizationError(`${login} does not have ${access} access to ${owner}/${repo}`, 403);
+  }
+  return login;
+}
+
+/**
+ * Check that the owner of a GitHub access token, such as one from a Slack
+ * user's vault, can read, or write to, a repository. Returns their login.
+ */
+export async function requireTokenRepoAccess(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  access: 'read' | 'write'
+): Promise<string> {
+  let login: string;
+  try {
+    login = await getAuthenticatedLogin(accessToken);
+  } catch {
+    throw new AuthorizationError('Invalid or expired GitHub access token');
+  }
+
+  if (!(await hasRepoAccess(owner, repo, login, access))) {
+    throw new AuthorizationError(`${login} does not have ${access} access to ${owner}/${repo}`, 403);
+  }
+  return login;
+}
@@ -0,0 +1,380 @@
+import { getFirestore, doc, getDoc, setDoc, updateDoc, serverTimestamp } from '@/lib/server-firestore';
+import {
+  DEFAULT_RESOLUTION_POLICY,
+  KanbanCardOverride,
+  ResolutionClaim,
+  ResolutionClaimStatus,
+  ResolutionPolicy,
+  ResolutionPolicySchema,
+} from '@/types/resolution';
+import type { GitHubIssue } from '@/types/mcp';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class ResolutionClaimError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500
+  ) {
+    super(message);
+    this.name = 'ResolutionClaimError';
+  }
+}
+
+/** Who is claiming a fix, and where, for recordClaims */
+export interface ResolutionClaimant {
+  claimedBy: string;
+  claimedByUid: string;
+  channelId: string;
+}
+
+/** The parts of a merged pull_request webhook payload a claim is checked against */
+export interface MergedPullRequest {
+  number: number;
+  head_sha: string;
+  merged_by: string;
+}
+
+// ============================================================================
+// Resolution Service
+// ============================================================================
+
+/**
+ * Follows through on resolution claims from the web chat. When a PR that
+ * was verified as resolving an issue merges, the repo's policy decides
+ * whether the issue is closed with a linking comment, its Kanban card moved
+ * to Done and the claimer credited in the channel - at once, after someone
+ * confirms in the channel, or not at all.
+ */
+export class ResolutionService {
+  /**
+   * Record claims that PRs resolve an issue. Each PR is matched against the
+   * issue again here, rather than trusting the chat's result, and only a
+   * high-confidence match is recorded, at the head SHA it was judged at.
+   * Claims the server already moved on from pending are left alone.
+   * Returns the PRs whose claims were recorded.
+   */
+  async recordClaims(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    prNumbers: number[],
+    claimant: ResolutionClaimant
+  ): Promise<number[]> {
+    const accessToken = process.env.GITHUB_TOKEN;
+    if (!accessToken) {
+      throw new ResolutionClaimError('GITHUB_TOKEN is not set; resolution claims cannot be verified', 503);
+    }
+
+    const repoId = encodeURIComponent(`${owner}/${repo}`);
+    const { aiMatchPullRequestWithIssue } = await import('@/ai/flows/ai-matches-pr-with-issue');
+    const firestore = getFirestore();
+    const recorded: number[] = [];
+
+    for (const prNumber of [...new Set(prNumbers)]) {
+      const existing = await this.loadClaim(repoId, prNumber);
+      if (existing && existing.status !== 'pending') {
+        continue;
+      }
+
+      const result = await aiMatchPullRequestWithIssue({
+        repoOwner: owner,
+        repoName: repo,
+        issueReference: `#${issueNumber}`,
+        claimedBy: claimant.claimedBy,
+        accessToken,
+        pullRequestNumber: prNumber,
+      });
+      const match = result.matchingPRs.find(pr => pr.number === prNumber && pr.matchConfidence === 'high');
+
+      if (result.issueNumber !== issueNumber || !match) {
+        console.log(`PR #${prNumber} did not match issue #${issueNumber} again; no claim recorded`);
+        continue;
+      }
+
+      const claim: ResolutionClaim = {
+        pr_number: prNumber,
+        pr_url: match.url,
+        issue_number: issueNumber,
+        head_sha: match.headSha,
+        match_reason: match.matchReason,
+        claimed_by: claimant.claimedBy,
+        claimed_by_uid: claimant.claimedByUid,
+        channel_id: claimant.channelId,
+        status: 'pending',
+      };
+
+      await setDoc(doc(firestore, 'repos', repoId, 'resolution_claims', String(prNumber)), {
+        ...claim,
+        created_at: serverTimestamp(),
+      });
+      recorded.push(prNumber);
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Act on the claim for a PR that just merged, if there is one. Failures
+   * are logged rather than thrown, since the merge itself was handled.
+   */
+  async handleMergedPullRequest(repoFullName: string, pr: MergedPullRequest): Promise<void> {
+    const repoId = encodeURIComponent(repoFullName);
+
+    try {
+      const claim = await this.loadClaim(repoId, pr.number);
+      if (!claim || claim.status !== 'pending') {
+        return;
+      }
+
+      claim.merged_by = pr.merged_by;
+
+      if (!(await this.isStillVerified(repoFullName, claim, pr))) {
+        await this.setStatus(repoId, claim, 'unverified');
+        await this.postChannelMessage(
+          repoId,
+          claim.channel_id,
+          `⚠️ PR #${pr.number} was merged, but it no longer clearly resolves issue #${claim.issue_number}, so the issue stays open.`
+        );
+        return;
+      }
+
+      const policy = await this.getPolicy(repoId);
+      console.log(`Resolution claim for PR #${pr.number} merged; policy is "${policy}"`);
+
+      switch (policy) {
+        case 'off':
+          await this.setStatus(repoId, claim, 'skipped');
+          break;
+
+        case 'confirm':
+          await this.setStatus(repoId, claim, 'awaiting_confirmation');
+          await this.postChannelMessage(
+            repoId,
+            claim.channel_id,
+            `🔀 PR #${pr.number}, which ${claim.claimed_by} said resolves issue #${claim.issue_number}, was merged by @${pr.merged_by}. Close the issue?`,
+            'resolution-confirmation',
+            [{
+              prNumber: claim.pr_number,
+              prUrl: claim.pr_url,
+              issueNumber: claim.issue_number,
+              claimedBy: claim.claimed_by,
+            }]
+          );
+          break;
+
+        case 'auto':
+          await this.resolve(repoFullName, claim);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error handling resolution claim for PR #${pr.number}:`, error);
+    }
+  }
+
+  /**
+   * Close the issue for a claim awaiting confirmation, or dismiss the claim
+   */
+  async decide(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    decision: 'confirm' | 'dismiss',
+    decidedBy: string
+  ): Promise<ResolutionClaimStatus> {
+    const repoFullName = `${owner}/${repo}`;
+    const repoId = encodeURIComponent(repoFullName);
+    const claim = await this.loadClaim(repoId, prNumber);
+
+    if (!claim) {
+      throw new ResolutionClaimError(`No resolution claim for PR #${prNumber}`, 404);
+    }
+
+    if (claim.status !== 'awaiting_confirmation') {
+      throw new ResolutionClaimError(`The claim for PR #${prNumber} is already ${claim.status}`, 409);
+    }
+
+    claim.decided_by = decidedBy;
+
+    if (decision === 'dismiss') {
+      await this.setStatus(repoId, claim, 'dismissed');
+      await this.postChannelMessage(
+        repoId,
+        claim.channel_id,
+        `Issue #${claim.issue_number} stays open; ${decidedBy} dismissed closing it for PR #${prNumber}.`
+      );
+      return 'dismissed';
+    }
+
+    await this.resolve(repoFullName, claim);
+    return 'resolved';
+  }
+
+  /**
+   * The repo's policy for merged, verified PRs
+   */
+  async getPolicy(repoId: string): Promise<ResolutionPolicy> {
+    const firestore = getFirestore();
+    const snapshot = await getDoc(doc(firestore, 'repos', repoId));
+    const parsed = ResolutionPolicySchema.safeParse(snapshot.exists ? snapshot.data()?.resolution_policy : undefined);
+
+    return parsed.success ? parsed.data : DEFAULT_RESOLUTION_POLICY;
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private async loadClaim(repoId: string, prNumber: number): Promise<ResolutionClaim | null> {
+    const firestore = getFirestore();
+    const snapshot = await getDoc(doc(firestore, 'repos', repoId, 'resolution_claims', String(prNumber)));
+
+    return snapshot.exists ? (snapshot.data() as ResolutionClaim) : null;
+  }
+
+  private async setStatus(repoId: string, claim: ResolutionClaim, status: ResolutionClaimStatus): Promise<void> {
+    const firestore = getFirestore();
+
+    await updateDoc(doc(firestore, 'repos', repoId, 'resolution_claims', String(claim.pr_number)), {
+      status,
+      ...(claim.merged_by && { merged_by: claim.merged_by }),
+      ...(claim.decided_by && { decided_by: claim.decided_by }),
+      ...(status === 'resolved' && { resolved_at: serverTimestamp() }),
+    });
+  }
+
+  /**
+   * A claim holds for the head SHA it was verified at. If more commits
+   * landed before the merge, the merged PR is matched against the issue again.
+   */
+  private async isStillVerified(repoFullName: string, claim: ResolutionClaim, pr: MergedPullRequest): Promise<boolean> {
+    if (claim.head_sha === pr.head_sha) {
+      return true;
+    }
+
+    const accessToken = process.env.GITHUB_TOKEN;
+    if (!accessToken) {
+      console.warn('⚠️ GITHUB_TOKEN not set; cannot re-verify a PR that changed after its claim');
+      return false;
+    }
+
+    const [repoOwner, repoName] = repoFullName.split('/');
+
+    try {
+      const { aiMatchPullRequestWithIssue } = await import('@/ai/flows/ai-matches-pr-with-issue');
+      const result = await aiMatchPullRequestWithIssue({
+        repoOwner,
+        repoName,
+        issueReference: `#${claim.issue_number}`,
+        claimedBy: claim.claimed_by,
+        accessToken,
+        pullRequestNumber: pr.number,
+      });
+
+      return result.matchingPRs.some(match => match.number === pr.number && match.matchConfidence === 'high');
+    } catch (error) {
+      console.error(`Error re-verifying PR #${pr.number}:`, error);
+      return false;
+    }
+  }
+
+  private async resolve(repoFullName: string, claim: ResolutionClaim): Promise<void> {
+    const [owner, repo] = repoFullName.split('/');
+    const repoId = encodeURIComponent(repoFullName);
+    const { fetchIssueWithAssignees, postIssueComment, closeIssue } = await import('@/lib/mcp/github-client');
+
+    const issue = await fetchIssueWithAssignees(owner, repo, claim.issue_number);
+
+    // GitHub closes issues itself when the PR uses a closing keyword
+    if (issue.state === 'open') {
+      await postIssueComment(
+        owner,
+        repo,
+        issue.number,
+        `Resolved by #${claim.pr_number}, merged by @${claim.merged_by || 'unknown'}.\n\n` +
+        `GitPulse verified that the PR addresses this issue: ${claim.match_reason}\n\n` +
+        `Fix credited to ${claim.claimed_by}` +
+        (claim.decided_by ? `; closing confirmed by ${claim.decided_by}.` : '.')
+      );
+      await closeIssue(owner, repo, issue.number);
+    }
+
+    await this.moveCardsToDone(repoId, claim, issue);
+    await this.setStatus(repoId, claim, 'resolved');
+
+    await this.postChannelMessage(
+      repoId,
+      claim.channel_id,
+      `🏆 Issue #${issue.number} "${issue.title}" is resolved by PR #${claim.pr_number}. Thanks, ${claim.claimed_by}!`,
+      'resolution-credit',
+      [{ prNumber: claim.pr_number, prUrl: claim.pr_url, issueNumber: issue.number, issueUrl: issue.html_url }]
+    );
+
+    console.log(`Resolved issue #${issue.number} via PR #${claim.pr_number}`);
+  }
+
+  /**
+   * Move the issue's card to Done, along with the card of any AI suggestion
+   * in the channel that the issue was created from
+   */
+  private async moveCardsToDone(repoId: string, claim: ResolutionClaim, issue: GitHubIssue): Promise<void> {
+    const firestore = getFirestore();
+    const cardIds = [`gh-${issue.id}`];
+
+    const suggestions = await firestore
+      .collection('repos').doc(repoId)
+      .collection('channels').doc(claim.channel_id)
+      .collection('messages')
+      .where('issueUrl', '==', issue.html_url)
+      .get();
+    for (const suggestion of suggestions.docs) {
+      cardIds.push(suggestion.id);
+    }
+
+    const override: KanbanCardOverride = {
+      column: 'done',
+      issue_number: issue.number,
+      reason: `Resolved by PR #${claim.pr_number}`,
+    };
+
+    for (const cardId of cardIds) {
+      await setDoc(doc(firestore, 'repos', repoId, 'kanban', cardId), {
+        ...override,
+        updated_at: serverTimestamp(),
+      });
+    }
+  }
+
+  private async postChannelMessage(
+    repoId: string,
+    channelId: string,
+    text: string,
+    systemMessageType?: string,
+    systemMessageData?: unknown[]
+  ): Promise<void> {
+    try {
+      const firestore = getFirestore();
+      await firestore
+        .collection('repos').doc(repoId)
+        .collection('channels').doc(channelId)
+        .collection('messages')
+        .add({
+          sender: 'GitPulse AI',
+          senderId: 'ai_assistant',
+          avatarUrl: '/brain-circuit.svg',
+          text,
+          isSystemMessage: true,
+          ...(systemMessageType && { systemMessageType, systemMessageData: systemMessageData || [] }),
+          timestamp: serverTimestamp(),
+        });
+    } catch (error: any) {
+      // Non-critical, like webhook chat notifications
+      console.error('Error posting resolution message:', error.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const resolutionService = new ResolutionService();
@@ -4,8 +4,84 @@ import admin from 'firebase-admin';
 const USE_MOCK = process.env.USE_MOCK_FIRESTORE === 'true';
 const mockStore = new Map<string, any>();
 
-class MockCollectionRef {
-  constructor(private collectionPath: string) {}
+type MockFilter = { field: string; op: string; value: any };
+
+function readField(data: any, field: string) {
+  return field.split('.').reduce((value, key) => value?.[key], data);
+}
+
+function compareValues(a: any, b: any) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Filters, ordering and cursors over the documents directly in a collection
+class MockQuery {
+  constructor(
+    protected collectionPath: string,
+    private filters: MockFilter[] = [],
+    private order: string | null = null,
+    private cursor: any = undefined,
+    private max: number | null = null
+  ) {}
+  
+  where(field: string, op: string, value: any) {
+    return new MockQuery(this.collectionPath, [...this.filters, { field, op, value }], this.order, this.cursor, this.max);
+  }
+  
+  orderBy(field: string) {
+    return new MockQuery(this.collectionPath, this.filters, field, this.cursor, this.max);
+  }
+  
+  startAfter(value: any) {
+    return new MockQuery(this.collectionPath, this.filters, this.order, value, this.max);
+  }
+  
+  limit(count: number) {
+    return new MockQuery(this.collectionPath, this.filters, this.order, this.cursor, count);
+  }
+  
+  async get() {
+    const prefix = `${this.collectionPath}/`;
+    let docs = [...mockStore.keys()]
+      .filter(path => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+      .map(path => new MockDocRef(path))
+      .filter(ref => this.filters.every(filter => matchesFilter(mockStore.get(ref.path), filter)));
+    
+    if (this.order) {
+      const field = this.order;
+      docs.sort((a, b) => compareValues(readField(mockStore.get(a.path), field), readField(mockStore.get(b.path), field)));
+      if (this.cursor !== undefined) {
+        docs = docs.filter(ref => compareValues(readField(mockStore.get(ref.path), field), this.cursor) > 0);
+      }
+    }
+    if (this.max !== null) {
+      docs = docs.slice(0, this.max);
+    }
+    
+    const snapshots = docs.map(ref => ({ id: ref.id, ref, exists: true, data: () => mockStore.get(ref.path) }));
+    return { empty: snapshots.length === 0, size: snapshots.length, docs: snapshots };
+  }
+}
+
+function matchesFilter(data: any, { field, op, value }: MockFilter) {
+  const actual = readField(data, field);
+  switch (op) {
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case 'in': return Array.isArray(value) && value.includes(actual);
+    case 'array-contains': return Array.isArray(actual) && actual.includes(value);
+    default: return false;
+  }
+}
+
+class MockCollectionRef extends MockQuery {
+  constructor(collectionPath: string) {
+    super(collectionPath);
+  }
   
   doc(docId?: string) {
     const path = docId ? `${this.collectionPath}/${docId}` : `${this.collectionPath}/mock-${Date.now()}`;
@@ -18,20 +94,14 @@ class MockCollectionRef {
     await ref.set(data);
     return ref;
   }
-  
-  where() {
-    // Return a mock query that returns empty results
-    return {
-      get: async () => ({
-        empty: true,
-        docs: [],
-      }),
-    };
-  }
 }
 
 class MockDocRef {
-  constructor(private path: string) {}
+  constructor(readonly path: string) {}
+  
+  get id() {
+    return this.path.slice(this.path.lastIndexOf('/') + 1);
+  }
   
   collection(collectionName: string) {
     return new MockCollectionRef(`${this.path}/${collectionName}`);
@@ -51,6 +121,11 @@ class MockDocRef {
   async get() {
     return { exists: mockStore.has(this.path), data: () => mockStore.get(this.path) };
   }
+  
+  async delete() {
+    mockStore.delete(this.path);
+    console.log(`[MOCK] Delete ${this.path}`);
+  }
 }
 
 class MockFirestore {
@@ -61,6 +136,19 @@ class MockFirestore {
   doc(path: string) {
     return new MockDocRef(path);
   }
+  
+  async getAll(...refs: MockDocRef[]) {
+    return Promise.all(refs.map(ref => ref.get()));
+  }
+  
+  // Single-process mock: reads and writes just run in order
+  async runTransaction<T>(update: (transaction: any) => Promise<T>): Promise<T> {
+    return update({
+      get: (ref: MockDocRef) => ref.get(),
+      set: (ref: MockDocRef, data: any) => ref.set(data),
+      update: (ref: MockDocRef, updates: any) => ref.update(updates),
+    });
+  }
 }
 
 // Initialize the Admin SDK once per server process
@@ -116,12 +204,22 @@ export function getFirestore() {
   }
 }
 
+// Verifies Firebase ID tokens; null in mock mode, where no sign-in can be checked
+export function getAuth() {
+  const a = initAdmin();
+  return a ? a.auth() : null;
+}
+
 // Compatibility helpers that mimic the client SDK signatures used in server code.
 export function doc(firestore: any, ...pathParts: string[]) {
   const path = pathParts.join('/');
   return firestore.doc(path);
 }
 
+export async function getDoc(ref: any) {
+  return ref.get();
+}
+
 export async function setDoc(ref: any, data: any) {
   // admin SDK set returns a Promise<void>
   return ref.set(data);
@@ -138,10 +236,30 @@ export const serverTimestamp = () => {
   return admin.firestore.FieldValue.serverTimestamp();
 };
 
+// A concrete timestamp, for fields that are compared before the write lands
+export const timestampNow = () => {
+  if (USE_MOCK) {
+    return new Date().toISOString();
+  }
+  return admin.firestore.Timestamp.now();
+};
+
+// Removes a field in an update
+export const deleteField = () => {
+  if (USE_MOCK) {
+    return undefined;
+  }
+  return admin.firestore.FieldValue.delete();
+};
+
 export default {
   getFirestore,
+  getAuth,
   doc,
+  getDoc,
   setDoc,
   updateDoc,
   serverTimestamp,
+  timestampNow,
+  deleteField,
 };
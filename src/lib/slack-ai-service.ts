@@ -1,5 +1,6 @@
-import { aiDetectIssue, DetectIssueInput } from '@/ai/flows/ai-detects-potential-issues';
+import { aiDetectIssue, DetectIssueInput, DetectIssueOutput } from '@/ai/flows/ai-detects-potential-issues';
 import { aiCreateGithubIssue, AICreateGithubIssueInput } from '@/ai/flows/ai-creates-github-issues';
+import type { SlackIssueOrigin } from '@/types/slack';
 
 interface SlackMessage {
   text: string;
@@ -14,6 +15,10 @@ interface SlackUser {
   real_name?: string;
 }
 
+// Long threads are cut off here, keeping the start of the discussion
+const MAX_THREAD_MESSAGES = 200;
+const MAX_ISSUE_DESCRIPTION_LENGTH = 3000; // Slack's limit for input values
+
 export class SlackAIService {
   private botToken: string;
 
@@ -124,6 +129,77 @@ export class SlackAIService {
     };
   }
 
+  /**
+   * Fetch a thread's parent message and its replies, oldest first
+   */
+  async getThreadReplies(channelId: string, threadTs: string): Promise<SlackMessage[]> {
+    const messages: SlackMessage[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ channel: channelId, ts: threadTs, limit: '200' });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`https://slack.com/api/conversations.replies?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${this.botToken}`,
+        },
+      });
+
+      const data = await response.json();
+      if (!data.ok) {
+        throw new Error(`Failed to fetch thread replies: ${data.error}`);
+      }
+
+      messages.push(...(data.messages || []));
+      cursor = data.response_metadata?.next_cursor || undefined;
+    } while (cursor && messages.length < MAX_THREAD_MESSAGES);
+
+    return messages.slice(0, MAX_THREAD_MESSAGES);
+  }
+
+  /**
+   * Fetch a single message, which may be a thread reply
+   */
+  async getMessage(channelId: string, messageTs: string): Promise<(SlackMessage & { thread_ts?: string; bot_id?: string }) | null> {
+    // For a reply, conversations.replies returns just that reply
+    const params = new URLSearchParams({ channel: channelId, ts: messageTs, limit: '1' });
+    const response = await fetch(`https://slack.com/api/conversations.replies?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${this.botToken}`,
+      },
+    });
+
+    const data = await response.json();
+    if (!data.ok) {
+      console.error('Error fetching message:', data.error);
+      return null;
+    }
+
+    const message = (data.messages || []).find((msg: any) => msg.ts === messageTs);
+    return message ? { ...message, channel: channelId } : null;
+  }
+
+  /**
+   * Link to a message, or null if Slack won't give one
+   */
+  async getPermalink(channelId: string, messageTs: string): Promise<string | null> {
+    try {
+      const params = new URLSearchParams({ channel: channelId, message_ts: messageTs });
+      const response = await fetch(`https://slack.com/api/chat.getPermalink?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${this.botToken}`,
+        },
+      });
+
+      const data = await response.json();
+      return data.ok ? data.permalink : null;
+    } catch (error) {
+      console.error('Error fetching permalink:', error);
+      return null;
+    }
+  }
+
   /**
    * Extract GitHub usernames from mentions in Slack message text
    */
@@ -215,15 +291,75 @@ export class SlackAIService {
   }
 
   /**
-   * Create a GitHub issue from Slack interaction
+   * Summarize a whole thread into issue details, linking back to the thread
+   * and listing everyone who took part
+   */
+  async analyzeThreadForIssue(channelId: string, threadTs: string): Promise<{
+    title: string;
+    description: string;
+    priority: DetectIssueOutput['priority'];
+    participants: string[];
+    permalink: string | null;
+  }> {
+    const messages = await this.getThreadReplies(channelId, threadTs);
+    const names = new Map<string, string>();
+
+    for (const userId of Array.from(new Set(messages.map(msg => msg.user).filter(Boolean)))) {
+      try {
+        const info = await this.getUserInfo(userId);
+        names.set(userId, info.real_name || info.name || userId);
+      } catch (err) {
+        console.warn('⚠️ Failed to resolve thread participant, using fallback', { err, userId });
+        names.set(userId, userId);
+      }
+    }
+
+    const formattedMessages = messages.map((msg: any) => ({
+      sender: names.get(msg.user) || msg.username || msg.bot_id || 'unknown',
+      text: msg.text,
+    }));
+    const mentions = this.extractGitHubMentions(messages.map(msg => msg.text).join('\n'));
+
+    const [issueDetection, permalink] = await Promise.all([
+      aiDetectIssue({
+        messages: formattedMessages,
+        mentions: mentions.length > 0 ? mentions : undefined,
+      }),
+      this.getPermalink(channelId, threadTs),
+    ]);
+
+    // The thread may not read as an issue to the AI; start from the parent message then
+    const parentText = messages[0]?.text || '';
+    const participants = Array.from(names.values());
+    const context = [
+      '---',
+      permalink ? `**Slack thread:** ${permalink}` : null,
+      participants.length > 0 ? `**Participants:** ${participants.join(', ')}` : null,
+    ].filter(Boolean).join('\n');
+    const summary = (issueDetection.is_issue && issueDetection.description) || parentText;
+    const room = MAX_ISSUE_DESCRIPTION_LENGTH - context.length - 2;
+
+    return {
+      title: (issueDetection.is_issue && issueDetection.title) || parentText.split('\n')[0].slice(0, 80),
+      description: `${summary.length > room ? `${summary.slice(0, room - 1)}…` : summary}\n\n${context}`,
+      priority: issueDetection.priority,
+      participants,
+      permalink,
+    };
+  }
+
+  /**
+   * Create a GitHub issue from Slack interaction. With an origin, the issue
+   * is linked to its Slack thread for comment sync.
    */
   async createGitHubIssueFromSlack(
     title: string,
     description: string,
     repository: string,
     accessToken: string,
-    assignees?: string[]
-  ): Promise<{ success: boolean; issueUrl?: string; error?: string }> {
+    assignees?: string[],
+    origin?: SlackIssueOrigin
+  ): Promise<{ success: boolean; issueUrl?: string; issueNumber?: number; error?: string }> {
     try {
       // Parse repository string (owner/repo)
       const [repoOwner, repoName] = repository.split('/');
@@ -247,10 +383,26 @@ export class SlackAIService {
 
       // Use AI to create the GitHub issue
       const result = await aiCreateGithubIssue(createInput);
+      const issueNumber = Number(result.issueUrl.match(/\/issues\/(\d+)/)?.[1]) || undefined;
+
+      if (origin && issueNumber) {
+        try {
+          const { slackThreadService } = await import('./slack-thread-service');
+          await slackThreadService.trackIssue(origin, {
+            repository,
+            number: issueNumber,
+            url: result.issueUrl,
+            title,
+          });
+        } catch (error) {
+          console.error('Error linking issue to Slack thread:', error);
+        }
+      }
 
       return {
         success: true,
         issueUrl: result.issueUrl,
+        issueNumber,
       };
     } catch (error) {
       console.error('Error creating GitHub issue:', error);
@@ -262,9 +414,9 @@ export class SlackAIService {
   }
 
   /**
-   * Send a message to a Slack channel or user
+   * Send a message to a Slack channel or user, optionally as a thread reply
    */
-  async sendMessage(channel: string, text: string, blocks?: any[]): Promise<boolean> {
+  async sendMessage(channel: string, text: string, blocks?: any[], threadTs?: string): Promise<boolean> {
     try {
       const response = await fetch('https://slack.com/api/chat.postMessage', {
         method: 'POST',
@@ -276,6 +428,7 @@ export class SlackAIService {
           channel,
           text,
           blocks,
+          thread_ts: threadTs,
         }),
       });
 
@@ -318,12 +471,14 @@ export class SlackAIService {
   }
 
   /**
-   * Automatically analyze a message and suggest creating an issue if detected
+   * Automatically analyze a message and suggest creating an issue if detected,
+   * as far as the workspace's and channel's settings allow
    */
   async autoAnalyzeMessage(
     channelId: string, 
     messageText: string, 
-    userId: string
+    userId: string,
+    teamId?: string
   ): Promise<{
     shouldSuggest: boolean;
     issueData?: any;
@@ -331,6 +486,20 @@ export class SlackAIService {
     userRepos?: string[];
   }> {
     try {
+      const { slackSettingsService } = await import('./slack-settings-service');
+      const settings = await slackSettingsService.getSettings(teamId, channelId);
+
+      if (
+        !settings.enabled ||
+        !slackSettingsService.isUserAllowed(settings, userId) ||
+        slackSettingsService.isQuietHours(settings)
+      ) {
+        return {
+          shouldSuggest: false,
+          userHasGitHub: false,
+        };
+      }
+
       // Get recent messages including the new one
       const messages = await this.getChannelHistory(channelId, 5);
       
@@ -369,11 +538,17 @@ export class SlackAIService {
 
       // Check if user has GitHub integration (you'll need to implement this)
       const userHasGitHub = await this.checkUserGitHubAuth(userId);
-      const userRepos = userHasGitHub ? await this.getUserRepositories(userId) : [];
+      const userRepos = !userHasGitHub
+        ? []
+        : settings.target_repository
+          ? [settings.target_repository]
+          : await this.getUserRepositories(userId);
+      const shouldSuggest = issueDetection.is_issue &&
+        (issueDetection.confidence ?? 0) >= settings.confidence_threshold;
 
       return {
-        shouldSuggest: issueDetection.is_issue,
-        issueData: issueDetection.is_issue ? issueDetection : undefined,
+        shouldSuggest,
+        issueData: shouldSuggest ? issueDetection : undefined,
         userHasGitHub,
         userRepos,
       };
@@ -570,12 +745,61 @@ export class SlackAIService {
   }
 
   /**
-   * Assign an issue to MCP
+   * Publish a user's App Home tab
    */
-  async assignIssueToMCP(issueId: string): Promise<void> {
-    console.log('Assigning issue to MCP:', issueId);
-    // Mock implementation; replace with actual logic
-    console.log(`Issue #${issueId} assigned to MCP successfully.`);
+  async publishHomeView(userId: string, view: Record<string, unknown>): Promise<boolean> {
+    try {
+      const response = await fetch('https://slack.com/api/views.publish', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          user_id: userId,
+          view,
+        }),
+      });
+
+      const data = await response.json();
+      if (!data.ok) {
+        console.error('Error publishing App Home:', data.error);
+      }
+      return data.ok;
+    } catch (error) {
+      console.error('Error publishing App Home:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Post a message and return its ts, so later updates can reply in its thread
+   */
+  async startThread(channel: string, text: string, blocks?: any[]): Promise<string | null> {
+    try {
+      const response = await fetch('https://slack.com/api/chat.postMessage', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          channel,
+          text,
+          blocks,
+        }),
+      });
+
+      const data = await response.json();
+      if (!data.ok) {
+        console.error('Error starting Slack thread:', data.error);
+        return null;
+      }
+      return data.ts;
+    } catch (error) {
+      console.error('Error starting Slack thread:', error);
+      return null;
+    }
   }
 }
 
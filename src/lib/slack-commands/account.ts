@@ -0,0 +1,278 @@
+import { loginCommand, logoutCommand, statusCommand } from '@/lib/gitpulse-commands';
+import { defineSlackSubcommand, githubConnectUrl } from './command';
+
+export const loginSubcommand = defineSlackSubcommand({
+  command: loginCommand,
+  async handler(context) {
+    const { userId } = context;
+
+    try {
+      console.log('Login status check for user:', userId);
+      
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      const hasGitHubAuth = await slackUserService.hasGitHubAuth(userId);
+      
+      if (hasGitHubAuth) {
+        // User is already authenticated - show status
+        const userRepos = await slackUserService.getUserRepositories(userId);
+        const currentRepo = await slackUserService.getCurrentRepository(userId);
+        
+        return {
+          response_type: 'ephemeral',
+          text: '✅ Already Connected to GitHub',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `🔗 *GitHub Connection Status*\n\n✅ You are already connected to GitHub!\n\n📊 *Your GitHub data:*\n• Total repositories: ${userRepos.length}\n• Current repository: ${currentRepo || 'None selected'}\n• User ID: ${userId}`
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Switch Repository'
+                  },
+                  action_id: 'switch_repo_from_login'
+                },
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '📝 Create Issue'
+                  },
+                  action_id: 'create_issue_from_login'
+                },
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔓 Logout'
+                  },
+                  action_id: 'logout_from_login'
+                }
+              ]
+            }
+          ]
+        };
+      } else {
+        // User needs to authenticate
+        return {
+          response_type: 'ephemeral',
+          text: '🔑 GitHub Authentication Required',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '🔗 *Connect Your GitHub Account*\n\nConnect your GitHub account to start using GitPulse features like creating issues, viewing repositories, and more!'
+              }
+            },
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '🚀 *What you can do after connecting:*\n• Create GitHub issues directly from Slack\n• View your repositories and switch between them\n• List issues and pull requests\n• Assign issues to team members\n• Access both public and private repositories'
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔗 Connect GitHub Account'
+                  },
+                  action_id: 'connect_github_from_login',
+                  style: 'primary',
+                  url: githubConnectUrl(context, '&source=login')
+                },
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '❓ Help'
+                  },
+                  action_id: 'help_from_login'
+                }
+              ]
+            }
+          ]
+        };
+      }
+    } catch (error) {
+      console.error('Error in login command:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Error checking login status: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
+      };
+    }
+  },
+});
+
+export const logoutSubcommand = defineSlackSubcommand({
+  command: logoutCommand,
+  async handler(context) {
+    const { userId } = context;
+
+    try {
+      console.log('Logging out user:', userId);
+      
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      
+      // Check if user is currently authenticated
+      const hasGitHubAuth = await slackUserService.hasGitHubAuth(userId);
+      
+      if (!hasGitHubAuth) {
+        return {
+          response_type: 'ephemeral',
+          text: '🔓 Already Logged Out',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '🔓 *Logout Status*\n\nYou are not currently connected to GitHub.\n\nUse `/gitpulse create-issue` or `/gitpulse switchrepo` to connect your account.'
+              }
+            }
+          ]
+        };
+      }
+
+      // Perform logout - disconnect GitHub authentication
+      await slackUserService.disconnectGitHubAuth(userId);
+      console.log('User logged out successfully:', userId);
+
+      return {
+        response_type: 'ephemeral',
+        text: '🔓 Successfully Logged Out',
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: '🔓 *Logout Successful*\n\n✅ Your GitHub account has been disconnected from GitPulse.\n\n🔒 **What was removed:**\n• GitHub authentication tokens (revoked with GitHub)\n• Repository access permissions\n• Cached repository data\n\n🔗 **To reconnect later:**\nUse `/gitpulse create-issue` or `/gitpulse switchrepo`'
+            }
+          },
+          {
+            type: 'context',
+            elements: [
+              {
+                type: 'mrkdwn',
+                text: '🛡️ Your data privacy is important to us. All authentication data has been securely removed.'
+              }
+            ]
+          }
+        ]
+      };
+
+    } catch (error) {
+      console.error('Error in logout command:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Error during logout: ${error instanceof Error ? error.message : 'Unknown error'}.\n\nPlease try again or contact administrator.`,
+      };
+    }
+  },
+});
+
+export const statusSubcommand = defineSlackSubcommand({
+  command: statusCommand,
+  deferred: true,
+  async handler(context) {
+    const { userId, teamId } = context;
+
+    try {
+      const { slackInstallationService } = await import('@/lib/slack-installation-service');
+      const systemChecks = {
+        slackBotToken: !!(await slackInstallationService.getBotToken(teamId)),
+        slackSigningSecret: !!process.env.SLACK_SIGNING_SECRET,
+        googleGenaiApiKey: !!process.env.GOOGLE_GENAI_API_KEY,
+        timestamp: new Date().toISOString()
+      };
+
+      // Get user-specific status
+      let userStatus = {
+        isAuthenticated: false,
+        currentRepo: null as string | null,
+        totalRepos: 0
+      };
+
+      try {
+        const { slackUserService } = await import('@/lib/slack-user-service');
+        userStatus.isAuthenticated = await slackUserService.hasGitHubAuth(userId);
+        
+        if (userStatus.isAuthenticated) {
+          const userRepos = await slackUserService.getUserRepositories(userId);
+          const currentRepo = await slackUserService.getCurrentRepository(userId);
+          userStatus.currentRepo = currentRepo;
+          userStatus.totalRepos = userRepos.length;
+        }
+      } catch (error) {
+        console.error('Error getting user status:', error);
+      }
+      
+      return {
+        response_type: 'ephemeral',
+        text: 'GitPulse Status',
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `🔧 *System Status*\n\n• Slack Bot Token: ${systemChecks.slackBotToken ? '✅' : '❌'}\n• Slack Signing Secret: ${systemChecks.slackSigningSecret ? '✅' : '❌'}\n• Google GenAI API Key: ${systemChecks.googleGenaiApiKey ? '✅' : '❌'}\n• Server Time: ${systemChecks.timestamp}`
+            }
+          },
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `👤 *Your Status*\n\n• GitHub Authentication: ${userStatus.isAuthenticated ? '✅ Connected' : '❌ Not connected'}\n• Current Repository: ${userStatus.currentRepo || 'None selected'}\n• Total Repositories: ${userStatus.totalRepos}\n• User ID: ${userId}`
+            }
+          },
+          {
+            type: 'actions',
+            elements: [
+              !userStatus.isAuthenticated ? {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔗 Connect GitHub'
+                },
+                action_id: 'connect_github',
+                style: 'primary',
+                url: githubConnectUrl(context)
+              } : {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Switch Repository'
+                },
+                action_id: 'switch_repo_from_status'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Refresh Status'
+                },
+                action_id: 'refresh_status'
+              }
+            ]
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error getting status:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Error getting status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,97 @@
+import { analyzeCommand } from '@/lib/gitpulse-commands';
+import { defineSlackSubcommand } from './command';
+
+export const analyzeSubcommand = defineSlackSubcommand({
+  command: analyzeCommand,
+  deferred: true,
+  async handler(context) {
+    const { channelId, teamId } = context;
+
+    try {
+      console.log('Starting analysis for channel:', channelId);
+      
+      // Check for required environment variables
+      const { slackInstallationService } = await import('@/lib/slack-installation-service');
+      const slack = await slackInstallationService.getClient(teamId);
+      if (!(await slackInstallationService.getBotToken(teamId))) {
+        console.error('No Slack bot token for team:', teamId);
+        return {
+          response_type: 'ephemeral',
+          text: '❌ Bot token not configured. Please contact administrator.',
+        };
+      }
+
+      if (!process.env.GOOGLE_GENAI_API_KEY) {
+        console.error('Missing GOOGLE_GENAI_API_KEY');
+        return {
+          response_type: 'ephemeral',
+          text: '❌ AI service not configured. Please contact administrator.',
+        };
+      }
+
+      // Deferred, so the analysis can take as long as the AI needs
+      const analysisResult = await slack.analyzeChannelForIssues(channelId!);
+      console.log('Analysis completed:', { hasIssue: analysisResult.hasIssue });
+
+      if (analysisResult.hasIssue) {
+        return {
+          response_type: 'ephemeral',
+          text: analysisResult.message || '🔍 Analysis Complete',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `🔍 *Analysis Complete*\n\n${analysisResult.message}\n\n**Priority:** ${analysisResult.issueData?.priority}\n**Description:** ${analysisResult.issueData?.description}`
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: 'Create GitHub Issue'
+                  },
+                  action_id: 'create_github_issue',
+                  style: 'primary'
+                }
+              ]
+            }
+          ]
+        };
+      } else {
+        return {
+          response_type: 'ephemeral',
+          text: analysisResult.message || '🔍 Analysis Complete',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `🔍 *Analysis Complete*\n\n${analysisResult.message}`
+              }
+            }
+          ]
+        };
+      }
+    } catch (error) {
+      console.error('Error analyzing messages:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      
+      // Provide specific guidance for auth errors
+      if (errorMessage.includes('invalid_auth')) {
+        return {
+          response_type: 'ephemeral',
+          text: '🔐 **Authentication Error**\n\nThe bot needs proper permissions to read channel messages.\n\n**Quick fixes:**\n1. Add bot to this channel: `/invite @GitPulse`\n2. Check if bot has `conversations:history` scope\n3. Verify bot token is correct\n\nSee server logs for detailed error info.',
+        };
+      }
+      
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Error analyzing messages: ${errorMessage}.\n\nTry:\n• \`/gitpulse help\` for available commands\n• Check if bot is added to this channel\n• Contact administrator if issue persists`,
+      };
+    }
+  },
+});
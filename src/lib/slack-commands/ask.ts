@@ -0,0 +1,70 @@
+import { askCommand } from '@/lib/gitpulse-commands';
+import { defineSlackSubcommand } from './command';
+
+export const askSubcommand = defineSlackSubcommand({
+  command: askCommand,
+  deferred: true,
+  async handler(context) {
+    const { args, userId } = context;
+
+    try {
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      const [currentRepo, accessToken] = await Promise.all([
+        slackUserService.getCurrentRepository(userId),
+        slackUserService.getGitHubToken(userId),
+      ]);
+
+      if (!currentRepo) {
+        return {
+          response_type: 'ephemeral',
+          text: '❌ No repository selected. Use `/gitpulse switchrepo` first.',
+        };
+      }
+
+      const [repoOwner, repoName] = currentRepo.split('/');
+      console.log(`Answering question about ${currentRepo} for user:`, userId);
+
+      // Slack channels have no GitPulse chat history, so only the repo is searched
+      const { aiAnswerChannelQuestion } = await import('@/ai/flows/ai-answers-channel-question');
+      const { answer, sources } = await aiAnswerChannelQuestion({
+        repoOwner,
+        repoName,
+        question: args.question,
+        ...(accessToken && { accessToken }),
+      });
+
+      const sourceList = sources
+        .map(source => `[${source.citation}] ${source.url ? `<${source.url}|${source.label}>` : source.label}`)
+        .join('\n');
+
+      return {
+        response_type: 'ephemeral',
+        text: answer,
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `❓ *${args.question}*\n\n${answer}`
+            }
+          },
+          ...(sourceList ? [{
+            type: 'context',
+            elements: [
+              {
+                type: 'mrkdwn',
+                text: `📚 *Sources in ${currentRepo}:*\n${sourceList}`
+              }
+            ]
+          }] : [])
+        ]
+      };
+    } catch (error) {
+      console.error('Error answering question:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Failed to answer your question: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,47 @@
+import type { z } from 'zod';
+import type { GitPulseCommand } from '@/lib/gitpulse-commands';
+import type { SlackCommandInvocation, SlackCommandReply } from '@/lib/slack-deferred-commands';
+import { oauthStateService } from '@/lib/oauth-state-service';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SlackCommandContext<Args> {
+  invocation: SlackCommandInvocation;
+  args: Args;
+  userId: string;
+  channelId: string | null;
+  teamId: string | null;
+}
+
+/**
+ * A /gitpulse subcommand: a shared command definition and its Slack handler
+ */
+export interface SlackSubcommand<Args extends z.AnyZodObject = z.AnyZodObject> {
+  command: GitPulseCommand<Args>;
+  /** Acknowledge at once and reply through response_url; for anything that calls GitHub or the AI */
+  deferred?: boolean;
+  /** Method syntax, so subcommands with specific args fit in a SlackSubcommand[] */
+  handler(context: SlackCommandContext<z.infer<Args>>): Promise<SlackCommandReply>;
+}
+
+export function defineSlackSubcommand<Args extends z.AnyZodObject>(
+  subcommand: SlackSubcommand<Args>
+): SlackSubcommand<Args> {
+  return subcommand;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The signed GitHub connect link for the user running a command
+ */
+export function githubConnectUrl(context: SlackCommandContext<unknown>, extra: string = ''): string {
+  return oauthStateService.buildConnectUrl(
+    { slack_user_id: context.userId, channel_id: context.channelId, team_id: context.teamId },
+    extra
+  );
+}
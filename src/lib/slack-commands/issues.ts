@@ -0,0 +1,552 @@
+import { createIssueCommand, issueListCommand, prListCommand, replyCommand } from '@/lib/gitpulse-commands';
+import { defineSlackSubcommand, githubConnectUrl } from './command';
+
+export const createIssueSubcommand = defineSlackSubcommand({
+  command: createIssueCommand,
+  deferred: true,
+  async handler(context) {
+    const { userId } = context;
+
+    try {
+      console.log('Creating issue for user:', userId);
+      
+      const { slackUserService } = await import('@/lib/slack-user-service');
+
+      // Get the user's repositories and current repo
+      const userRepos = await slackUserService.getUserRepositories(userId);
+      const currentRepo = await slackUserService.getCurrentRepository(userId);
+      console.log('User repositories:', { userId, repoCount: userRepos.length, currentRepo });
+      
+      if (userRepos.length === 0) {
+        return {
+          response_type: 'ephemeral',
+          text: '📁 No Repositories Found',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '📝 *Create GitHub Issue*\n\n📁 No repositories found in your GitHub account, or you may need to refresh your connection.'
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Refresh GitHub Connection'
+                  },
+                  action_id: 'refresh_github',
+                  style: 'primary',
+                  url: githubConnectUrl(context, '&refresh=true')
+                },
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '📝 Enter Repository Manually'
+                  },
+                  action_id: 'manual_repo_entry'
+                }
+              ]
+            }
+          ]
+        };
+      }
+
+      // Create repository selection dropdown
+      const repoOptions = userRepos.slice(0, 25).map((repo: string) => ({
+        text: {
+          type: 'plain_text',
+          text: repo.length > 75 ? repo.substring(0, 72) + '...' : repo
+        },
+        value: repo
+      }));
+
+      return {
+        response_type: 'ephemeral',
+        text: '📝 Create GitHub Issue',
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: '📝 *Create GitHub Issue*\n\nSelect a repository to create an issue in:'
+            }
+          },
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `🔗 *Connected as:* Your GitHub account\n📁 *Available repositories:* ${userRepos.length} found${currentRepo ? `\n🎯 *Current repository:* ${currentRepo}` : ''}`
+            },
+            accessory: {
+              type: 'static_select',
+              placeholder: {
+                type: 'plain_text',
+                text: currentRepo ? `Current: ${currentRepo.split('/')[1] || currentRepo}` : 'Select repository...'
+              },
+              options: repoOptions,
+              action_id: 'select_repository_for_issue',
+              ...(currentRepo && userRepos.includes(currentRepo) && { 
+                initial_option: {
+                  text: {
+                    type: 'plain_text',
+                    text: currentRepo.length > 75 ? currentRepo.substring(0, 72) + '...' : currentRepo
+                  },
+                  value: currentRepo
+                }
+              })
+            }
+          },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '� Refresh Repositories'
+                },
+                action_id: 'refresh_repos'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '� Enter Repository Manually'
+                },
+                action_id: 'manual_repo_entry'
+              }
+            ]
+          }
+        ]
+      };
+
+    } catch (error) {
+      console.error('Error in create-issue command:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Error setting up issue creation: ${error instanceof Error ? error.message : 'Unknown error'}.\n\nPlease try again or contact administrator.`,
+      };
+    }
+  },
+});
+
+export const issueListSubcommand = defineSlackSubcommand({
+  command: issueListCommand,
+  deferred: true,
+  async handler(context) {
+    const { args, userId } = context;
+
+    try {
+      const targetRepo = args.repo;
+
+      console.log('Fetching issue list for user:', userId, 'targetRepo:', targetRepo);
+      const { slackUserService } = await import('@/lib/slack-user-service');
+
+      const userRepos = await slackUserService.getUserRepositories(userId);
+      const currentRepo = await slackUserService.getCurrentRepository(userId);
+      
+      if (userRepos.length === 0) {
+        return {
+          response_type: 'ephemeral',
+          text: '📁 No Repositories Found',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '📝 *Issue List*\n\n📁 No repositories found in your GitHub account.'
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Refresh GitHub Connection'
+                  },
+                  action_id: 'refresh_github',
+                  style: 'primary',
+                  url: githubConnectUrl(context, '&refresh=true')
+                }
+              ]
+            }
+          ]
+        };
+      }
+
+      // If no specific repo requested, show repository selection
+      if (!targetRepo) {
+        const repoOptions = userRepos.slice(0, 25).map((repo: string) => ({
+          text: {
+            type: 'plain_text',
+            text: repo.length > 75 ? repo.substring(0, 72) + '...' : repo
+          },
+          value: repo
+        }));
+
+        const initialOption = currentRepo && userRepos.includes(currentRepo) ? {
+          text: {
+            type: 'plain_text',
+            text: currentRepo.length > 75 ? currentRepo.substring(0, 72) + '...' : currentRepo
+          },
+          value: currentRepo
+        } : undefined;
+
+        return {
+          response_type: 'ephemeral',
+          text: '📝 Select Repository for Issue List',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `📝 *Issue List*\n\nSelect a repository to view its issues:${currentRepo ? `\n🎯 *Current repository:* ${currentRepo}` : ''}\n📊 *Available repositories:* ${userRepos.length} found`
+              },
+              accessory: {
+                type: 'static_select',
+                placeholder: {
+                  type: 'plain_text',
+                  text: currentRepo ? `Current: ${currentRepo.split('/')[1] || currentRepo}` : 'Select repository...'
+                },
+                options: repoOptions,
+                action_id: 'select_repository_for_issues',
+                ...(initialOption && { initial_option: initialOption })
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Refresh Repositories'
+                  },
+                  action_id: 'refresh_repos'
+                },
+                currentRepo ? {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: `📝 Show Issues for ${currentRepo.split('/')[1] || currentRepo}`
+                  },
+                  action_id: 'show_current_repo_issues',
+                  style: 'primary'
+                } : null
+              ].filter(Boolean)
+            }
+          ]
+        };
+      }
+
+      // Fetch issues for specified or current repository
+      const repoToQuery = targetRepo || currentRepo || userRepos[0];
+      if (!userRepos.includes(repoToQuery)) {
+        return {
+          response_type: 'ephemeral',
+          text: `❌ Repository "${repoToQuery}" not found in your accessible repositories.`,
+        };
+      }
+
+      // Fetch real data for issues from GitHub
+      const issues = await slackUserService.getIssuesForRepository(repoToQuery, userId);
+      const issueList = issues.length > 0 
+        ? issues
+            .filter((issue): issue is { number: number; title: string; state: string } => !!issue.state)
+            .map((issue) => 
+              `• #${issue.number}: ${issue.title} (${issue.state})`)
+            .join('\n')
+        : '📝 No issues found in this repository.';
+
+      return {
+        response_type: 'ephemeral',
+        text: `📝 Issue List for ${repoToQuery}`,
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `📝 *Issue List for ${repoToQuery}*\n\n${issueList}\n\n📊 *Total issues:* ${issues.length}`
+            }
+          },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Refresh Issues'
+                },
+                action_id: 'refresh_issues'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '📝 Create New Issue'
+                },
+                action_id: 'create_new_issue'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Switch Repository'
+                },
+                action_id: 'switch_repo_for_issues'
+              }
+            ]
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error fetching issue list:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Failed to fetch issue list: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
+      };
+    }
+  },
+});
+
+export const prListSubcommand = defineSlackSubcommand({
+  command: prListCommand,
+  deferred: true,
+  async handler(context) {
+    const { args, userId } = context;
+
+    try {
+      const targetRepo = args.repo;
+
+      console.log('Fetching PR list for user:', userId, 'targetRepo:', targetRepo);
+      const { slackUserService } = await import('@/lib/slack-user-service');
+
+      const userRepos = await slackUserService.getUserRepositories(userId);
+      const currentRepo = await slackUserService.getCurrentRepository(userId);
+      
+      if (userRepos.length === 0) {
+        return {
+          response_type: 'ephemeral',
+          text: '📁 No Repositories Found',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '🔀 *Pull Request List*\n\n📁 No repositories found in your GitHub account.'
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Refresh GitHub Connection'
+                  },
+                  action_id: 'refresh_github',
+                  style: 'primary',
+                  url: githubConnectUrl(context, '&refresh=true')
+                }
+              ]
+            }
+          ]
+        };
+      }
+
+      // If no specific repo requested, show repository selection
+      if (!targetRepo) {
+        const repoOptions = userRepos.slice(0, 25).map((repo: string) => ({
+          text: {
+            type: 'plain_text',
+            text: repo.length > 75 ? repo.substring(0, 72) + '...' : repo
+          },
+          value: repo
+        }));
+
+        const initialOption = currentRepo && userRepos.includes(currentRepo) ? {
+          text: {
+            type: 'plain_text',
+            text: currentRepo.length > 75 ? currentRepo.substring(0, 72) + '...' : currentRepo
+          },
+          value: currentRepo
+        } : undefined;
+
+        return {
+          response_type: 'ephemeral',
+          text: '🔀 Select Repository for Pull Request List',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: `🔀 *Pull Request List*\n\nSelect a repository to view its pull requests:${currentRepo ? `\n🎯 *Current repository:* ${currentRepo}` : ''}\n📊 *Available repositories:* ${userRepos.length} found`
+              },
+              accessory: {
+                type: 'static_select',
+                placeholder: {
+                  type: 'plain_text',
+                  text: currentRepo ? `Current: ${currentRepo.split('/')[1] || currentRepo}` : 'Select repository...'
+                },
+                options: repoOptions,
+                action_id: 'select_repository_for_prs',
+                ...(initialOption && { initial_option: initialOption })
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Refresh Repositories'
+                  },
+                  action_id: 'refresh_repos'
+                },
+                currentRepo ? {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: `🔀 Show PRs for ${currentRepo.split('/')[1] || currentRepo}`
+                  },
+                  action_id: 'show_current_repo_prs',
+                  style: 'primary'
+                } : null
+              ].filter(Boolean)
+            }
+          ]
+        };
+      }
+
+      // Fetch PRs for specified or current repository
+      const repoToQuery = targetRepo || currentRepo || userRepos[0];
+      if (!userRepos.includes(repoToQuery)) {
+        return {
+          response_type: 'ephemeral',
+          text: `❌ Repository "${repoToQuery}" not found in your accessible repositories.`,
+        };
+      }
+
+      // Fetch real data for pull requests from GitHub
+      const prs = await slackUserService.getPullRequestsForRepository(repoToQuery, userId);
+      const prList = prs.length > 0 
+        ? prs.map((pr: { number: number; title: string; state: string }) => 
+            `• #${pr.number}: ${pr.title} (${pr.state})`).join('\n')
+        : '🔀 No pull requests found in this repository.';
+
+      return {
+        response_type: 'ephemeral',
+        text: `🔀 Pull Request List for ${repoToQuery}`,
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `🔀 *Pull Request List for ${repoToQuery}*\n\n${prList}\n\n📊 *Total pull requests:* ${prs.length}`
+            }
+          },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Refresh PRs'
+                },
+                action_id: 'refresh_prs'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Switch Repository'
+                },
+                action_id: 'switch_repo_for_prs'
+              }
+            ]
+          }
+        ]
+      };
+    } catch (error) {
+      console.error('Error fetching PR list:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Failed to fetch PR list: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
+      };
+    }
+  },
+});
+
+export const replySubcommand = defineSlackSubcommand({
+  command: replyCommand,
+  deferred: true,
+  async handler(context) {
+    const { args, userId, teamId } = context;
+
+    try {
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      const [currentRepo, accessToken] = await Promise.all([
+        slackUserService.getCurrentRepository(userId),
+        slackUserService.getGitHubToken(userId),
+      ]);
+
+      if (!currentRepo) {
+        return {
+          response_type: 'ephemeral',
+          text: '❌ No repository selected. Use `/gitpulse switchrepo` first.',
+        };
+      }
+
+      if (!accessToken) {
+        return {
+          response_type: 'ephemeral',
+          text: '🔗 Connect your GitHub account with `/gitpulse login` first, so your reply is posted as you.',
+        };
+      }
+
+      const [owner, repo] = currentRepo.split('/');
+      const issueNumber = args.issue;
+      const replyText = args.message;
+      const { slackThreadService } = await import('@/lib/slack-thread-service');
+
+      console.log(`Replying on ${currentRepo}#${issueNumber} for user:`, userId);
+      const author = await slackThreadService.resolveAuthor(userId, teamId);
+      await slackThreadService.commentOnIssue(owner, repo, issueNumber, author, replyText, accessToken);
+
+      // Keep the issue's thread in step, since the comment won't echo back
+      const link = await slackThreadService.findThreadForIssue(currentRepo, issueNumber);
+      if (link) {
+        const { slackInstallationService } = await import('@/lib/slack-installation-service');
+        const slack = await slackInstallationService.getClient(link.team_id);
+        await slack.sendMessage(
+          link.channel_id,
+          `↩️ <@${userId}> replied on <${link.issue_url}|${currentRepo}#${issueNumber}>:\n${replyText}`,
+          undefined,
+          link.thread_ts
+        );
+      }
+
+      return {
+        response_type: 'ephemeral',
+        text: `✅ Sent your reply to ${currentRepo}#${issueNumber}.`,
+      };
+    } catch (error) {
+      console.error('Error replying on issue:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Failed to send reply: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,108 @@
+import { assignCommand, cancelCommand } from '@/lib/gitpulse-commands';
+import { defineSlackSubcommand } from './command';
+
+export const assignSubcommand = defineSlackSubcommand({
+  command: assignCommand,
+  deferred: true,
+  async handler(context) {
+    const { args, userId, channelId, teamId } = context;
+
+    try {
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      const userData = await slackUserService.getUserData(userId);
+      const currentRepo = await slackUserService.getCurrentRepository(userId);
+      const githubLogin = userData?.github_user?.login;
+
+      if (!githubLogin) {
+        return {
+          response_type: 'ephemeral',
+          text: '🔗 Connect your GitHub account with `/gitpulse login` first, so GitPulse can check that you are assigned to the issue.',
+        };
+      }
+
+      if (!currentRepo) {
+        return {
+          response_type: 'ephemeral',
+          text: '❌ No repository selected. Use `/gitpulse switchrepo` first.',
+        };
+      }
+
+      const [owner, repo] = currentRepo.split('/');
+      const issueNumber = args.issue;
+
+      console.log(`Assigning ${currentRepo}#${issueNumber} to MCP for user:`, userId);
+      const { enqueueCodeGeneration } = await import('@/lib/mcp/agent-service');
+
+      const result = await enqueueCodeGeneration({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        requested_by: githubLogin,
+        slack_channel: channelId || undefined,
+        slack_team: teamId || undefined,
+      });
+
+      return {
+        response_type: 'ephemeral',
+        text: result.slack_thread_ts
+          ? `✅ Queued ${currentRepo}#${issueNumber} for MCP. Progress will be posted in the thread above.`
+          : `✅ Queued ${currentRepo}#${issueNumber} for MCP as job \`${result.jobId}\`.`,
+      };
+    } catch (error) {
+      console.error('Error assigning issue:', error);
+      const { NotAssigneeError } = await import('@/types/mcp');
+      return {
+        response_type: 'ephemeral',
+        text: error instanceof NotAssigneeError
+          ? `🚫 Only an assignee of the issue can hand it to MCP. ${error.message}`
+          : `❌ Failed to assign issue: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
+
+export const cancelSubcommand = defineSlackSubcommand({
+  command: cancelCommand,
+  async handler(context) {
+    const { args, userId } = context;
+
+    try {
+      const { target } = args;
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      const userData = await slackUserService.getUserData(userId);
+      const currentRepo = userData?.default_repository;
+
+      if (!currentRepo) {
+        return {
+          response_type: 'ephemeral',
+          text: '❌ No repository selected. Use `/gitpulse switchrepo` first.',
+        };
+      }
+
+      const [owner, repo] = currentRepo.split('/');
+      // "#42" or "42" is an issue number; anything else is a job ID
+      const issueMatch = target.match(/^#?(\d+)$/);
+
+      console.log(`Cancelling ${issueMatch ? `jobs for issue #${issueMatch[1]}` : `job ${target}`} in ${currentRepo} for user:`, userId);
+      const { cancelCodeGeneration } = await import('@/lib/mcp/agent-service');
+
+      const result = await cancelCodeGeneration({
+        owner,
+        repo,
+        ...(issueMatch ? { issue_number: Number(issueMatch[1]) } : { jobId: target }),
+        requested_by: userData?.github_user?.login || `slack:${userId}`,
+      });
+
+      return {
+        response_type: 'in_channel',
+        text: `🛑 Cancelled ${result.cancelled.length} job(s) in ${currentRepo}: ${result.cancelled.map(id => `\`${id}\``).join(', ')}`,
+      };
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Failed to cancel job: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  },
+});
@@ -0,0 +1,190 @@
+import { formatCommandUsage, helpCommand, parseCommandArgs } from '@/lib/gitpulse-commands';
+import type { SlackCommandInvocation, SlackCommandReply } from '@/lib/slack-deferred-commands';
+import { defineSlackSubcommand, githubConnectUrl, SlackCommandContext, SlackSubcommand } from './command';
+import { analyzeSubcommand } from './analyze';
+import { askSubcommand } from './ask';
+import { createIssueSubcommand, issueListSubcommand, prListSubcommand, replySubcommand } from './issues';
+import { assignSubcommand, cancelSubcommand } from './jobs';
+import { switchRepoSubcommand } from './repository';
+import { loginSubcommand, logoutSubcommand, statusSubcommand } from './account';
+
+const USAGE_PREFIX = '/gitpulse ';
+
+// ============================================================================
+// Help
+// ============================================================================
+
+function formatCommandList(): string {
+  return SLACK_SUBCOMMANDS
+    .map(({ command }) => `• \`${formatCommandUsage(command, USAGE_PREFIX)}\` - ${command.description}`)
+    .join('\n');
+}
+
+const helpSubcommand = defineSlackSubcommand({
+  command: helpCommand,
+  async handler(context) {
+    const { userId } = context;
+    let userInfo = '';
+
+    try {
+      const { slackUserService } = await import('@/lib/slack-user-service');
+      const isAuthenticated = await slackUserService.hasGitHubAuth(userId);
+      const currentRepo = isAuthenticated ? await slackUserService.getCurrentRepository(userId) : null;
+
+      userInfo = isAuthenticated
+        ? `\n\n🎯 *Your current status:*\n• ✅ GitHub connected${currentRepo ? `\n• 📁 Current repo: ${currentRepo}` : '\n• 📁 No repository selected'}`
+        : `\n\n🎯 *Your current status:*\n• ❌ GitHub not connected - use \`/gitpulse status\` to connect`;
+    } catch (error) {
+      console.error('Error getting user info for help:', error);
+    }
+
+    return {
+      response_type: 'ephemeral',
+      text: 'GitPulse - Your AI Development Assistant',
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*GitPulse Commands:*\n\n${formatCommandList()}\n\n💡 *Tips:*\n• Most commands show interactive repository selection\n• Use \`status\` or \`login\` to see your current GitHub connection\n• You can mention @GitPulse in any channel to get my attention!${userInfo}`
+          }
+        },
+        {
+          type: 'actions',
+          elements: [
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: '📊 Check Status'
+              },
+              action_id: 'check_status_from_help'
+            },
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: '🔍 Try Analyze'
+              },
+              action_id: 'try_analyze_from_help'
+            }
+          ]
+        }
+      ]
+    };
+  },
+});
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/** Every /gitpulse subcommand, in the order help lists them */
+export const SLACK_SUBCOMMANDS: SlackSubcommand[] = [
+  analyzeSubcommand,
+  askSubcommand,
+  createIssueSubcommand,
+  issueListSubcommand,
+  prListSubcommand,
+  assignSubcommand,
+  cancelSubcommand,
+  replySubcommand,
+  switchRepoSubcommand,
+  loginSubcommand,
+  logoutSubcommand,
+  statusSubcommand,
+  helpSubcommand,
+];
+
+export function findSlackSubcommand(name: string): SlackSubcommand<any> | undefined {
+  return SLACK_SUBCOMMANDS.find(subcommand => subcommand.command.name === name);
+}
+
+/**
+ * Run a /gitpulse subcommand: parse its arguments, check its auth
+ * requirement and call its handler. Unknown subcommands get the help text.
+ */
+export async function runSlackSubcommand(invocation: SlackCommandInvocation): Promise<SlackCommandReply> {
+  if (!invocation.user_id) {
+    return {
+      response_type: 'ephemeral',
+      text: '❌ Unable to identify user. Please try again.',
+    };
+  }
+
+  const subcommand = findSlackSubcommand(invocation.subcommand);
+  const baseContext = {
+    invocation,
+    userId: invocation.user_id,
+    channelId: invocation.channel_id,
+    teamId: invocation.team_id,
+  };
+
+  if (!subcommand) {
+    const help = await helpSubcommand.handler({ ...baseContext, args: {} });
+    return {
+      ...help,
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `❓ Unknown command \`${USAGE_PREFIX}${invocation.subcommand}\`.` }
+        },
+        ...(help.blocks || [])
+      ]
+    };
+  }
+
+  const { command } = subcommand;
+  const argText = (invocation.text || '').trim().slice(invocation.subcommand.length);
+  const parsed = parseCommandArgs(command, argText);
+
+  if (!parsed.success) {
+    return {
+      response_type: 'ephemeral',
+      text: `❌ ${parsed.error}\n\n*Usage:* \`${formatCommandUsage(command, USAGE_PREFIX)}\`\n${command.description}`,
+    };
+  }
+
+  const context: SlackCommandContext<unknown> = { ...baseContext, args: parsed.args };
+
+  if (command.auth === 'github') {
+    const { slackUserService } = await import('@/lib/slack-user-service');
+
+    if (!(await slackUserService.hasGitHubAuth(context.userId))) {
+      return connectGitHubReply(context, command.name);
+    }
+  }
+
+  return subcommand.handler(context);
+}
+
+function connectGitHubReply(context: SlackCommandContext<unknown>, name: string): SlackCommandReply {
+  return {
+    response_type: 'ephemeral',
+    text: '🔗 GitHub Authentication Required',
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `🔗 *GitHub Authentication Required*\n\nTo use \`${USAGE_PREFIX}${name}\`, you need to connect your GitHub account first.`
+        }
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '🔗 Connect GitHub Account'
+            },
+            action_id: 'connect_github',
+            style: 'primary',
+            url: githubConnectUrl(context)
+          }
+        ]
+      }
+    ]
+  };
+}
@@ -0,0 +1,130 @@
+import { switchRepoCommand } from '@/lib/gitpulse-commands';
+import { defineSlackSubcommand, githubConnectUrl } from './command';
+
+export const switchRepoSubcommand = defineSlackSubcommand({
+  command: switchRepoCommand,
+  deferred: true,
+  async handler(context) {
+    const { userId } = context;
+
+    try {
+      console.log('Switching repository for user:', userId);
+      
+      const { slackUserService } = await import('@/lib/slack-user-service');
+
+      // Get user repositories
+      const userRepos = await slackUserService.getUserRepositories(userId);
+      console.log('User repositories for switch:', { userId, repoCount: userRepos.length });
+      
+      if (userRepos.length === 0) {
+        return {
+          response_type: 'ephemeral',
+          text: '📁 No Repositories Found',
+          blocks: [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: '🔄 *Switch Repository*\n\n📁 No repositories found in your GitHub account.'
+              }
+            },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: {
+                    type: 'plain_text',
+                    text: '🔄 Refresh GitHub Connection'
+                  },
+                  action_id: 'refresh_github',
+                  style: 'primary',
+                  url: githubConnectUrl(context, '&refresh=true')
+                }
+              ]
+            }
+          ]
+        };
+      }
+
+      // Get current repository (if any)
+      const currentRepo = await slackUserService.getCurrentRepository(userId);
+      
+      // Create repository selection dropdown
+      const repoOptions = userRepos.slice(0, 25).map((repo: string) => ({
+        text: {
+          type: 'plain_text',
+          text: repo.length > 75 ? repo.substring(0, 72) + '...' : repo
+        },
+        value: repo
+      }));
+
+      return {
+        response_type: 'ephemeral',
+        text: '🔄 Switch Repository',
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `🔄 *Switch Repository*\n\n${currentRepo ? `📁 **Current repository:** ${currentRepo}` : '📁 **No repository currently selected**'}\n\nSelect a new repository to work with:`
+            }
+          },
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `📊 *Available repositories:* ${userRepos.length} found`
+            },
+            accessory: {
+              type: 'static_select',
+              placeholder: {
+                type: 'plain_text',
+                text: 'Select repository...'
+              },
+              options: repoOptions,
+              action_id: 'switch_repository'
+            }
+          },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '✅ Confirm Switch'
+                },
+                action_id: 'confirm_repo_switch',
+                style: 'primary'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '🔄 Refresh List'
+                },
+                action_id: 'refresh_repos'
+              },
+              {
+                type: 'button',
+                text: {
+                  type: 'plain_text',
+                  text: '❌ Cancel'
+                },
+                action_id: 'cancel_repo_switch'
+              }
+            ]
+          }
+        ]
+      };
+
+    } catch (error) {
+      console.error('Error in switchrepo command:', error);
+      return {
+        response_type: 'ephemeral',
+        text: `❌ Error switching repository: ${error instanceof Error ? error.message : 'Unknown error'}.\n\nPlease try again or contact administrator.`,
+      };
+    }
+  },
+});
@@ -0,0 +1,133 @@
+import { after } from 'next/server';
+import { getFirestore, doc, setDoc, updateDoc, serverTimestamp } from '@/lib/server-firestore';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A slash command response, sent inline or later through response_url
+ */
+export interface SlackCommandReply {
+  response_type?: 'ephemeral' | 'in_channel';
+  text: string;
+  blocks?: any[];
+}
+
+export interface SlackCommandInvocation {
+  command: string;
+  subcommand: string;
+  text: string | null;
+  user_id: string | null;
+  channel_id: string | null;
+  team_id: string | null;
+  /** Valid for 30 minutes and 5 posts */
+  response_url: string | null;
+}
+
+// ============================================================================
+// Deferred Commands
+// ============================================================================
+
+/**
+ * Acknowledge a slash command right away and run it after the response is
+ * sent, posting its reply to the command's response_url. Each run is
+ * tracked on slack_commands/{id}, so slow or failed runs can be traced.
+ */
+export async function deferSlackCommand(
+  invocation: SlackCommandInvocation,
+  work: () => Promise<SlackCommandReply>,
+  acknowledgement: string = '⏳ Working on it...'
+): Promise<SlackCommandReply> {
+  const firestore = getFirestore();
+  const commandRef = firestore.collection('slack_commands').doc();
+
+  await setDoc(commandRef, {
+    command: invocation.command,
+    subcommand: invocation.subcommand,
+    text: invocation.text,
+    user_id: invocation.user_id,
+    channel_id: invocation.channel_id,
+    team_id: invocation.team_id,
+    status: 'queued',
+    created_at: serverTimestamp(),
+  });
+
+  after(() => runDeferredCommand(commandRef.id, invocation, work));
+
+  return { response_type: 'ephemeral', text: acknowledgement };
+}
+
+async function runDeferredCommand(
+  commandId: string,
+  invocation: SlackCommandInvocation,
+  work: () => Promise<SlackCommandReply>
+): Promise<void> {
+  const firestore = getFirestore();
+  const commandRef = doc(firestore, 'slack_commands', commandId);
+  const startedAt = Date.now();
+
+  await updateCommand(commandRef, { status: 'running', started_at: serverTimestamp() });
+
+  let reply: SlackCommandReply;
+  let error: string | null = null;
+
+  try {
+    reply = await work();
+  } catch (workError) {
+    console.error(`Deferred /gitpulse ${invocation.subcommand} failed:`, workError);
+    error = workError instanceof Error ? workError.message : 'Unknown error';
+    reply = {
+      response_type: 'ephemeral',
+      text: `❌ \`/gitpulse ${invocation.subcommand}\` failed: ${error}. Please try again.`,
+    };
+  }
+
+  const delivered = await deliverReply(invocation, reply);
+
+  await updateCommand(commandRef, {
+    status: error ? 'failed' : 'completed',
+    ...(error && { error }),
+    delivered,
+    duration_ms: Date.now() - startedAt,
+    finished_at: serverTimestamp(),
+  });
+}
+
+/**
+ * Post a reply to the command's response_url, falling back to an ephemeral
+ * message if the URL has expired
+ */
+async function deliverReply(invocation: SlackCommandInvocation, reply: SlackCommandReply): Promise<boolean> {
+  if (invocation.response_url) {
+    try {
+      const response = await fetch(invocation.response_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response_type: 'ephemeral', ...reply }),
+      });
+
+      if (response.ok) return true;
+      console.warn('⚠️ response_url rejected the reply:', response.status, await response.text());
+    } catch (error) {
+      console.warn('⚠️ Failed to post to response_url:', error);
+    }
+  }
+
+  if (!invocation.channel_id || !invocation.user_id) return false;
+
+  const { slackInstallationService } = await import('@/lib/slack-installation-service');
+  const slack = await slackInstallationService.getClient(invocation.team_id);
+  return slack.sendEphemeral(invocation.channel_id, invocation.user_id, reply.text, reply.blocks);
+}
+
+/**
+ * Best-effort: tracking never keeps a reply from being delivered
+ */
+async function updateCommand(commandRef: ReturnType<typeof doc>, updates: Record<string, unknown>): Promise<void> {
+  try {
+    await updateDoc(commandRef, updates);
+  } catch (error) {
+    console.error('Failed to record deferred command status:', error);
+  }
+}
@@ -0,0 +1,191 @@
+import type { GitHubItemSummary } from '@/lib/slack-user-service';
+import type { ActiveJob } from '@/lib/mcp/agent-service';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MAX_LISTED_ITEMS = 10;
+const MAX_REPOSITORY_OPTIONS = 100; // Slack's limit for a static_select
+
+const JOB_STATUS_ICONS: Record<string, string> = {
+  pending: '⏳',
+  processing: '⚙️',
+  review: '👀',
+};
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+// ============================================================================
+// Home Service
+// ============================================================================
+
+/**
+ * The GitPulse App Home tab: the user's GitHub connection, current
+ * repository, assigned issues, open MCP jobs and PRs awaiting their review.
+ * Its buttons use the same action IDs as the slash command messages, so
+ * /api/slack/interactions handles both.
+ */
+export class SlackHomeService {
+  /**
+   * Build and publish a user's Home tab in a workspace
+   */
+  async publishHome(userId: string, teamId: string | null): Promise<boolean> {
+    const { slackInstallationService } = await import('@/lib/slack-installation-service');
+
+    try {
+      const slack = await slackInstallationService.getClient(teamId);
+      return await slack.publishHomeView(userId, await this.buildHomeView(userId, teamId));
+    } catch (error) {
+      console.error('Error building App Home:', error);
+      return false;
+    }
+  }
+
+  private async buildHomeView(userId: string, teamId: string | null) {
+    const { slackUserService } = await import('@/lib/slack-user-service');
+    const userData = await slackUserService.getUserData(userId);
+    const login = userData?.github_user?.login;
+    const currentRepo = userData?.default_repository || null;
+
+    const blocks: any[] = [
+      { type: 'header', text: { type: 'plain_text', text: '🚀 GitPulse' } },
+    ];
+
+    if (!login || !(await slackUserService.hasGitHubAuth(userId))) {
+      const { oauthStateService } = await import('@/lib/oauth-state-service');
+
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: '⚠️ *GitHub not connected*\nConnect your account to create issues and hand them to MCP.' },
+        accessory: {
+          type: 'button',
+          text: { type: 'plain_text', text: '🔗 Connect GitHub Account' },
+          action_id: 'connect_github',
+          style: 'primary',
+          url: oauthStateService.buildConnectUrl({ slack_user_id: userId, channel_id: null, team_id: teamId })
+        }
+      });
+
+      return { type: 'home', blocks };
+    }
+
+    const [repositories, assignedIssues, reviewRequests, jobs] = await Promise.all([
+      slackUserService.getUserRepositories(userId),
+      slackUserService.getAssignedIssues(userId),
+      slackUserService.getReviewRequests(userId),
+      this.getActiveJobs(currentRepo, login),
+    ]);
+
+    blocks.push(
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `✅ *GitHub connected* as <https://github.com/${login}|${login}>` }
+      },
+      { type: 'divider' },
+      this.buildRepositorySection(currentRepo, repositories),
+      {
+        type: 'actions',
+        elements: [
+          ...(currentRepo ? [{
+            type: 'button',
+            text: { type: 'plain_text', text: '📝 Create Issue' },
+            action_id: 'create_issue_in_repo',
+            value: currentRepo,
+            style: 'primary'
+          }] : []),
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: '🔄 Refresh' },
+            action_id: 'refresh_home'
+          }
+        ]
+      },
+      { type: 'divider' },
+      this.buildListSection('🎯 Issues assigned to you', assignedIssues.map(item => this.formatItem(item)), 'Nothing assigned to you.'),
+      this.buildListSection(
+        currentRepo ? `🤖 Your MCP jobs in ${currentRepo}` : '🤖 Your MCP jobs',
+        currentRepo ? jobs.map(job => this.formatJob(currentRepo, job)) : [],
+        currentRepo ? 'No open jobs. Use `/gitpulse assign #42` to queue one.' : 'Select a repository to see its jobs.'
+      ),
+      this.buildListSection('👀 PRs awaiting your review', reviewRequests.map(item => this.formatItem(item)), 'No reviews requested.'),
+    );
+
+    return { type: 'home', blocks };
+  }
+
+  private buildRepositorySection(currentRepo: string | null, repositories: string[]) {
+    const options = Array.from(new Set([...(currentRepo ? [currentRepo] : []), ...repositories]))
+      .slice(0, MAX_REPOSITORY_OPTIONS)
+      .map(repo => ({
+        text: { type: 'plain_text', text: truncate(repo, 75) },
+        value: repo
+      }));
+
+    return {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: currentRepo
+          ? `📁 *Current repository:* \`${currentRepo}\``
+          : '📁 *No repository selected*\nPick one to create issues and queue MCP jobs in.'
+      },
+      ...(options.length > 0 && {
+        accessory: {
+          type: 'static_select',
+          placeholder: { type: 'plain_text', text: 'Switch repository...' },
+          options,
+          ...(currentRepo && { initial_option: options[0] }),
+          action_id: 'switch_repository'
+        }
+      })
+    };
+  }
+
+  private buildListSection(title: string, lines: string[], empty: string) {
+    const shown = lines.slice(0, MAX_LISTED_ITEMS);
+
+    return {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${title}*\n${shown.length > 0 ? shown.join('\n') : `_${empty}_`}`
+      }
+    };
+  }
+
+  private formatItem(item: GitHubItemSummary): string {
+    return `• <${item.url}|${item.repository}#${item.number}> ${escapeSlack(truncate(item.title, 80))}`;
+  }
+
+  private formatJob(repository: string, job: ActiveJob): string {
+    const issue = job.issue_number
+      ? `<https://github.com/${repository}/issues/${job.issue_number}|#${job.issue_number}>`
+      : `\`${job.jobId}\``;
+    const pr = job.pr_url ? ` · <${job.pr_url}|PR #${job.pr_number}>` : '';
+
+    return `• ${JOB_STATUS_ICONS[job.status] || ''} ${issue} ${job.status}${pr}`;
+  }
+
+  private async getActiveJobs(repository: string | null, login: string): Promise<ActiveJob[]> {
+    if (!repository) return [];
+
+    try {
+      const { listActiveJobs } = await import('@/lib/mcp/agent-service');
+      const [owner, repo] = repository.split('/');
+      return await listActiveJobs(owner, repo, login);
+    } catch (error) {
+      console.error('Error loading MCP jobs for App Home:', error);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const slackHomeService = new SlackHomeService();
@@ -0,0 +1,128 @@
+import { getFirestore, doc, getDoc, setDoc, updateDoc, serverTimestamp } from '@/lib/server-firestore';
+import { SlackAIService } from '@/lib/slack-ai-service';
+import type { SlackInstallation } from '@/types/slack';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const TOKEN_CACHE_TTL_MS = 5 * 60 * 1000; // Other instances see a revocation within 5 minutes
+
+/** Bot scopes requested on install; keep in step with slack-manifest.json */
+export const SLACK_BOT_SCOPES = [
+  'commands',
+  'chat:write',
+  'channels:history',
+  'channels:read',
+  'users:read',
+  'app_mentions:read',
+  'reactions:read',
+];
+
+// ============================================================================
+// Installation Service
+// ============================================================================
+
+/**
+ * Bot tokens per Slack workspace, from the OAuth install flow. Workspaces
+ * without an installation fall back to SLACK_BOT_TOKEN, so single-workspace
+ * setups keep working; uninstalled ones get no token at all.
+ */
+export class SlackInstallationService {
+  private cache = new Map<string, { token: string | null; expiresAt: number }>();
+  private clients = new Map<string, SlackAIService>();
+
+  /**
+   * Store a workspace's installation, replacing any earlier one
+   */
+  async saveInstallation(installation: SlackInstallation): Promise<void> {
+    const firestore = getFirestore();
+
+    await setDoc(doc(firestore, 'slack_installations', installation.team_id), {
+      ...installation,
+      installed_at: serverTimestamp(),
+      revoked_at: null,
+    });
+
+    this.cache.delete(installation.team_id);
+    console.log(`✅ Slack app installed in ${installation.team_name || installation.team_id}`);
+  }
+
+  /**
+   * The bot token for a workspace, or null if the app was uninstalled there
+   */
+  async getBotToken(teamId?: string | null): Promise<string | null> {
+    const fallback = process.env.SLACK_BOT_TOKEN || null;
+    if (!teamId) return fallback;
+
+    const cached = this.cache.get(teamId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    let token: string | null;
+    try {
+      const firestore = getFirestore();
+      const snapshot = await getDoc(doc(firestore, 'slack_installations', teamId));
+      token = snapshot.exists ? (snapshot.data() as SlackInstallation).bot_token : fallback;
+    } catch (error) {
+      console.error('Error loading Slack installation, using SLACK_BOT_TOKEN:', error);
+      return fallback;
+    }
+
+    this.cache.set(teamId, { token, expiresAt: Date.now() + TOKEN_CACHE_TTL_MS });
+    return token;
+  }
+
+  /**
+   * A Slack client authorized for a workspace. Calls for a workspace that
+   * uninstalled the app fail with not_authed rather than using another
+   * workspace's token.
+   */
+  async getClient(teamId?: string | null): Promise<SlackAIService> {
+    const token = await this.getBotToken(teamId);
+
+    if (!token) {
+      console.warn(`⚠️ No Slack bot token for team ${teamId}; the app was uninstalled or its token revoked`);
+    }
+
+    const key = token || '';
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new SlackAIService(key);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Forget a workspace's bot token after an app_uninstalled or
+   * tokens_revoked event
+   */
+  async revokeInstallation(teamId: string, reason: string): Promise<void> {
+    const firestore = getFirestore();
+    const installationRef = doc(firestore, 'slack_installations', teamId);
+
+    if ((await getDoc(installationRef)).exists) {
+      await updateDoc(installationRef, {
+        bot_token: null,
+        revoked_at: serverTimestamp(),
+        revoked_reason: reason,
+      });
+    } else {
+      // Keep single-workspace setups from falling back to SLACK_BOT_TOKEN
+      await setDoc(installationRef, {
+        team_id: teamId,
+        bot_token: null,
+        revoked_at: serverTimestamp(),
+        revoked_reason: reason,
+      });
+    }
+
+    this.cache.set(teamId, { token: null, expiresAt: Date.now() + TOKEN_CACHE_TTL_MS });
+    console.log(`🔒 Slack bot token revoked for team ${teamId} (${reason})`);
+  }
+}
+
+// Export singleton instance
+export const slackInstallationService = new SlackInstallationService();
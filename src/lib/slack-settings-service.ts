@@ -0,0 +1,189 @@
+import { getFirestore, doc, getDoc, setDoc, serverTimestamp } from '@/lib/server-firestore';
+import { isChannelAllowed } from '@/lib/slack-utils';
+import { slackInstallationService } from '@/lib/slack-installation-service';
+import { ResolvedSlackSettings, SlackSettings, SlackSettingsSchema } from '@/types/slack';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const SETTINGS_CACHE_TTL_MS = 30 * 1000; // Dashboard edits apply within 30 seconds
+const DEFAULT_CONFIDENCE_THRESHOLD = Number(process.env.SLACK_CONFIDENCE_THRESHOLD || 0.7);
+
+// ============================================================================
+// Settings Service
+// ============================================================================
+
+/**
+ * Per-workspace and per-channel Slack settings. Channel overrides win over
+ * the workspace, which wins over the SLACK_*_ALLOWLIST env vars, kept as
+ * defaults for workspaces nobody has configured yet.
+ */
+export class SlackSettingsService {
+  private cache = new Map<string, { settings: ResolvedSlackSettings; expiresAt: number }>();
+
+  /**
+   * Settings that apply to a channel in a workspace
+   */
+  async getSettings(teamId?: string | null, channelId?: string | null): Promise<ResolvedSlackSettings> {
+    const key = `${teamId || ''}:${channelId || ''}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.settings;
+    }
+
+    const settings = { ...this.getDefaults(channelId) };
+
+    if (teamId) {
+      try {
+        const { workspace, channel } = await this.loadSettings(teamId, channelId);
+        Object.assign(settings, workspace, channel);
+      } catch (error) {
+        console.error('Error loading Slack settings, using defaults:', error);
+      }
+    }
+
+    this.cache.set(key, { settings, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS });
+    return settings;
+  }
+
+  /**
+   * Whether the bot listens to a user
+   */
+  isUserAllowed(settings: ResolvedSlackSettings, userId?: string | null): boolean {
+    if (settings.allowed_users.length === 0) return true;
+    return !!userId && settings.allowed_users.includes(userId);
+  }
+
+  /**
+   * Whether `now` falls in the quiet hours, which may span midnight
+   */
+  isQuietHours(settings: ResolvedSlackSettings, now: Date = new Date()): boolean {
+    const quiet = settings.quiet_hours;
+    if (!quiet || quiet.start === quiet.end) return false;
+
+    let time: string;
+    try {
+      time = new Intl.DateTimeFormat('en-GB', {
+        timeZone: quiet.timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).format(now);
+    } catch {
+      console.warn(`⚠️ Ignoring quiet hours with an unknown time zone: ${quiet.timezone}`);
+      return false;
+    }
+
+    return quiet.start < quiet.end
+      ? time >= quiet.start && time < quiet.end
+      : time >= quiet.start || time < quiet.end;
+  }
+
+  /**
+   * Save a workspace's settings, or a channel's override. Null settings
+   * remove the override so the channel inherits again.
+   */
+  async updateSettings(teamId: string, channelId: string | null, settings: SlackSettings | null): Promise<void> {
+    const firestore = getFirestore();
+    const ref = channelId
+      ? doc(firestore, 'slack_workspaces', teamId, 'channels', channelId)
+      : doc(firestore, 'slack_workspaces', teamId);
+
+    if (settings === null) {
+      await ref.delete();
+    } else {
+      await ref.set({ ...settings, updated_at: serverTimestamp() }, { merge: true });
+    }
+
+    // This instance applies the change now; others pick it up when their cache expires
+    this.cache.forEach((_, key) => {
+      if (key.startsWith(`${teamId}:`)) this.cache.delete(key);
+    });
+  }
+
+  /**
+   * Whether a GitHub account belongs to an admin or owner of a workspace: one
+   * of the Slack users who connected it with /gitpulse login, as Slack reports
+   * them to the workspace's bot
+   */
+  async isWorkspaceAdmin(teamId: string, githubId: string): Promise<boolean> {
+    const botToken = await slackInstallationService.getBotToken(teamId);
+    if (!botToken) return false;
+
+    const firestore = getFirestore();
+    const linked = await firestore.collection('slack_users').where('github_user.id', '==', Number(githubId)).get();
+
+    for (const slackUser of linked.docs) {
+      const response = await fetch('https://slack.com/api/users.info', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ user: slackUser.id }),
+      });
+      const data = await response.json();
+
+      if (data.ok && data.user?.team_id === teamId && (data.user.is_admin || data.user.is_owner)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private getDefaults(channelId?: string | null): ResolvedSlackSettings {
+    return {
+      enabled: isChannelAllowed(channelId),
+      confidence_threshold: DEFAULT_CONFIDENCE_THRESHOLD,
+      target_repository: null,
+      quiet_hours: null,
+      allowed_users: (process.env.SLACK_USER_ALLOWLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+    };
+  }
+
+  private async loadSettings(
+    teamId: string,
+    channelId?: string | null
+  ): Promise<{ workspace: SlackSettings; channel: SlackSettings }> {
+    const firestore = getFirestore();
+    const workspaceRef = doc(firestore, 'slack_workspaces', teamId);
+    const workspaceSnapshot = await getDoc(workspaceRef);
+
+    if (!workspaceSnapshot.exists) {
+      // Record the workspace so the dashboard can list it for configuration
+      await setDoc(workspaceRef, { team_id: teamId, created_at: serverTimestamp() });
+    }
+
+    const channelSnapshot = channelId
+      ? await getDoc(doc(firestore, 'slack_workspaces', teamId, 'channels', channelId))
+      : null;
+
+    return {
+      workspace: this.parseSettings(workspaceSnapshot.exists ? workspaceSnapshot.data() : {}, teamId),
+      channel: this.parseSettings(channelSnapshot?.exists ? channelSnapshot.data() : {}, `${teamId}/${channelId}`),
+    };
+  }
+
+  private parseSettings(data: unknown, label: string): SlackSettings {
+    const parsed = SlackSettingsSchema.safeParse(data ?? {});
+
+    if (!parsed.success) {
+      console.warn(`⚠️ Ignoring invalid Slack settings for ${label}:`, parsed.error.message);
+      return {};
+    }
+
+    // Unset fields inherit, so drop them rather than overriding with undefined
+    return Object.fromEntries(
+      Object.entries(parsed.data).filter(([, value]) => value !== undefined)
+    ) as SlackSettings;
+  }
+}
+
+// Export singleton instance
+export const slackSettingsService = new SlackSettingsService();
@@ -0,0 +1,213 @@
+import { getFirestore, doc, getDoc, setDoc, serverTimestamp } from '@/lib/server-firestore';
+import { postIssueComment } from '@/lib/mcp/github-client';
+import { SlackIssueOrigin, SlackIssueThread } from '@/types/slack';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Reacting to a thread reply with this emoji sends it to the GitHub issue */
+export const SLACK_REPLY_REACTION = process.env.SLACK_REPLY_REACTION || 'outbox_tray';
+
+/**
+ * Marks comments posted from Slack, so the issue_comment webhook doesn't
+ * echo them back into the thread
+ */
+export const SLACK_COMMENT_MARKER = '<!-- gitpulse:slack -->';
+
+const MAX_SLACK_COMMENT_LENGTH = 2900; // Leaves room for the header in a 3000-char section
+
+// ============================================================================
+// Thread Service
+// ============================================================================
+
+/**
+ * Links between GitHub issues and the Slack threads they came from
+ */
+export class SlackThreadService {
+  /**
+   * Link a newly created issue to its Slack thread, starting a thread with
+   * an announcement when the issue wasn't created from one. Returns null if
+   * the announcement couldn't be posted.
+   */
+  async trackIssue(
+    origin: SlackIssueOrigin,
+    issue: { repository: string; number: number; url: string; title: string }
+  ): Promise<SlackIssueThread | null> {
+    const slack = await this.getSlackClient(origin.team_id);
+    const reference = `<${issue.url}|${issue.repository}#${issue.number}>`;
+    const mirrorReplies = !!origin.mirror_replies;
+    const howToReply = mirrorReplies
+      ? 'Replies in this thread are added to the issue as comments.'
+      : `GitHub comments appear in this thread; react to a reply with :${SLACK_REPLY_REACTION}: to send it to the issue.`;
+
+    let threadTs = origin.thread_ts;
+
+    if (threadTs) {
+      await slack.sendMessage(origin.channel_id, `📌 Tracked in ${reference}. ${howToReply}`, undefined, threadTs);
+    } else {
+      threadTs = await slack.startThread(
+        origin.channel_id,
+        `🆕 <@${origin.user_id}> opened ${reference}: ${issue.title}\n${howToReply}`
+      ) ?? undefined;
+    }
+
+    if (!threadTs) {
+      console.warn('⚠️ Could not start a Slack thread for issue', { issue: issue.url, channel: origin.channel_id });
+      return null;
+    }
+
+    const link: SlackIssueThread = {
+      team_id: origin.team_id,
+      channel_id: origin.channel_id,
+      thread_ts: threadTs,
+      repository: issue.repository,
+      issue_number: issue.number,
+      issue_url: issue.url,
+      issue_key: this.issueKey(issue.repository, issue.number),
+      mirror_replies: mirrorReplies,
+      created_by: origin.user_id,
+    };
+
+    const firestore = getFirestore();
+    await setDoc(doc(firestore, 'slack_issue_threads', this.threadKey(origin.channel_id, threadTs)), {
+      ...link,
+      created_at: serverTimestamp(),
+    });
+
+    return link;
+  }
+
+  /**
+   * The issue linked to a thread, or null if the thread isn't linked
+   */
+  async getThreadLink(channelId: string, threadTs: string): Promise<SlackIssueThread | null> {
+    const firestore = getFirestore();
+    const snapshot = await getDoc(doc(firestore, 'slack_issue_threads', this.threadKey(channelId, threadTs)));
+    return snapshot.exists ? (snapshot.data() as SlackIssueThread) : null;
+  }
+
+  /**
+   * The thread linked to an issue, or null if it wasn't created from Slack
+   */
+  async findThreadForIssue(repository: string, issueNumber: number): Promise<SlackIssueThread | null> {
+    const firestore = getFirestore();
+    const snapshot = await firestore
+      .collection('slack_issue_threads')
+      .where('issue_key', '==', this.issueKey(repository, issueNumber))
+      .get();
+
+    return snapshot.empty ? null : (snapshot.docs[0].data() as SlackIssueThread);
+  }
+
+  /**
+   * Post a thread reply on the linked issue as a comment, with the GitHub
+   * token of the Slack user who sent it there. Each reply is sent once;
+   * returns false if it already was.
+   */
+  async mirrorReply(
+    link: SlackIssueThread,
+    message: { user?: string; text: string; ts: string },
+    accessToken: string
+  ): Promise<boolean> {
+    const firestore = getFirestore();
+    const mirroredRef = doc(
+      firestore,
+      'slack_issue_threads',
+      this.threadKey(link.channel_id, link.thread_ts),
+      'mirrored',
+      message.ts
+    );
+
+    if ((await getDoc(mirroredRef)).exists) {
+      return false;
+    }
+
+    const slack = await this.getSlackClient(link.team_id);
+    const [owner, repo] = link.repository.split('/');
+    const author = await this.resolveAuthor(message.user, link.team_id);
+    const permalink = await slack.getPermalink(link.channel_id, message.ts);
+
+    await this.commentOnIssue(owner, repo, link.issue_number, author, message.text, accessToken, permalink);
+    await setDoc(mirroredRef, { user: message.user || null, mirrored_at: serverTimestamp() });
+
+    return true;
+  }
+
+  /**
+   * Post a comment on an issue on behalf of a Slack user, with the GitHub
+   * token they connected
+   */
+  async commentOnIssue(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    author: string,
+    text: string,
+    accessToken: string,
+    permalink?: string | null
+  ): Promise<void> {
+    const quoted = text.split('\n').map(line => `> ${line}`).join('\n');
+
+    await postIssueComment(
+      owner,
+      repo,
+      issueNumber,
+      `${SLACK_COMMENT_MARKER}\n💬 **${author}** replied in Slack:\n\n${quoted}${permalink ? `\n\n[View in Slack](${permalink})` : ''}`,
+      accessToken
+    );
+  }
+
+  /**
+   * Post a GitHub comment in the issue's thread
+   */
+  async postGitHubComment(
+    link: SlackIssueThread,
+    comment: { author: string; body: string; url: string }
+  ): Promise<void> {
+    const slack = await this.getSlackClient(link.team_id);
+    const text = comment.body.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const body = text.length > MAX_SLACK_COMMENT_LENGTH
+      ? `${text.slice(0, MAX_SLACK_COMMENT_LENGTH)}…`
+      : text;
+
+    await slack.sendMessage(
+      link.channel_id,
+      `💬 *${comment.author}* commented on <${comment.url}|${link.repository}#${link.issue_number}>:\n${body}`,
+      undefined,
+      link.thread_ts
+    );
+  }
+
+  /**
+   * A Slack user's display name, falling back to their ID
+   */
+  async resolveAuthor(userId?: string, teamId?: string | null): Promise<string> {
+    if (!userId) return 'Someone';
+
+    try {
+      const slack = await this.getSlackClient(teamId);
+      const info = await slack.getUserInfo(userId);
+      return info.real_name || info.name || userId;
+    } catch (error) {
+      console.warn('⚠️ Failed to resolve Slack user for comment', { error, user: userId });
+      return userId;
+    }
+  }
+
+  private async getSlackClient(teamId?: string | null) {
+    const { slackInstallationService } = await import('@/lib/slack-installation-service');
+    return slackInstallationService.getClient(teamId);
+  }
+
+  private threadKey(channelId: string, threadTs: string): string {
+    return `${channelId}-${threadTs}`;
+  }
+
+  private issueKey(repository: string, issueNumber: number): string {
+    return `${repository.toLowerCase()}#${issueNumber}`;
+  }
+}
+
+// Export singleton instance
+export const slackThreadService = new SlackThreadService();
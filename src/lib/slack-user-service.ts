@@ -1,9 +1,12 @@
 import { getFirestore, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { initializeApp, getApps } from 'firebase/app';
+import type { SlackIssueOrigin } from '@/types/slack';
+import type { GitHubOAuthTokens } from '@/lib/github-token-vault';
 
 interface SlackUserData {
   slackUserId: string;
-  github_token?: string;
+  /** Legacy plaintext token; moved into the token vault the next time it's read */
+  github_token?: string | null;
   github_user?: {
     login: string;
     id: number;
@@ -19,6 +22,14 @@ interface SlackUserData {
   last_activity?: Date;
 }
 
+export interface GitHubItemSummary {
+  /** owner/repo */
+  repository: string;
+  number: number;
+  title: string;
+  url: string;
+}
+
 export class SlackUserService {
   private db: any;
 
@@ -58,23 +69,27 @@ export class SlackUserService {
   }
 
   /**
-   * Store user GitHub authentication data
+   * Store user GitHub authentication data. Tokens go to the encrypted token
+   * vault; only the profile is kept on the user document.
    */
-  async storeGitHubAuth(slackUserId: string, githubData: {
-    access_token: string;
+  async storeGitHubAuth(slackUserId: string, githubData: GitHubOAuthTokens & {
     github_user: any;
   }): Promise<void> {
     try {
+      const { githubTokenVault } = await import('@/lib/github-token-vault');
+      const { github_user, ...tokens } = githubData;
+      await githubTokenVault.storeTokens(slackUserId, tokens);
+
       const userRef = doc(this.db, 'slack_users', slackUserId);
       
       await setDoc(userRef, {
         slackUserId,
-        github_token: githubData.access_token,
+        github_token: null,
         github_user: {
-          login: githubData.github_user.login,
-          id: githubData.github_user.id,
-          avatar_url: githubData.github_user.avatar_url,
-          name: githubData.github_user.name,
+          login: github_user.login,
+          id: github_user.id,
+          avatar_url: github_user.avatar_url,
+          name: github_user.name,
         },
         connected_at: new Date(),
         last_activity: new Date(),
@@ -91,24 +106,15 @@ export class SlackUserService {
   }
 
   /**
-   * Get user's GitHub token
+   * Get user's GitHub token from the token vault, refreshing it if needed.
+   * Only users without one are checked for a plaintext token to move in.
    */
   async getGitHubToken(slackUserId: string): Promise<string | null> {
     try {
-      if (!this.db) {
-        console.warn('⚠️ Firebase not initialized, cannot get GitHub token');
-        return null;
-      }
-      
-      const userRef = doc(this.db, 'slack_users', slackUserId);
-      const userDoc = await getDoc(userRef);
-      
-      if (userDoc.exists()) {
-        const userData = userDoc.data() as SlackUserData;
-        return userData.github_token || null;
-      }
-      
-      return null;
+      const { githubTokenVault } = await import('@/lib/github-token-vault');
+      const token = await githubTokenVault.getToken(slackUserId);
+      if (token || !(await this.migrateLegacyToken(slackUserId))) return token;
+      return await githubTokenVault.getToken(slackUserId);
     } catch (error) {
       console.error('Error getting GitHub token:', error);
       return null;
@@ -116,7 +122,27 @@ export class SlackUserService {
   }
 
   /**
-   * Check if user has GitHub authentication
+   * Move a token stored in plaintext before the vault existed into the vault.
+   * Returns whether there was one.
+   */
+  private async migrateLegacyToken(slackUserId: string): Promise<boolean> {
+    if (!this.db) return false;
+
+    const userRef = doc(this.db, 'slack_users', slackUserId);
+    const userDoc = await getDoc(userRef);
+    const legacyToken = userDoc.exists() ? (userDoc.data() as SlackUserData).github_token : null;
+    if (!legacyToken) return false;
+
+    const { githubTokenVault } = await import('@/lib/github-token-vault');
+    await githubTokenVault.storeTokens(slackUserId, { access_token: legacyToken });
+    await updateDoc(userRef, { github_token: null });
+    console.log('🔐 Moved plaintext GitHub token into the token vault for user:', slackUserId);
+    return true;
+  }
+
+  /**
+   * Check if user has GitHub authentication, without decrypting or
+   * refreshing their token
    */
   async hasGitHubAuth(slackUserId: string): Promise<boolean> {
     try {
@@ -124,8 +150,8 @@ export class SlackUserService {
         console.warn('⚠️ Firebase not initialized, assuming no GitHub auth');
         return false;
       }
-      const token = await this.getGitHubToken(slackUserId);
-      return !!token;
+      const { githubTokenVault } = await import('@/lib/github-token-vault');
+      return (await githubTokenVault.hasToken(slackUserId)) || (await this.migrateLegacyToken(slackUserId));
     } catch (error) {
       console.error('Error checking GitHub auth:', error);
       return false;
@@ -373,6 +399,62 @@ export class SlackUserService {
     }
   }
 
+  /**
+   * Open issues assigned to the user, across their repositories
+   */
+  async getAssignedIssues(slackUserId: string): Promise<GitHubItemSummary[]> {
+    return this.searchGitHub(slackUserId, login => `is:open is:issue assignee:${login}`);
+  }
+
+  /**
+   * Open pull requests waiting on the user's review
+   */
+  async getReviewRequests(slackUserId: string): Promise<GitHubItemSummary[]> {
+    return this.searchGitHub(slackUserId, login => `is:open is:pr review-requested:${login}`);
+  }
+
+  /**
+   * Search issues and PRs with the user's own token, since results depend on
+   * what they can see
+   */
+  private async searchGitHub(slackUserId: string, query: (login: string) => string): Promise<GitHubItemSummary[]> {
+    try {
+      const userData = await this.getUserData(slackUserId);
+      const login = userData?.github_user?.login;
+      const token = await this.getGitHubToken(slackUserId);
+
+      if (!login || !token) {
+        return [];
+      }
+
+      const params = new URLSearchParams({ q: query(login), sort: 'updated', per_page: '10' });
+      const response = await fetch(`https://api.github.com/search/issues?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Accept': 'application/vnd.github.v3+json',
+          'User-Agent': 'GitPulse-Bot/1.0'
+        },
+      });
+
+      if (!response.ok) {
+        console.error('GitHub search failed', query(login), response.status, response.statusText);
+        return [];
+      }
+
+      const data = await response.json();
+      return (data.items as any[]).map(item => ({
+        // repository_url is https://api.github.com/repos/{owner}/{repo}
+        repository: item.repository_url.split('/repos/')[1],
+        number: item.number,
+        title: item.title,
+        url: item.html_url,
+      }));
+    } catch (error) {
+      console.error('Error searching GitHub:', error);
+      return [];
+    }
+  }
+
   /**
    * Get user's current default repository
    */
@@ -387,10 +469,14 @@ export class SlackUserService {
   }
 
   /**
-   * Disconnect user's GitHub authentication
+   * Disconnect user's GitHub authentication, revoking the token with GitHub
    */
   async disconnectGitHubAuth(slackUserId: string): Promise<void> {
     try {
+      const { githubTokenVault } = await import('@/lib/github-token-vault');
+      await this.migrateLegacyToken(slackUserId);
+      await githubTokenVault.revokeToken(slackUserId);
+
       const userRef = doc(this.db, 'slack_users', slackUserId);
       
       // Update document to remove GitHub authentication data
@@ -409,9 +495,16 @@ export class SlackUserService {
   }
 
   /**
-   * Create a GitHub issue in the specified repository using the user's GitHub token
+   * Create a GitHub issue in the specified repository using the user's GitHub token.
+   * With an origin, the issue is linked to its Slack thread for comment sync.
    */
-  async createIssueForRepository(repoName: string, title: string, body: string, slackUserId: string): Promise<{ number: number; url: string; title: string } | null> {
+  async createIssueForRepository(
+    repoName: string,
+    title: string,
+    body: string,
+    slackUserId: string,
+    origin?: SlackIssueOrigin
+  ): Promise<{ number: number; url: string; title: string } | null> {
     console.log('Creating GitHub issue:', { repoName, title, slackUserId });
     try {
       let token = await this.getGitHubToken(slackUserId);
@@ -452,6 +545,16 @@ export class SlackUserService {
         // Optionally annotate in logs that fallback was used
         console.warn('Issue created using fallback token — attribution may not match user', { result, repoName, slackUserId });
       }
+
+      if (origin) {
+        try {
+          const { slackThreadService } = await import('./slack-thread-service');
+          await slackThreadService.trackIssue(origin, { repository: repoName, ...result });
+        } catch (error) {
+          console.error('Error linking issue to Slack thread:', error);
+        }
+      }
+
       return result;
     } catch (error) {
       console.error('Error creating GitHub issue:', error);
@@ -4,6 +4,10 @@ import { z } from 'zod';
 // Request/Response Schemas
 // ============================================================================
 
+export const GitBackendKindSchema = z.enum(['github', 'worktree']);
+
+export type GitBackendKind = z.infer<typeof GitBackendKindSchema>;
+
 export const MCPGenerateCodeRequestSchema = z.object({
   owner: z.string().min(1, 'Owner is required'),
   repo: z.string().min(1, 'Repository name is required'),
@@ -11,6 +15,10 @@ export const MCPGenerateCodeRequestSchema = z.object({
   jobId: z.string().min(1, 'Job ID is required'),
   requested_by: z.string().min(1, 'Requested by is required'),
   related_files: z.array(z.string()).optional(),
+  output_mode: z.enum(['full', 'patch']).optional(),
+  max_repair_rounds: z.number().int().min(0).max(10).optional(),
+  git_backend: GitBackendKindSchema.optional(),
+  run_tests: z.boolean().optional(),
 });
 
 export type MCPGenerateCodeRequest = z.infer<typeof MCPGenerateCodeRequestSchema>;
@@ -27,6 +35,93 @@ export const MCPGenerateCodeResponseSchema = z.object({
 
 export type MCPGenerateCodeResponse = z.infer<typeof MCPGenerateCodeResponseSchema>;
 
+export const MCPHandleReviewRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr_number: z.number().int().positive('PR number must be positive'),
+  jobId: z.string().min(1, 'Job ID is required'),
+  review: z.object({
+    id: z.number().optional(),
+    user: z.object({
+      login: z.string().min(1, 'Reviewer login is required'),
+    }),
+    state: z.string(),
+    body: z.string().nullable().default(''),
+    submitted_at: z.string().optional(),
+  }),
+  max_repair_rounds: z.number().int().min(0).max(10).optional(),
+  git_backend: GitBackendKindSchema.optional(),
+  run_tests: z.boolean().optional(),
+});
+
+export type MCPHandleReviewRequest = z.infer<typeof MCPHandleReviewRequestSchema>;
+
+export const MCPHandleReviewResponseSchema = z.object({
+  success: z.boolean(),
+  jobId: z.string(),
+  pr_number: z.number().optional(),
+  commit_sha: z.string().optional(),
+  threads_answered: z.number().optional(),
+  error: z.string().optional(),
+  details: z.string().optional(),
+});
+
+export type MCPHandleReviewResponse = z.infer<typeof MCPHandleReviewResponseSchema>;
+
+export const MCPCancelJobRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  jobId: z.string().min(1).optional(),
+  issue_number: z.number().int().positive('Issue number must be positive').optional(),
+  requested_by: z.string().min(1, 'Requested by is required'),
+}).refine(data => data.jobId || data.issue_number, {
+  message: 'Either jobId or issue_number is required',
+  path: ['jobId'],
+});
+
+export type MCPCancelJobRequest = z.infer<typeof MCPCancelJobRequestSchema>;
+
+export const MCPRetryJobRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  jobId: z.string().min(1, 'Job ID is required'),
+  requested_by: z.string().min(1, 'Requested by is required'),
+});
+
+export type MCPRetryJobRequest = z.infer<typeof MCPRetryJobRequestSchema>;
+
+export const MCPEnqueueJobRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  issue_number: z.number().int().positive('Issue number must be positive'),
+  requested_by: z.string().min(1, 'Requested by is required'),
+  related_files: z.array(z.string()).optional(),
+  /** Slack channel to post threaded progress updates in */
+  slack_channel: z.string().optional(),
+  /** Workspace the channel is in, whose bot token posts the updates */
+  slack_team: z.string().optional(),
+});
+
+export type MCPEnqueueJobRequest = z.infer<typeof MCPEnqueueJobRequestSchema>;
+
+export const MCPCancelJobResponseSchema = z.object({
+  success: z.boolean(),
+  cancelled: z.array(z.string()).optional(),
+  error: z.string().optional(),
+  details: z.string().optional(),
+});
+
+export type MCPCancelJobResponse = z.infer<typeof MCPCancelJobResponseSchema>;
+
+export const MCPRetryJobResponseSchema = z.object({
+  success: z.boolean(),
+  jobId: z.string().optional(),
+  error: z.string().optional(),
+  details: z.string().optional(),
+});
+
+export type MCPRetryJobResponse = z.infer<typeof MCPRetryJobResponseSchema>;
+
 // ============================================================================
 // File Change Schemas
 // ============================================================================
@@ -40,6 +135,22 @@ export const FileChangeSchema = z.object({
 
 export type FileChange = z.infer<typeof FileChangeSchema>;
 
+export const FilePatchSchema = z.object({
+  path: z.string(),
+  diff: z.string(),
+  summary: z.string().optional(),
+});
+
+export type FilePatch = z.infer<typeof FilePatchSchema>;
+
+export const RejectedHunkSchema = z.object({
+  path: z.string(),
+  header: z.string(),
+  reason: z.string(),
+});
+
+export type RejectedHunk = z.infer<typeof RejectedHunkSchema>;
+
 export const FileChunkSchema = z.object({
   snippet: z.string(),
   startLine: z.number(),
@@ -49,6 +160,32 @@ export const FileChunkSchema = z.object({
 
 export type FileChunk = z.infer<typeof FileChunkSchema>;
 
+/**
+ * The ranking signals behind a selected file, each from 0 to 1
+ */
+export const FileSelectionSignalsSchema = z.object({
+  mentioned: z.boolean(),
+  /** Similarity of the file's closest code chunk to the issue, relative to the closest file */
+  semantic: z.number(),
+  /** 1 if the file imports or is imported by an anchor file */
+  imports: z.number(),
+  /** Share of an anchor's recent commits that also changed the file */
+  co_change: z.number(),
+  /** Issue keywords in the file path, relative to the best path match */
+  keywords: z.number(),
+});
+
+export type FileSelectionSignals = z.infer<typeof FileSelectionSignalsSchema>;
+
+export const SelectedFileSchema = z.object({
+  path: z.string(),
+  score: z.number(),
+  signals: FileSelectionSignalsSchema,
+  reasons: z.array(z.string()),
+});
+
+export type SelectedFile = z.infer<typeof SelectedFileSchema>;
+
 // ============================================================================
 // GitHub API Schemas
 // ============================================================================
@@ -63,6 +200,7 @@ export const GitHubUserSchema = z.object({
 export type GitHubUser = z.infer<typeof GitHubUserSchema>;
 
 export const GitHubIssueSchema = z.object({
+  id: z.number(),
   number: z.number(),
   title: z.string(),
   body: z.string().nullable(),
@@ -128,6 +266,14 @@ export const GitHubPullRequestSchema = z.object({
   body: z.string().nullable(),
   state: z.enum(['open', 'closed']),
   draft: z.boolean(),
+  head: z.object({
+    ref: z.string(),
+    sha: z.string(),
+  }).optional(),
+  base: z.object({
+    ref: z.string(),
+    sha: z.string(),
+  }).optional(),
 });
 
 export type GitHubPullRequest = z.infer<typeof GitHubPullRequestSchema>;
@@ -154,11 +300,66 @@ export type GitHubFileContent = z.infer<typeof GitHubFileContentSchema>;
 // Validation Schemas
 // ============================================================================
 
+export const TestRunResultSchema = z.object({
+  command: z.string(),
+  passed: z.boolean(),
+  failing: z.array(z.string()),
+  duration_ms: z.number(),
+  timed_out: z.boolean().optional(),
+  /** Last lines of output, for failures that name no tests */
+  output: z.string().optional(),
+});
+
+export type TestRunResult = z.infer<typeof TestRunResultSchema>;
+
+export const DiagnosticSeveritySchema = z.enum(['error', 'warning']);
+
+export type DiagnosticSeverity = z.infer<typeof DiagnosticSeveritySchema>;
+
+export const ValidationDiagnosticSchema = z.object({
+  file: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional(),
+  /** Checker-specific code, e.g. 'TS2322' or 'parse-error' */
+  code: z.string(),
+  message: z.string(),
+  /** Only errors fail validation; warnings are reported alongside */
+  severity: DiagnosticSeveritySchema,
+  /** Checker that reported it, e.g. 'typescript', 'json' or 'yaml' */
+  source: z.string(),
+});
+
+export type ValidationDiagnostic = z.infer<typeof ValidationDiagnosticSchema>;
+
+export const DiagnosticFilterSchema = z.object({
+  /** Diagnostic code to match, e.g. 'TS2307' */
+  code: z.string().min(1),
+  /** Regular expression the message must also match */
+  pattern: z.string().optional(),
+  /** Drop matching diagnostics, or keep them as warnings */
+  action: z.enum(['ignore', 'warn']).default('ignore'),
+});
+
+export type DiagnosticFilter = z.infer<typeof DiagnosticFilterSchema>;
+
+/**
+ * Per-repository validation settings, stored as `mcp_validation` on the
+ * repository document
+ */
+export const MCPValidationSettingsSchema = z.object({
+  /** Replaces the default filters for isolated TypeScript validation */
+  diagnostic_filters: z.array(DiagnosticFilterSchema).optional(),
+});
+
+export type MCPValidationSettings = z.infer<typeof MCPValidationSettingsSchema>;
+
 export const ValidationResultSchema = z.object({
   valid: z.boolean(),
   errors: z.array(z.string()),
   warnings: z.array(z.string()).optional(),
   tempDir: z.string().optional(),
+  tests: TestRunResultSchema.optional(),
+  diagnostics: z.array(ValidationDiagnosticSchema).optional(),
 });
 
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
@@ -174,12 +375,15 @@ export const AICodeGenerationInputSchema = z.object({
     path: z.string(),
     chunks: z.array(FileChunkSchema),
   })),
+  mode: z.enum(['full', 'patch']).optional(),
+  validationErrors: z.array(z.string()).optional(),
 });
 
 export type AICodeGenerationInput = z.infer<typeof AICodeGenerationInputSchema>;
 
 export const AICodeGenerationOutputSchema = z.object({
   changes: z.array(FileChangeSchema),
+  patches: z.array(FilePatchSchema).optional(),
   overallSummary: z.string(),
 });
 
@@ -189,23 +393,78 @@ export type AICodeGenerationOutput = z.infer<typeof AICodeGenerationOutputSchema
 // Firestore Schemas
 // ============================================================================
 
+export const MCPJobStageSchema = z.enum([
+  'file_selection',
+  'chunking',
+  'generation',
+  'validation',
+  'commit',
+  'pr',
+]);
+
+export type MCPJobStage = z.infer<typeof MCPJobStageSchema>;
+
 export const MCPLogSchema = z.object({
   message: z.string(),
   requested_by: z.string(),
   timestamp: z.number(),
   issue_number: z.number().optional(),
   error: z.string().optional(),
+  jobId: z.string().optional(),
+  stage: MCPJobStageSchema.optional(),
+  level: z.enum(['info', 'warn', 'error']).optional(),
 });
 
 export type MCPLog = z.infer<typeof MCPLogSchema>;
 
+export const MCPAttemptSchema = z.object({
+  round: z.number(),
+  source: z.enum(['generation', 'review']).optional(),
+  mode: z.enum(['full', 'patch']),
+  valid: z.boolean(),
+  errors: z.array(z.string()),
+  diff: z.string(),
+  tests: TestRunResultSchema.pick({ command: true, passed: true, failing: true }).optional(),
+  diagnostics: z.array(ValidationDiagnosticSchema).optional(),
+  created_at: z.number(),
+});
+
+export type MCPAttempt = z.infer<typeof MCPAttemptSchema>;
+
+export const MCPReviewRoundSchema = z.object({
+  review_id: z.number().optional(),
+  reviewer: z.string(),
+  commit_sha: z.string().optional(),
+  threads: z.number(),
+  validated: z.boolean(),
+  created_at: z.number(),
+});
+
+export type MCPReviewRound = z.infer<typeof MCPReviewRoundSchema>;
+
 export const MCPJobSchema = z.object({
   jobId: z.string(),
-  status: z.enum(['pending', 'processing', 'review', 'completed', 'failed']),
+  status: z.enum(['pending', 'processing', 'review', 'completed', 'failed', 'dead_letter', 'cancelled']),
+  /** GitHub login of whoever asked for the job; a Firebase uid for jobs queued by the callable */
+  requested_by: z.string().optional(),
   pr_url: z.string().optional(),
   pr_number: z.number().optional(),
   branch: z.string().optional(),
+  stage: MCPJobStageSchema.optional(),
+  selected_files: z.array(z.string()).optional(),
+  /** Why each selected file was chosen, for reviewers */
+  file_selection: z.array(SelectedFileSchema).optional(),
+  git_backend: GitBackendKindSchema.optional(),
   validated: z.boolean().optional(),
+  rejected_hunks: z.array(RejectedHunkSchema).optional(),
+  attempts: z.array(MCPAttemptSchema).optional(),
+  review_rounds: z.array(MCPReviewRoundSchema).optional(),
+  cancelled_by: z.string().optional(),
+  cancelled_at: z.number().optional(),
+  /** Slack channel to notify when the job finishes, and the thread to reply in */
+  slack_channel: z.string().optional(),
+  slack_thread_ts: z.string().optional(),
+  slack_team: z.string().optional(),
   created_at: z.number(),
   updated_at: z.number(),
   error: z.string().optional(),
@@ -220,7 +479,7 @@ export type MCPJob = z.infer<typeof MCPJobSchema>;
 export class MCPError extends Error {
   constructor(
     message: string,
-    public code: 'NOT_ASSIGNEE' | 'VALIDATION_FAILED' | 'GITHUB_ERROR' | 'AI_ERROR' | 'RATE_LIMIT' | 'INTERNAL_ERROR',
+    public code: 'NOT_ASSIGNEE' | 'VALIDATION_FAILED' | 'GITHUB_ERROR' | 'AI_ERROR' | 'RATE_LIMIT' | 'PATCH_FAILED' | 'JOB_NOT_FOUND' | 'INVALID_STATE' | 'CANCELLED' | 'GIT_ERROR' | 'FORBIDDEN' | 'INTERNAL_ERROR',
     public statusCode: number = 500,
     public details?: unknown
   ) {
@@ -253,6 +512,44 @@ export class ValidationError extends MCPError {
   }
 }
 
+export class PatchApplyError extends MCPError {
+  constructor(rejected: RejectedHunk[]) {
+    super(
+      `Generated patch could not be applied: ${rejected.map(r => `${r.path} (${r.reason})`).join('; ')}`,
+      'PATCH_FAILED',
+      422,
+      { rejected }
+    );
+    this.name = 'PatchApplyError';
+  }
+}
+
+export class JobNotFoundError extends MCPError {
+  constructor(message: string) {
+    super(message, 'JOB_NOT_FOUND', 404);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class NotJobOwnerError extends MCPError {
+  constructor(requestedBy: string, jobIds: string[]) {
+    super(
+      `${requestedBy} did not request ${jobIds.join(', ')} and does not have write access to the repository`,
+      'FORBIDDEN',
+      403,
+      { requestedBy, jobIds }
+    );
+    this.name = 'NotJobOwnerError';
+  }
+}
+
+export class JobCancelledError extends MCPError {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`, 'CANCELLED', 409, { jobId });
+    this.name = 'JobCancelledError';
+  }
+}
+
 export class GitHubAPIError extends MCPError {
   constructor(message: string, statusCode: number, details?: unknown) {
     super(message, 'GITHUB_ERROR', statusCode, details);
@@ -260,6 +557,13 @@ export class GitHubAPIError extends MCPError {
   }
 }
 
+export class GitCommandError extends MCPError {
+  constructor(command: string, output: string) {
+    super(`git ${command} failed: ${output}`, 'GIT_ERROR', 500, { command });
+    this.name = 'GitCommandError';
+  }
+}
+
 export class RateLimitError extends MCPError {
   constructor(resetTime: number) {
     super(
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// ============================================================================
+// Memory Entries
+// ============================================================================
+
+export type MemorySourceKind = 'message' | 'issue' | 'readme' | 'code';
+
+/**
+ * Something /ask can answer from and cite: a chat message, a GitHub issue,
+ * a section of the README or a chunk of source code
+ */
+export interface MemorySource {
+  kind: MemorySourceKind;
+  /** Message ID, issue-{number}, readme-{chunk} or {path}:{startLine}-{endLine} */
+  id: string;
+  /** How the source is cited, e.g. "#42 Login fails", "alice, 2025-01-31" or "src/app.ts:10-42" */
+  label: string;
+  url: string | null;
+  text: string;
+}
+
+/**
+ * A source with its embedding. Channel messages are stored on
+ * repos/{repoId}/channels/{channelId}/memory/{id}; the README and issues,
+ * shared by every channel, on repos/{repoId}/memory/{id}.
+ */
+export interface MemoryEntry extends MemorySource {
+  /** Embedding provider ID; entries are only compared within one provider */
+  provider: string;
+  embedding: number[];
+  indexed_at?: unknown;
+}
+
+export interface MemoryMatch extends MemorySource {
+  score: number;
+}
+
+// ============================================================================
+// Code Index
+// ============================================================================
+
+/**
+ * An embedded chunk of a file, on repos/{repoId}/code_chunks/{blobSha}-{chunk}.
+ * Chunks are keyed by the git blob, so a file unchanged between commits is
+ * never embedded twice; its path comes from the commit's CodeIndex.
+ */
+export interface CodeChunkEntry {
+  blob_sha: string;
+  chunk: number;
+  /** 1-based, inclusive line range of the chunk in the file */
+  start_line: number;
+  end_line: number;
+  text: string;
+  provider: string;
+  embedding: number[];
+  indexed_at?: unknown;
+}
+
+export interface CodeIndexFile {
+  path: string;
+  blob_sha: string;
+  chunks: number;
+}
+
+/**
+ * The files indexed at one commit, on repos/{repoId}/code_index/{commitSha}
+ */
+export interface CodeIndex {
+  commit_sha: string;
+  provider: string;
+  files: CodeIndexFile[];
+  /** Whether files were left out to stay within the indexing limits */
+  truncated: boolean;
+  indexed_at?: unknown;
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+export const ChannelMemoryIndexRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  channelId: z.string().min(1, 'Channel ID is required'),
+});
+
+export type ChannelMemoryIndexRequest = z.infer<typeof ChannelMemoryIndexRequestSchema>;
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * What GitPulse does when a PR it verified as resolving an issue is merged,
+ * stored as resolution_policy on repos/{repoId}:
+ * - auto: close the issue, move its card to Done and credit the claimer
+ * - confirm: ask in the channel first
+ * - off: nothing beyond the merge notification
+ */
+export const ResolutionPolicySchema = z.enum(['auto', 'confirm', 'off']);
+
+export type ResolutionPolicy = z.infer<typeof ResolutionPolicySchema>;
+
+export const DEFAULT_RESOLUTION_POLICY: ResolutionPolicy = 'confirm';
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+export type ResolutionClaimStatus =
+  | 'pending'
+  | 'awaiting_confirmation'
+  | 'resolved'
+  | 'dismissed'
+  | 'unverified'
+  | 'skipped';
+
+/**
+ * A chat user's claim that a PR resolves an issue, recorded when the match
+ * was verified with high confidence. Stored on
+ * repos/{repoId}/resolution_claims/{prNumber} and acted on when the PR merges.
+ */
+export interface ResolutionClaim {
+  pr_number: number;
+  pr_url: string;
+  issue_number: number;
+  /** Head SHA the match was verified at; a merge at another SHA is re-verified */
+  head_sha: string;
+  match_reason: string;
+  /** Display name of the chat user who claimed the fix */
+  claimed_by: string;
+  claimed_by_uid: string;
+  /** Web chat channel the claim was made in */
+  channel_id: string;
+  status: ResolutionClaimStatus;
+  /** GitHub login that merged the PR, set once it merges */
+  merged_by?: string;
+  created_at?: unknown;
+  /** Who confirmed or dismissed it, under the confirm policy */
+  decided_by?: string;
+  resolved_at?: unknown;
+}
+
+/**
+ * High-confidence matches the web chat found for a numbered issue. The server
+ * matches each PR again before it records a claim.
+ */
+export const ResolutionClaimRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  channel_id: z.string().min(1, 'Channel ID is required'),
+  issue_number: z.number().int().positive('Issue number must be positive'),
+  pr_numbers: z.array(z.number().int().positive('PR number must be positive'))
+    .min(1, 'At least one PR number is required')
+    .max(10, 'At most 10 PRs can be claimed at once'),
+});
+
+export type ResolutionClaimRequest = z.infer<typeof ResolutionClaimRequestSchema>;
+
+export interface ResolutionClaimResponse {
+  success: boolean;
+  /** PRs whose claims were recorded; the rest didn't match again or were already acted on */
+  recorded?: number[];
+  error?: string;
+  details?: string;
+}
+
+export const ResolutionDecisionRequestSchema = z.object({
+  owner: z.string().min(1, 'Owner is required'),
+  repo: z.string().min(1, 'Repository name is required'),
+  pr_number: z.number().int().positive('PR number must be positive'),
+  decision: z.enum(['confirm', 'dismiss']),
+  decided_by: z.string().min(1, 'Decided by is required'),
+});
+
+export type ResolutionDecisionRequest = z.infer<typeof ResolutionDecisionRequestSchema>;
+
+export interface ResolutionDecisionResponse {
+  success: boolean;
+  status?: ResolutionClaimStatus;
+  error?: string;
+  details?: string;
+}
+
+// ============================================================================
+// Kanban
+// ============================================================================
+
+/**
+ * A server-side move of a Kanban card, stored on repos/{repoId}/kanban/{cardId}.
+ * Card IDs are the board's: gh-{githubIssueId}, or the chat message ID for
+ * issues the AI suggested.
+ */
+export interface KanbanCardOverride {
+  column: 'todo' | 'in_progress' | 'done';
+  issue_number: number;
+  reason: string;
+  updated_at?: unknown;
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+// ============================================================================
+// Installations
+// ============================================================================
+
+/**
+ * A workspace's install of the Slack app, stored on
+ * slack_installations/{teamId}. Server-only, since it holds the bot token.
+ */
+export interface SlackInstallation {
+  team_id: string;
+  team_name: string | null;
+  enterprise_id: string | null;
+  app_id: string;
+  bot_user_id: string;
+  /** Cleared when the app is uninstalled or its tokens are revoked */
+  bot_token: string | null;
+  scope: string;
+  /** Slack user who installed the app */
+  installed_by: string;
+  installed_at?: unknown;
+  revoked_at?: unknown;
+}
+
+// ============================================================================
+// Integration Settings
+// ============================================================================
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM');
+
+export const SlackQuietHoursSchema = z.object({
+  start: TimeOfDaySchema,
+  end: TimeOfDaySchema,
+  /** IANA time zone, e.g. Europe/Berlin */
+  timezone: z.string().default('UTC'),
+});
+
+export type SlackQuietHours = z.infer<typeof SlackQuietHoursSchema>;
+
+/**
+ * Settings stored on slack_workspaces/{teamId}, and as per-channel overrides
+ * on slack_workspaces/{teamId}/channels/{channelId}. Unset fields inherit.
+ */
+export const SlackSettingsSchema = z.object({
+  /** Analyze messages for issues */
+  enabled: z.boolean().optional(),
+  /** Minimum detection confidence, 0-1, before suggesting an issue */
+  confidence_threshold: z.number().min(0).max(1).optional(),
+  /** owner/repo that detected issues are filed in */
+  target_repository: z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'Use owner/repo').nullable().optional(),
+  /** No suggestions are posted during quiet hours */
+  quiet_hours: SlackQuietHoursSchema.nullable().optional(),
+  /** Slack user IDs the bot listens to; empty means everyone */
+  allowed_users: z.array(z.string()).optional(),
+});
+
+export type SlackSettings = z.infer<typeof SlackSettingsSchema>;
+
+/**
+ * A dashboard change to a workspace's settings, or to one channel's override.
+ * Null settings remove the channel's override.
+ */
+export const SlackSettingsUpdateRequestSchema = z.object({
+  team_id: z.string().min(1, 'Team ID is required'),
+  channel_id: z.string().min(1).optional(),
+  settings: SlackSettingsSchema.nullable(),
+}).refine(data => data.settings !== null || data.channel_id, {
+  message: 'Workspace settings cannot be removed',
+  path: ['settings'],
+});
+
+export type SlackSettingsUpdateRequest = z.infer<typeof SlackSettingsUpdateRequestSchema>;
+
+export interface SlackSettingsUpdateResponse {
+  success: boolean;
+  error?: string;
+  details?: string;
+}
+
+export interface ResolvedSlackSettings {
+  enabled: boolean;
+  confidence_threshold: number;
+  target_repository: string | null;
+  quiet_hours: SlackQuietHours | null;
+  allowed_users: string[];
+}
+
+// ============================================================================
+// Issue Threads
+// ============================================================================
+
+/**
+ * Where in Slack an issue was created. Without a thread, GitPulse starts one
+ * with an announcement in the channel.
+ */
+export interface SlackIssueOrigin {
+  team_id: string | null;
+  channel_id: string;
+  /** Slack user who created the issue */
+  user_id: string;
+  thread_ts?: string;
+  /** Mirror every thread reply to the issue, not only ones sent on purpose */
+  mirror_replies?: boolean;
+}
+
+/**
+ * A GitHub issue linked to the Slack thread it came from, stored on
+ * slack_issue_threads/{channelId}-{threadTs}. GitHub comments are posted in
+ * the thread, and thread replies go back to the issue as comments.
+ */
+export interface SlackIssueThread {
+  team_id: string | null;
+  channel_id: string;
+  thread_ts: string;
+  /** owner/repo */
+  repository: string;
+  issue_number: number;
+  issue_url: string;
+  /** Lower-case owner/repo#number, for lookups from GitHub webhooks */
+  issue_key: string;
+  mirror_replies: boolean;
+  created_by: string;
+  created_at?: unknown;
+}